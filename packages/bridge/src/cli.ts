@@ -0,0 +1,63 @@
+#!/usr/bin/env node
+
+import { program } from 'commander';
+import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
+import { createTabRelay } from './relay.js';
+import { createBridgeServer, BRIDGE_VERSION } from './mcp-server.js';
+import { listenHttp, MCP_PATH } from './http.js';
+import { DEFAULT_HTTP_PORT, DEFAULT_PAGE_PORT } from './protocol.js';
+
+interface BridgeOptions {
+  port: string;
+  http?: string | true;
+  origin?: string[];
+}
+
+// stdout carries the stdio transport — everything else goes to stderr
+const log = (message: string) => process.stderr.write(`[webmcp-bridge] ${message}\n`);
+
+program
+  .name('webmcp-bridge')
+  .description('Expose the WebMCP tools of open browser tabs to local MCP clients')
+  .version(BRIDGE_VERSION)
+  .option('--port <port>', 'Port pages connect to over WebSocket', String(DEFAULT_PAGE_PORT))
+  .option('--http [port]', `Serve streamable HTTP at ${MCP_PATH} instead of stdio (default port: ${DEFAULT_HTTP_PORT})`)
+  .option('--origin <origins...>', 'Page origins allowed to connect, or "*" (default: localhost)')
+  .action(async (options: BridgeOptions) => {
+    const relay = await createTabRelay({ port: Number(options.port), allowedOrigins: options.origin });
+    log(`Waiting for pages on ws://127.0.0.1:${relay.port}`);
+    relay.onToolsChanged(() => {
+      const tabs = relay.tabs().map(tab => `${tab.id} (${tab.title || tab.url || 'untitled'})`);
+      log(`Connected tabs: ${tabs.join(', ') || 'none'}`);
+    });
+
+    let shutdown: () => Promise<void>;
+    if (options.http) {
+      const http = await listenHttp(relay, {
+        port: options.http === true ? DEFAULT_HTTP_PORT : Number(options.http),
+      });
+      log(`MCP endpoint: http://127.0.0.1:${http.port}${MCP_PATH}`);
+      shutdown = async () => {
+        await http.close();
+        await relay.close();
+      };
+    } else {
+      const server = createBridgeServer(relay);
+      await server.connect(new StdioServerTransport());
+      shutdown = async () => {
+        await server.close();
+        await relay.close();
+      };
+      // The client closing our stdin ends the session
+      process.stdin.on('close', () => void shutdown().then(() => process.exit(0)));
+    }
+
+    for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+      process.on(signal, () => void shutdown().then(() => process.exit(0)));
+    }
+  });
+
+program.parseAsync().catch((err) => {
+  log((err as Error).message);
+  process.exit(1);
+});
@@ -0,0 +1,86 @@
+// ────────────────────────────────────────────────────────────
+// Streamable HTTP transport — POST/GET/DELETE on /mcp, one
+// MCP session (and server instance) per `mcp-session-id`.
+// ────────────────────────────────────────────────────────────
+
+import { createServer, type IncomingMessage, type ServerResponse } from 'node:http';
+import { once } from 'node:events';
+import { randomUUID } from 'node:crypto';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import { createBridgeServer } from './mcp-server.js';
+import { isLocalHostname, type TabRelay } from './relay.js';
+import { DEFAULT_HTTP_PORT } from './protocol.js';
+
+export const MCP_PATH = '/mcp';
+
+export interface HttpListenOptions {
+  /** Default 7341; 0 picks a free port */
+  port?: number;
+  /** Default 127.0.0.1 */
+  host?: string;
+}
+
+export interface HttpListener {
+  readonly port: number;
+  close(): Promise<void>;
+}
+
+/** Serve the bridge to MCP clients at `http://<host>:<port>/mcp` */
+export async function listenHttp(relay: TabRelay, options: HttpListenOptions = {}): Promise<HttpListener> {
+  const sessions = new Map<string, StreamableHTTPServerTransport>();
+
+  async function handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+    const url = new URL(req.url ?? '/', 'http://localhost');
+    if (url.pathname !== MCP_PATH) {
+      return reply(res, 404, 'Not found');
+    }
+    // DNS rebinding: a remote page must not reach the bridge through a hostname it controls
+    if (!isLocalHostname(new URL(`http://${req.headers.host ?? ''}`).hostname)) {
+      return reply(res, 403, 'Forbidden host');
+    }
+
+    const sessionId = req.headers['mcp-session-id'];
+    let transport = typeof sessionId === 'string' ? sessions.get(sessionId) : undefined;
+    if (!transport) {
+      if (sessionId) return reply(res, 404, 'Unknown session');
+      if (req.method !== 'POST') return reply(res, 400, 'Start a session with an initialize request');
+
+      const created = new StreamableHTTPServerTransport({
+        sessionIdGenerator: () => randomUUID(),
+        onsessioninitialized: (id) => { sessions.set(id, created); },
+      });
+      created.onclose = () => {
+        if (created.sessionId) sessions.delete(created.sessionId);
+      };
+      await createBridgeServer(relay).connect(created);
+      transport = created;
+    }
+
+    await transport.handleRequest(req, res);
+  }
+
+  const server = createServer((req, res) => {
+    handle(req, res).catch((err) => {
+      if (!res.headersSent) reply(res, 500, (err as Error).message);
+    });
+  });
+  server.listen(options.port ?? DEFAULT_HTTP_PORT, options.host ?? '127.0.0.1');
+  await once(server, 'listening');
+
+  return {
+    get port() {
+      const address = server.address();
+      return typeof address === 'object' && address ? address.port : options.port ?? DEFAULT_HTTP_PORT;
+    },
+
+    async close(): Promise<void> {
+      await Promise.all(Array.from(sessions.values(), transport => transport.close()));
+      server.closeAllConnections();
+      await new Promise<void>((resolve, reject) => server.close(err => (err ? reject(err) : resolve())));
+    },
+  };
+}
+
+function reply(res: ServerResponse, status: number, message: string): void {
+  res.writeHead(status, { 'content-type': 'text/plain' }).end(message);
+}
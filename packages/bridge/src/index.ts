@@ -0,0 +1,18 @@
+// ────────────────────────────────────────────────────────────
+// webmcp-instrument-bridge — Local MCP server for page tools
+// ────────────────────────────────────────────────────────────
+// Pages running webmcp-instrument-runtime call connectBridge() and
+// appear here as tabs; their tools are served over stdio or
+// streamable HTTP to any local MCP client.
+// ────────────────────────────────────────────────────────────
+
+export { createTabRelay, TAB_SEPARATOR, type Tab, type TabRelay, type TabRelayOptions } from './relay.js';
+export { createBridgeServer, BRIDGE_VERSION } from './mcp-server.js';
+export { listenHttp, MCP_PATH, type HttpListener, type HttpListenOptions } from './http.js';
+export {
+  DEFAULT_PAGE_PORT,
+  DEFAULT_HTTP_PORT,
+  type PageTool,
+  type PageMessage,
+  type BridgeMessage,
+} from './protocol.js';
@@ -0,0 +1,34 @@
+// ────────────────────────────────────────────────────────────
+// MCP server over the tab relay — one instance per client
+// connection (stdio, or each streamable HTTP session).
+// ────────────────────────────────────────────────────────────
+
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import { CallToolRequestSchema, ListToolsRequestSchema } from '@modelcontextprotocol/sdk/types.js';
+import type { TabRelay } from './relay.js';
+
+export const BRIDGE_VERSION = '0.1.0';
+
+/**
+ * Answer tools/list and tools/call from the connected tabs, and tell the
+ * client when a tab connects, disconnects or changes its tools.
+ */
+export function createBridgeServer(relay: TabRelay): Server {
+  const server = new Server(
+    { name: 'webmcp-bridge', version: BRIDGE_VERSION },
+    { capabilities: { tools: { listChanged: true } } },
+  );
+
+  server.setRequestHandler(ListToolsRequestSchema, async () => ({ tools: await relay.listTools() }));
+  server.setRequestHandler(CallToolRequestSchema, async (request) =>
+    relay.callTool(request.params.name, request.params.arguments ?? {}),
+  );
+
+  const stopListening = relay.onToolsChanged(() => {
+    // Not connected yet (or already gone): the client lists tools on connect anyway
+    server.sendToolListChanged().catch(() => {});
+  });
+  server.onclose = stopListening;
+
+  return server;
+}
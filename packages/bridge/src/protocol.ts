@@ -0,0 +1,50 @@
+// ────────────────────────────────────────────────────────────
+// Page ↔ bridge messages — JSON over WebSocket, spoken by
+// connectBridge() in webmcp-instrument-runtime.
+// ────────────────────────────────────────────────────────────
+
+/** Port pages connect to (`ws://127.0.0.1:7340`) */
+export const DEFAULT_PAGE_PORT = 7340;
+
+/** Port of the streamable HTTP MCP endpoint (`http://127.0.0.1:7341/mcp`) */
+export const DEFAULT_HTTP_PORT = 7341;
+
+/** A tool as `window.mcp.getTools()` describes it, minus the handler */
+export interface PageTool {
+  name: string;
+  description: string;
+  inputSchema: { type: 'object'; properties?: Record<string, object>; required?: string[] };
+  outputSchema?: { type: 'object'; properties?: Record<string, object>; required?: string[] };
+  /** 'safe' | 'caution' | 'destructive', from the engine's classifier */
+  risk?: string;
+  annotations?: Record<string, unknown>;
+}
+
+/** Sent by the page */
+export type PageMessage =
+  | { type: 'hello'; url?: string; title?: string }
+  /** A tool was registered or unregistered */
+  | { type: 'tools-changed' }
+  | { type: 'result'; id: number; result: unknown }
+  | { type: 'error'; id: number; message: string };
+
+/** Sent by the bridge; the page answers each with a `result` or `error` of the same id */
+export type BridgeMessage =
+  | { type: 'list'; id: number }
+  | { type: 'call'; id: number; name: string; params: Record<string, unknown> };
+
+export function parsePageMessage(data: string): PageMessage | undefined {
+  let message: unknown;
+  try {
+    message = JSON.parse(data);
+  } catch {
+    return undefined;
+  }
+  if (typeof message !== 'object' || message === null) return undefined;
+  const type = (message as { type?: unknown }).type;
+  if (type === 'hello' || type === 'tools-changed') return message as PageMessage;
+  if ((type === 'result' || type === 'error') && typeof (message as { id?: unknown }).id === 'number') {
+    return message as PageMessage;
+  }
+  return undefined;
+}
@@ -0,0 +1,218 @@
+// ────────────────────────────────────────────────────────────
+// Tab relay — accepts page connections over WebSocket and
+// forwards tools/list and tools/call to every connected tab.
+// Tools are namespaced per tab: `tab1__submit_contact_form`.
+// ────────────────────────────────────────────────────────────
+
+import { once } from 'node:events';
+import { WebSocketServer, type WebSocket } from 'ws';
+import { ErrorCode, McpError, type CallToolResult, type Tool } from '@modelcontextprotocol/sdk/types.js';
+import { DEFAULT_PAGE_PORT, parsePageMessage, type BridgeMessage, type PageTool } from './protocol.js';
+
+export const TAB_SEPARATOR = '__';
+
+export interface TabRelayOptions {
+  /** Default 7340; 0 picks a free port */
+  port?: number;
+  /** Default 127.0.0.1 — the bridge drives real UIs, keep it off the network */
+  host?: string;
+  /**
+   * Page origins allowed to connect, or `'*'`. Defaults to localhost
+   * origins; connections without an Origin header (non-browser) are allowed.
+   */
+  allowedOrigins?: string[];
+  /** How long a tab may take to list its tools. Default 5s */
+  listTimeoutMs?: number;
+  /** How long a call may run. Default 2 min — destructive tools wait for the user */
+  callTimeoutMs?: number;
+}
+
+export interface Tab {
+  id: string;
+  url?: string;
+  title?: string;
+}
+
+export interface TabRelay {
+  /** The port pages connect to */
+  readonly port: number;
+  tabs(): Tab[];
+  /** Every connected tab's tools, namespaced by tab */
+  listTools(): Promise<Tool[]>;
+  /** Run a namespaced tool in its tab. Unknown tools throw; failures are error results */
+  callTool(name: string, args: Record<string, unknown>): Promise<CallToolResult>;
+  /** Called when a tab connects, disconnects or changes its tools */
+  onToolsChanged(listener: () => void): () => void;
+  close(): Promise<void>;
+}
+
+interface Pending {
+  resolve: (value: unknown) => void;
+  reject: (error: Error) => void;
+  timer: ReturnType<typeof setTimeout>;
+}
+
+interface Connection {
+  tab: Tab;
+  socket: WebSocket;
+  pending: Map<number, Pending>;
+}
+
+const LOCAL_HOSTNAMES = new Set(['localhost', '127.0.0.1', '[::1]']);
+
+export function isLocalHostname(hostname: string): boolean {
+  return LOCAL_HOSTNAMES.has(hostname) || hostname.endsWith('.localhost');
+}
+
+function isAllowedOrigin(origin: string | undefined, allowed: string[] | undefined): boolean {
+  if (!origin) return true;
+  if (allowed) return allowed.includes('*') || allowed.includes(origin);
+  try {
+    return isLocalHostname(new URL(origin).hostname);
+  } catch {
+    return false;
+  }
+}
+
+/** Start listening for pages */
+export async function createTabRelay(options: TabRelayOptions = {}): Promise<TabRelay> {
+  const listTimeoutMs = options.listTimeoutMs ?? 5_000;
+  const callTimeoutMs = options.callTimeoutMs ?? 120_000;
+
+  const wss = new WebSocketServer({
+    host: options.host ?? '127.0.0.1',
+    port: options.port ?? DEFAULT_PAGE_PORT,
+    verifyClient: ({ origin }: { origin?: string }) => isAllowedOrigin(origin, options.allowedOrigins),
+  });
+  await once(wss, 'listening');
+
+  const connections = new Map<string, Connection>();
+  const listeners = new Set<() => void>();
+  let tabCount = 0;
+  let nextId = 0;
+
+  const notify = () => {
+    for (const listener of listeners) listener();
+  };
+
+  function request(connection: Connection, message: BridgeMessage, timeoutMs: number): Promise<unknown> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => {
+        connection.pending.delete(message.id);
+        reject(new Error(`${connection.tab.id} did not answer within ${timeoutMs}ms`));
+      }, timeoutMs);
+      connection.pending.set(message.id, { resolve, reject, timer });
+      connection.socket.send(JSON.stringify(message));
+    });
+  }
+
+  wss.on('connection', (socket) => {
+    const connection: Connection = { tab: { id: `tab${++tabCount}` }, socket, pending: new Map() };
+    connections.set(connection.tab.id, connection);
+
+    socket.on('message', (data) => {
+      const message = parsePageMessage(data.toString());
+      if (!message) return;
+      if (message.type === 'hello') {
+        connection.tab.url = typeof message.url === 'string' ? message.url : undefined;
+        connection.tab.title = typeof message.title === 'string' ? message.title : undefined;
+        notify();
+      } else if (message.type === 'tools-changed') {
+        notify();
+      } else {
+        const pending = connection.pending.get(message.id);
+        if (!pending) return;
+        connection.pending.delete(message.id);
+        clearTimeout(pending.timer);
+        if (message.type === 'result') pending.resolve(message.result);
+        else pending.reject(new Error(message.message));
+      }
+    });
+
+    socket.on('close', () => {
+      connections.delete(connection.tab.id);
+      for (const pending of connection.pending.values()) {
+        clearTimeout(pending.timer);
+        pending.reject(new Error(`${connection.tab.id} was closed`));
+      }
+      connection.pending.clear();
+      notify();
+    });
+  });
+
+  return {
+    get port() {
+      const address = wss.address();
+      return typeof address === 'object' && address ? address.port : options.port ?? DEFAULT_PAGE_PORT;
+    },
+
+    tabs(): Tab[] {
+      return Array.from(connections.values(), c => ({ ...c.tab }));
+    },
+
+    async listTools(): Promise<Tool[]> {
+      // A tab that does not answer drops out of this listing instead of failing it
+      const perTab = await Promise.all(Array.from(connections.values(), async (connection) => {
+        const tools = await request(connection, { type: 'list', id: ++nextId }, listTimeoutMs).catch(() => []);
+        return (Array.isArray(tools) ? tools : [])
+          .filter(isPageTool)
+          .map(tool => namespaceTool(connection.tab, tool));
+      }));
+      return perTab.flat();
+    },
+
+    async callTool(name: string, args: Record<string, unknown>): Promise<CallToolResult> {
+      const separator = name.indexOf(TAB_SEPARATOR);
+      const connection = separator === -1 ? undefined : connections.get(name.slice(0, separator));
+      if (!connection) {
+        throw new McpError(ErrorCode.InvalidParams, `Unknown tool "${name}" — its tab may have been closed`);
+      }
+
+      const toolName = name.slice(separator + TAB_SEPARATOR.length);
+      try {
+        const result = await request(connection, { type: 'call', id: ++nextId, name: toolName, params: args }, callTimeoutMs);
+        return toCallToolResult(result);
+      } catch (err) {
+        return { content: [{ type: 'text', text: (err as Error).message }], isError: true };
+      }
+    },
+
+    onToolsChanged(listener: () => void): () => void {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+
+    async close(): Promise<void> {
+      for (const { socket } of connections.values()) socket.terminate();
+      await new Promise<void>((resolve, reject) => wss.close(err => (err ? reject(err) : resolve())));
+    },
+  };
+}
+
+function isPageTool(value: unknown): value is PageTool {
+  const tool = value as PageTool;
+  return typeof tool === 'object' && tool !== null && typeof tool.name === 'string' && !!tool.name
+    && typeof tool.inputSchema === 'object' && tool.inputSchema !== null;
+}
+
+function namespaceTool(tab: Tab, tool: PageTool): Tool {
+  const where = tab.title || tab.url;
+  const namespaced: Tool = {
+    name: `${tab.id}${TAB_SEPARATOR}${tool.name}`,
+    description: `[${tab.id}${where ? `: ${where}` : ''}] ${tool.description ?? ''}`.trim(),
+    inputSchema: { ...tool.inputSchema, type: 'object' },
+  };
+  if (tool.outputSchema) namespaced.outputSchema = { ...tool.outputSchema, type: 'object' };
+  if (tool.annotations) namespaced.annotations = { ...tool.annotations, title: tool.name };
+  // MCP annotations have no caution level, so the classified risk travels in _meta
+  if (typeof tool.risk === 'string') namespaced._meta = { risk: tool.risk };
+  return namespaced;
+}
+
+/** Pages answer with content blocks; anything else is passed on as JSON text */
+function toCallToolResult(result: unknown): CallToolResult {
+  if (typeof result === 'object' && result !== null && Array.isArray((result as CallToolResult).content)) {
+    return result as CallToolResult;
+  }
+  return { content: [{ type: 'text', text: JSON.stringify(result) ?? 'null' }] };
+}
@@ -0,0 +1,137 @@
+import { describe, it, expect, beforeEach, afterEach } from 'vitest';
+import { once } from 'node:events';
+import { WebSocket } from 'ws';
+import { Client } from '@modelcontextprotocol/sdk/client/index.js';
+import { InMemoryTransport } from '@modelcontextprotocol/sdk/inMemory.js';
+import { StreamableHTTPClientTransport } from '@modelcontextprotocol/sdk/client/streamableHttp.js';
+import { ToolListChangedNotificationSchema } from '@modelcontextprotocol/sdk/types.js';
+import { createTabRelay, createBridgeServer, listenHttp, type TabRelay } from '../src/index.js';
+
+/** A page speaking the connectBridge() protocol with one `save` tool */
+async function openPage(port: number, title: string, headers: Record<string, string> = {}) {
+  const socket = new WebSocket(`ws://127.0.0.1:${port}`, { headers });
+  const calls: unknown[] = [];
+  socket.on('message', (data) => {
+    const message = JSON.parse(data.toString());
+    if (message.type === 'list') {
+      socket.send(JSON.stringify({
+        type: 'result',
+        id: message.id,
+        result: [{
+          name: 'save',
+          description: 'Save the profile',
+          inputSchema: { type: 'object', properties: { name: { type: 'string' } }, required: ['name'] },
+          risk: 'caution',
+          annotations: { readOnlyHint: false, destructiveHint: false },
+        }],
+      }));
+    } else if (message.type === 'call') {
+      calls.push(message.params);
+      socket.send(JSON.stringify(message.name === 'save'
+        ? { type: 'result', id: message.id, result: { content: [{ type: 'text', text: `Saved ${message.params.name}` }], isError: false } }
+        : { type: 'error', id: message.id, message: `Tool "${message.name}" not found` }));
+    }
+  });
+  await once(socket, 'open');
+  socket.send(JSON.stringify({ type: 'hello', url: 'http://localhost:5173/', title }));
+  return { socket, calls };
+}
+
+async function connectClient(relay: TabRelay) {
+  const [clientTransport, serverTransport] = InMemoryTransport.createLinkedPair();
+  await createBridgeServer(relay).connect(serverTransport);
+  const client = new Client({ name: 'test', version: '0.0.0' });
+  await client.connect(clientTransport);
+  return client;
+}
+
+const waitFor = async (check: () => boolean) => {
+  for (let i = 0; i < 100 && !check(); i++) await new Promise(r => setTimeout(r, 10));
+};
+
+describe('webmcp bridge', () => {
+  let relay: TabRelay;
+  const sockets: WebSocket[] = [];
+
+  beforeEach(async () => {
+    relay = await createTabRelay({ port: 0, listTimeoutMs: 500 });
+  });
+
+  afterEach(async () => {
+    for (const socket of sockets.splice(0)) socket.close();
+    await relay.close();
+  });
+
+  it('lists the tools of every tab, namespaced per tab', async () => {
+    sockets.push((await openPage(relay.port, 'Profile')).socket, (await openPage(relay.port, 'Settings')).socket);
+    await waitFor(() => relay.tabs().filter(t => t.title).length === 2);
+    const client = await connectClient(relay);
+
+    const { tools } = await client.listTools();
+    expect(tools.map(t => t.name).sort()).toEqual(['tab1__save', 'tab2__save']);
+    const first = tools.find(t => t.name === 'tab1__save')!;
+    expect(first.description).toBe('[tab1: Profile] Save the profile');
+    expect(first.inputSchema.required).toEqual(['name']);
+    expect(first.annotations).toMatchObject({ title: 'save', destructiveHint: false });
+    expect(first._meta).toEqual({ risk: 'caution' });
+  });
+
+  it('relays a call to the tab that owns the tool', async () => {
+    const page1 = await openPage(relay.port, 'Profile');
+    const page2 = await openPage(relay.port, 'Settings');
+    sockets.push(page1.socket, page2.socket);
+    const client = await connectClient(relay);
+
+    const result = await client.callTool({ name: 'tab2__save', arguments: { name: 'Ann' } });
+    expect(result).toMatchObject({ content: [{ type: 'text', text: 'Saved Ann' }], isError: false });
+    expect(page1.calls).toEqual([]);
+    expect(page2.calls).toEqual([{ name: 'Ann' }]);
+  });
+
+  it('reports page errors as error results and unknown tabs as protocol errors', async () => {
+    sockets.push((await openPage(relay.port, 'Profile')).socket);
+    const client = await connectClient(relay);
+
+    expect(await client.callTool({ name: 'tab1__missing', arguments: {} })).toMatchObject({
+      content: [{ type: 'text', text: 'Tool "missing" not found' }],
+      isError: true,
+    });
+    await expect(client.callTool({ name: 'tab9__save', arguments: {} })).rejects.toThrow('Unknown tool');
+  });
+
+  it('notifies clients when a tab connects or closes', async () => {
+    const client = await connectClient(relay);
+    let changes = 0;
+    client.setNotificationHandler(ToolListChangedNotificationSchema, () => { changes++; });
+
+    const page = await openPage(relay.port, 'Profile');
+    await waitFor(() => changes >= 1);
+    page.socket.close();
+    await waitFor(() => relay.tabs().length === 0);
+
+    expect(changes).toBeGreaterThanOrEqual(2);
+    expect((await client.listTools()).tools).toEqual([]);
+  });
+
+  it('refuses pages from non-local origins', async () => {
+    const socket = new WebSocket(`ws://127.0.0.1:${relay.port}`, { headers: { origin: 'https://evil.example' } });
+    const [error] = await once(socket, 'error');
+    expect((error as Error).message).toContain('401');
+  });
+
+  it('serves the same tools over streamable HTTP', async () => {
+    sockets.push((await openPage(relay.port, 'Profile', { origin: 'http://localhost:5173' })).socket);
+    const http = await listenHttp(relay, { port: 0 });
+    const client = new Client({ name: 'test', version: '0.0.0' });
+    await client.connect(new StreamableHTTPClientTransport(new URL(`http://127.0.0.1:${http.port}/mcp`)));
+
+    try {
+      expect((await client.listTools()).tools.map(t => t.name)).toEqual(['tab1__save']);
+      expect(await client.callTool({ name: 'tab1__save', arguments: { name: 'Bo' } }))
+        .toMatchObject({ content: [{ text: 'Saved Bo' }] });
+    } finally {
+      await client.close();
+      await http.close();
+    }
+  });
+});
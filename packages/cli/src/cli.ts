@@ -3,6 +3,8 @@
 import { program } from 'commander';
 import { instrumentCommand } from './commands/instrument.js';
 import { initCommand } from './commands/init.js';
+import { verifyCommand } from './commands/verify.js';
+import { scanCommand } from './commands/scan.js';
 
 program
   .name('webmcp')
@@ -12,7 +14,7 @@ program
 program
   .command('instrument')
   .description('Analyze a component file and generate MCP tool registrations')
-  .argument('<file>', 'Path to the component file (.tsx, .jsx, .html)')
+  .argument('<file>', 'Path to the component file (.tsx, .jsx, .html, .vue, .svelte, Angular .ts)')
   .option('-o, --output <path>', 'Output file path (default: <file>.mcp.js)')
   .option('--dry-run', 'Show proposed tools without generating code')
   .option('--yes', 'Accept all safe + caution tools without prompting')
@@ -22,12 +24,39 @@ program
   .option('--model <name>', 'Model name for the chosen LLM backend (e.g. gpt-4o, llama3, phi3)')
   .option('--format <format>', 'Output format: iife | esm | auto', 'auto')
   .option('--url <url>', 'Local dev server URL for the headless runtime probe', 'http://localhost:3000')
+  .option('--project [tsconfig]', 'Follow imports and inline child components (React); optionally the tsconfig to load')
   .action(instrumentCommand);
 
+program
+  .command('scan')
+  .description('Propose tools for every matching component and write them to one bundle or manifest')
+  .argument('[globs...]', 'Component globs relative to the current directory (default: the Vite plugin\'s)')
+  .option('--exclude <globs...>', 'Globs to skip (default: node_modules, .d.ts, tests and stories)')
+  .option('-o, --output <path>', 'Bundle to write; a .json path writes a manifest instead', 'webmcp-tools.mcp.js')
+  .option('--dry-run', 'Show proposed tools without writing anything')
+  .option('--all', 'Include destructive tools (use with caution)')
+  .option('--format <format>', 'Bundle format: iife | esm', 'iife')
+  .option('--concurrency <n>', 'Worker threads to parse with (default: one per spare core)')
+  .option('--record', 'Record new tools in webmcp.tools.json with their default selection')
+  .action(scanCommand);
+
 program
   .command('init')
   .description('Initialize WebMCP in the current project (creates .webmcprc.json)')
   .option('--force', 'Overwrite existing .webmcprc.json if present')
   .action(initCommand);
 
+program
+  .command('verify')
+  .description('Call each generated tool in a headless browser and check its selectors and result')
+  .argument('<files...>', 'Generated .mcp.js files to verify')
+  .option('--url <url>', 'Running dev server URL to verify against', 'http://localhost:3000')
+  .option('--report <path>', 'Write a report: .xml for JUnit, anything else for JSON')
+  .option('--report-format <format>', 'Report format regardless of extension: junit | json')
+  .option('--include-destructive', 'Also run destructive tools, approving their confirmation')
+  .option('--timeout <ms>', 'Per-tool timeout in milliseconds', '15000')
+  .option('--setup <script>', 'JavaScript to run after each page load (e.g. open a modal)')
+  .option('--headed', 'Show the browser while verifying')
+  .action(verifyCommand);
+
 program.parse();
@@ -17,7 +17,7 @@ const DEFAULT_CONFIG = `{
     "model": "gpt-4o-mini",
     "temperature": 0.1
   },
-  "specVersion": "0.1"
+  "specVersion": "2025-06-18"
 }
 `;
 
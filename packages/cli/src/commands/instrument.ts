@@ -1,5 +1,5 @@
 import { readFileSync, writeFileSync, existsSync } from 'node:fs';
-import { resolve, basename, extname } from 'node:path';
+import { resolve, basename, extname, dirname, relative, sep } from 'node:path';
 import chalk from 'chalk';
 import ora from 'ora';
 import { checkbox } from '@inquirer/prompts';
@@ -11,8 +11,18 @@ import {
   WebMCPError,
   formatError,
   loadConfig,
+  reviewRiskWithLLM,
+  findToolManifest,
+  loadToolManifest,
+  saveToolManifest,
+  applyToolManifest,
+  recordToolReviews,
+  isWebMCPError,
+  TOOL_MANIFEST_FILE,
   type OutputFormat,
   type ToolProposal,
+  type ToolManifest,
+  type WebMCPConfig,
 } from 'webmcp-instrument-engine';
 
 interface InstrumentOptions {
@@ -25,6 +35,7 @@ interface InstrumentOptions {
   model?: string;
   format?: string;
   url?: string;
+  project?: boolean | string;
 }
 
 const RISK_BADGE: Record<string, string> = {
@@ -34,6 +45,11 @@ const RISK_BADGE: Record<string, string> = {
   excluded: chalk.gray('[excluded]'),
 };
 
+const REVIEW_BADGE: Record<string, string> = {
+  unreviewed: chalk.magenta('[new]'),
+  rejected: chalk.gray('[rejected]'),
+};
+
 export async function instrumentCommand(
   file: string,
   options: InstrumentOptions,
@@ -48,9 +64,9 @@ export async function instrumentCommand(
   }
 
   const ext = extname(filePath).toLowerCase();
-  if (!['.tsx', '.jsx', '.html', '.htm'].includes(ext)) {
+  if (!['.tsx', '.jsx', '.ts', '.html', '.htm', '.vue', '.svelte'].includes(ext)) {
     console.error(chalk.red(`\n✖ Unsupported file type: ${ext} `));
-    console.error(chalk.gray('  Supported: .tsx, .jsx, .html\n'));
+    console.error(chalk.gray('  Supported: .tsx, .jsx, .html, .vue, .svelte, Angular .ts\n'));
     process.exit(1);
   }
 
@@ -72,7 +88,25 @@ export async function instrumentCommand(
     process.exit(1);
   }
 
-  const analysis = parseFile(source, basename(filePath));
+  // .webmcprc.json / package.json#webmcp nearest to the component
+  let config: WebMCPConfig;
+  try {
+    config = await loadConfig(dirname(filePath));
+  } catch (err) {
+    spinner.fail('Invalid config');
+    console.error(chalk.red(isWebMCPError(err) ? formatError(err) : `\n✖ ${(err as Error).message}`));
+    process.exit(1);
+  }
+
+  // --project turns on project mode; a tsconfig path overrides the config's
+  let project = config.parser?.project;
+  if (options.project) {
+    project = { ...project };
+    if (typeof options.project === 'string') project.tsConfigFilePath = resolve(options.project);
+  }
+
+  // Full path so Angular templateUrl resolves next to the component
+  const analysis = parseFile(source, filePath, { ...config.parser, project });
   spinner.succeed(`Parsed ${chalk.white(basename(filePath))} (${analysis.framework})`);
 
   // 4. Run Dev-Mode Probe (if url provided)
@@ -100,8 +134,28 @@ export async function instrumentCommand(
     matchSpinner.succeed('Synthesized fallback strategies (Confidence thresholds applied)');
   }
 
-  // 6. Build proposals
-  const proposals = buildProposals(analysis);
+  // 6. Build proposals (classification rules from the config)
+  let proposals = buildProposals(analysis, config);
+
+  // LLM review can only raise the rule-based risks
+  if (llm.name !== 'Template-only (no LLM)' && config.classification?.llm !== false && proposals.length > 0) {
+    const riskSpinner = ora(`Reviewing tool risk with ${llm.name}...`).start();
+    const before = proposals.map(p => p.risk);
+    proposals = await reviewRiskWithLLM(proposals, analysis, llm);
+    const raised = proposals.filter((p, i) => p.risk !== before[i]).length;
+    riskSpinner.succeed(raised > 0 ? `LLM review raised the risk of ${raised} tool(s)` : 'LLM review agreed with the rule-based risks');
+  }
+
+  // Apply the reviewed manifest (webmcp.tools.json): decisions, renames and risk overrides
+  const manifestPath = findToolManifest(dirname(filePath)) ?? resolve(TOOL_MANIFEST_FILE);
+  let manifest: ToolManifest;
+  try {
+    manifest = loadToolManifest(manifestPath);
+  } catch (err) {
+    console.error(chalk.red(isWebMCPError(err) ? formatError(err) : `\n✖ ${(err as Error).message}`));
+    process.exit(1);
+  }
+  proposals = applyToolManifest(proposals, manifest);
 
   if (proposals.length === 0) {
     console.log(chalk.yellow('\n⚠ No instrumentable elements found.'));
@@ -116,6 +170,11 @@ export async function instrumentCommand(
     console.log(chalk.gray(`  WebMCP recommends adding stable \`data-mcp\` or \`data-testid\` attributes to these components.`));
   }
 
+  const unreviewed = proposals.filter(p => p.review === 'unreviewed' && p.risk !== 'excluded');
+  if (unreviewed.length > 0) {
+    console.log(chalk.magenta(`\n⚠ ${unreviewed.length} tool(s) not yet reviewed in ${basename(manifestPath)} — marked [new]`));
+  }
+
   // 5. Print proposal table
   console.log(chalk.green(`\n✔ Found ${proposals.length} tool proposal(s) \n`));
   printProposalTable(proposals);
@@ -129,11 +188,14 @@ export async function instrumentCommand(
   let selected: ToolProposal[];
 
   if (options.yes) {
-    selected = proposals.filter(p => p.risk !== 'destructive' && p.risk !== 'excluded');
-    console.log(chalk.blue(`ℹ Auto - selecting ${selected.length} safe / caution tool(s).\n`));
+    // Reviewed decisions; new tools keep the safe / caution default, stable or not
+    selected = proposals.filter(p => p.review === 'unreviewed'
+      ? p.risk !== 'destructive' && p.risk !== 'excluded'
+      : p.selected);
+    console.log(chalk.blue(`ℹ Auto - selecting ${selected.length} reviewed or safe / caution tool(s).\n`));
   } else if (options.all) {
-    selected = proposals.filter(p => p.risk !== 'excluded');
-    console.log(chalk.blue(`ℹ Selecting all ${selected.length} tool(s).\n`));
+    selected = proposals.filter(p => p.risk !== 'excluded' && p.review !== 'rejected');
+    console.log(chalk.blue(`ℹ Selecting all ${selected.length} tool(s) not rejected in review.\n`));
   } else if (options.select) {
     const indices = options.select.split(',').map(Number);
     selected = proposals.filter(p => indices.includes(p.index));
@@ -142,7 +204,7 @@ export async function instrumentCommand(
     const choices = proposals
       .filter(p => p.risk !== 'excluded')
       .map(p => ({
-        name: `${RISK_BADGE[p.risk]} [${p.index}] ${p.name} — ${p.description} `,
+        name: `${RISK_BADGE[p.risk]}${p.review === 'unreviewed' ? ` ${REVIEW_BADGE.unreviewed}` : ''} [${p.index}] ${p.name} — ${p.description} `,
         value: p.index,
         checked: p.selected,
       }));
@@ -155,6 +217,13 @@ export async function instrumentCommand(
     selected = proposals.filter(p => selectedIndices.includes(p.index));
   }
 
+  // A choice made in the picker or with --select is a review: record it for the next run
+  if (!options.yes && !options.all) {
+    manifest = recordToolReviews(manifest, proposals, selected.map(p => p.id), relative(dirname(manifestPath), filePath).split(sep).join('/'));
+    saveToolManifest(manifestPath, manifest);
+    console.log(chalk.gray(`  Review saved to ${manifestPath}\n`));
+  }
+
   if (selected.length === 0) {
     console.log(chalk.yellow('No tools selected — nothing generated.\n'));
     return;
@@ -170,6 +239,7 @@ export async function instrumentCommand(
         : options.format as OutputFormat,
       framework: analysis.framework,
       llm,
+      specVersion: config.specVersion,
     });
     genSpinner.succeed(`Generated ${selected.length} tool(s)`);
   } catch (err) {
@@ -193,8 +263,9 @@ function printProposalTable(proposals: ToolProposal[]): void {
   for (const p of proposals) {
     const badge = RISK_BADGE[p.risk] ?? '';
     const check = p.selected ? chalk.green('●') : chalk.gray('○');
+    const review = p.review ? REVIEW_BADGE[p.review] ?? '' : '';
     const fields = Object.keys(p.inputSchema.properties).join(', ') || '(no inputs)';
-    console.log(`  ${check} ${chalk.bold(`[${p.index}]`)} ${chalk.white(p.name)} ${badge}`);
+    console.log(`  ${check} ${chalk.bold(`[${p.index}]`)} ${chalk.white(p.name)} ${badge}${review ? ` ${review}` : ''}`);
     console.log(`       ${chalk.gray(p.description)}`);
     console.log(`       ${chalk.gray('Fields:')} ${chalk.cyan(fields)}`);
     if (p.riskReason) console.log(`       ${chalk.gray('Reason:')} ${chalk.dim(p.riskReason)}`);
@@ -203,5 +274,5 @@ function printProposalTable(proposals: ToolProposal[]): void {
 }
 
 function deriveOutputPath(filePath: string): string {
-  return filePath.replace(/\.(tsx?|jsx?)$/, '.mcp.js');
+  return filePath.replace(/\.(tsx?|jsx?|html?|vue|svelte)$/, '.mcp.js');
 }
@@ -0,0 +1,213 @@
+import { writeFileSync } from 'node:fs';
+import { resolve, extname, dirname, relative, sep } from 'node:path';
+import chalk from 'chalk';
+import ora from 'ora';
+import {
+  scanProject,
+  countRisks,
+  buildScanManifest,
+  generateMCPCodeSync,
+  loadConfig,
+  findToolManifest,
+  loadToolManifest,
+  saveToolManifest,
+  recordToolReviews,
+  isWebMCPError,
+  formatError,
+  TOOL_MANIFEST_FILE,
+  type OutputFormat,
+  type ScanResult,
+  type ToolManifest,
+  type ToolProposal,
+  type ToolRisk,
+  type WebMCPConfig,
+} from 'webmcp-instrument-engine';
+
+interface ScanOptions {
+  exclude?: string[];
+  output: string;
+  dryRun?: boolean;
+  all?: boolean;
+  format: string;
+  concurrency?: string;
+  record?: boolean;
+}
+
+const RISK_BADGE: Record<ToolRisk, string> = {
+  safe: chalk.green('[safe]'),
+  caution: chalk.yellow('[caution]'),
+  destructive: chalk.red('[destructive]'),
+  excluded: chalk.gray('[excluded]'),
+};
+
+const REVIEW_BADGE: Record<string, string> = {
+  unreviewed: chalk.magenta('[new]'),
+  rejected: chalk.gray('[rejected]'),
+};
+
+const RISK_COLOR: Record<ToolRisk, (text: string) => string> = {
+  safe: chalk.green,
+  caution: chalk.yellow,
+  destructive: chalk.red,
+  excluded: chalk.gray,
+};
+
+export async function scanCommand(globs: string[], options: ScanOptions): Promise<void> {
+  const cwd = process.cwd();
+  // Classification rules, parser options and spec version for the whole project
+  let config: WebMCPConfig;
+  try {
+    config = await loadConfig(cwd);
+  } catch (err) {
+    console.error(chalk.red(isWebMCPError(err) ? formatError(err) : `\n✖ ${(err as Error).message}`));
+    process.exit(1);
+  }
+
+  const manifestPath = findToolManifest(cwd) ?? resolve(TOOL_MANIFEST_FILE);
+  if (resolve(options.output) === manifestPath) {
+    console.error(chalk.red(`\n✖ ${TOOL_MANIFEST_FILE} holds the reviews — pass --record to add new tools to it\n`));
+    process.exit(1);
+  }
+  let manifest: ToolManifest;
+  try {
+    manifest = loadToolManifest(manifestPath);
+  } catch (err) {
+    console.error(chalk.red(isWebMCPError(err) ? formatError(err) : `\n✖ ${(err as Error).message}`));
+    process.exit(1);
+  }
+
+  const spinner = ora('Scanning components...').start();
+  const startedAt = Date.now();
+  let result: ScanResult;
+  try {
+    result = await scanProject({
+      include: globs.length > 0 ? globs : undefined,
+      exclude: options.exclude,
+      cwd,
+      config,
+      manifest,
+      concurrency: options.concurrency ? Number(options.concurrency) : undefined,
+    });
+  } catch (err) {
+    spinner.fail(`Scan failed: ${(err as Error).message}`);
+    process.exit(1);
+  }
+
+  const failed = result.files.filter(f => f.error);
+  const seconds = ((Date.now() - startedAt) / 1000).toFixed(1);
+  spinner.succeed(
+    `Scanned ${result.files.length} file(s) in ${seconds}s`
+    + (failed.length > 0 ? chalk.yellow(` (${failed.length} could not be parsed)`) : ''),
+  );
+
+  const proposals = result.files.flatMap(f => f.proposals.map(proposal => ({ file: f.file, proposal })));
+  if (proposals.length === 0) {
+    console.log(chalk.yellow('\n⚠ No instrumentable elements found.\n'));
+    printParseFailures(result);
+    return;
+  }
+
+  console.log('');
+  printGroupedTable(result);
+  console.log(`${chalk.bold('Risk totals:')} ${formatRiskCounts(proposals.map(p => p.proposal))}\n`);
+  printCollisions(result);
+  printParseFailures(result);
+
+  const unreviewed = proposals.filter(({ proposal }) => proposal.review === 'unreviewed' && proposal.risk !== 'excluded');
+  if (unreviewed.length > 0 && !options.record) {
+    console.log(chalk.magenta(`⚠ ${unreviewed.length} tool(s) not yet reviewed — marked [new]. Review them with \`webmcp instrument <file>\`, or accept their defaults with --record.\n`));
+  }
+
+  if (options.dryRun) {
+    console.log(chalk.blue('ℹ Dry run — no files written.\n'));
+    return;
+  }
+
+  // Reviewed tools keep their decision; new ones are recorded with their default selection
+  if (options.record && unreviewed.length > 0) {
+    for (const scanned of result.files) {
+      const fresh = scanned.proposals.filter(p => p.review === 'unreviewed');
+      if (fresh.length === 0) continue;
+      const file = relative(dirname(manifestPath), resolve(result.root, scanned.file)).split(sep).join('/');
+      manifest = recordToolReviews(manifest, fresh, fresh.filter(p => p.selected).map(p => p.id), file);
+    }
+    saveToolManifest(manifestPath, manifest);
+    console.log(chalk.gray(`  Recorded ${unreviewed.length} new tool(s) in ${manifestPath}\n`));
+  }
+
+  // No prompt across a whole project: take each proposal's reviewed or default selection
+  const selected = proposals.filter(({ proposal }) =>
+    proposal.risk !== 'excluded' && proposal.review !== 'rejected' && (options.all || proposal.selected));
+  if (selected.length === 0) {
+    console.log(chalk.yellow('No tools selected — nothing written.\n'));
+    return;
+  }
+
+  const outputPath = resolve(options.output);
+  if (extname(outputPath) === '.json') {
+    writeFileSync(outputPath, JSON.stringify(buildScanManifest(selected), null, 2) + '\n', 'utf-8');
+    console.log(chalk.green(`📄 Manifest of ${selected.length} tool(s) written to: ${outputPath}\n`));
+    return;
+  }
+
+  const framework = result.files.find(f => f.file === selected[0]!.file)!.framework!;
+  const code = generateMCPCodeSync(selected.map(s => s.proposal), {
+    format: options.format as OutputFormat,
+    framework,
+    specVersion: config.specVersion,
+  });
+  writeFileSync(outputPath, code, 'utf-8');
+  console.log(chalk.green(`📄 Bundle of ${selected.length} tool(s) written to: ${outputPath}\n`));
+}
+
+// ── Helpers ───────────────────────────────────────────────────
+
+function printGroupedTable(result: ScanResult): void {
+  for (const scanned of result.files) {
+    const byComponent = new Map<string, ToolProposal[]>();
+    for (const proposal of scanned.proposals) {
+      const name = proposal.sourceMapping.componentName;
+      byComponent.set(name, [...(byComponent.get(name) ?? []), proposal]);
+    }
+
+    for (const [component, proposals] of byComponent) {
+      console.log(`  ${chalk.bold(component)} ${chalk.gray(scanned.file)}  ${formatRiskCounts(proposals)}`);
+      for (const p of proposals) {
+        const check = p.selected ? chalk.green('●') : chalk.gray('○');
+        const review = p.review ? REVIEW_BADGE[p.review] ?? '' : '';
+        console.log(`    ${check} ${chalk.white(p.name)} ${RISK_BADGE[p.risk]}${review ? ` ${review}` : ''} ${chalk.gray(p.description)}`);
+      }
+      console.log('');
+    }
+  }
+}
+
+function formatRiskCounts(proposals: ToolProposal[]): string {
+  const counts = countRisks(proposals);
+  return (Object.keys(counts) as ToolRisk[])
+    .filter(risk => counts[risk] > 0)
+    .map(risk => RISK_COLOR[risk](`${counts[risk]} ${risk}`))
+    .join(chalk.gray(' · '));
+}
+
+function printCollisions(result: ScanResult): void {
+  if (result.collisions.length === 0) return;
+  console.log(chalk.yellow(`⚠ ${result.collisions.length} tool name collision(s) — only the last registration of each survives:`));
+  for (const collision of result.collisions) {
+    console.log(`  ${chalk.white(collision.name)}`);
+    for (const tool of collision.tools) {
+      console.log(chalk.gray(`    ${tool.component} (${tool.file})`));
+    }
+  }
+  console.log('');
+}
+
+function printParseFailures(result: ScanResult): void {
+  const failed = result.files.filter(f => f.error);
+  if (failed.length === 0) return;
+  console.log(chalk.gray('Could not parse:'));
+  for (const f of failed) {
+    console.log(chalk.gray(`  ${f.file}: ${f.error}`));
+  }
+  console.log('');
+}
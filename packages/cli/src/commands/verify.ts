@@ -0,0 +1,88 @@
+import { readFileSync, writeFileSync, existsSync } from 'node:fs';
+import { resolve, dirname, extname, relative } from 'node:path';
+import { createRequire } from 'node:module';
+import chalk from 'chalk';
+import ora from 'ora';
+import {
+  runVerify,
+  formatJSONReport,
+  formatJUnitReport,
+  type VerifyFile,
+  type ToolVerification,
+  type VerifyReport,
+} from 'webmcp-instrument-engine';
+
+interface VerifyOptions {
+  url: string;
+  report?: string;
+  reportFormat?: string;
+  includeDestructive?: boolean;
+  timeout?: string;
+  setup?: string;
+  headed?: boolean;
+}
+
+const STATUS_BADGE: Record<ToolVerification['status'], string> = {
+  passed: chalk.green('✔ pass'),
+  failed: chalk.red('✖ fail'),
+  skipped: chalk.gray('○ skip'),
+};
+
+export async function verifyCommand(files: string[], options: VerifyOptions): Promise<void> {
+  const inputs: VerifyFile[] = [];
+  for (const file of files) {
+    const filePath = resolve(file);
+    if (!existsSync(filePath)) {
+      console.error(chalk.red(`\n✖ File not found: ${filePath} `));
+      process.exit(1);
+    }
+    inputs.push({ path: relative(process.cwd(), filePath), code: readFileSync(filePath, 'utf-8') });
+  }
+
+  const spinner = ora(`Verifying generated tools against ${options.url}...`).start();
+  let report: VerifyReport;
+  try {
+    report = await runVerify(options.url, inputs, {
+      headless: !options.headed,
+      setupScript: options.setup,
+      runtimeDir: findRuntimeDir(),
+      includeDestructive: options.includeDestructive,
+      toolTimeoutMs: options.timeout ? Number(options.timeout) : undefined,
+    });
+  } catch (err) {
+    spinner.fail(`Verification could not run: ${(err as Error).message}`);
+    process.exit(1);
+  }
+  spinner.stop();
+
+  console.log('');
+  for (const result of report.results) {
+    console.log(`  ${STATUS_BADGE[result.status]} ${chalk.white(result.tool)} ${chalk.gray(`(${result.file}, ${result.durationMs}ms)`)}`);
+    if (result.status !== 'passed' && result.message) {
+      console.log(`         ${chalk.dim(result.message)}`);
+    }
+  }
+  const summary = `${report.passed} passed, ${report.failed} failed, ${report.skipped} skipped`;
+  console.log(`\n${report.failed > 0 ? chalk.red(summary) : chalk.green(summary)}\n`);
+
+  if (options.report) {
+    const format = options.reportFormat ?? (extname(options.report) === '.xml' ? 'junit' : 'json');
+    const content = format === 'junit' ? formatJUnitReport(report) : formatJSONReport(report);
+    writeFileSync(options.report, content, 'utf-8');
+    console.log(chalk.gray(`  Report written to ${options.report} (${format})\n`));
+  }
+
+  if (report.failed > 0) process.exit(1);
+}
+
+/**
+ * The installed runtime build, injected into pages that don't load it themselves.
+ * Resolves through the runtime's `default` export condition.
+ */
+export function findRuntimeDir(): string | undefined {
+  try {
+    return dirname(createRequire(import.meta.url).resolve('webmcp-instrument-runtime'));
+  } catch {
+    return undefined;
+  }
+}
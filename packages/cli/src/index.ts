@@ -1 +1,3 @@
 export { instrumentCommand } from './commands/instrument.js';
+export { verifyCommand } from './commands/verify.js';
+export { scanCommand } from './commands/scan.js';
@@ -7,3 +7,14 @@ describe('CLI smoke test', () => {
     expect(mod).toBeDefined();
   });
 });
+
+describe('verify', () => {
+  it('finds the runtime build to inject', async () => {
+    const { existsSync } = await import('node:fs');
+    const { join } = await import('node:path');
+    const { findRuntimeDir } = await import('../src/commands/verify.js');
+    const dir = findRuntimeDir();
+    expect(dir).toBeDefined();
+    expect(existsSync(join(dir!, 'index.js'))).toBe(true);
+  });
+});
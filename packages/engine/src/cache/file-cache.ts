@@ -1,16 +1,24 @@
 import { readFileSync, writeFileSync, mkdirSync, existsSync } from 'node:fs';
 import { resolve, dirname } from 'node:path';
 import { hashInteractiveSurface } from './hash.js';
-import type { ToolProposal } from '../types.js';
+import type { ToolProposal, ToolRisk } from '../types.js';
 
 const CACHE_DIR = resolve(process.cwd(), '.webmcp');
 const CACHE_FILE = resolve(CACHE_DIR, 'cache.json');
 
 interface CacheEntry {
-    handlerBody: string;
+    handlerBody?: string;
+    /** LLM risk review (see classifier/llm-classifier) */
+    risk?: CachedRisk;
     timestamp: number;
 }
 
+export interface CachedRisk {
+    risk: ToolRisk;
+    justification: string;
+    confidence?: number;
+}
+
 type GlobalCache = Record<string, CacheEntry>;
 
 let inMemoryCache: GlobalCache | null = null;
@@ -45,7 +53,7 @@ export function getCachedHandler(tool: ToolProposal): string | null {
     const cache = loadCache();
     const hash = hashInteractiveSurface(tool);
     const entry = cache[hash];
-    if (entry) {
+    if (entry?.handlerBody) {
         return entry.handlerBody;
     }
     return null;
@@ -58,9 +66,34 @@ export function setCachedHandler(tool: ToolProposal, handlerBody: string): void
     const cache = loadCache();
     const hash = hashInteractiveSurface(tool);
     cache[hash] = {
+        ...cache[hash],
         handlerBody,
         timestamp: Date.now()
     };
     inMemoryCache = cache;
     saveCache(cache);
 }
+
+/**
+ * Returns the cached LLM risk review for a tool if its interactive surface hash matches,
+ * otherwise returns null.
+ */
+export function getCachedRisk(tool: ToolProposal): CachedRisk | null {
+    const cache = loadCache();
+    return cache[hashInteractiveSurface(tool)]?.risk ?? null;
+}
+
+/**
+ * Saves the LLM risk review for a tool next to its cached handler.
+ */
+export function setCachedRisk(tool: ToolProposal, risk: CachedRisk): void {
+    const cache = loadCache();
+    const hash = hashInteractiveSurface(tool);
+    cache[hash] = {
+        ...cache[hash],
+        risk,
+        timestamp: Date.now()
+    };
+    inMemoryCache = cache;
+    saveCache(cache);
+}
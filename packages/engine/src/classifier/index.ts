@@ -1,3 +1,5 @@
 // Classifier — entry point (Phase 1 implementation)
 export { classifyRisk } from './risk-classifier.js';
+export { compilePattern, matchesPattern, isToolIncluded, findPatternErrors } from './risk-policy.js';
+export { reviewRiskWithLLM } from './llm-classifier.js';
 export { matchElementsToProbe } from './matcher.js';
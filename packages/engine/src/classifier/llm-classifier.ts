@@ -0,0 +1,148 @@
+import type { ComponentAnalysis, LLMAdapter, ToolProposal, ToolRisk } from '../types.js';
+import { getCachedRisk, setCachedRisk, type CachedRisk } from '../cache/file-cache.js';
+
+// ────────────────────────────────────────────────────────────
+// LLM risk review — a second pass over the deterministic result.
+// Catches what keywords can't ("Confirm" inside <DeleteModal>),
+// but may only raise a risk, never lower it.
+// ────────────────────────────────────────────────────────────
+
+const RISK_ORDER: Record<Exclude<ToolRisk, 'excluded'>, number> = {
+  safe: 0,
+  caution: 1,
+  destructive: 2,
+};
+
+/**
+ * Ask the LLM to review each proposal's risk and raise it where the
+ * component context shows the action is riskier than its keywords suggest.
+ *
+ * Skipped for the template-only adapter, query tools, and proposals whose
+ * risk came from a user's custom rule. Reviews are cached by the tool's
+ * interactive-surface hash, like generated handlers. LLM errors leave the
+ * deterministic result in place.
+ */
+export async function reviewRiskWithLLM(
+  proposals: ToolProposal[],
+  analysis: ComponentAnalysis,
+  llm: LLMAdapter,
+): Promise<ToolProposal[]> {
+  if (llm.name === 'Template-only (no LLM)') return proposals;
+
+  const reviewed: ToolProposal[] = [];
+  for (const proposal of proposals) {
+    if (proposal.kind === 'query' || proposal.risk === 'excluded' || proposal.riskRule?.startsWith('customRules')) {
+      reviewed.push(proposal);
+      continue;
+    }
+
+    let review = getCachedRisk(proposal);
+    if (!review) {
+      review = await askForRisk(proposal, analysis, llm);
+      if (review) setCachedRisk(proposal, review);
+    }
+
+    reviewed.push(review ? applyReview(proposal, review) : proposal);
+  }
+  return reviewed;
+}
+
+/** Raise the proposal's risk to the review's if it is higher; never lower it */
+export function applyReview(proposal: ToolProposal, review: CachedRisk): ToolProposal {
+  const current = proposal.risk;
+  if (current === 'excluded' || review.risk === 'excluded') return proposal;
+  if (RISK_ORDER[review.risk] <= RISK_ORDER[current]) return proposal;
+
+  return {
+    ...proposal,
+    risk: review.risk,
+    riskReason: `${review.justification} (LLM review; rules said ${current})`,
+    riskRule: 'llm',
+    riskConfidence: review.confidence,
+    selected: review.risk !== 'destructive' && proposal.isStable !== false,
+  };
+}
+
+// ── Prompt ────────────────────────────────────────────────────
+
+export function buildRiskPrompt(proposal: ToolProposal, analysis: ComponentAnalysis): string {
+  const { componentName, triggerElement, inputElements, handler } = proposal.sourceMapping;
+  const component = analysis.components.find(c => c.name === componentName);
+
+  const controls = (component?.elements ?? [])
+    .filter(el => el.label || el.name || el.id)
+    .map(el => `  - <${el.tag}> ${el.label ?? el.name ?? el.id}`)
+    .join('\n');
+  const handlers = (component?.eventHandlers ?? []).map(h => h.name).join(', ');
+  const props = (component?.props ?? []).map(p => p.name).join(', ');
+  const fields = inputElements.map(el => el.label ?? el.name ?? el.id ?? el.tag).join(', ');
+
+  let handlerContext = '';
+  if (handler?.body) {
+    handlerContext = `\nHandler source (${handler.name}):\n\`\`\`javascript\n${handler.body.slice(0, 800)}\n\`\`\``;
+  }
+  if (handler?.apiCalls && handler.apiCalls.length > 0) {
+    handlerContext += `\nAPI calls made by this handler:\n${handler.apiCalls.map(c => `  ${c.method} ${c.url}`).join('\n')}`;
+  }
+
+  return `You are reviewing the risk of letting an AI agent trigger a UI action.
+
+Tool name: ${proposal.name}
+Description: ${proposal.description}
+Trigger: ${triggerElement ? `<${triggerElement.tag}> ${triggerElement.label ?? triggerElement.id ?? ''}`.trim() : 'none'}
+Fields filled: ${fields || 'none'}
+${handlerContext}
+
+Surrounding component: ${componentName}
+Props: ${props || 'none'}
+Other handlers: ${handlers || 'none'}
+Controls:
+${controls || '  (none)'}
+
+Rule-based classification: ${proposal.risk} — ${proposal.riskReason ?? 'no reason given'}
+
+Classify the action:
+- "safe": reads data or changes only local view state
+- "caution": creates or changes data, sends messages, or spends money
+- "destructive": deletes data, cancels, revokes access, or cannot be undone
+Judge what the action does in context (a "Confirm" button in a delete dialog deletes).
+
+Respond with JSON: {"risk": "safe" | "caution" | "destructive", "justification": "<one sentence>", "confidence": <0-1>}`;
+}
+
+async function askForRisk(
+  proposal: ToolProposal,
+  analysis: ComponentAnalysis,
+  llm: LLMAdapter,
+): Promise<CachedRisk | null> {
+  try {
+    const result = await llm.generateJSON<Partial<CachedRisk>>([
+      {
+        role: 'system',
+        content: 'You are a careful security reviewer. Output only the requested JSON.',
+      },
+      {
+        role: 'user',
+        content: buildRiskPrompt(proposal, analysis),
+      },
+    ], { temperature: 0, maxTokens: 200 });
+
+    if (!result || !isReviewRisk(result.risk) || typeof result.justification !== 'string') {
+      console.warn(`[WebMCP] LLM returned an invalid risk review for ${proposal.name} — keeping rule-based risk`);
+      return null;
+    }
+
+    return {
+      risk: result.risk,
+      justification: result.justification,
+      confidence: typeof result.confidence === 'number' ? result.confidence : undefined,
+    };
+  } catch (err) {
+    console.warn(`[WebMCP] LLM error (${(err as Error).message}) — keeping rule-based risk`);
+    return null;
+  }
+}
+
+function isReviewRisk(value: unknown): value is keyof typeof RISK_ORDER {
+  return typeof value === 'string' && Object.prototype.hasOwnProperty.call(RISK_ORDER, value);
+}
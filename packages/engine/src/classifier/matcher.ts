@@ -6,6 +6,9 @@ import type { UIElement, ProbeElement, SelectorStrategy } from '../types.js';
  */
 export function matchElementsToProbe(astElements: UIElement[], probeElements: ProbeElement[]): void {
     for (const astEl of astElements) {
+        // Row fields and actions repeat: the probe sees one row, the generator needs the per-row pattern
+        if (astEl.rowField || astEl.rowAction) continue;
+
         let bestMatch: ProbeElement | null = null;
         let bestScore = 0;
 
@@ -81,6 +84,11 @@ function synthesizeStrategies(probeEl: ProbeElement, matchScore: number): Select
     // Always provide the structural CSS selector as the absolute fallback, scaled by the match confidence
     strategies.push({ strategy: 'css', value: probeEl.selector, score: Math.max(0.2, matchScore * 0.5) });
 
+    // Inside shadow roots / iframes every strategy starts from the same hosts
+    if (probeEl.path && probeEl.path.length > 0) {
+        for (const strategy of strategies) strategy.path = probeEl.path;
+    }
+
     // Sort by confidence descending
     return strategies.sort((a, b) => b.score - a.score);
 }
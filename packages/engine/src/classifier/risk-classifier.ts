@@ -2,65 +2,210 @@ import {
   type ToolRisk,
   type EventHandler,
   type UIElement,
+  type RiskRule,
+  type WebMCPConfig,
   DESTRUCTIVE_KEYWORDS,
   CAUTION_KEYWORDS,
   EXCLUDED_PATTERNS,
 } from '../types.js';
+import { findCustomRule } from './risk-policy.js';
+import { tokenize, findKeyword, bodyActionTokens } from './tokenizer.js';
+
+/** Where a keyword was found: trigger label, trigger name/id, handler name, calls in its body, HTTP method */
+export type RiskSignal = 'label' | 'element' | 'handler' | 'body' | 'method';
+
+export interface RiskEvidence {
+  category: 'excluded' | 'destructive' | 'caution';
+  signal: RiskSignal;
+  keyword: string;
+  /** The words that matched, e.g. "deleting" for keyword "delete" */
+  matched: string;
+  weight: number;
+}
 
 export interface RiskClassification {
   risk: ToolRisk;
   reason: string;
+  /** The rule that decided: "customRules[2]", "destructive-keyword:delete", "default", … */
+  rule: string;
+  /** 0–1: how strongly the evidence supports `risk` */
+  confidence: number;
+  /** Every keyword / method hit, not only the deciding one */
+  evidence: RiskEvidence[];
+}
+
+/** Tool-level facts the config's rules can match on */
+export interface RiskContext {
+  toolName?: string;
+  componentName?: string;
+  kind?: 'form' | 'action' | 'query';
 }
 
+const NAVIGATION_PATTERNS: readonly string[] = EXCLUDED_PATTERNS.filter(p => !p.includes('upload'));
+
 /**
  * Classify risk level of a tool based on its trigger element,
  * handler name, handler body, and API calls.
+ *
+ * Keywords match whole words of the tokenized signals ("preset" is not
+ * "reset"); each signal carries its own weight and the result reports a
+ * confidence score plus all the evidence found.
+ *
+ * With a config, `classification.customRules` are checked first and
+ * `navigation: 'include'` keeps navigation handlers instead of excluding them.
  */
 export function classifyRisk(
   triggerElement?: UIElement,
   handler?: EventHandler,
+  config?: WebMCPConfig,
+  context: RiskContext = {},
 ): RiskClassification {
-  const signals: string[] = [];
-
-  // Collect all text signals to scan
-  if (triggerElement?.label) signals.push(triggerElement.label.toLowerCase());
-  if (triggerElement?.name) signals.push(triggerElement.name.toLowerCase());
-  if (triggerElement?.id) signals.push(triggerElement.id.toLowerCase());
-  if (handler?.name) signals.push(handler.name.toLowerCase());
-  if (handler?.body) signals.push(handler.body.toLowerCase());
+  // 0. User rules win over the built-in heuristics
+  const custom = findCustomRule(config, {
+    toolName: context.toolName,
+    componentName: context.componentName,
+    handlerName: handler?.name,
+    labels: [triggerElement?.label, triggerElement?.name, triggerElement?.id]
+      .filter((value): value is string => Boolean(value)),
+    urls: handler?.apiCalls?.map(c => c.url) ?? [],
+    methods: handler?.apiCalls?.map(c => c.method.toUpperCase()) ?? [],
+  });
+  if (custom) {
+    return {
+      risk: custom.rule.risk,
+      reason: custom.rule.reason ?? `Matches custom rule ${describeRule(custom.rule)}`,
+      rule: `customRules[${custom.index}]`,
+      confidence: 1,
+      evidence: [],
+    };
+  }
 
-  // Check HTTP methods in handler
-  const httpMethods = handler?.apiCalls?.map(c => c.method.toUpperCase()) ?? [];
+  // Query tools only read the rendered DOM — nothing to classify
+  if (context.kind === 'query') {
+    return { risk: 'safe', reason: 'Read-only query of rendered page state', rule: 'query', confidence: 1, evidence: [] };
+  }
 
-  const allText = signals.join(' ');
+  // 1. Collect weighted evidence from every signal
+  const signals = collectSignals(triggerElement, handler);
+  const includeNavigation = config?.classification?.navigation === 'include';
+  const evidence: RiskEvidence[] = [];
 
-  // 1. Check excluded patterns first
-  for (const pattern of EXCLUDED_PATTERNS) {
-    if (allText.includes(pattern)) {
-      return { risk: 'excluded', reason: `Matches excluded pattern: "${pattern}"` };
-    }
+  for (const { signal, tokens } of signals) {
+    const weight = SIGNAL_WEIGHTS[signal];
+    const scan = (category: RiskEvidence['category'], keywords: readonly string[]) => {
+      for (const keyword of keywords) {
+        const matched = findKeyword(tokens, keyword);
+        if (matched) evidence.push({ category, signal, keyword, matched, weight });
+      }
+    };
+    scan('excluded', EXCLUDED_PATTERNS.filter(p => !includeNavigation || !NAVIGATION_PATTERNS.includes(p)));
+    scan('destructive', DESTRUCTIVE_KEYWORDS);
+    scan('caution', CAUTION_KEYWORDS);
   }
 
-  // 2. Check destructive
-  for (const keyword of DESTRUCTIVE_KEYWORDS) {
-    if (allText.includes(keyword)) {
-      return { risk: 'destructive', reason: `Contains destructive keyword: "${keyword}"` };
-    }
+  for (const method of new Set(handler?.apiCalls?.map(c => c.method.toUpperCase()) ?? [])) {
+    const category = method === 'DELETE' ? 'destructive' : MUTATING_METHODS.includes(method) ? 'caution' : undefined;
+    if (category) evidence.push({ category, signal: 'method', keyword: method, matched: method, weight: SIGNAL_WEIGHTS.method });
   }
-  if (httpMethods.includes('DELETE')) {
-    return { risk: 'destructive', reason: 'Handler makes DELETE API call' };
+
+  const excluded = scoreOf(evidence, 'excluded');
+  const destructive = scoreOf(evidence, 'destructive');
+  const caution = scoreOf(evidence, 'caution');
+
+  // 2. Navigation only excludes when it outweighs the mutation evidence —
+  //    "delete, then navigate back to the list" is still a delete
+  if (excluded >= RISK_THRESHOLD && excluded >= Math.max(destructive, caution)) {
+    return decide('excluded', excluded, evidence);
   }
 
-  // 3. Check caution (mutation)
-  for (const keyword of CAUTION_KEYWORDS) {
-    if (allText.includes(keyword)) {
-      return { risk: 'caution', reason: `Contains mutation keyword: "${keyword}"` };
-    }
+  // 3. Destructive, then caution (mutation)
+  if (destructive >= RISK_THRESHOLD) return decide('destructive', destructive, evidence);
+  if (caution >= RISK_THRESHOLD) return decide('caution', caution, evidence);
+
+  // 4. Default: safe (read-only actions, search, display toggles)
+  return {
+    risk: 'safe',
+    reason: 'No mutation or destructive signals detected',
+    rule: 'default',
+    confidence: round(1 - Math.max(excluded, destructive, caution)),
+    evidence,
+  };
+}
+
+// ── Signals & scoring ─────────────────────────────────────────
+
+/** How much a keyword hit in each signal counts toward its category */
+const SIGNAL_WEIGHTS: Record<RiskSignal, number> = {
+  label: 1,
+  method: 1,
+  handler: 0.9,
+  element: 0.7,
+  body: 0.6,
+};
+
+/** Minimum score for a category to decide the risk */
+const RISK_THRESHOLD = 0.5;
+
+const MUTATING_METHODS = ['POST', 'PUT', 'PATCH'];
+
+function collectSignals(
+  triggerElement?: UIElement,
+  handler?: EventHandler,
+): { signal: RiskSignal; tokens: string[] }[] {
+  const signals: { signal: RiskSignal; tokens: string[] }[] = [];
+  if (triggerElement?.label) signals.push({ signal: 'label', tokens: tokenize(triggerElement.label) });
+  const elementNames = [triggerElement?.name, triggerElement?.id].filter((v): v is string => Boolean(v));
+  if (elementNames.length > 0) signals.push({ signal: 'element', tokens: tokenize(elementNames.join(' ')) });
+  if (handler?.name) signals.push({ signal: 'handler', tokens: tokenize(handler.name) });
+  if (handler?.body) signals.push({ signal: 'body', tokens: bodyActionTokens(handler.body) });
+  return signals;
+}
+
+/** Independent signals combine like probabilities: 1 − Π(1 − weight), one hit per signal */
+function scoreOf(evidence: RiskEvidence[], category: RiskEvidence['category']): number {
+  const best = new Map<RiskSignal, number>();
+  for (const item of evidence) {
+    if (item.category === category) best.set(item.signal, Math.max(best.get(item.signal) ?? 0, item.weight));
   }
-  if (httpMethods.some(m => ['POST', 'PUT', 'PATCH'].includes(m))) {
-    return { risk: 'caution', reason: `Handler makes ${httpMethods.join(', ')} API call` };
+  return round(1 - [...best.values()].reduce((miss, weight) => miss * (1 - weight), 1));
+}
+
+function decide(
+  risk: RiskEvidence['category'],
+  confidence: number,
+  evidence: RiskEvidence[],
+): RiskClassification {
+  const hits = evidence.filter(e => e.category === risk).sort((a, b) => b.weight - a.weight);
+  const top = hits[0]!;
+
+  let reason: string;
+  let rule: string;
+  if (top.signal === 'method') {
+    reason = `Handler makes ${top.keyword} API call`;
+    rule = `http-method:${top.keyword}`;
+  } else {
+    const label = risk === 'excluded' ? 'Matches excluded pattern' : risk === 'destructive'
+      ? 'Contains destructive keyword' : 'Contains mutation keyword';
+    reason = `${label}: "${top.keyword}" in ${top.signal}`;
+    rule = `${risk === 'excluded' ? 'excluded' : `${risk}-keyword`}:${top.keyword}`;
   }
 
-  // 4. Default: safe (read-only actions, search, display toggles)
-  return { risk: 'safe', reason: 'No mutation or destructive signals detected' };
+  const others = [...new Set(hits.slice(1).map(e => e.signal === 'method' ? e.keyword : e.signal))]
+    .filter(signal => signal !== top.signal);
+  if (others.length > 0) reason += ` (also ${others.join(', ')})`;
+
+  return { risk, reason, rule, confidence, evidence };
+}
+
+function round(value: number): number {
+  return Math.round(value * 100) / 100;
+}
+
+const RULE_FIELDS = ['match', 'tool', 'component', 'handler', 'url', 'method'] as const;
+
+function describeRule(rule: RiskRule): string {
+  return RULE_FIELDS
+    .filter(field => rule[field])
+    .map(field => `${field}="${rule[field]}"`)
+    .join(' ');
 }
@@ -0,0 +1,129 @@
+import type { RiskRule, WebMCPConfig } from '../types.js';
+
+// ────────────────────────────────────────────────────────────
+// Risk policy — user rules from `classification` in the config.
+// Patterns are globs (`delete_*`, `/api/admin/**`) or regexes
+// written as `/pattern/flags`. As in a JS regex literal, a `/`
+// inside a regex is escaped, so `/api/admin/` is a path glob.
+// ────────────────────────────────────────────────────────────
+
+/** What a tool exposes to policy patterns */
+export interface RiskSubject {
+  toolName?: string;
+  componentName?: string;
+  handlerName?: string;
+  /** Trigger label, id and name — the legacy `match` field also checks these */
+  labels: string[];
+  urls: string[];
+  methods: string[];
+}
+
+const patternCache = new Map<string, RegExp>();
+
+/** `/pattern/flags` with no unescaped `/` in the pattern */
+const REGEX_PATTERN = /^\/((?:[^/\\]|\\.)+)\/([a-z]*)$/;
+
+/** Compile a glob or `/regex/flags` pattern. Throws on an invalid regex */
+export function compilePattern(pattern: string): RegExp {
+  const cached = patternCache.get(pattern);
+  if (cached) return cached;
+
+  const regex = pattern.match(REGEX_PATTERN);
+  let compiled: RegExp;
+  if (regex) {
+    compiled = new RegExp(regex[1]!, regex[2]);
+  } else {
+    // `**` crosses `/` (URL segments), `*` and `?` don't
+    const source = pattern
+      .split(/(\*\*|\*|\?)/)
+      .map(part => {
+        if (part === '**') return '.*';
+        if (part === '*') return '[^/]*';
+        if (part === '?') return '[^/]';
+        return part.replace(/[.+^${}()|[\]\\]/g, '\\$&');
+      })
+      .join('');
+    compiled = new RegExp(`^${source}$`, 'i');
+  }
+
+  patternCache.set(pattern, compiled);
+  return compiled;
+}
+
+const RULE_PATTERN_FIELDS = ['match', 'tool', 'component', 'handler', 'url', 'method'] as const;
+
+/**
+ * Every pattern in the config's `classification` that isn't a string or
+ * doesn't compile, as `classification.customRules[0].handler: <reason>`.
+ */
+export function findPatternErrors(config: WebMCPConfig): string[] {
+  const errors: string[] = [];
+  const check = (field: string, pattern: unknown) => {
+    if (typeof pattern !== 'string') {
+      errors.push(`${field}: expected a string`);
+      return;
+    }
+    try {
+      compilePattern(pattern);
+    } catch (err) {
+      errors.push(`${field}: ${(err as Error).message}`);
+    }
+  };
+
+  const { include, exclude, customRules } = config.classification ?? {};
+  include?.forEach((pattern, i) => check(`classification.include[${i}]`, pattern));
+  exclude?.forEach((pattern, i) => check(`classification.exclude[${i}]`, pattern));
+  customRules?.forEach((rule, i) => {
+    for (const field of RULE_PATTERN_FIELDS) {
+      if (rule[field] !== undefined) check(`classification.customRules[${i}].${field}`, rule[field]);
+    }
+  });
+  return errors;
+}
+
+export function matchesPattern(pattern: string, value: string | undefined): boolean {
+  return value !== undefined && compilePattern(pattern).test(value);
+}
+
+/** Every field a rule sets must match; list fields (urls, methods) match if any entry does */
+export function ruleMatches(rule: RiskRule, subject: RiskSubject): boolean {
+  const checks: boolean[] = [];
+  if (rule.tool) checks.push(matchesPattern(rule.tool, subject.toolName));
+  if (rule.component) checks.push(matchesPattern(rule.component, subject.componentName));
+  if (rule.handler) checks.push(matchesPattern(rule.handler, subject.handlerName));
+  if (rule.url) checks.push(subject.urls.some(url => matchesPattern(rule.url!, url)));
+  if (rule.method) checks.push(subject.methods.some(method => matchesPattern(rule.method!, method)));
+  if (rule.match) {
+    const values = [subject.toolName, subject.componentName, subject.handlerName, ...subject.labels];
+    checks.push(values.some(value => matchesPattern(rule.match!, value)));
+  }
+  return checks.length > 0 && checks.every(Boolean);
+}
+
+/** The first custom rule that matches, with its index for reporting */
+export function findCustomRule(
+  config: WebMCPConfig | undefined,
+  subject: RiskSubject,
+): { rule: RiskRule; index: number } | undefined {
+  const rules = config?.classification?.customRules ?? [];
+  const index = rules.findIndex(rule => ruleMatches(rule, subject));
+  return index === -1 ? undefined : { rule: rules[index]!, index };
+}
+
+/**
+ * `classification.include` / `exclude`: patterns on tool or component name.
+ * When `include` is set only matching tools are proposed; `exclude` wins.
+ */
+export function isToolIncluded(
+  config: WebMCPConfig | undefined,
+  toolName: string,
+  componentName: string,
+): boolean {
+  const { include, exclude } = config?.classification ?? {};
+  const matches = (pattern: string) =>
+    matchesPattern(pattern, toolName) || matchesPattern(pattern, componentName);
+
+  if (exclude?.some(matches)) return false;
+  if (include && include.length > 0) return include.some(matches);
+  return true;
+}
@@ -0,0 +1,67 @@
+// ────────────────────────────────────────────────────────────
+// Identifier tokenizer for the risk classifier — matches whole
+// words so "preset" is not "reset" and "postcode" is not "post".
+// ────────────────────────────────────────────────────────────
+
+/** Inflections a keyword may carry: delete → deletes, deleted, deleting; route → router */
+const SUFFIXES = ['', 's', 'es', 'd', 'ed', 'ing', 'ion', 'ions', 'r'];
+
+const STATEMENT_KEYWORDS = new Set([
+  'if', 'for', 'while', 'switch', 'catch', 'function', 'return', 'await', 'async', 'typeof', 'new',
+]);
+
+/**
+ * Split text into lowercase words at camelCase humps, acronym boundaries,
+ * `_`, `-`, whitespace and punctuation: `handleDeleteURLItem` → handle, delete, url, item.
+ */
+export function tokenize(text: string): string[] {
+  return text
+    .replace(/([a-z\d])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .split(/[^A-Za-z\d]+/)
+    .filter(Boolean)
+    .map(token => token.toLowerCase());
+}
+
+/** Does `token` spell `word` or one of its inflections? */
+function matchesWord(token: string, word: string): boolean {
+  const stem = word.endsWith('e') ? word.slice(0, -1) : word;
+  return SUFFIXES.some(suffix => token === word + suffix || token === stem + suffix);
+}
+
+/**
+ * Find `keyword` (itself tokenized, so `clear-all` is a two-word phrase)
+ * as a run of whole tokens. A one-word keyword also matches two joined
+ * tokens, so `goto` finds `goTo`. Returns the matched text or undefined.
+ */
+export function findKeyword(tokens: string[], keyword: string): string | undefined {
+  const words = tokenize(keyword);
+  for (let i = 0; i < tokens.length; i++) {
+    if (i + words.length <= tokens.length && words.every((word, j) => matchesWord(tokens[i + j]!, word))) {
+      return tokens.slice(i, i + words.length).join(' ');
+    }
+    if (words.length === 1 && i + 1 < tokens.length && tokens[i]! + tokens[i + 1]! === words[0]) {
+      return `${tokens[i]} ${tokens[i + 1]}`;
+    }
+  }
+  return undefined;
+}
+
+/**
+ * The parts of a handler body that say what it does: called functions
+ * (`deleteUser(`, `router.push(`) and assigned properties (`location.href =`).
+ * JSX, imports and string literals are ignored.
+ */
+export function bodyActionTokens(body: string): string[] {
+  const code = body.replace(/(['"`])(?:\\.|(?!\1)[^\\])*\1/g, '""');
+  const names: string[] = [];
+
+  for (const match of code.matchAll(/([A-Za-z_$][\w$]*(?:\s*\??\.\s*[A-Za-z_$][\w$]*)*)\s*\(/g)) {
+    if (!STATEMENT_KEYWORDS.has(match[1]!)) names.push(match[1]!);
+  }
+  for (const match of code.matchAll(/([A-Za-z_$][\w$]*(?:\s*\.\s*[A-Za-z_$][\w$]*)+)\s*=(?![=>])/g)) {
+    names.push(match[1]!);
+  }
+
+  return names.flatMap(tokenize);
+}
@@ -1,4 +1,6 @@
-import type { WebMCPConfig } from '../types.js';
+import { LATEST_SPEC_VERSION, type WebMCPConfig } from '../types.js';
+import { findPatternErrors } from '../classifier/risk-policy.js';
+import { ERRORS } from '../errors.js';
 
 // ── Default config ────────────────────────────────────────────
 
@@ -17,7 +19,7 @@ export function getDefaultConfig(): WebMCPConfig {
             model: undefined,
             temperature: 0.1,
         },
-        specVersion: '0.1',
+        specVersion: LATEST_SPEC_VERSION,
     };
 }
 
@@ -27,7 +29,8 @@ let cosmiconfig: typeof import('cosmiconfig') | undefined;
 
 /**
  * Load the nearest WebMCP config file using cosmiconfig.
- * Falls back to defaults if no config file is found.
+ * Falls back to defaults if no config file is found; throws INVALID_CONFIG
+ * if its classification patterns don't compile.
  *
  * Supported locations (in priority order):
  *   .webmcprc.json, .webmcprc.yml, .webmcprc.yaml,
@@ -35,6 +38,7 @@ let cosmiconfig: typeof import('cosmiconfig') | undefined;
  *   package.json (under "webmcp" key)
  */
 export async function loadConfig(searchFrom?: string): Promise<WebMCPConfig> {
+    let result: import('cosmiconfig').CosmiconfigResult;
     try {
         // Dynamic import avoids bundling issues and keeps tree-shaking happy
         if (!cosmiconfig) {
@@ -52,18 +56,19 @@ export async function loadConfig(searchFrom?: string): Promise<WebMCPConfig> {
             ],
         });
 
-        const result = await explorer.search(searchFrom);
-        if (!result || result.isEmpty) return getDefaultConfig();
-
-        return mergeWithDefaults(result.config as Partial<WebMCPConfig>);
+        result = await explorer.search(searchFrom);
     } catch {
         // cosmiconfig not available or search failed — fall back to defaults
         return getDefaultConfig();
     }
+    if (!result || result.isEmpty) return getDefaultConfig();
+
+    return validateConfig(mergeWithDefaults(result.config as Partial<WebMCPConfig>), result.filepath);
 }
 
 /** Synchronous version — used in non-async contexts */
 export function loadConfigSync(searchFrom?: string): WebMCPConfig {
+    let result: import('cosmiconfig').CosmiconfigResult;
     try {
         // eslint-disable-next-line @typescript-eslint/no-require-imports
         const { cosmiconfigSync } = require('cosmiconfig') as typeof import('cosmiconfig');
@@ -77,13 +82,22 @@ export function loadConfigSync(searchFrom?: string): WebMCPConfig {
             ],
         });
 
-        const result = explorer.search(searchFrom ?? process.cwd());
-        if (!result || result.isEmpty) return getDefaultConfig();
-
-        return mergeWithDefaults(result.config as Partial<WebMCPConfig>);
+        result = explorer.search(searchFrom ?? process.cwd());
     } catch {
         return getDefaultConfig();
     }
+    if (!result || result.isEmpty) return getDefaultConfig();
+
+    return validateConfig(mergeWithDefaults(result.config as Partial<WebMCPConfig>), result.filepath);
+}
+
+// ── Validation ────────────────────────────────────────────────
+
+/** Compile every classification pattern now, so a bad one is reported against the file */
+function validateConfig(config: WebMCPConfig, path: string): WebMCPConfig {
+    const errors = findPatternErrors(config);
+    if (errors.length > 0) throw ERRORS.INVALID_CONFIG(path, errors.join('; '));
+    return config;
 }
 
 // ── Merge helpers ─────────────────────────────────────────────
@@ -29,7 +29,7 @@ export const ERRORS = {
             `Unsupported file type: ${ext}`,
             'UNSUPPORTED_TYPE',
             `File type "${ext}" is not supported.`,
-            'Supported types: .tsx, .jsx, .html. Vue support coming in v2.',
+            'Supported types: .tsx, .jsx, .html, .vue, .svelte and Angular component .ts files.',
         ),
 
     NO_ELEMENTS_FOUND: (file: string) =>
@@ -79,6 +79,22 @@ export const ERRORS = {
             `Could not write output file: ${path}`,
             'Check file permissions and available disk space.',
         ),
+
+    INVALID_MANIFEST: (path: string, detail: string) =>
+        new WebMCPError(
+            `Invalid tool manifest ${path}: ${detail}`,
+            'INVALID_MANIFEST',
+            `The tool manifest ${path} could not be read: ${detail}`,
+            'Fix the file by hand, or delete it and review the tools again.',
+        ),
+
+    INVALID_CONFIG: (path: string, detail: string) =>
+        new WebMCPError(
+            `Invalid config ${path}: ${detail}`,
+            'INVALID_CONFIG',
+            `The config ${path} has errors: ${detail}`,
+            'Patterns are globs (`delete_*`, `/api/admin/**`) or regexes written as `/pattern/flags`.',
+        ),
 } as const;
 
 /** Type guard for WebMCPError */
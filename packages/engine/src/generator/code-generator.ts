@@ -1,5 +1,6 @@
-import type { ToolProposal, OutputFormat, FrameworkType, LLMAdapter } from '../types.js';
-import { FRAMEWORK_HELPERS } from './framework-helpers.js';
+import { LATEST_SPEC_VERSION } from '../types.js';
+import type { ToolProposal, ToolAnnotations, OutputFormat, FrameworkType, LLMAdapter, UIElement, WebMCPSpecVersion } from '../types.js';
+import { FRAMEWORK_HELPERS, buildSelectorArray } from './framework-helpers.js';
 import { generateHandlerWithLLM, buildTemplateHandler } from './handler-generator.js';
 import { createHash } from 'node:crypto';
 import { getCachedHandler, setCachedHandler } from '../cache/file-cache.js';
@@ -8,6 +9,8 @@ export interface GenerateOptions {
   format: OutputFormat;
   framework: FrameworkType;
   llm?: LLMAdapter;
+  /** Tool shape to emit. Default: the latest MCP spec */
+  specVersion?: WebMCPSpecVersion;
 }
 
 // ── Async path — with or without LLM ─────────────────────────
@@ -45,7 +48,7 @@ export async function generateMCPCode(
       }
     }
 
-    toolRegistrations.push(buildToolRegistration(tool, handlerBody, i));
+    toolRegistrations.push(buildToolRegistration(tool, handlerBody, i, options.specVersion));
   }
 
   const sourceHash = createHash('sha256')
@@ -68,10 +71,10 @@ export async function generateMCPCode(
  */
 export function generateMCPCodeSync(
   tools: ToolProposal[],
-  _options: Omit<GenerateOptions, 'llm'>,
+  options: Omit<GenerateOptions, 'llm'>,
 ): string {
   const toolRegistrations = tools.map((tool, index) =>
-    buildToolRegistration(tool, buildTemplateHandler(tool), index)
+    buildToolRegistration(tool, buildTemplateHandler(tool), index, options.specVersion)
   );
 
   const hash = tools.map(t => t.name).join('+');
@@ -80,34 +83,91 @@ export function generateMCPCodeSync(
 
 // ── Shared helpers ────────────────────────────────────────────
 
-function buildToolRegistration(tool: ToolProposal, handlerBody: string, index: number): string {
+function buildToolRegistration(
+  tool: ToolProposal,
+  handlerBody: string,
+  index: number,
+  specVersion: WebMCPSpecVersion = LATEST_SPEC_VERSION,
+): string {
   const propsJSON = JSON.stringify(tool.inputSchema.properties, null, 4)
     .replace(/^/gm, '    ')
     .trimStart();
 
   const varName = `tool_${index}`;
 
+  const legacy = specVersion === '0.1';
+
+  // Both shapes carry risk; the MCP shape adds annotations and an output schema
+  const header = [
+    `id: ${JSON.stringify(tool.id)},`,
+    `name: ${JSON.stringify(tool.name)},`,
+    `description: ${JSON.stringify(tool.description)},`,
+    `risk: ${JSON.stringify(tool.risk)},`,
+  ];
+  const trailer = legacy ? [] : [
+    ...(tool.outputSchema ? [`outputSchema: ${JSON.stringify(tool.outputSchema, null, 2).replace(/\n/g, '\n  ')},`] : []),
+    `annotations: ${JSON.stringify(toolAnnotations(tool))},`,
+  ];
+
+  // Handlers return { success, message, data }; __mcpAsContent turns that into content blocks
+  const handler = legacy
+    ? `handler: async (params) => {\n${indentBody(handlerBody, 4)}\n  }`
+    : `handler: __mcpAsContent(async (params) => {\n${indentBody(handlerBody, 4)}\n  })`;
+
+  // The lifecycle watcher keeps what registerTool returned, to remove exactly this registration
+  const registrationVar = `registration_${index}`;
+  const lifecycle = buildLifecycleCall(tool, varName, registrationVar);
+  const keep = lifecycle ? `${registrationVar} = ` : '';
+
+  // WebMCP calls a tool's `execute`; the window.mcp runtime calls its `handler`
   return `
 const ${varName} = {
-  id: ${JSON.stringify(tool.id)},
-  name: ${JSON.stringify(tool.name)},
-  description: ${JSON.stringify(tool.description)},
+${header.map(line => `  ${line}`).join('\n')}
   inputSchema: {
     type: "object",
     properties: ${propsJSON},
     required: ${JSON.stringify(tool.inputSchema.required)}
-  },
-  handler: async (params) => {
-${indentBody(handlerBody, 4)}
-  }
+  },${trailer.map(line => `\n  ${line}`).join('')}
+  ${handler}
 };
-
+${lifecycle ? `\nlet ${registrationVar};` : ''}
 if (typeof navigator !== 'undefined' && 'modelContext' in navigator) {
-  navigator.modelContext.registerTool(${varName});
+  ${keep}navigator.modelContext.registerTool(__mcpNativeTool(${varName}));
 } else {
   window.mcp = window.mcp || { __toolBuffer: [], registerTool: function(t) { this.__toolBuffer.push(t); } };
-  window.mcp.registerTool(${varName});
-}`;
+  ${keep}window.mcp.registerTool(${varName});
+}${lifecycle}`;
+}
+
+/**
+ * MCP tool annotations for a proposal's risk. Only query tools are read-only:
+ * even a `safe` action clicks or types into the page. Repeating a query changes nothing.
+ */
+export function toolAnnotations(tool: ToolProposal): ToolAnnotations {
+  return {
+    readOnlyHint: tool.kind === 'query',
+    destructiveHint: tool.risk === 'destructive',
+    idempotentHint: tool.kind === 'query',
+  };
+}
+
+/**
+ * Tie the tool's registration to its trigger (or first input) staying in the DOM.
+ * Wizards anchor on their first step, where every run starts.
+ * Skipped when the anchor has no usable selector.
+ */
+function buildLifecycleCall(tool: ToolProposal, varName: string, registrationVar: string): string {
+  const firstStep = tool.sourceMapping.steps?.[0];
+  // Repeated rows may all be removed, so row fields and actions never anchor a tool
+  const fixed = (elements: (UIElement | undefined)[]) => elements.find(el => el && !el.rowField && !el.rowAction);
+  const anchor = (firstStep && fixed([...firstStep.inputElements, firstStep.nextElement]))
+    ?? fixed([tool.sourceMapping.triggerElement])
+    ?? fixed(tool.sourceMapping.inputElements)
+    ?? tool.sourceMapping.readElements?.[0];
+  if (!anchor) return '';
+  const selectors = buildSelectorArray(anchor);
+  if (selectors.includes('/* TODO')) return '';
+  return `\n__mcpTrackLifecycle(${varName}, ${selectors}, ${registrationVar});`;
 }
 
 function formatOutput(toolRegistrations: string[], sourceHash: string, modeComment: string): string {
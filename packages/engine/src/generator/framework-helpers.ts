@@ -6,33 +6,126 @@
 
 export const FRAMEWORK_HELPERS = `
 // ── WebMCP DOM helpers ──────────────────────────────────────
-function __mcpFind(selectors) {
+// A selector may descend through shadow roots and same-origin iframes
+// with " >>> ": "payment-widget >>> iframe#card >>> input[name=cc]".
+// A plain selector that misses the document is retried inside every
+// open shadow root and same-origin iframe.
+function __mcpChildRoot(host) {
+  if (host.shadowRoot) return host.shadowRoot;
+  if (host.tagName === 'IFRAME' || host.tagName === 'FRAME') {
+    try {
+      return host.contentDocument;
+    } catch (e) {
+      return null; // Cross-origin frames can't be reached
+    }
+  }
+  return null;
+}
+
+function __mcpIsHost(el) {
+  return !!el.shadowRoot || el.tagName === 'IFRAME' || el.tagName === 'FRAME';
+}
+
+function __mcpHostedRoots(root) {
+  const found = [];
+  for (const host of root.querySelectorAll('*')) {
+    const inner = __mcpIsHost(host) ? __mcpChildRoot(host) : null;
+    if (inner) found.push({ host, root: inner }, ...__mcpHostedRoots(inner));
+  }
+  return found;
+}
+
+// Nested roots are kept between lookups, so polling for an element that
+// isn't there yet doesn't walk the whole DOM each time. The cache is
+// rebuilt when a frame or shadow host is added, or when a cached host is
+// removed or its frame navigates.
+let __mcpRootCache = null;
+let __mcpRootObserver = null;
+
+function __mcpAddsRoots(record) {
+  return Array.from(record.addedNodes).some(node =>
+    node.nodeType === 1 && (__mcpIsHost(node) || Array.from(node.querySelectorAll('*')).some(__mcpIsHost)));
+}
+
+function __mcpNestedRoots() {
+  if (typeof MutationObserver === 'undefined') return __mcpHostedRoots(document).map(e => e.root);
+  // Mutations not yet delivered to the observer still count
+  if (__mcpRootObserver && __mcpRootObserver.takeRecords().some(__mcpAddsRoots)) __mcpRootCache = null;
+  const fresh = __mcpRootCache && __mcpRootCache.every(e => e.host.isConnected && __mcpChildRoot(e.host) === e.root);
+  if (!fresh) {
+    __mcpRootCache = __mcpHostedRoots(document);
+    __mcpRootObserver = __mcpRootObserver || new MutationObserver(records => {
+      if (records.some(__mcpAddsRoots)) __mcpRootCache = null;
+    });
+    __mcpRootObserver.disconnect();
+    for (const root of [document, ...__mcpRootCache.map(e => e.root)]) {
+      __mcpRootObserver.observe(root, { childList: true, subtree: true });
+    }
+  }
+  return __mcpRootCache.map(e => e.root);
+}
+
+function __mcpSelectAll(selector) {
+  const steps = selector.split('>>>').map(step => step.trim());
+  const target = steps.pop();
+  let roots = [document];
+  for (const host of steps) {
+    roots = roots
+      .flatMap(root => Array.from(root.querySelectorAll(host)))
+      .map(__mcpChildRoot)
+      .filter(Boolean);
+  }
+  const found = roots.flatMap(root => Array.from(root.querySelectorAll(target)));
+  if (found.length > 0 || steps.length > 0) return found;
+  return __mcpNestedRoots().flatMap(root => Array.from(root.querySelectorAll(target)));
+}
+
+function __mcpQuery(selectors) {
   for (const sel of selectors) {
-    const el = document.querySelector(sel);
-    if (el) return el;
+    try {
+      const el = __mcpSelectAll(sel)[0];
+      if (el) return el;
+    } catch (e) {
+      // Not a valid CSS selector (e.g. a label strategy) — try the next one
+    }
   }
+  return null;
+}
+
+function __mcpFind(selectors) {
+  // Row helpers resolve the element themselves
+  if (!Array.isArray(selectors)) return selectors;
+  const el = __mcpQuery(selectors);
+  if (el) return el;
   throw new Error('[WebMCP] Element not found matching any of: ' + selectors.join(', '));
 }
 
+// Elements inside an iframe belong to the iframe's window and prototypes
+function __mcpViewOf(el) {
+  return (el.ownerDocument && el.ownerDocument.defaultView) || window;
+}
+
 function __mcpSetValue(selectors, value) {
   const el = __mcpFind(selectors);
+  const view = __mcpViewOf(el);
   // Use native setter to bypass React's value tracking
-  const proto = el instanceof HTMLTextAreaElement
-    ? HTMLTextAreaElement.prototype
-    : HTMLInputElement.prototype;
+  const proto = el instanceof view.HTMLTextAreaElement
+    ? view.HTMLTextAreaElement.prototype
+    : view.HTMLInputElement.prototype;
   const nativeSetter = Object.getOwnPropertyDescriptor(proto, 'value')?.set;
   if (nativeSetter) {
     nativeSetter.call(el, value);
   } else {
     el.value = value;
   }
-  el.dispatchEvent(new Event('input', { bubbles: true }));
+  // Like a native input event, crosses shadow boundaries to reach the host's listeners
+  el.dispatchEvent(new Event('input', { bubbles: true, composed: true }));
   el.dispatchEvent(new Event('change', { bubbles: true }));
 }
 
 function __mcpSetChecked(selectors, checked) {
   const el = __mcpFind(selectors);
-  const nativeSetter = Object.getOwnPropertyDescriptor(HTMLInputElement.prototype, 'checked')?.set;
+  const nativeSetter = Object.getOwnPropertyDescriptor(__mcpViewOf(el).HTMLInputElement.prototype, 'checked')?.set;
   if (nativeSetter) nativeSetter.call(el, checked);
   else el.checked = checked;
   el.dispatchEvent(new Event('change', { bubbles: true }));
@@ -44,24 +137,480 @@ function __mcpSetSelect(selectors, value) {
   el.dispatchEvent(new Event('change', { bubbles: true }));
 }
 
+function __mcpSetRadio(name, value) {
+  const radios = [document, ...__mcpNestedRoots()]
+    .flatMap(root => Array.from(root.querySelectorAll('input[type="radio"]')))
+    .filter(r => r.name === name);
+  const el = radios.find(r => r.value === String(value));
+  if (!el) {
+    throw new Error('[WebMCP] No "' + name + '" option with value ' + JSON.stringify(value) +
+      ' (available: ' + radios.map(r => r.value).join(', ') + ')');
+  }
+  el.click();
+}
+
 function __mcpClick(selectors) {
   const el = __mcpFind(selectors);
   el.click();
 }
+
+// Resolves once an element matching the selectors is in the DOM — used by
+// wizard tools to wait for the next step to render after clicking "Next"
+function __mcpWaitFor(selectors, timeoutMs) {
+  return new Promise((resolve, reject) => {
+    const started = Date.now();
+    const poll = () => {
+      const el = __mcpQuery(selectors);
+      if (el) return resolve(el);
+      if (Date.now() - started > timeoutMs) {
+        return reject(new Error('[WebMCP] Timed out waiting for: ' + selectors.join(', ')));
+      }
+      setTimeout(poll, 50);
+    };
+    poll();
+  });
+}
+
+// ── Repeated field rows ─────────────────────────────────────
+// Every row's field matches the same selector pattern; the nth match is row n.
+function __mcpQueryAll(selectors) {
+  for (const sel of selectors) {
+    try {
+      const els = __mcpSelectAll(sel);
+      if (els.length > 0) return els;
+    } catch (e) {
+      // Not a valid CSS selector — try the next one
+    }
+  }
+  return [];
+}
+
+function __mcpRowField(selectors, index) {
+  const el = __mcpQueryAll(selectors)[index];
+  if (!el) throw new Error('[WebMCP] No row ' + (index + 1) + ' field matching any of: ' + selectors.join(', '));
+  return el;
+}
+
+// Click "Add" until the row at index renders (rows already on the page are reused)
+async function __mcpEnsureRow(selectors, index, addSelectors, timeoutMs) {
+  while (__mcpQueryAll(selectors).length <= index) {
+    const before = __mcpQueryAll(selectors).length;
+    __mcpClick(addSelectors);
+    const started = Date.now();
+    while (__mcpQueryAll(selectors).length === before) {
+      if (Date.now() - started > timeoutMs) {
+        throw new Error('[WebMCP] Clicking "Add" did not render row ' + (index + 1));
+      }
+      await new Promise(r => setTimeout(r, 50));
+    }
+  }
+}
+
+// Tag-style inputs: type one value into the entry field and click "Add"
+async function __mcpAddEntry(selectors, addSelectors, value) {
+  __mcpSetValue(selectors, value);
+  await new Promise(r => setTimeout(r, 0));
+  __mcpClick(addSelectors);
+  await new Promise(r => setTimeout(r, 0));
+}
+
+// ── Row actions ─────────────────────────────────────────────
+// One tool acts on any row: the agent names the row by a key rendered
+// into its attributes (id="row-usr_1"), a cell's exact text, its
+// 1-based position, or text it contains — in that order.
+function __mcpFindRow(selectors, match) {
+  const rows = __mcpQueryAll(selectors);
+  const wanted = String(match).trim();
+  const lower = wanted.toLowerCase();
+  const byKey = rows.filter(row => [row, ...row.querySelectorAll('*')].some(el =>
+    Array.from(el.attributes).some(a => a.value === wanted || a.value.split(/[\\s\\-:/#]+/).includes(wanted))));
+  if (byKey.length === 1) return byKey[0];
+  const byCell = rows.filter(row => Array.from(row.children).some(cell => __mcpCellText(cell).toLowerCase() === lower));
+  if (byCell.length === 1) return byCell[0];
+  if (/^\\d+$/.test(wanted) && rows[Number(wanted) - 1]) return rows[Number(wanted) - 1];
+  const byText = rows.filter(row => __mcpCellText(row).toLowerCase().includes(lower));
+  if (byText.length === 1) return byText[0];
+
+  const ambiguous = [byKey, byCell, byText].find(list => list.length > 1);
+  if (ambiguous) {
+    throw new Error('[WebMCP] ' + ambiguous.length + ' rows match ' + JSON.stringify(wanted) + ' — be more specific');
+  }
+  throw new Error('[WebMCP] No row matching ' + JSON.stringify(wanted) + ' among ' + rows.length + ' rows');
+}
+
+// The row's own copy of a repeated control: by selector, else by its text or aria-label
+function __mcpWithin(row, selectors, label) {
+  for (const sel of selectors) {
+    try {
+      const el = row.querySelector(sel);
+      if (el) return el;
+    } catch (e) {
+      // Not a valid CSS selector — try the next one
+    }
+  }
+  const wanted = String(label || '').trim().toLowerCase();
+  const controls = Array.from(row.querySelectorAll('button, [role="button"], a, input[type="button"], input[type="submit"]'));
+  const el = wanted && controls.find(c =>
+    __mcpCellText(c).toLowerCase() === wanted || (c.getAttribute('aria-label') || '').toLowerCase().startsWith(wanted));
+  if (el) return el;
+  throw new Error('[WebMCP] No ' + JSON.stringify(label) + ' control in the matching row');
+}
+
+// ── Outcome detection ───────────────────────────────────────
+// Handlers start watching before they click, then wait for the first
+// observable result: a matching network response, an error/success
+// message appearing in the DOM, native validation blocking submit,
+// or the timeout.
+const __MCP_ERROR_SELECTOR = '[role="alert"], .error, .errors, .invalid-feedback, [class*="error"], [class*="danger"]';
+const __MCP_SUCCESS_SELECTOR = '[role="status"], .toast, .success, [class*="success"], [class*="toast"]';
+
+function __mcpNetworkHub() {
+  if (window.__mcpNetwork) return window.__mcpNetwork;
+  const hub = { listeners: new Set() };
+  window.__mcpNetwork = hub;
+  const notify = (info) => hub.listeners.forEach(l => l(info));
+
+  if (typeof window.fetch === 'function') {
+    const originalFetch = window.fetch;
+    window.fetch = function (input, init) {
+      const url = typeof input === 'string' ? input : (input && input.url) || String(input);
+      const method = String((init && init.method) || (input && input.method) || 'GET').toUpperCase();
+      const pending = originalFetch.apply(this, arguments);
+      pending.then(
+        res => notify({ url, method, status: res.status, ok: res.ok, read: () => res.clone().text() }),
+        err => notify({ url, method, status: 0, ok: false, error: String(err) }),
+      );
+      return pending;
+    };
+  }
+
+  if (typeof XMLHttpRequest !== 'undefined') {
+    const open = XMLHttpRequest.prototype.open;
+    const send = XMLHttpRequest.prototype.send;
+    XMLHttpRequest.prototype.open = function (method, url) {
+      this.__mcpRequest = { method: String(method).toUpperCase(), url: String(url) };
+      return open.apply(this, arguments);
+    };
+    XMLHttpRequest.prototype.send = function () {
+      const req = this.__mcpRequest;
+      if (req) {
+        this.addEventListener('loadend', () => notify({
+          url: req.url,
+          method: req.method,
+          status: this.status,
+          ok: this.status >= 200 && this.status < 300,
+          read: () => Promise.resolve(typeof this.responseText === 'string' ? this.responseText : ''),
+        }));
+      }
+      return send.apply(this, arguments);
+    };
+  }
+
+  return hub;
+}
+
+function __mcpUrlMatches(actual, expected) {
+  // Template URLs from source (e.g. /api/users/\${id}) match any segment value
+  const pattern = expected
+    .split(/\\$\\{[^}]*\\}/)
+    .map(part => part.replace(/[.*+?^\${}()|[\\]\\\\]/g, '\\\\$&'))
+    .join('[^/?#]+');
+  return new RegExp(pattern + '(?:[?#].*)?$').test(actual);
+}
+
+function __mcpFeedbackText(el) {
+  return (el.innerText || el.textContent || '').trim().slice(0, 300);
+}
+
+function __mcpDetectFeedback(node, wantSuccess) {
+  if (!node || node.nodeType !== 1) return null;
+  if (node.getAttribute('aria-invalid') === 'true') {
+    const ref = node.getAttribute('aria-errormessage') || node.getAttribute('aria-describedby');
+    const msgEl = ref ? document.getElementById(ref.split(' ')[0]) : null;
+    const text = msgEl ? __mcpFeedbackText(msgEl) : '';
+    return { kind: 'error', text: text || 'Invalid value in ' + (node.name || node.id || node.tagName.toLowerCase()) };
+  }
+  const find = sel => (node.matches(sel) ? node : node.querySelector(sel));
+  const errorEl = find(__MCP_ERROR_SELECTOR);
+  if (errorEl && __mcpFeedbackText(errorEl)) return { kind: 'error', text: __mcpFeedbackText(errorEl) };
+  if (wantSuccess) {
+    const okEl = find(__MCP_SUCCESS_SELECTOR);
+    if (okEl && __mcpFeedbackText(okEl)) return { kind: 'success', text: __mcpFeedbackText(okEl) };
+  }
+  return null;
+}
+
+function __mcpWatchOutcome(expect) {
+  const requests = (expect && expect.requests) || [];
+  const timeoutMs = (expect && expect.timeoutMs) || 5000;
+
+  return new Promise((resolve) => {
+    const cleanup = [];
+    let done = false;
+    const finish = (outcome) => {
+      if (done) return;
+      done = true;
+      cleanup.forEach(fn => fn());
+      resolve(outcome);
+    };
+
+    if (requests.length > 0 && typeof window !== 'undefined') {
+      const hub = __mcpNetworkHub();
+      const listener = async (info) => {
+        if (!requests.some(r => r.method === info.method && __mcpUrlMatches(info.url, r.url))) return;
+        let body;
+        try {
+          const text = info.read ? await info.read() : '';
+          try { body = JSON.parse(text); } catch (e) { body = text ? text.slice(0, 1000) : undefined; }
+        } catch (e) {
+          body = undefined;
+        }
+        const label = info.method + ' ' + info.url;
+        finish({
+          outcome: 'network',
+          success: info.ok,
+          message: info.ok
+            ? label + ' succeeded (' + info.status + ')'
+            : label + ' failed (' + (info.status || info.error || 'network error') + ')',
+          status: info.status,
+          body,
+        });
+      };
+      hub.listeners.add(listener);
+      cleanup.push(() => hub.listeners.delete(listener));
+    }
+
+    if (typeof document !== 'undefined') {
+      const onInvalid = (e) => {
+        const el = e.target;
+        finish({
+          outcome: 'validation',
+          success: false,
+          message: (el.name || el.id || el.tagName.toLowerCase()) + ': ' + (el.validationMessage || 'invalid value'),
+        });
+      };
+      document.addEventListener('invalid', onInvalid, true);
+      cleanup.push(() => document.removeEventListener('invalid', onInvalid, true));
+
+      if (typeof MutationObserver !== 'undefined') {
+        // With a request to wait for, a "Saving…" status is not the outcome — only errors count
+        const wantSuccess = requests.length === 0;
+        const observer = new MutationObserver((records) => {
+          for (const rec of records) {
+            const nodes = rec.type === 'attributes' ? [rec.target] : Array.from(rec.addedNodes);
+            for (const node of nodes) {
+              const hit = __mcpDetectFeedback(node, wantSuccess);
+              if (hit) {
+                finish({ outcome: 'dom', success: hit.kind === 'success', message: hit.text });
+                return;
+              }
+            }
+          }
+        });
+        observer.observe(document.body || document.documentElement, {
+          childList: true,
+          subtree: true,
+          attributes: true,
+          attributeFilter: ['aria-invalid'],
+        });
+        cleanup.push(() => observer.disconnect());
+      }
+    }
+
+    // An expected request that never fired means the action most likely never went through
+    const timer = setTimeout(() => finish({
+      outcome: 'timeout',
+      success: requests.length === 0,
+      message: requests.length > 0
+        ? 'No request to ' + requests.map(r => r.method + ' ' + r.url).join(', ') + ' observed within ' + timeoutMs + 'ms; the action may not have been submitted'
+        : 'Action completed; no error observed within ' + timeoutMs + 'ms',
+    }), timeoutMs);
+    cleanup.push(() => clearTimeout(timer));
+  });
+}
+
+// ── Read-only queries ───────────────────────────────────────
+// Scrape what the page currently shows into plain JSON.
+function __mcpCellText(el) {
+  return (el.innerText || el.textContent || '').replace(/\\s+/g, ' ').trim();
+}
+
+function __mcpReadTable(selectors) {
+  const table = __mcpFind(selectors);
+  let headerRow = table.tHead ? table.tHead.rows[0] : null;
+  if (!headerRow && table.rows.length > 0 &&
+      Array.from(table.rows[0].cells).every(c => c.tagName === 'TH')) {
+    headerRow = table.rows[0];
+  }
+  const columns = headerRow
+    ? Array.from(headerRow.cells).map((c, i) => __mcpCellText(c) || 'column_' + (i + 1))
+    : [];
+  const bodyRows = table.tBodies.length > 0
+    ? Array.from(table.tBodies).flatMap(b => Array.from(b.rows)).filter(r => r !== headerRow)
+    : Array.from(table.rows).filter(r => r !== headerRow);
+  const rows = bodyRows.map(row => {
+    const cells = Array.from(row.cells).map(__mcpCellText);
+    if (columns.length === 0) return cells;
+    const record = {};
+    cells.forEach((text, i) => { record[columns[i] || 'column_' + (i + 1)] = text; });
+    return record;
+  });
+  return { columns, rows, count: rows.length };
+}
+
+function __mcpReadList(selectors) {
+  const list = __mcpFind(selectors);
+  const items = Array.from(list.children)
+    .filter(c => c.tagName !== 'TEMPLATE' && c.tagName !== 'SCRIPT')
+    .map(__mcpCellText)
+    .filter(Boolean);
+  return { items, count: items.length };
+}
+
+function __mcpReadValues(fields) {
+  const values = {};
+  for (const [key, selectors] of Object.entries(fields)) {
+    const el = __mcpQuery(selectors);
+    if (!el) { values[key] = null; continue; }
+    if (el.type === 'checkbox') values[key] = el.checked;
+    else if (el.type === 'radio') {
+      const checked = Array.from(el.getRootNode().querySelectorAll('input[type="radio"]'))
+        .find(r => r.name === el.name && r.checked);
+      values[key] = checked ? checked.value : null;
+    }
+    else if (el.type === 'number' || el.type === 'range') values[key] = el.value === '' ? null : Number(el.value);
+    else if (el.tagName === 'SELECT' && el.multiple) values[key] = Array.from(el.selectedOptions).map(o => o.value);
+    else values[key] = el.value;
+  }
+  return values;
+}
+
+// ── MCP results ─────────────────────────────────────────────
+// Handlers build { success, message, data }; MCP callers expect
+// { content, structuredContent?, isError } instead.
+function __mcpToContent(result) {
+  if (result && Array.isArray(result.content)) return result;
+  const { success = false, message, data } = result || {};
+  const content = [{ type: 'text', text: message || (success ? 'Done' : 'Failed') }];
+  const converted = { content, isError: !success };
+  if (data !== undefined) {
+    content.push({ type: 'text', text: JSON.stringify(data) });
+    if (data !== null && typeof data === 'object' && !Array.isArray(data)) converted.structuredContent = data;
+  }
+  return converted;
+}
+
+function __mcpAsContent(handler) {
+  return async (params) => __mcpToContent(await handler(params));
+}
+
+// ── Native registration ─────────────────────────────────────
+// navigator.modelContext has no confirm step of its own, so a destructive
+// tool asks the user before its handler runs — as the window.mcp runtime does.
+function __mcpNativeTool(tool) {
+  const destructive = tool.risk === 'destructive' || !!(tool.annotations && tool.annotations.destructiveHint);
+  if (!destructive) return { ...tool, execute: tool.handler };
+  const ask = () => typeof window !== 'undefined' && typeof window.confirm === 'function' &&
+    window.confirm('An AI agent wants to run "' + tool.name + '"\\n\\n' + tool.description);
+  return {
+    ...tool,
+    execute: async (params, client) => {
+      const allowed = client && typeof client.requestUserInteraction === 'function'
+        ? await client.requestUserInteraction(ask)
+        : ask();
+      if (!allowed) {
+        const denied = { success: false, message: 'User denied destructive tool "' + tool.name + '"' };
+        return tool.annotations ? __mcpToContent(denied) : denied;
+      }
+      return tool.handler(params);
+    },
+  };
+}
+
+// ── Tool lifecycle ──────────────────────────────────────────
+// Unregisters a tool once its anchor element leaves the DOM (e.g. the
+// component unmounted) and registers it again when the anchor returns.
+const __mcpWatchers = [];
+let __mcpObserver = null;
+
+// Returns whatever registerTool returned: the window.mcp runtime's disposer,
+// a native registration, or nothing (the pre-init buffer)
+function __mcpRegisterTool(tool) {
+  if (typeof navigator !== 'undefined' && 'modelContext' in navigator) {
+    return navigator.modelContext.registerTool(__mcpNativeTool(tool));
+  }
+  const runtime = window.mcp;
+  return runtime ? runtime.registerTool(tool) : undefined;
+}
+
+// A function that removes only this registration, so another file's tool
+// with the same name stays registered
+function __mcpDisposer(tool, registration) {
+  if (typeof registration === 'function') return registration;
+  if (registration && typeof registration.unregister === 'function') return () => registration.unregister();
+  return () => __mcpUnregisterTool(tool);
+}
+
+// Fallback when registerTool handed back no disposer
+function __mcpUnregisterTool(tool) {
+  if (typeof navigator !== 'undefined' && 'modelContext' in navigator) {
+    if (typeof navigator.modelContext.unregisterTool === 'function') {
+      navigator.modelContext.unregisterTool(tool.name);
+    }
+    return;
+  }
+  const runtime = window.mcp;
+  if (!runtime) return;
+  if (Array.isArray(runtime.__toolBuffer)) {
+    // Runtime not loaded yet — drop it from the pre-init buffer instead
+    runtime.__toolBuffer = runtime.__toolBuffer.filter(t => t !== tool);
+  } else if (typeof runtime.unregisterTool === 'function') {
+    // The runtime has since taken over the buffer: remove the tool only if it is still this one
+    const live = runtime.getTools().find(t => t.name === tool.name);
+    if (live && live.handler === tool.handler) runtime.unregisterTool(tool.name);
+  }
+}
+
+function __mcpTrackLifecycle(tool, anchorSelectors, registration) {
+  if (typeof document === 'undefined' || typeof MutationObserver === 'undefined') return;
+  __mcpWatchers.push({
+    tool,
+    anchorSelectors,
+    dispose: __mcpDisposer(tool, registration),
+    present: !!__mcpQuery(anchorSelectors),
+  });
+  if (__mcpObserver) return;
+  __mcpObserver = new MutationObserver(() => {
+    for (const w of __mcpWatchers) {
+      const present = !!__mcpQuery(w.anchorSelectors);
+      // Only a present → absent transition unregisters, so tools whose UI
+      // has not rendered yet (closed modals, later steps) stay available
+      if (w.present && !present && w.dispose) {
+        w.dispose();
+        w.dispose = null;
+      } else if (present && !w.dispose) {
+        w.dispose = __mcpDisposer(w.tool, __mcpRegisterTool(w.tool));
+      }
+      w.present = present;
+    }
+  });
+  __mcpObserver.observe(document.documentElement, { childList: true, subtree: true });
+}
 // ────────────────────────────────────────────────────────────
 `;
 
 // ── Selector builder ──────────────────────────────────────────
 
-import type { UIElement } from '../types.js';
+import type { UIElement, DisplayRegion, RowAction, SelectorStrategy } from '../types.js';
 
 /**
  * Build a JSON array of fallback CSS selectors for a UI element.
  * Prioritizes the runtime-probed strategy fallback array if available.
  */
 export function buildSelectorArray(el: UIElement): string {
+  if (el.rowField || el.rowAction) return buildRowSelectorArray(el);
   if (el.selectorFallback && el.selectorFallback.length > 0) {
-    const strats = el.selectorFallback.map(s => s.value);
+    const strats = el.selectorFallback.map(strategySelector);
     return JSON.stringify(strats);
   }
 
@@ -70,6 +619,7 @@ export function buildSelectorArray(el: UIElement): string {
   if (el.id) fallbacks.push(`#${el.id}`);
   if (el.attributes['data-testid']) fallbacks.push(`[data-testid="${el.attributes['data-testid']}"]`);
   if (el.name) fallbacks.push(`[name="${el.name}"]`);
+  if (el.attributes['formControlName']) fallbacks.push(`[formcontrolname="${el.attributes['formControlName']}"]`);
   if (el.accessibilityHints?.ariaLabel) fallbacks.push(`[aria-label="${el.accessibilityHints.ariaLabel}"]`);
   if (el.inputType) fallbacks.push(`input[type="${el.inputType}"]`);
 
@@ -78,17 +628,104 @@ export function buildSelectorArray(el: UIElement): string {
   return JSON.stringify(fallbacks);
 }
 
+/**
+ * The runtime selector for a probed strategy. Strategies found inside
+ * shadow roots or iframes are prefixed with their host path, joined by
+ * ` >>> ` as `__mcpSelectAll` expects.
+ */
+function strategySelector(strategy: SelectorStrategy): string {
+  let selector = strategy.value;
+  if (strategy.strategy === 'testid') selector = `[data-testid="${strategy.value}"]`;
+  else if (strategy.strategy === 'mcp') selector = `[data-mcp="${strategy.value}"]`;
+  else if (strategy.strategy !== 'css') return selector;
+  return [...(strategy.path ?? []), selector].join(' >>> ');
+}
+
+/**
+ * Fallback selectors matching a row field in every row of a field group.
+ * `*` in an id / name pattern is the row index: `items.*.qty` becomes
+ * `[name^="items."][name$=".qty"]`.
+ */
+export function buildRowSelectorArray(el: UIElement): string {
+  const fallbacks = [
+    patternSelector(el.tag, 'data-testid', el.attributes['data-testid']),
+    patternSelector(el.tag, 'id', el.id),
+    patternSelector(el.tag, 'name', el.name),
+    patternSelector(el.tag, 'placeholder', el.attributes['placeholder']),
+    patternSelector(el.tag, 'aria-label', el.attributes['aria-label']),
+  ].filter((sel): sel is string => !!sel);
+
+  // Empty when nothing identifies it: row actions fall back to their label
+  // inside the row (see __mcpWithin); handlers skip such row fields
+  return JSON.stringify(fallbacks);
+}
+
+/**
+ * Fallback selectors for every row of a row action's list: per-row
+ * id / data-testid patterns, then the row tag inside its container.
+ */
+export function buildRowsSelectorArray(action: RowAction): string {
+  const tag = action.rowTag ?? '';
+  const fallbacks = [
+    patternSelector(tag, 'data-testid', action.rowTestId),
+    patternSelector(tag, 'id', action.rowId),
+  ].filter((sel): sel is string => !!sel);
+
+  if (action.containerTag) {
+    const rows = `${action.containerTag} > ${action.rowTag ?? '*'}`;
+    if (action.containerId) fallbacks.push(`#${action.containerId} ${rows}`);
+    fallbacks.push(rows);
+  } else if (action.rowTag) {
+    fallbacks.push(action.rowTag);
+  }
+
+  return JSON.stringify(fallbacks);
+}
+
+/** `items.*.qty` on `name` → `input[name^="items."][name$=".qty"]`; no `*` is an exact match */
+function patternSelector(tag: string, attr: string, pattern: string | undefined): string | undefined {
+  if (!pattern) return undefined;
+  const parts = pattern.split('*');
+  if (parts.length === 1) return `${tag}[${attr}="${pattern}"]`;
+  const prefix = parts[0]!;
+  const suffix = parts[parts.length - 1]!;
+  if (!prefix && !suffix) return undefined;
+  return `${tag}${prefix ? `[${attr}^="${prefix}"]` : ''}${suffix ? `[${attr}$="${suffix}"]` : ''}`;
+}
+
+/**
+ * Fallback selectors for a table or list a query tool reads.
+ * Ends with the bare tag so a page with a single table still resolves.
+ */
+export function buildRegionSelectorArray(region: DisplayRegion): string {
+  const fallbacks: string[] = [];
+  if (region.id) fallbacks.push(`#${region.id}`);
+  if (region.attributes['data-mcp']) fallbacks.push(`[data-mcp="${region.attributes['data-mcp']}"]`);
+  if (region.attributes['data-testid']) fallbacks.push(`[data-testid="${region.attributes['data-testid']}"]`);
+  if (region.attributes['aria-label']) fallbacks.push(`${region.tag}[aria-label="${region.attributes['aria-label']}"]`);
+  fallbacks.push(region.tag);
+  return JSON.stringify(fallbacks);
+}
+
 /**
  * Build the DOM interaction call for setting an element's value.
  * Returns the JS expression string (without semicolon).
  */
-export function buildSetCall(el: UIElement, paramName: string): string {
-  const sels = buildSelectorArray(el);
+export function buildSetCall(el: UIElement, paramName: string, target?: string): string {
+  const sels = target ?? buildSelectorArray(el);
   if (el.tag === 'select') return `__mcpSetSelect(${sels}, ${paramName})`;
   if (el.inputType === 'checkbox') return `__mcpSetChecked(${sels}, ${paramName})`;
+  if (el.inputType === 'radio' && el.name) return `__mcpSetRadio(${JSON.stringify(el.name)}, ${paramName})`;
   return `__mcpSetValue(${sels}, ${paramName})`;
 }
 
+/**
+ * Click a row action inside the row the handler found (`row`).
+ */
+export function buildRowActionCall(el: UIElement): string {
+  return `__mcpClick(__mcpWithin(row, ${buildSelectorArray(el)}, ${JSON.stringify(el.label ?? '')}))`;
+}
+
 /**
  * Build the submit/trigger call for a form or button.
  */
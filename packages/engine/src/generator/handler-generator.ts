@@ -1,5 +1,23 @@
-import type { ToolProposal, UIElement } from '../types.js';
-import { buildSelectorArray, buildSetCall, buildSubmitCall } from '../generator/framework-helpers.js';
+import type { FieldGroup, ToolProposal, UIElement } from '../types.js';
+import {
+    buildSelectorArray,
+    buildRowSelectorArray,
+    buildRowsSelectorArray,
+    buildRowActionCall,
+    buildSetCall,
+    buildSubmitCall,
+    buildRegionSelectorArray,
+} from '../generator/framework-helpers.js';
+import { getFieldKey, getFieldGroupKey } from '../proposal/index.js';
+
+/** How long a handler waits for an expected API response before giving up */
+const NETWORK_OUTCOME_TIMEOUT_MS = 10000;
+/** How long a handler without known API calls watches the DOM for feedback */
+const DOM_OUTCOME_TIMEOUT_MS = 1500;
+/** How long a wizard handler waits for the next step to render */
+const STEP_RENDER_TIMEOUT_MS = 5000;
+/** How long a handler waits for a new row to render after clicking "Add" */
+const ROW_RENDER_TIMEOUT_MS = 2000;
 
 // ── LLM prompts ───────────────────────────────────────────────
 
@@ -31,6 +49,34 @@ export function buildHandlerPrompt(tool: ToolProposal): string {
         handlerContext += `\nAPI calls made by this handler:\n${calls}`;
     }
 
+    const steps = tool.sourceMapping.steps;
+    if (steps) {
+        const stepLines = steps.map((step, i) => {
+            const fields = step.inputElements.map(el => getFieldKey(el)).filter(Boolean).join(', ') || 'no fields';
+            const next = step.nextElement ? `, then click ${buildSelectorArray(step.nextElement)}` : ', then submit with the trigger';
+            return `  ${i + 1}. "${step.value}": ${fields}${next}`;
+        });
+        handlerContext += `\nThis is a ${steps.length}-step wizard; only the current step is rendered:\n${stepLines.join('\n')}\nAfter each "Next" click, await __mcpWaitFor(<first selector array of the next step>, ${STEP_RENDER_TIMEOUT_MS}) before filling it.`;
+    }
+
+    const rowAction = tool.sourceMapping.triggerElement?.rowAction;
+    if (rowAction) {
+        handlerContext += `\nThe trigger repeats on every row of ${rowAction.collection}. First find the row params.row names: const row = __mcpFindRow(${buildRowsSelectorArray(rowAction)}, params.row); then click the trigger inside it with __mcpClick(__mcpWithin(row, <trigger selector array>, <trigger label>)).`;
+    }
+
+    for (const group of tool.sourceMapping.fieldGroups ?? []) {
+        const key = getFieldGroupKey(group);
+        const add = group.addButton ? buildSelectorArray(group.addButton) : 'none';
+        if (group.entryElement) {
+            handlerContext += `\nparams.${key} is a list of values: for each, await __mcpAddEntry(${buildSelectorArray(group.entryElement)}, ${add}, value).`;
+            continue;
+        }
+        const rowFields = selectableRowFields(tool, group, tool.sourceMapping.inputElements)
+            .map(el => `  - row.${getFieldKey(el)} → ${buildRowSelectorArray(el)}`)
+            .join('\n');
+        handlerContext += `\nparams.${key} is an array of rows (add button: ${add}). For row i, await __mcpEnsureRow(<a row selector array>, i, <add button>, ${ROW_RENDER_TIMEOUT_MS}), then fill each field with __mcpSetValue(__mcpRowField(<selector array>, i), row.<field>):\n${rowFields}`;
+    }
+
     return `You are generating a JavaScript handler for an MCP (Model Context Protocol) tool.
 
 Tool name: ${tool.name}
@@ -47,16 +93,25 @@ Available DOM helpers (already in scope, they accept the JSON array of selectors
 - __mcpSetValue(selectorsArray, value) — sets input/textarea value, fires React change events
 - __mcpSetChecked(selectorsArray, checked) — sets checkbox state
 - __mcpSetSelect(selectorsArray, value) — sets select dropdown value
+- __mcpSetRadio(name, value) — checks the radio button with that name and value
 - __mcpClick(selectorsArray) — clicks a button or element
+- __mcpWaitFor(selectorsArray, timeoutMs) — resolves when a matching element renders, rejects on timeout
+- __mcpEnsureRow(selectorsArray, index, addSelectorsArray, timeoutMs) — clicks "Add" until row \`index\` exists
+- __mcpRowField(selectorsArray, index) — the field in row \`index\`; pass it to the setters in place of a selector array
+- __mcpAddEntry(selectorsArray, addSelectorsArray, value) — types a value into an entry field and clicks "Add"
+- __mcpFindRow(rowSelectorsArray, match) — the row whose key, cell text, 1-based position or text matches
+- __mcpWithin(row, selectorsArray, label) — the control inside that row, by selector or label
+- __mcpWatchOutcome({ requests: [{ method, url }], timeoutMs }) — call BEFORE clicking; returns a promise
+  resolving to { outcome, success, message, status?, body? } from the first matching network response,
+  error/success message in the DOM, native validation failure, or timeout
 
 Generate ONLY the async handler body (statements inside async (params) => { ... }).
 Requirements:
 1. Fill each input field using the matching param value and the selector above
-2. After filling all fields, trigger the action using __mcpClick on the trigger selector
-3. Return { success: true, message: '...' } on success
+2. After filling all fields, start __mcpWatchOutcome (with the API calls listed above), then trigger the action using __mcpClick on the trigger selector
+3. Await the outcome and return { success: outcome.success, message: outcome.message, data: outcome }
 4. Wrap everything in try/catch, return { success: false, message: err.message } on error
 5. Use ONLY the selectors listed — do not invent selectors
-6. If the handler makes an API call (listed above), reflect that in the success message
 
 Output ONLY the handler body. No markdown, no function declaration, no explanation.`;
 }
@@ -68,35 +123,95 @@ Output ONLY the handler body. No markdown, no function declaration, no explanati
  * Uses the concrete selectors already found by the parser.
  */
 export function buildTemplateHandler(tool: ToolProposal): string {
+    if (tool.kind === 'query') return buildQueryHandler(tool);
+
     const lines: string[] = ['try {'];
 
-    // Fill each input field
-    for (const el of tool.sourceMapping.inputElements) {
-        const paramName = el.name ?? el.id ?? el.stateBinding?.variable ?? el.label;
-        if (!paramName) continue;
-        const safeParam = toSafeKey(paramName);
-        const setCall = buildSetCall(el, `params.${safeParam}`);
-        lines.push(`  ${setCall};`);
-    }
+    // Fill each input field (a radio group is one param, set once)
+    const filled = new Set<string>();
+    const fillFields = (elements: UIElement[]) => {
+        for (const el of elements) {
+            const group = tool.sourceMapping.fieldGroups?.find(g => g.name === el.fieldGroup || g.entryElement === el);
+            if (group) {
+                if (!filled.has(group.name)) fillGroup(group, elements);
+                filled.add(group.name);
+                continue;
+            }
+            const safeParam = getFieldKey(el);
+            if (!safeParam || filled.has(safeParam)) continue;
+            filled.add(safeParam);
+            const setCall = buildSetCall(el, `params.${safeParam}`);
+            lines.push(`  ${setCall};`);
+        }
+        // Give React a tick to process state updates
+        if (elements.length > 0) {
+            lines.push(`  await new Promise(r => setTimeout(r, 100));`);
+        }
+    };
 
-    // Give React a tick to process state updates
-    if (tool.sourceMapping.inputElements.length > 0) {
-        lines.push(`  await new Promise(r => setTimeout(r, 100));`);
+    // Repeated rows: make sure row i exists ("Add" as often as needed), then fill it
+    const fillGroup = (group: FieldGroup, elements: UIElement[]) => {
+        const param = `params.${getFieldGroupKey(group)}`;
+        const add = group.addButton ? buildSelectorArray(group.addButton) : undefined;
+        if (group.entryElement) {
+            lines.push(`  for (const value of ${param} ?? []) {`);
+            lines.push(add
+                ? `    await __mcpAddEntry(${buildSelectorArray(group.entryElement)}, ${add}, value);`
+                : `    /* No "Add" button found for ${group.name} */`);
+            lines.push(`  }`);
+            return;
+        }
+        const rowFields = selectableRowFields(tool, group, elements);
+        if (rowFields.length === 0) return;
+        const anchor = buildRowSelectorArray(rowFields[0]!);
+        lines.push(`  for (const [i, row] of (${param} ?? []).entries()) {`);
+        if (add) lines.push(`    await __mcpEnsureRow(${anchor}, i, ${add}, ${ROW_RENDER_TIMEOUT_MS});`);
+        for (const el of rowFields) {
+            const field = `row.${getFieldKey(el)}`;
+            lines.push(`    if (${field} !== undefined) ${buildSetCall(el, field, `__mcpRowField(${buildRowSelectorArray(el)}, i)`)};`);
+        }
+        lines.push(`  }`);
+    };
+
+    const steps = tool.sourceMapping.steps;
+    if (steps) {
+        // Wizard: fill a step, click Next, wait for the following step to render
+        steps.forEach((step, i) => {
+            const title = step.value === String(i + 1) ? '' : `: ${step.value}`;
+            lines.push(`  // Step ${i + 1} of ${steps.length}${title}`);
+            fillFields(step.inputElements);
+            const next = steps[i + 1];
+            if (!next) return;
+            if (step.nextElement) lines.push(`  ${buildSubmitCall(step.nextElement)};`);
+            const anchor = next.inputElements[0] ?? next.nextElement ?? tool.sourceMapping.triggerElement;
+            lines.push(anchor
+                ? `  await __mcpWaitFor(${buildSelectorArray(anchor)}, ${STEP_RENDER_TIMEOUT_MS});`
+                : `  await new Promise(r => setTimeout(r, 300));`);
+        });
+    } else {
+        fillFields(tool.sourceMapping.inputElements);
     }
 
-    // Trigger the action
-    const triggerCall = buildSubmitCall(tool.sourceMapping.triggerElement);
+    // Row actions find the named row first, then click its copy of the trigger
+    const rowAction = tool.sourceMapping.triggerElement?.rowAction;
+    if (rowAction) lines.push(`  const row = __mcpFindRow(${buildRowsSelectorArray(rowAction)}, params.row);`);
+
+    // Trigger the action and wait for an observable outcome
+    const triggerCall = rowAction
+        ? buildRowActionCall(tool.sourceMapping.triggerElement!)
+        : buildSubmitCall(tool.sourceMapping.triggerElement);
     if (triggerCall && !triggerCall.startsWith('/*')) {
+        const requests = (tool.sourceMapping.handler?.apiCalls ?? [])
+            .map(c => ({ method: c.method.toUpperCase(), url: c.url }));
+        const timeoutMs = requests.length > 0 ? NETWORK_OUTCOME_TIMEOUT_MS : DOM_OUTCOME_TIMEOUT_MS;
+
+        lines.push(`  const outcome = __mcpWatchOutcome({ requests: ${JSON.stringify(requests)}, timeoutMs: ${timeoutMs} });`);
         lines.push(`  ${triggerCall};`);
+        lines.push(`  const result = await outcome;`);
+        lines.push(`  return { success: result.success, message: result.message, data: result };`);
+    } else {
+        lines.push(`  return { success: true, message: "Action completed successfully" };`);
     }
-
-    // Build a meaningful success message from API call info if available
-    const apiCalls = tool.sourceMapping.handler?.apiCalls;
-    const successMsg = apiCalls && apiCalls.length > 0
-        ? `${tool.sourceMapping.handler?.name ?? 'Action'} triggered (${apiCalls[0].method} ${apiCalls[0].url})`
-        : 'Action completed successfully';
-
-    lines.push(`  return { success: true, message: ${JSON.stringify(successMsg)} };`);
     lines.push(`} catch (err) {`);
     lines.push(`  return { success: false, message: err instanceof Error ? err.message : String(err) };`);
     lines.push(`}`);
@@ -104,6 +219,49 @@ export function buildTemplateHandler(tool: ToolProposal): string {
     return lines.join('\n');
 }
 
+/**
+ * Read-only handler: scrape the table, list or form values and return
+ * them in `data`. Never clicks or types.
+ */
+function buildQueryHandler(tool: ToolProposal): string {
+    const region = tool.sourceMapping.displayRegion;
+    let read: string;
+
+    if (region) {
+        const reader = region.kind === 'table' ? '__mcpReadTable' : '__mcpReadList';
+        read = `${reader}(${buildRegionSelectorArray(region)})`;
+    } else {
+        const fields = (tool.sourceMapping.readElements ?? [])
+            .map(el => [getFieldKey(el), buildSelectorArray(el)] as const)
+            .filter(([key], i, all) => key && all.findIndex(([k]) => k === key) === i)
+            .map(([key, sels]) => `${JSON.stringify(key)}: ${sels}`);
+        read = `__mcpReadValues({ ${fields.join(', ')} })`;
+    }
+
+    return [
+        'try {',
+        `  const data = ${read};`,
+        `  return { success: true, message: ${JSON.stringify(`Read ${tool.name}`)}, data };`,
+        '} catch (err) {',
+        '  return { success: false, message: err instanceof Error ? err.message : String(err) };',
+        '}',
+    ].join('\n');
+}
+
+/**
+ * The group's row fields that have a selector. A field with no id, name,
+ * test id, placeholder or label can't be told apart from its neighbours
+ * in the row, so it's left out with a warning.
+ */
+function selectableRowFields(tool: ToolProposal, group: FieldGroup, elements: UIElement[]): UIElement[] {
+    return elements.filter(el => {
+        if (el.fieldGroup !== group.name) return false;
+        if (buildRowSelectorArray(el) !== '[]') return true;
+        console.warn(`[WebMCP] ${tool.name}: the ${el.rowField ?? getFieldKey(el)} field of ${group.name} has no id, name or label to select it by — skipped`);
+        return false;
+    });
+}
+
 // ── LLM handler generation ────────────────────────────────────
 
 import type { LLMAdapter } from '../types.js';
@@ -112,8 +270,9 @@ export async function generateHandlerWithLLM(
     tool: ToolProposal,
     llm: LLMAdapter,
 ): Promise<string> {
-    // Template-mode adapters skip the LLM call entirely
-    if (llm.name === 'Template-only (no LLM)') {
+    // Template-mode adapters skip the LLM call entirely; query tools are
+    // pure DOM reads, so the template is already the complete handler
+    if (llm.name === 'Template-only (no LLM)' || tool.kind === 'query') {
         return buildTemplateHandler(tool);
     }
 
@@ -143,12 +302,3 @@ export async function generateHandlerWithLLM(
         return buildTemplateHandler(tool);
     }
 }
-
-// ── Utilities ─────────────────────────────────────────────────
-
-function toSafeKey(name: string): string {
-    return name
-        .replace(/[^a-zA-Z0-9_]/g, '_')
-        .replace(/_+/g, '_')
-        .replace(/^_|_$/g, '');
-}
@@ -1,4 +1,4 @@
 // Generator — entry point (Phase 2 implementation)
-export { generateMCPCode, generateMCPCodeSync } from './code-generator.js';
+export { generateMCPCode, generateMCPCodeSync, toolAnnotations } from './code-generator.js';
 export { FRAMEWORK_HELPERS, buildSelectorArray, buildSetCall, buildSubmitCall } from './framework-helpers.js';
 export { generateHandlerWithLLM, buildTemplateHandler } from './handler-generator.js';
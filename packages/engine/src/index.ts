@@ -7,4 +7,7 @@ export * from './generator/index.js';
 export * from './llm/index.js';
 export * from './config/loader.js';
 export * from './probe/index.js';
+export * from './verify/index.js';
+export * from './scan/index.js';
+export * from './manifest/index.js';
 export * from './errors.js';
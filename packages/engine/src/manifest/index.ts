@@ -0,0 +1 @@
+export * from './tool-manifest.js';
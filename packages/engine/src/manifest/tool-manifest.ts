@@ -0,0 +1,120 @@
+import { existsSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname, join, resolve } from 'node:path';
+import { ERRORS } from '../errors.js';
+import type { ToolManifest, ToolManifestEntry, ToolProposal, ToolRisk } from '../types.js';
+
+// ────────────────────────────────────────────────────────────
+// Tool manifest — `webmcp.tools.json`, committed next to the
+// code. Records which proposals a reviewer selected or rejected
+// and what they renamed, so every run starts from that review.
+// ────────────────────────────────────────────────────────────
+
+export const TOOL_MANIFEST_FILE = 'webmcp.tools.json';
+
+const RISKS: ToolRisk[] = ['safe', 'caution', 'destructive', 'excluded'];
+
+export function emptyToolManifest(): ToolManifest {
+    return { version: 1, tools: {} };
+}
+
+/** Path of the nearest `webmcp.tools.json` at or above `searchFrom` */
+export function findToolManifest(searchFrom: string): string | undefined {
+    let dir = resolve(searchFrom);
+    for (;;) {
+        const candidate = join(dir, TOOL_MANIFEST_FILE);
+        if (existsSync(candidate)) return candidate;
+        const parent = dirname(dir);
+        if (parent === dir) return undefined;
+        dir = parent;
+    }
+}
+
+/** Read a manifest. A missing file is an empty manifest; a malformed one throws INVALID_MANIFEST */
+export function loadToolManifest(path: string): ToolManifest {
+    if (!existsSync(path)) return emptyToolManifest();
+
+    let data: unknown;
+    try {
+        data = JSON.parse(readFileSync(path, 'utf-8'));
+    } catch (err) {
+        throw ERRORS.INVALID_MANIFEST(path, (err as Error).message);
+    }
+
+    const manifest = data as Partial<ToolManifest> | null;
+    if (manifest?.version !== 1) {
+        throw ERRORS.INVALID_MANIFEST(path, 'expected "version": 1');
+    }
+    if (typeof manifest.tools !== 'object' || manifest.tools === null || Array.isArray(manifest.tools)) {
+        throw ERRORS.INVALID_MANIFEST(path, '"tools" must be an object keyed by tool id');
+    }
+    for (const [id, entry] of Object.entries(manifest.tools)) {
+        if (entry?.status !== 'selected' && entry?.status !== 'rejected') {
+            throw ERRORS.INVALID_MANIFEST(path, `tool ${id}: "status" must be "selected" or "rejected"`);
+        }
+        if (entry.risk !== undefined && !RISKS.includes(entry.risk)) {
+            throw ERRORS.INVALID_MANIFEST(path, `tool ${id}: unknown risk "${entry.risk}"`);
+        }
+    }
+    return manifest as ToolManifest;
+}
+
+/** Write with tools sorted by id, so reviews diff cleanly */
+export function saveToolManifest(path: string, manifest: ToolManifest): void {
+    const tools: Record<string, ToolManifestEntry> = {};
+    for (const id of Object.keys(manifest.tools).sort()) tools[id] = manifest.tools[id]!;
+    writeFileSync(path, JSON.stringify({ version: 1, tools }, null, 2) + '\n', 'utf-8');
+}
+
+/**
+ * Apply the reviews to fresh proposals: overrides replace the proposed
+ * name, description and risk, and `selected` follows the reviewer's
+ * decision. Proposals the manifest doesn't know keep their defaults and
+ * are marked `review: 'unreviewed'`.
+ */
+export function applyToolManifest(proposals: ToolProposal[], manifest: ToolManifest): ToolProposal[] {
+    return proposals.map(proposal => {
+        const entry = manifest.tools[proposal.id];
+        if (!entry) return { ...proposal, review: 'unreviewed' };
+
+        const risk = entry.risk ?? proposal.risk;
+        return {
+            ...proposal,
+            name: entry.name ?? proposal.name,
+            description: entry.description ?? proposal.description,
+            risk,
+            ...(entry.risk ? { riskReason: 'Overridden in the tool manifest', riskRule: 'manifest' } : {}),
+            review: entry.status,
+            selected: entry.status === 'selected' && risk !== 'excluded',
+        };
+    });
+}
+
+/**
+ * Record a review of `proposals`: the ids in `selectedIds` become
+ * selected, the others rejected. Overrides and tools from other files
+ * are kept; excluded proposals are never offered, so they aren't recorded.
+ */
+export function recordToolReviews(
+    manifest: ToolManifest,
+    proposals: ToolProposal[],
+    selectedIds: Iterable<string>,
+    file?: string,
+): ToolManifest {
+    const selected = new Set(selectedIds);
+    const tools = { ...manifest.tools };
+    for (const proposal of proposals) {
+        if (proposal.risk === 'excluded') continue;
+        const existing = tools[proposal.id];
+        // Undefined keys are dropped when the manifest is saved
+        tools[proposal.id] = {
+            status: selected.has(proposal.id) ? 'selected' : 'rejected',
+            proposedName: existing?.proposedName ?? proposal.name,
+            component: proposal.sourceMapping.componentName,
+            file: file ?? existing?.file,
+            name: existing?.name,
+            description: existing?.description,
+            risk: existing?.risk,
+        };
+    }
+    return { version: 1, tools };
+}
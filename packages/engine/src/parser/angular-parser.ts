@@ -0,0 +1,533 @@
+import { Parser } from 'htmlparser2';
+import { existsSync, readFileSync } from 'node:fs';
+import { dirname, resolve } from 'node:path';
+import {
+    Project,
+    SyntaxKind,
+    type ClassDeclaration,
+    type Node,
+    type ObjectLiteralExpression,
+} from 'ts-morph';
+import type {
+    ComponentAnalysis,
+    ComponentInfo,
+    ComponentType,
+    UIElement,
+    EventHandler,
+    StateVariable,
+    DisplayRegion,
+} from '../types.js';
+import { ERRORS } from '../errors.js';
+import {
+    evaluateForItem,
+    evaluateLiteral,
+    findConstLiteral,
+    parseLiteralExpression,
+    parseSnippet,
+    toOptionValue,
+    type LiteralValue,
+} from './literal-values.js';
+import { mergeRules, rulesFromAttributes } from './validation-rules.js';
+import { extractAPICalls, extractHttpClientCalls, type APICall } from './api-calls.js';
+
+// Angular Material controls that render (or wrap) a native control
+const MATERIAL_TAGS: Record<string, { tag: string; inputType?: string }> = {
+    'mat-select': { tag: 'select' },
+    'mat-checkbox': { tag: 'input', inputType: 'checkbox' },
+    'mat-slide-toggle': { tag: 'input', inputType: 'checkbox' },
+};
+const INTERACTIVE_TAGS = new Set(['input', 'button', 'select', 'textarea']);
+const HEADING_TAGS = new Set(['h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+const LABEL_TAGS = new Set(['label', 'mat-label']);
+
+// ── Public entry point ────────────────────────────────────────
+
+/**
+ * Parse an Angular `@Component` class file. Inline `template`s are read
+ * from the decorator; `templateUrl`s are resolved next to the .ts file.
+ */
+export function parseAngularFile(source: string, fileName: string): ComponentAnalysis {
+    const project = new Project({ useInMemoryFileSystem: true });
+    const sourceFile = project.createSourceFile(fileName.replace(/^.*[\\/]/, ''), source);
+    const components: ComponentInfo[] = [];
+
+    for (const cls of sourceFile.getClasses()) {
+        const config = cls.getDecorator('Component')?.getArguments()[0]?.asKind(SyntaxKind.ObjectLiteralExpression);
+        if (!config) continue;
+
+        const template = readTemplate(config, fileName);
+        if (template === undefined) continue;
+
+        const info = analyzeComponent(cls, template);
+        if (info.elements.length > 0 || info.eventHandlers.length > 0 || info.displayRegions?.length) {
+            components.push(info);
+        }
+    }
+
+    return { fileName, framework: 'angular', components };
+}
+
+function readTemplate(config: ObjectLiteralExpression, fileName: string): string | undefined {
+    const inline = config.getProperty('template')?.asKind(SyntaxKind.PropertyAssignment)?.getInitializer();
+    if (inline) {
+        const literal = evaluateLiteral(inline);
+        // Template literals with ${} are still mostly markup
+        return typeof literal === 'string' ? literal : inline.getText().slice(1, -1);
+    }
+
+    const url = evaluateLiteral(
+        config.getProperty('templateUrl')?.asKind(SyntaxKind.PropertyAssignment)?.getInitializer(),
+    );
+    if (typeof url !== 'string') return undefined;
+
+    const path = resolve(dirname(fileName), url);
+    if (!existsSync(path)) throw ERRORS.FILE_NOT_FOUND(path);
+    return readFileSync(path, 'utf-8');
+}
+
+// ── Component analysis ────────────────────────────────────────
+
+interface ClassMethod {
+    body: string;
+    isAsync: boolean;
+}
+
+function analyzeComponent(cls: ClassDeclaration, template: string): ComponentInfo {
+    const methods = new Map<string, ClassMethod>();
+    for (const method of cls.getMethods()) {
+        methods.set(method.getName(), { body: method.getBodyText() ?? '', isAsync: method.isAsync() });
+    }
+    for (const prop of cls.getProperties()) {
+        const init = prop.getInitializer();
+        const fn = init?.asKind(SyntaxKind.ArrowFunction) ?? init?.asKind(SyntaxKind.FunctionExpression);
+        if (fn) methods.set(prop.getName(), { body: fn.getBody().getText(), isAsync: fn.isAsync() });
+    }
+
+    const httpClients = findHttpClients(cls);
+    const apiCallsFor = (name: string, seen = new Set<string>()): APICall[] => {
+        const method = methods.get(name);
+        if (!method || seen.has(name)) return [];
+        seen.add(name);
+        const calls = [...extractAPICalls(method.body), ...extractHttpClientCalls(method.body, httpClients)];
+        // Follow `this.save()` into helper methods
+        for (const m of method.body.matchAll(/this\.([\w$]+)\s*\(/g)) {
+            calls.push(...apiCallsFor(m[1]!, seen));
+        }
+        return calls;
+    };
+
+    const controls = extractFormControls(cls);
+    // Template expressions see class members; `countries = COUNTRIES` points at a module const
+    const classLiterals = new Map<string, LiteralValue>();
+    for (const prop of cls.getProperties()) {
+        const init = prop.getInitializer();
+        const value = init?.isKind(SyntaxKind.Identifier)
+            ? findConstLiteral(cls.getSourceFile(), init.getText())
+            : evaluateLiteral(init);
+        if (value !== undefined) classLiterals.set(prop.getName(), value);
+    }
+
+    const { elements, handlerRefs, displayRegions } = walkTemplate(template, classLiterals);
+
+    // Resolve (ngSubmit)="onSubmit()" / (click)="remove(user)" to class methods
+    const eventHandlers: EventHandler[] = [];
+    for (const ref of handlerRefs) {
+        const methodName = ref.expression.match(/^\s*([\w$]+)\s*\(/)?.[1];
+        const method = methodName ? methods.get(methodName) : undefined;
+        const name = method ? methodName! : `inline_${ref.event}_handler`;
+        if (!method && /^\s*[\w$.]+\s*=[^=]/.test(ref.expression)) continue; // (click)="open = true"
+        if (eventHandlers.some(h => h.name === name)) continue;
+
+        const apiCalls = method ? apiCallsFor(methodName!) : extractAPICalls(ref.expression);
+        eventHandlers.push({
+            name,
+            event: ref.event,
+            elementTag: ref.tag,
+            elementId: ref.id,
+            body: method?.body ?? ref.expression,
+            isAsync: method?.isAsync ?? false,
+            apiCalls: apiCalls.length > 0 ? apiCalls : undefined,
+        });
+    }
+
+    const stateVariables: StateVariable[] = [];
+    for (const [name, control] of controls) {
+        stateVariables.push({ name, initialValue: control.initialValue, kind: 'formLibrary' });
+    }
+    for (const prop of cls.getProperties()) {
+        const init = prop.getInitializer();
+        if (!init || controls.has(prop.getName()) || prop.isStatic()) continue;
+        if (init.isKind(SyntaxKind.ArrowFunction) || init.isKind(SyntaxKind.NewExpression) || init.isKind(SyntaxKind.CallExpression)) continue;
+        stateVariables.push({ name: prop.getName(), initialValue: init.getText(), kind: 'other' });
+    }
+
+    // Reactive-form validators attach to the control with the same name
+    for (const el of elements) {
+        const control = el.stateBinding ? controls.get(el.stateBinding.variable) : undefined;
+        if (control?.rules.length) el.validation = mergeRules(control.rules, el.validation);
+    }
+
+    return {
+        name: cls.getName() ?? 'AnonymousComponent',
+        type: classifyType(elements, eventHandlers),
+        elements,
+        eventHandlers,
+        stateVariables,
+        props: cls.getProperties()
+            .filter(p => p.getDecorator('Input'))
+            .map(p => ({ name: p.getName(), type: p.getType().getText(), required: !p.hasQuestionToken() })),
+        displayRegions: displayRegions.length > 0 ? displayRegions : undefined,
+    };
+}
+
+/** Names the HttpClient is injected as: constructor params or `inject(HttpClient)` fields */
+function findHttpClients(cls: ClassDeclaration): string[] {
+    const names = new Set<string>();
+    for (const ctor of cls.getConstructors()) {
+        for (const param of ctor.getParameters()) {
+            if (param.getTypeNode()?.getText() === 'HttpClient') names.add(param.getName());
+        }
+    }
+    for (const prop of cls.getProperties()) {
+        const type = prop.getTypeNode()?.getText();
+        if (type === 'HttpClient' || /^inject\(\s*HttpClient\s*\)$/.test(prop.getInitializer()?.getText() ?? '')) {
+            names.add(prop.getName());
+        }
+    }
+    return [...names];
+}
+
+// ── Reactive forms ────────────────────────────────────────────
+
+interface FormControlInfo {
+    initialValue?: string;
+    rules: string[];
+}
+
+/**
+ * Controls declared as `new FormControl(init, validators)` or
+ * `fb.group({ name: [init, validators] })`, keyed by control name.
+ */
+function extractFormControls(cls: ClassDeclaration): Map<string, FormControlInfo> {
+    const controls = new Map<string, FormControlInfo>();
+
+    for (const call of [
+        ...cls.getDescendantsOfKind(SyntaxKind.NewExpression),
+        ...cls.getDescendantsOfKind(SyntaxKind.CallExpression),
+    ]) {
+        const callee = call.getExpression().getText();
+        if (!/(?:^|\.)(FormGroup|group)$/.test(callee)) continue;
+        const shape = call.getArguments()[0]?.asKind(SyntaxKind.ObjectLiteralExpression);
+        if (!shape) continue;
+
+        for (const prop of shape.getProperties()) {
+            if (!prop.isKind(SyntaxKind.PropertyAssignment)) continue;
+            const init = prop.getInitializer();
+            let args: Node[] = [];
+            if (init?.isKind(SyntaxKind.NewExpression) || init?.isKind(SyntaxKind.CallExpression)) {
+                args = init.getArguments();
+            } else if (init?.isKind(SyntaxKind.ArrayLiteralExpression)) {
+                args = init.getElements();
+            } else if (init) {
+                args = [init];
+            }
+
+            const initial = args[0]?.asKind(SyntaxKind.ObjectLiteralExpression)?.getProperty('value');
+            controls.set(prop.getName().replace(/^['"]|['"]$/g, ''), {
+                initialValue: initial?.isKind(SyntaxKind.PropertyAssignment)
+                    ? initial.getInitializer()?.getText()
+                    : args[0]?.getText(),
+                rules: args[1] ? rulesFromValidators(args[1]) : [],
+            });
+        }
+    }
+
+    return controls;
+}
+
+/** `[Validators.required, Validators.minLength(3)]` → validation entries */
+function rulesFromValidators(node: Node): string[] {
+    const rules: string[] = [];
+    const text = node.getText();
+    if (/Validators\.required(?!True)\b/.test(text)) rules.push('required');
+    if (/Validators\.email\b/.test(text)) rules.push('format:email');
+    for (const m of text.matchAll(/Validators\.(minLength|maxLength|min|max)\(\s*(-?[\d.]+)\s*\)/g)) {
+        rules.push(`${m[1]}:${Number(m[2])}`);
+    }
+    const pattern = text.match(/Validators\.pattern\(\s*(?:\/((?:\\.|[^/])+)\/[gu]*|(['"])((?:\\.|(?!\2).)*)\2)\s*\)/);
+    if (pattern?.[1]) {
+        rules.push(`pattern:${pattern[1]}`);
+    } else if (pattern?.[3]) {
+        // String patterns are anchored by Angular, like the HTML attribute
+        rules.push(`pattern:^(?:${pattern[3].replace(/^\^|\$$/g, '')})$`);
+    }
+    return rules;
+}
+
+// ── Template walker ───────────────────────────────────────────
+
+interface HandlerRef {
+    event: 'onSubmit' | 'onClick';
+    expression: string;
+    tag: string;
+    id?: string;
+}
+
+interface Loop {
+    binding: string;
+    source: string;
+}
+
+interface Frame {
+    tag: string;
+    text: string;
+    attrs: Record<string, string>;
+    element?: UIElement;
+    controls?: UIElement[];
+    /** Text of the <mat-label> inside a <mat-form-field> */
+    fieldLabel?: string;
+    region?: DisplayRegion;
+    loop?: Loop;
+}
+
+interface WalkResult {
+    elements: UIElement[];
+    handlerRefs: HandlerRef[];
+    displayRegions: DisplayRegion[];
+}
+
+function walkTemplate(template: string, literals: Map<string, LiteralValue>): WalkResult {
+    const elements: UIElement[] = [];
+    const handlerRefs: HandlerRef[] = [];
+    const displayRegions: DisplayRegion[] = [];
+    const stack: Frame[] = [];
+    // @for blocks from the built-in control flow, closed by a bare `}`
+    const blockLoops: Loop[] = [];
+    const labelsFor = new Map<string, string>();
+    let currentFormId: string | undefined;
+    let lastHeading: string | undefined;
+
+    const innermost = (tag: string) => [...stack].reverse().find(f => f.tag === tag);
+    const currentLoops = () => [
+        ...blockLoops,
+        ...stack.map(f => f.loop).filter((l): l is Loop => !!l),
+    ];
+
+    const close = (frame: Frame) => {
+        const text = frame.text.replace(/\{\{[\s\S]*?\}\}/g, ' ').replace(/\s+/g, ' ').trim();
+
+        if (HEADING_TAGS.has(frame.tag)) lastHeading = text || lastHeading;
+        if (LABEL_TAGS.has(frame.tag)) {
+            if (frame.attrs['for'] && text) labelsFor.set(frame.attrs['for'], text);
+            for (const control of frame.controls ?? []) control.label ??= text || undefined;
+            // <mat-label> names the control in its <mat-form-field>
+            const field = frame.tag === 'mat-label' ? innermost('mat-form-field') : undefined;
+            if (field && text) field.fieldLabel ??= text;
+        }
+        if (frame.tag === 'mat-form-field') {
+            for (const control of frame.controls ?? []) control.label ??= frame.fieldLabel;
+        }
+        // Buttons and <mat-checkbox> are labelled by their content
+        const labelledByText = frame.element?.tag === 'button' || (frame.tag !== frame.element?.tag && frame.element?.inputType === 'checkbox');
+        if (frame.element && labelledByText && !frame.element.label) frame.element.label = text || undefined;
+        if (frame.tag === 'th' || frame.tag === 'mat-header-cell') innermost('table')?.region?.columns?.push(text);
+        if (frame.tag === 'caption') {
+            const table = innermost('table')?.region;
+            if (table && !table.attributes['aria-label'] && text) table.label = text;
+        }
+        if (frame.tag === 'form') currentFormId = undefined;
+
+        if (frame.tag === 'option' || frame.tag === 'mat-option') {
+            const select = [...stack].reverse().find(f => f.element?.tag === 'select')?.element;
+            if (select && frame.attrs['disabled'] === undefined) {
+                const values = optionValues(frame, text, [...currentLoops(), ...(frame.loop ? [frame.loop] : [])], literals);
+                if (values.length > 0) select.options = [...new Set([...(select.options ?? []), ...values])];
+            }
+        }
+
+        if (frame.region) {
+            const region = frame.region;
+            if (region.columns?.length === 0) region.columns = undefined;
+            if (region.kind === 'table' || region.dataSource || region.id || region.label) displayRegions.push(region);
+        }
+    };
+
+    const parser = new Parser({
+        onopentag(tag, attrs) {
+            const frame: Frame = { tag, text: '', attrs };
+            const loop = parseNgFor(attrs['*ngFor']);
+            if (loop) frame.loop = loop;
+
+            if (tag === 'form') {
+                currentFormId = attrs['id'];
+                elements.push({ tag: 'form', id: attrs['id'], name: attrs['name'], attributes: attrs });
+            }
+
+            if (tag === 'table' || ((tag === 'ul' || tag === 'ol') && !innermost('nav'))) {
+                frame.region = {
+                    kind: tag === 'table' ? 'table' : 'list',
+                    tag,
+                    id: attrs['id'],
+                    label: attrs['aria-label'] ?? (tag === 'table' ? lastHeading : undefined),
+                    columns: tag === 'table' ? [] : undefined,
+                    // mat-table binds its rows with [dataSource]
+                    dataSource: attrs['[dataSource]'],
+                    attributes: attrs,
+                };
+            }
+            if (loop) {
+                const region = [...stack, frame].reverse().find(f => f.region)?.region;
+                if (region && !region.dataSource) region.dataSource = loop.source.match(/^[\w$.]+/)?.[0];
+            }
+
+            const material = MATERIAL_TAGS[tag];
+            const nativeTag = material?.tag ?? (INTERACTIVE_TAGS.has(tag) ? tag : undefined);
+            if (nativeTag) {
+                const el: UIElement = {
+                    tag: nativeTag,
+                    id: attrs['id'],
+                    name: attrs['name'],
+                    inputType: attrs['type'] ?? material?.inputType,
+                    attributes: attrs,
+                    parentFormId: innermost('form') ? currentFormId : undefined,
+                };
+
+                const binding = bindingOf(attrs);
+                if (binding) el.stateBinding = binding;
+
+                if (el.inputType === 'radio') {
+                    const values = attributeValues(attrs, 'value', currentLoops(), literals);
+                    if (values.length > 0) el.options = values;
+                }
+
+                const validation = rulesFromAttributes(attrs);
+                if (validation.length) el.validation = validation;
+
+                if (attrs['aria-label'] || attrs['aria-describedby'] || attrs['role']) {
+                    el.accessibilityHints = {
+                        ariaLabel: attrs['aria-label'],
+                        ariaDescribedBy: attrs['aria-describedby'],
+                        role: attrs['role'],
+                    };
+                }
+
+                frame.element = el;
+                if (nativeTag !== 'button') {
+                    const wrapper = [...stack].reverse().find(f => f.tag === 'label' || f.tag === 'mat-form-field');
+                    if (wrapper) (wrapper.controls ??= []).push(el);
+                }
+                elements.push(el);
+            }
+
+            for (const [attr, event] of [['(ngSubmit)', 'onSubmit'], ['(submit)', 'onSubmit'], ['(click)', 'onClick']] as const) {
+                if (attrs[attr]) handlerRefs.push({ event, expression: attrs[attr]!, tag: nativeTag ?? tag, id: attrs['id'] });
+            }
+
+            stack.push(frame);
+        },
+
+        ontext(text) {
+            for (const frame of stack) frame.text += text;
+            const markup = text.replace(/\{\{[\s\S]*?\}\}/g, '');
+            for (const m of markup.matchAll(/@for\s*\(\s*([\w$]+)\s+of\s+([^;)]+)[^{]*\{|(\})/g)) {
+                if (m[3]) blockLoops.pop();
+                else blockLoops.push({ binding: m[1]!, source: m[2]!.trim() });
+            }
+        },
+
+        onclosetag(tag) {
+            const index = stack.map(f => f.tag).lastIndexOf(tag);
+            if (index === -1) return;
+            for (const frame of stack.splice(index).reverse()) close(frame);
+        },
+    }, { lowerCaseAttributeNames: false, recognizeSelfClosing: true });
+
+    parser.write(template);
+    parser.end();
+
+    for (const el of elements) {
+        if (!el.label && el.id) el.label = labelsFor.get(el.id);
+        el.label ??= el.attributes['placeholder'] ?? el.attributes['aria-label'];
+    }
+
+    return { elements, handlerRefs, displayRegions };
+}
+
+/** `formControlName="email"`, `[(ngModel)]="email"` or `[(ngModel)]="model.email"` */
+function bindingOf(attrs: Record<string, string>): UIElement['stateBinding'] | undefined {
+    const control = attrs['formControlName'];
+    if (control) return { variable: control };
+
+    const model = attrs['[(ngModel)]'];
+    if (!model) return undefined;
+    const path = model.trim().split('.');
+    return path.length > 1
+        ? { variable: path[path.length - 1]!, accessPath: model.trim() }
+        : { variable: model.trim() };
+}
+
+/** `let c of countries; trackBy: byCode` → { binding: 'c', source: 'countries' } */
+function parseNgFor(expr: string | undefined): Loop | undefined {
+    const m = expr?.match(/^\s*let\s+([\w$]+)\s+of\s+([^;]+)/);
+    return m ? { binding: m[1]!, source: m[2]!.trim() } : undefined;
+}
+
+// ── Option enumeration ────────────────────────────────────────
+
+function optionValues(frame: Frame, text: string, loops: Loop[], literals: Map<string, LiteralValue>): string[] {
+    for (const attr of ['value', '[value]', '[ngValue]']) {
+        if (frame.attrs[attr] !== undefined) return attributeValues(frame.attrs, attr, loops, literals);
+    }
+    const interpolated = frame.text.match(/\{\{([\s\S]+?)\}\}/)?.[1];
+    if (interpolated) return evaluateInLoop(interpolated, loops, literals);
+    return text ? [text] : [];
+}
+
+function attributeValues(
+    attrs: Record<string, string>,
+    attr: string,
+    loops: Loop[],
+    literals: Map<string, LiteralValue>,
+): string[] {
+    const raw = attrs[attr];
+    if (raw === undefined) return [];
+    // Plain attributes are literal; [bound] ones are expressions
+    if (!attr.startsWith('[')) return raw ? [raw] : [];
+    return evaluateInLoop(raw, loops, literals);
+}
+
+/** Evaluate an expression once per item of the innermost loop over a static collection */
+function evaluateInLoop(expr: string, loops: Loop[], literals: Map<string, LiteralValue>): string[] {
+    const loop = loops[loops.length - 1];
+    if (!loop) {
+        const value = toOptionValue(parseLiteralExpression(expr));
+        return value ? [value] : [];
+    }
+
+    const items = /^[\w$]+$/.test(loop.source) ? literals.get(loop.source) : parseLiteralExpression(loop.source);
+    if (!Array.isArray(items)) return [];
+
+    const fn = parseSnippet(`const __fn = (${loop.binding}) => (${expr});`)
+        .getVariableDeclaration('__fn')?.getInitializer()?.asKind(SyntaxKind.ArrowFunction);
+    const body = fn?.getBody();
+    if (!fn || !body) return [];
+    const valueExpr = body.asKind(SyntaxKind.ParenthesizedExpression)?.getExpression() ?? body;
+
+    return items
+        .map(item => toOptionValue(evaluateForItem(valueExpr, fn.getParameters()[0], item)))
+        .filter((v): v is string => !!v);
+}
+
+// ── Classification ────────────────────────────────────────────
+
+function classifyType(elements: UIElement[], handlers: EventHandler[]): ComponentType {
+    const hasForms = elements.some(el => el.tag === 'form');
+    const hasInputs = elements.some(el => ['input', 'textarea', 'select'].includes(el.tag));
+    const hasButtons = elements.some(el => el.tag === 'button');
+    const hasSubmit = handlers.some(h => h.event === 'onSubmit');
+
+    if ((hasForms || hasSubmit) && hasInputs) return 'form';
+    if (hasButtons && !hasInputs) return 'action';
+    if (hasInputs || hasButtons) return 'mixed';
+    return 'display';
+}
@@ -0,0 +1,36 @@
+import type { EventHandler } from '../types.js';
+
+export type APICall = NonNullable<EventHandler['apiCalls']>[number];
+
+/** Network calls made in a handler body: fetch() and axios.<method>() */
+export function extractAPICalls(body: string): APICall[] {
+    const calls: APICall[] = [];
+    // Match fetch('/api/...', { method: 'POST' })
+    const fetchRe = /fetch\(\s*['"`]([^'"`]+)['"`]\s*(?:,\s*\{[^}]*method\s*:\s*['"`](\w+)['"`])?/g;
+    let m: RegExpExecArray | null;
+    while ((m = fetchRe.exec(body)) !== null) {
+        calls.push({ url: m[1]!, method: (m[2] ?? 'GET').toUpperCase() });
+    }
+    // Match axios.post/delete/put/patch
+    const axiosRe = /axios\.(post|put|patch|delete|get)\(\s*['"`]([^'"`]+)['"`]/g;
+    while ((m = axiosRe.exec(body)) !== null) {
+        calls.push({ url: m[2]!, method: m[1]!.toUpperCase() });
+    }
+    return calls;
+}
+
+/**
+ * Angular `HttpClient` calls: `this.http.post<T>('/api/users', body)`.
+ * `clients` are the property names the HttpClient is injected as.
+ */
+export function extractHttpClientCalls(body: string, clients: string[]): APICall[] {
+    const calls: APICall[] = [];
+    if (clients.length === 0) return calls;
+    const names = clients.map(c => c.replace(/[$]/g, '\\$')).join('|');
+    const re = new RegExp(`this\\.(?:${names})\\.(get|post|put|patch|delete)\\s*(?:<[^>()]*>)?\\(\\s*(['"\`])([^'"\`]+)\\2`, 'g');
+    let m: RegExpExecArray | null;
+    while ((m = re.exec(body)) !== null) {
+        calls.push({ url: m[3]!, method: m[1]!.toUpperCase() });
+    }
+    return calls;
+}
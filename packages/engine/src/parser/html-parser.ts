@@ -6,16 +6,19 @@ import type {
     UIElement,
     EventHandler,
     ComponentType,
+    DisplayRegion,
 } from '../types.js';
+import { rulesFromAttributes } from './validation-rules.js';
 
 const INTERACTIVE_TAGS = new Set(['input', 'button', 'select', 'textarea']);
+const HEADING_TAGS = new Set(['h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
 
 // ── Public entry point ────────────────────────────────────────
 
 export function parseHTMLFile(source: string, fileName: string): ComponentAnalysis {
     const componentName = basename(fileName, extname(fileName));
 
-    const { elements, formGroups } = walkHTML(source);
+    const { elements, formGroups, displayRegions } = walkHTML(source);
 
     // Build component info
     const type = classifyType(elements, formGroups);
@@ -28,12 +31,13 @@ export function parseHTMLFile(source: string, fileName: string): ComponentAnalys
         eventHandlers: handlers,
         stateVariables: [],
         props: [],
+        displayRegions: displayRegions.length > 0 ? displayRegions : undefined,
     };
 
     return {
         fileName,
         framework: 'html',
-        components: elements.length > 0 ? [component] : [],
+        components: elements.length > 0 || displayRegions.length > 0 ? [component] : [],
     };
 }
 
@@ -42,6 +46,7 @@ export function parseHTMLFile(source: string, fileName: string): ComponentAnalys
 interface WalkResult {
     elements: UIElement[];
     formGroups: Map<string | undefined, UIElement[]>;
+    displayRegions: DisplayRegion[];
 }
 
 function walkHTML(source: string): WalkResult {
@@ -54,9 +59,56 @@ function walkHTML(source: string): WalkResult {
     let insideButton = false;
     let buttonText = '';
     let pendingButtonEl: UIElement | null = null;
+    // Collects <option> values for the select being parsed
+    let currentSelect: UIElement | null = null;
+    let pendingOption: { value?: string; text: string } | null = null;
+
+    // Display region tracking: tables always, lists only when labelled
+    const displayRegions: DisplayRegion[] = [];
+    let lastHeading: string | undefined;
+    let headingText: string | null = null;
+    let navDepth = 0;
+    let currentTable: DisplayRegion | null = null;
+    let columnsDone = false;
+    let cellText: string | null = null;
+    let captionText: string | null = null;
 
     const parser = new Parser({
         onopentag(name, attrs) {
+            if (HEADING_TAGS.has(name)) headingText = '';
+            if (name === 'nav') navDepth++;
+
+            if (name === 'table') {
+                currentTable = {
+                    kind: 'table',
+                    tag: 'table',
+                    id: attrs['id'],
+                    label: attrs['aria-label'] ?? lastHeading,
+                    columns: [],
+                    attributes: attrs,
+                };
+                columnsDone = false;
+                displayRegions.push(currentTable);
+            }
+            if (currentTable && name === 'caption') captionText = '';
+            if (currentTable && !columnsDone && name === 'th') cellText = '';
+            if (currentTable && name === 'tbody') columnsDone = true;
+
+            if ((name === 'ul' || name === 'ol') && navDepth === 0 && (attrs['id'] || attrs['aria-label'])) {
+                displayRegions.push({
+                    kind: 'list',
+                    tag: name,
+                    id: attrs['id'],
+                    label: attrs['aria-label'] ?? lastHeading,
+                    attributes: attrs,
+                });
+            }
+
+            if (name === 'option' && currentSelect && attrs['disabled'] === undefined) {
+                pendingOption = { value: attrs['value'], text: '' };
+                return;
+            }
+
             if (name === 'form') {
                 formDepth++;
                 currentFormId = attrs['id'];
@@ -99,12 +151,12 @@ function walkHTML(source: string): WalkResult {
                 };
 
                 // Validation hints
-                const validation: string[] = [];
-                if (attrs['required'] !== undefined) validation.push('required');
-                if (attrs['minlength']) validation.push(`minLength:${attrs['minlength']}`);
-                if (attrs['pattern']) validation.push(`pattern:${attrs['pattern']}`);
+                const validation = rulesFromAttributes(attrs);
                 if (validation.length) el.validation = validation;
 
+                if (name === 'select') currentSelect = el;
+                if (attrs['type'] === 'radio' && attrs['value']) el.options = [attrs['value']];
+
                 // Accessibility
                 if (attrs['aria-label'] || attrs['aria-describedby'] || attrs['role']) {
                     el.accessibilityHints = {
@@ -123,9 +175,45 @@ function walkHTML(source: string): WalkResult {
 
         ontext(text) {
             if (insideButton) buttonText += text;
+            if (pendingOption) pendingOption.text += text;
+            if (headingText !== null) headingText += text;
+            if (cellText !== null) cellText += text;
+            if (captionText !== null) captionText += text;
         },
 
         onclosetag(name) {
+            if (HEADING_TAGS.has(name) && headingText !== null) {
+                lastHeading = headingText.trim() || lastHeading;
+                headingText = null;
+            }
+            if (name === 'nav') navDepth--;
+            if (name === 'th' && cellText !== null) {
+                if (cellText.trim()) currentTable?.columns?.push(cellText.trim());
+                cellText = null;
+            }
+            if (name === 'caption' && captionText !== null) {
+                if (currentTable && captionText.trim() && !currentTable.attributes['aria-label']) {
+                    currentTable.label = captionText.trim();
+                }
+                captionText = null;
+            }
+            if (name === 'thead' || (name === 'tr' && currentTable?.columns?.length)) columnsDone = true;
+            if (name === 'table' && currentTable) {
+                if (currentTable.columns?.length === 0) currentTable.columns = undefined;
+                currentTable = null;
+            }
+
+            if (name === 'option' && pendingOption && currentSelect) {
+                // Empty values are "Choose…" placeholders, not real choices
+                const value = pendingOption.value ?? pendingOption.text.trim();
+                if (value) {
+                    currentSelect.options ??= [];
+                    if (!currentSelect.options.includes(value)) currentSelect.options.push(value);
+                }
+                pendingOption = null;
+            }
+            if (name === 'select') currentSelect = null;
+
             if (name === 'form') {
                 formDepth--;
                 if (formDepth === 0) currentFormId = undefined;
@@ -148,7 +236,7 @@ function walkHTML(source: string): WalkResult {
     parser.write(source);
     parser.end();
 
-    return { elements, formGroups };
+    return { elements, formGroups, displayRegions };
 }
 
 // ── Inline handler extraction ─────────────────────────────────
@@ -0,0 +1,153 @@
+import {
+    Project,
+    SyntaxKind,
+    type Node,
+    type SourceFile,
+    type ParameterDeclaration,
+} from 'ts-morph';
+
+// ────────────────────────────────────────────────────────────
+// Static evaluation of literal values — resolves option lists
+// like `['a', 'b']` or `const PLANS = [{ id: 'pro' }]` without
+// running any user code.
+// ────────────────────────────────────────────────────────────
+
+export type LiteralValue =
+    | string
+    | number
+    | boolean
+    | null
+    | LiteralValue[]
+    | { [key: string]: LiteralValue };
+
+let scratchProject: Project | undefined;
+let scratchCounter = 0;
+
+/** Parse a standalone snippet (template expression, <script> block) with ts-morph */
+export function parseSnippet(text: string): SourceFile {
+    scratchProject ??= new Project({ useInMemoryFileSystem: true, skipAddingFilesFromTsConfig: true });
+    return scratchProject.createSourceFile(`__snippet_${scratchCounter++}.ts`, text, { overwrite: true });
+}
+
+/** Evaluate a literal expression node, or undefined if it isn't fully static */
+export function evaluateLiteral(node: Node | undefined): LiteralValue | undefined {
+    if (!node) return undefined;
+
+    if (node.isKind(SyntaxKind.StringLiteral) || node.isKind(SyntaxKind.NoSubstitutionTemplateLiteral)) {
+        return node.getLiteralValue();
+    }
+    if (node.isKind(SyntaxKind.NumericLiteral)) return node.getLiteralValue();
+    if (node.isKind(SyntaxKind.TrueKeyword)) return true;
+    if (node.isKind(SyntaxKind.FalseKeyword)) return false;
+    if (node.isKind(SyntaxKind.NullKeyword)) return null;
+
+    if (
+        node.isKind(SyntaxKind.AsExpression) ||
+        node.isKind(SyntaxKind.SatisfiesExpression) ||
+        node.isKind(SyntaxKind.ParenthesizedExpression)
+    ) {
+        return evaluateLiteral(node.getExpression());
+    }
+
+    if (node.isKind(SyntaxKind.ArrayLiteralExpression)) {
+        const items: LiteralValue[] = [];
+        for (const el of node.getElements()) {
+            const value = evaluateLiteral(el);
+            if (value === undefined) return undefined;
+            items.push(value);
+        }
+        return items;
+    }
+
+    if (node.isKind(SyntaxKind.ObjectLiteralExpression)) {
+        const obj: Record<string, LiteralValue> = {};
+        for (const prop of node.getProperties()) {
+            // Non-static members (spreads, methods) don't block the static ones
+            if (!prop.isKind(SyntaxKind.PropertyAssignment)) continue;
+            const value = evaluateLiteral(prop.getInitializer());
+            if (value !== undefined) obj[prop.getName().replace(/^['"]|['"]$/g, '')] = value;
+        }
+        return obj;
+    }
+
+    return undefined;
+}
+
+/** Parse and evaluate an expression given as source text */
+export function parseLiteralExpression(text: string): LiteralValue | undefined {
+    const file = parseSnippet(`const __value = (${text});`);
+    return evaluateLiteral(file.getVariableDeclaration('__value')?.getInitializer());
+}
+
+/** Find `const name = <literal>` anywhere in the file */
+export function findConstLiteral(file: SourceFile, name: string): LiteralValue | undefined {
+    const decl = file.getDescendantsOfKind(SyntaxKind.VariableDeclaration)
+        .find(d => d.getName() === name);
+    return evaluateLiteral(decl?.getInitializer());
+}
+
+/**
+ * Evaluate `expr` for one element of a mapped collection, where `param`
+ * is the callback's item parameter: `p`, `p.value` and destructured
+ * `{ value }` are supported. Constant expressions evaluate as-is.
+ */
+export function evaluateForItem(
+    expr: Node,
+    param: ParameterDeclaration | undefined,
+    item: LiteralValue,
+): LiteralValue | undefined {
+    const nameNode = param?.getNameNode();
+
+    if (nameNode?.isKind(SyntaxKind.Identifier)) {
+        const paramName = nameNode.getText();
+        const path: string[] = [];
+        let current: Node = expr;
+        while (current.isKind(SyntaxKind.PropertyAccessExpression)) {
+            path.unshift(current.getName());
+            current = current.getExpression();
+        }
+        if (current.isKind(SyntaxKind.Identifier) && current.getText() === paramName) {
+            return readPath(item, path);
+        }
+    }
+
+    if (nameNode?.isKind(SyntaxKind.ObjectBindingPattern) && expr.isKind(SyntaxKind.Identifier)) {
+        const binding = nameNode.getElements().find(b => b.getName() === expr.getText());
+        if (binding) {
+            const key = binding.getPropertyNameNode()?.getText() ?? binding.getName();
+            return readPath(item, [key]);
+        }
+    }
+
+    return evaluateLiteral(expr);
+}
+
+function readPath(value: LiteralValue, path: string[]): LiteralValue | undefined {
+    let current: LiteralValue | undefined = value;
+    for (const key of path) {
+        if (current === null || typeof current !== 'object' || Array.isArray(current)) return undefined;
+        current = current[key];
+    }
+    return current;
+}
+
+/** A literal usable as a select / radio value, as the DOM would report it */
+export function toOptionValue(value: LiteralValue | undefined): string | undefined {
+    if (typeof value === 'string') return value;
+    if (typeof value === 'number' || typeof value === 'boolean') return String(value);
+    return undefined;
+}
+
+/**
+ * A string that may vary per row: literals as-is, template literals with
+ * each `${…}` replaced by `*` (`items.${index}.name` → `items.*.name`).
+ */
+export function templatePattern(node: Node | undefined): string | undefined {
+    const literal = evaluateLiteral(node);
+    if (typeof literal === 'string') return literal;
+
+    const template = node?.asKind(SyntaxKind.TemplateExpression);
+    if (!template) return undefined;
+    return template.getHead().getLiteralText()
+        + template.getTemplateSpans().map(span => `*${span.getLiteral().getLiteralText()}`).join('');
+}
@@ -1,31 +1,43 @@
-import type { ComponentAnalysis, FrameworkType } from '../types.js';
+import type { ComponentAnalysis, FrameworkType, ParseOptions } from '../types.js';
 import { extname } from 'node:path';
 import { parseReactFile } from './react-parser.js';
 import { parseHTMLFile } from './html-parser.js';
 import { parseVueFile } from './vue-parser.js';
+import { parseSvelteFile } from './svelte-parser.js';
+import { parseAngularFile } from './angular-parser.js';
 
 /**
  * Detect framework from file extension and parse accordingly.
  * Phase 1: React (.tsx/.jsx)
  * Phase 3: HTML (.html)
+ *
+ * Angular components are plain .ts files, recognised by their `@Component`
+ * decorator. Pass the file's real path so `templateUrl` can be resolved.
+ *
+ * `options.project` turns on project-aware parsing for React files, which
+ * also needs the real path so imports resolve.
  */
-export function parseFile(source: string, fileName: string): ComponentAnalysis {
+export function parseFile(source: string, fileName: string, options: ParseOptions = {}): ComponentAnalysis {
   const ext = extname(fileName).toLowerCase();
-  const framework = detectFramework(ext);
+  const framework = detectFramework(ext, source);
 
   switch (framework) {
     case 'react':
-      return parseReactFile(source, fileName);
+      return parseReactFile(source, fileName, options);
     case 'html':
       return parseHTMLFile(source, fileName);
     case 'vue':
       return parseVueFile(source, fileName);
+    case 'svelte':
+      return parseSvelteFile(source, fileName);
+    case 'angular':
+      return parseAngularFile(source, fileName);
     default:
-      throw new Error(`Unsupported file type: ${ext}. Supported: .tsx, .jsx, .html`);
+      throw new Error(`Unsupported file type: ${ext}. Supported: .tsx, .jsx, .html, .vue, .svelte, Angular .ts`);
   }
 }
 
-function detectFramework(ext: string): FrameworkType | 'unknown' {
+function detectFramework(ext: string, source: string): FrameworkType | 'unknown' {
   switch (ext) {
     case '.tsx':
     case '.jsx':
@@ -35,6 +47,10 @@ function detectFramework(ext: string): FrameworkType | 'unknown' {
       return 'html';
     case '.vue':
       return 'vue';
+    case '.svelte':
+      return 'svelte';
+    case '.ts':
+      return /@Component\s*\(/.test(source) ? 'angular' : 'unknown';
     default:
       return 'unknown';
   }
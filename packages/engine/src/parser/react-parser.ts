@@ -1,6 +1,8 @@
+import { dirname } from 'node:path';
 import {
     Project,
     SyntaxKind,
+    ts,
     type SourceFile,
     type FunctionDeclaration,
     type ArrowFunction,
@@ -9,7 +11,20 @@ import {
     type CallExpression,
     type JsxOpeningElement,
     type JsxSelfClosingElement,
+    type JsxElement,
+    type Expression,
+    type PropertySignature,
 } from 'ts-morph';
+import {
+    evaluateForItem,
+    evaluateLiteral,
+    findConstLiteral,
+    templatePattern,
+    toOptionValue,
+    type LiteralValue,
+} from './literal-values.js';
+import { mergeRules, rulesFromAttributes, rulesFromRegisterCall, rulesFromSchemas } from './validation-rules.js';
+import { extractAPICalls } from './api-calls.js';
 import type {
     ComponentAnalysis,
     ComponentInfo,
@@ -18,6 +33,11 @@ import type {
     StateVariable,
     PropDefinition,
     ComponentType,
+    DisplayRegion,
+    ParseOptions,
+    WizardInfo,
+    FieldGroup,
+    RowAction,
 } from '../types.js';
 
 // ── Known third-party UI component → native tag mapping ─────
@@ -37,30 +57,138 @@ const KNOWN_INPUT_COMPONENTS: Record<string, { tag: string; inputType?: string }
 };
 
 const INTERACTIVE_TAGS = new Set(['input', 'button', 'select', 'textarea', 'form']);
+const HEADING_TAGS = new Set(['h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
 
 // ── Public entry point ────────────────────────────────────────
 
-export function parseReactFile(source: string, fileName: string): ComponentAnalysis {
-    const project = new Project({
-        useInMemoryFileSystem: true,
-        compilerOptions: { jsx: 2 /* React */, allowJs: true, checkJs: false },
-    });
-    const sourceFile = project.createSourceFile(fileName, source);
+export function parseReactFile(source: string, fileName: string, options: ParseOptions = {}): ComponentAnalysis {
+    const project = options.project
+        ? getProjectForFile(fileName, options.project.tsConfigFilePath)
+        : new Project({
+            useInMemoryFileSystem: true,
+            compilerOptions: { jsx: 2 /* React */, allowJs: true, checkJs: false },
+        });
+    const sourceFile = project.createSourceFile(fileName, source, { overwrite: true });
 
     const components = findComponents(sourceFile);
-    const parsed: ComponentInfo[] = [];
+    const analyzed = new Map<FunctionLike, ComponentInfo>();
 
     for (const fn of components) {
-        const info = analyzeComponent(fn, sourceFile);
-        // Only keep components that have something interesting
-        if (info.elements.length > 0 || info.eventHandlers.length > 0) {
-            parsed.push(info);
-        }
+        const inline = options.project
+            ? { depth: options.project.maxDepth ?? DEFAULT_INLINE_DEPTH, visited: new Set<Node>([fn]) }
+            : undefined;
+        analyzed.set(fn, analyzeComponent(fn, sourceFile, inline));
     }
+    resolveForwardedHandlers(analyzed);
+
+    // Only keep components that have something interesting
+    const parsed = [...analyzed.values()].filter(info =>
+        info.elements.length > 0 || info.eventHandlers.length > 0 || info.displayRegions?.length);
 
     return { fileName, framework: 'react', components: parsed };
 }
 
+// ── Project-aware mode ────────────────────────────────────────
+
+const DEFAULT_INLINE_DEPTH = 3;
+
+/** Projects by tsconfig path ('' for files outside any), reused across parses */
+const projects = new Map<string, Project>();
+
+/**
+ * A project on the real file system so imports (and tsconfig `paths`)
+ * resolve. Only the parsed file is added up front; the type checker
+ * loads imported modules on demand. One project serves every file under
+ * the same tsconfig; modules loaded for an earlier file are re-read, so
+ * edits on disk since then are seen.
+ */
+function getProjectForFile(fileName: string, tsConfigFilePath?: string): Project {
+    const configPath = tsConfigFilePath ?? ts.findConfigFile(dirname(fileName), ts.sys.fileExists) ?? '';
+    const cached = projects.get(configPath);
+    if (cached) {
+        // The checker loaded imports outside getSourceFiles(); libraries don't change between parses
+        for (const file of cached.getProgram().compilerObject.getSourceFiles()) {
+            if (file.isDeclarationFile || file.fileName.includes('/node_modules/')) continue;
+            cached.getSourceFile(file.fileName)?.refreshFromFileSystemSync();
+        }
+        return cached;
+    }
+
+    const project = configPath
+        ? new Project({ tsConfigFilePath: configPath, skipAddingFilesFromTsConfig: true })
+        : new Project({ compilerOptions: { jsx: 2 /* React */, allowJs: true, checkJs: false } });
+    projects.set(configPath, project);
+    return project;
+}
+
+/** Child components left to inline, and the ones already on the path (to stop cycles) */
+interface InlineContext {
+    depth: number;
+    visited: Set<Node>;
+}
+
+/**
+ * The component a JSX tag refers to — declared in this file or imported,
+ * including `export default`, re-exports and `memo()` / `forwardRef()` wrappers.
+ */
+function resolveComponent(opening: JsxOpeningElement | JsxSelfClosingElement): FunctionLike | undefined {
+    let symbol = opening.getTagNameNode().getSymbol();
+    if (symbol?.isAlias()) symbol = symbol.getAliasedSymbol();
+
+    for (const decl of symbol?.getDeclarations() ?? []) {
+        const fn = toComponentFunction(
+            decl.asKind(SyntaxKind.VariableDeclaration)?.getInitializer() ??
+            decl.asKind(SyntaxKind.ExportAssignment)?.getExpression() ??
+            decl,
+        );
+        if (fn) return fn;
+    }
+    return undefined;
+}
+
+function toComponentFunction(node: Node | undefined, hops = 0): FunctionLike | undefined {
+    if (!node || hops > 3) return undefined;
+    const fn =
+        node.asKind(SyntaxKind.FunctionDeclaration) ??
+        node.asKind(SyntaxKind.ArrowFunction) ??
+        node.asKind(SyntaxKind.FunctionExpression);
+    if (fn) return returnsJSX(fn) ? fn : undefined;
+
+    // memo(Field), forwardRef((props, ref) => ...)
+    const call = node.asKind(SyntaxKind.CallExpression);
+    if (call && /(?:^|\.)(memo|forwardRef)$/.test(call.getExpression().getText())) {
+        return toComponentFunction(call.getArguments()[0], hops + 1);
+    }
+
+    // export default EmailField
+    const identifier = node.asKind(SyntaxKind.Identifier);
+    if (identifier) {
+        const decl = identifier.getSymbol()?.getDeclarations()[0];
+        return toComponentFunction(decl?.asKind(SyntaxKind.VariableDeclaration)?.getInitializer() ?? decl, hops + 1);
+    }
+    return undefined;
+}
+
+/**
+ * Prop references in a child component mapped to what the parent passes:
+ * `({ name }) => <input name={name} />` rendered as `<Field name="email" />`
+ * maps `name` → `email`. `props.name` is handled the same way.
+ */
+function mapPropsToValues(child: FunctionLike, parentAttrs: Record<string, string>): Record<string, string> {
+    const values: Record<string, string> = {};
+    const nameNode = child.getParameters()[0]?.getNameNode();
+
+    if (nameNode?.isKind(SyntaxKind.ObjectBindingPattern)) {
+        for (const binding of nameNode.getElements()) {
+            const prop = binding.getPropertyNameNode()?.getText() ?? binding.getName();
+            if (parentAttrs[prop] !== undefined) values[binding.getName()] = parentAttrs[prop]!;
+        }
+    } else if (nameNode?.isKind(SyntaxKind.Identifier)) {
+        for (const [prop, value] of Object.entries(parentAttrs)) values[`${nameNode.getText()}.${prop}`] = value;
+    }
+    return values;
+}
+
 // ── Component discovery ───────────────────────────────────────
 
 type FunctionLike = FunctionDeclaration | ArrowFunction | FunctionExpression;
@@ -106,14 +234,25 @@ function returnsJSX(fn: FunctionLike): boolean {
 
 // ── Component analysis ────────────────────────────────────────
 
-function analyzeComponent(fn: FunctionLike, _sourceFile: SourceFile): ComponentInfo {
+function analyzeComponent(fn: FunctionLike, _sourceFile: SourceFile, inline?: InlineContext): ComponentInfo {
     const name = getFunctionName(fn);
-    const elements = extractJSXElements(fn);
     const stateVars = extractStateVariables(fn);
-    const handlers = extractEventHandlers(fn);
+    const wizard = detectWizard(fn, stateVars);
+    const fieldArrays = findFieldArrays(fn);
+    const rowCollections = new Set([
+        ...fieldArrays.keys(),
+        ...stateVars.filter(v => v.kind === 'useState' && v.type === 'array').map(v => v.name),
+    ]);
+    const elements = extractJSXElements(fn, inline, {}, { stepVariable: wizard?.stateVariable, rowCollections });
+    const props = extractProps(fn);
+    const handlers = extractEventHandlers(fn, callbackProps(fn, props));
+    const displayRegions = extractDisplayRegions(fn);
+    if (inline) addInlinedHandlers(fn, elements, handlers);
 
     bindStateToElements(stateVars, elements);
     bindHandlersToElements(handlers, elements);
+    bindSchemaRulesToElements(rulesFromSchemas(fn.getSourceFile(), fn), elements);
+    const fieldGroups = detectFieldGroups(elements, stateVars, fieldArrays, handlers);
 
     return {
         name,
@@ -121,7 +260,10 @@ function analyzeComponent(fn: FunctionLike, _sourceFile: SourceFile): ComponentI
         elements,
         eventHandlers: handlers,
         stateVariables: stateVars,
-        props: extractProps(fn),
+        props,
+        displayRegions: displayRegions.length > 0 ? displayRegions : undefined,
+        wizard,
+        fieldGroups: fieldGroups.length > 0 ? fieldGroups : undefined,
     };
 }
 
@@ -139,7 +281,26 @@ function getFunctionName(fn: FunctionLike): string {
 
 // ── JSX element extraction ────────────────────────────────────
 
-function extractJSXElements(fn: FunctionLike): UIElement[] {
+/** Component-level render facts elements are tagged with */
+interface RenderScope {
+    /** Wizard step state: each element records the step it renders in */
+    stepVariable?: string;
+    /** State arrays / useFieldArray collections whose `.map()` renders field rows */
+    rowCollections?: Set<string>;
+}
+
+/**
+ * Interactive elements rendered by `fn`. With an inline context, child
+ * components are resolved and their elements inlined in render order;
+ * `propValues` substitutes the parent's props into a child's attributes.
+ */
+function extractJSXElements(
+    fn: FunctionLike,
+    inline?: InlineContext,
+    propValues: Record<string, string> = {},
+    scope: RenderScope = {},
+): UIElement[] {
+    const { stepVariable, rowCollections } = scope;
     const elements: UIElement[] = [];
     let formDepth = 0;
     let currentFormId: string | undefined;
@@ -151,7 +312,7 @@ function extractJSXElements(fn: FunctionLike): UIElement[] {
         if (!opening) return;
 
         const tagName = getTagName(opening);
-        const attrs = collectAttributes(opening);
+        const attrs = collectAttributes(opening, propValues);
 
         // Track form nesting
         if (tagName === 'form') {
@@ -160,7 +321,23 @@ function extractJSXElements(fn: FunctionLike): UIElement[] {
         }
 
         const nativeTag = resolveToNativeTag(tagName);
-        if (!nativeTag) return;
+        if (!nativeTag) {
+            if (inline && inline.depth > 0 && /^[A-Z]/.test(tagName)) {
+                const child = resolveComponent(opening);
+                if (child && !inline.visited.has(child)) {
+                    const context = { depth: inline.depth - 1, visited: new Set([...inline.visited, child]) };
+                    const step = stepVariable ? stepOf(opening, stepVariable) : undefined;
+                    for (const el of extractJSXElements(child, context, mapPropsToValues(child, attrs))) {
+                        el.parentFormId ??= formDepth > 0 ? currentFormId : undefined;
+                        if (step) el.step ??= step;
+                        // <Field label="Email" /> usually renders the label itself
+                        if (el.tag !== 'button') el.label ??= attrs['label'];
+                        elements.push(el);
+                    }
+                }
+            }
+            return;
+        }
 
         // Extract inner text (for buttons: <button>Delete Account</button>)
         let innerText: string | undefined;
@@ -207,12 +384,30 @@ function extractJSXElements(fn: FunctionLike): UIElement[] {
             parentFormId: formDepth > 0 ? currentFormId : undefined,
         };
 
-        // Resolve validation
-        const validation: string[] = [];
-        if (attrs['required'] !== undefined) validation.push('required');
-        if (attrs['minLength']) validation.push(`minLength:${attrs['minLength']}`);
-        if (attrs['pattern']) validation.push(`pattern:${attrs['pattern']}`);
-        if (validation.length) el.validation = validation;
+        const step = stepVariable ? stepOf(opening, stepVariable) : undefined;
+        if (step) el.step = step;
+
+        // Allowed values: <option> children for selects, value for radios
+        if (nativeTag === 'select') {
+            const options = extractSelectOptions(opening);
+            if (options.length > 0) el.options = options;
+        } else if (el.inputType === 'radio') {
+            const values = resolveAttributeValues(opening, 'value');
+            if (values.length > 0) el.options = values;
+        }
+
+        // Resolve validation — react-hook-form's {...register('field', rules)}
+        // also supplies the field name
+        const registration = opening.getAttributes()
+            .map(a => a.asKind(SyntaxKind.JsxSpreadAttribute)?.getExpression())
+            .map(expr => (expr ? rulesFromRegisterCall(expr) : undefined))
+            .find(Boolean);
+        if (registration && !el.name) el.name = registration.name;
+        const validation = mergeRules(rulesFromAttributes(attrs), registration?.rules);
+        if (validation) el.validation = validation;
+
+        if (rowCollections?.size) markRow(opening, el, rowCollections);
+        if (el.tag === 'button') markRowAction(opening, el);
 
         // Accessibility
         if (attrs['aria-label'] || attrs['aria-describedby'] || attrs['role']) {
@@ -242,7 +437,11 @@ function resolveToNativeTag(tagName: string): string | null {
     return null;
 }
 
-function collectAttributes(node: JsxOpeningElement | JsxSelfClosingElement): Record<string, string> {
+/** Attribute values; `{expr}` ones as source text, or the parent's value when `expr` is a forwarded prop */
+function collectAttributes(
+    node: JsxOpeningElement | JsxSelfClosingElement,
+    propValues: Record<string, string> = {},
+): Record<string, string> {
     const attrs: Record<string, string> = {};
 
     for (const attr of node.getAttributes()) {
@@ -261,7 +460,7 @@ function collectAttributes(node: JsxOpeningElement | JsxSelfClosingElement): Rec
             } else if (initializer.isKind(SyntaxKind.JsxExpression)) {
                 // Capture the raw expression text for reference
                 const expr = initializer.getExpression();
-                if (expr) attrs[name] = expr.getText();
+                if (expr) attrs[name] = propValues[expr.getText()] ?? expr.getText();
             }
         }
     }
@@ -269,6 +468,222 @@ function collectAttributes(node: JsxOpeningElement | JsxSelfClosingElement): Rec
     return attrs;
 }
 
+// ── Option enumeration ────────────────────────────────────────
+
+/**
+ * Values a <select> accepts: static <option>s, options rendered by
+ * `.map()` over a constant array, or an `options={[...]}` prop on a
+ * select-like component. Disabled and empty placeholder options are skipped.
+ */
+function extractSelectOptions(opening: JsxOpeningElement | JsxSelfClosingElement): string[] {
+    const values = new Set<string>();
+    const add = (v: string | undefined) => { if (v) values.add(v); };
+
+    const optionsProp = getAttributeExpression(opening, 'options');
+    if (optionsProp) {
+        for (const item of resolveCollection(optionsProp) ?? []) {
+            add(toOptionValue(item) ?? toOptionValue(readValueField(item)));
+        }
+    }
+
+    const select = opening.getParentIfKind(SyntaxKind.JsxElement);
+    if (!select) return [...values];
+
+    const options = [
+        ...select.getDescendantsOfKind(SyntaxKind.JsxOpeningElement),
+        ...select.getDescendantsOfKind(SyntaxKind.JsxSelfClosingElement),
+    ].filter(o => getTagName(o) === 'option' && !getAttributeFlag(o, 'disabled'));
+
+    for (const option of options) {
+        const valueExpr = getAttributeExpression(option, 'value');
+        if (valueExpr || hasAttribute(option, 'value')) {
+            resolveAttributeValues(option, 'value').forEach(add);
+            continue;
+        }
+        // No value attribute — the option's text is its value
+        const element = option.getParentIfKind(SyntaxKind.JsxElement);
+        if (!element) continue;
+        const textExpr = element.getJsxChildren()
+            .map(c => c.asKind(SyntaxKind.JsxExpression)?.getExpression())
+            .find(Boolean);
+        if (textExpr) {
+            resolveMappedValues(option, textExpr).forEach(add);
+        } else {
+            add(getJsxText(element));
+        }
+    }
+
+    return [...values];
+}
+
+/** Static value(s) of an attribute, expanding `.map()` over a constant array */
+function resolveAttributeValues(opening: JsxOpeningElement | JsxSelfClosingElement, name: string): string[] {
+    const attr = opening.getAttribute(name)?.asKind(SyntaxKind.JsxAttribute);
+    const initializer = attr?.getInitializer();
+    if (!initializer) return [];
+    if (initializer.isKind(SyntaxKind.StringLiteral)) {
+        const value = initializer.getLiteralValue();
+        return value ? [value] : [];
+    }
+    const expr = initializer.asKind(SyntaxKind.JsxExpression)?.getExpression();
+    return expr ? resolveMappedValues(opening, expr) : [];
+}
+
+/** Evaluate `expr` for each item of the enclosing `.map()`, or once if not mapped */
+function resolveMappedValues(node: Node, expr: Expression): string[] {
+    const mapCall = findEnclosingMapCall(node);
+    if (!mapCall) {
+        const value = toOptionValue(evaluateLiteral(expr));
+        return value ? [value] : [];
+    }
+
+    const receiver = mapCall.getExpression().asKindOrThrow(SyntaxKind.PropertyAccessExpression).getExpression();
+    const items = resolveCollection(receiver);
+    const callback = mapCall.getArguments()[0];
+    const param = (callback?.asKind(SyntaxKind.ArrowFunction) ?? callback?.asKind(SyntaxKind.FunctionExpression))
+        ?.getParameters()[0];
+    if (!items || !param) return [];
+
+    return items
+        .map(item => toOptionValue(evaluateForItem(expr, param, item)))
+        .filter((v): v is string => !!v);
+}
+
+function findEnclosingMapCall(node: Node): CallExpression | undefined {
+    let current: Node | undefined = node.getParent();
+    while (current) {
+        if (current.isKind(SyntaxKind.CallExpression)) {
+            const callee = current.getExpression().asKind(SyntaxKind.PropertyAccessExpression);
+            if (callee?.getName() === 'map') return current;
+        }
+        if (current.isKind(SyntaxKind.JsxOpeningElement) && getTagName(current) === 'select') return undefined;
+        current = current.getParent();
+    }
+    return undefined;
+}
+
+/** A literal array, or an identifier bound to one anywhere in the file */
+function resolveCollection(expr: Node): LiteralValue[] | undefined {
+    const value = expr.isKind(SyntaxKind.Identifier)
+        ? findConstLiteral(expr.getSourceFile(), expr.getText())
+        : evaluateLiteral(expr);
+    return Array.isArray(value) ? value : undefined;
+}
+
+function readValueField(item: LiteralValue): LiteralValue | undefined {
+    if (item === null || typeof item !== 'object' || Array.isArray(item)) return undefined;
+    return item['value'] ?? item['id'];
+}
+
+function getAttributeExpression(opening: JsxOpeningElement | JsxSelfClosingElement, name: string): Expression | undefined {
+    const initializer = opening.getAttribute(name)?.asKind(SyntaxKind.JsxAttribute)?.getInitializer();
+    return initializer?.asKind(SyntaxKind.JsxExpression)?.getExpression();
+}
+
+function hasAttribute(opening: JsxOpeningElement | JsxSelfClosingElement, name: string): boolean {
+    return opening.getAttribute(name) !== undefined;
+}
+
+function getAttributeFlag(opening: JsxOpeningElement | JsxSelfClosingElement, name: string): boolean {
+    const attr = opening.getAttribute(name)?.asKind(SyntaxKind.JsxAttribute);
+    if (!attr) return false;
+    const initializer = attr.getInitializer();
+    // `disabled` or `disabled={true}`; dynamic expressions count as enabled
+    return !initializer || initializer.getText() === '{true}';
+}
+
+// ── Display region extraction ─────────────────────────────────
+
+/**
+ * Find tables and data-driven lists an agent may want to read.
+ * Lists qualify when rendered from a collection (.map) or explicitly
+ * labelled, and are skipped inside <nav> to avoid menus.
+ */
+function extractDisplayRegions(fn: FunctionLike): DisplayRegion[] {
+    const regions: DisplayRegion[] = [];
+    let lastHeading: string | undefined;
+
+    fn.forEachDescendant((node) => {
+        const opening = node.asKind(SyntaxKind.JsxOpeningElement);
+        if (!opening) return;
+        const tagName = getTagName(opening);
+        const element = opening.getParentIfKind(SyntaxKind.JsxElement);
+        if (!element) return;
+
+        if (HEADING_TAGS.has(tagName)) {
+            lastHeading = getJsxText(element) || lastHeading;
+            return;
+        }
+
+        if (tagName !== 'table' && tagName !== 'ul' && tagName !== 'ol') return;
+
+        const attrs = collectAttributes(opening);
+        const dataSource = findMappedCollection(element);
+        const kind = tagName === 'table' ? 'table' : 'list';
+
+        if (kind === 'list') {
+            if (isInsideTag(element, 'nav')) return;
+            if (!dataSource && !attrs['id'] && !attrs['aria-label']) return;
+        }
+
+        const caption = kind === 'table' ? findChildElement(element, 'caption') : undefined;
+        const columns = kind === 'table' ? extractTableColumns(element) : undefined;
+
+        regions.push({
+            kind,
+            tag: tagName,
+            id: attrs['id'],
+            label: attrs['aria-label'] ?? (caption ? getJsxText(caption) : undefined) ?? lastHeading,
+            columns: columns && columns.length > 0 ? columns : undefined,
+            dataSource,
+            attributes: attrs,
+        });
+    });
+
+    return regions;
+}
+
+function getJsxText(element: JsxElement): string {
+    return element.getJsxChildren()
+        .filter(c => c.isKind(SyntaxKind.JsxText))
+        .map(c => c.getText().trim())
+        .filter(Boolean)
+        .join(' ');
+}
+
+function findChildElement(element: JsxElement, tagName: string): JsxElement | undefined {
+    return element.getDescendantsOfKind(SyntaxKind.JsxElement)
+        .find(el => getTagName(el.getOpeningElement()) === tagName);
+}
+
+function extractTableColumns(table: JsxElement): string[] {
+    const head = findChildElement(table, 'thead') ?? findChildElement(table, 'tr');
+    if (!head) return [];
+    return head.getDescendantsOfKind(SyntaxKind.JsxElement)
+        .filter(el => getTagName(el.getOpeningElement()) === 'th')
+        .map(getJsxText)
+        .filter(Boolean);
+}
+
+function findMappedCollection(element: JsxElement): string | undefined {
+    for (const call of element.getDescendantsOfKind(SyntaxKind.CallExpression)) {
+        const callee = call.getExpression().asKind(SyntaxKind.PropertyAccessExpression);
+        if (callee?.getName() === 'map') return callee.getExpression().getText();
+    }
+    return undefined;
+}
+
+function isInsideTag(node: Node, tagName: string): boolean {
+    let current: Node | undefined = node.getParent();
+    while (current) {
+        if (current.isKind(SyntaxKind.JsxElement) && getTagName(current.getOpeningElement()) === tagName) {
+            return true;
+        }
+        current = current.getParent();
+    }
+    return false;
+}
+
 // ── State variable extraction ─────────────────────────────────
 
 function extractStateVariables(fn: FunctionLike): StateVariable[] {
@@ -326,6 +741,292 @@ function extractStateVariables(fn: FunctionLike): StateVariable[] {
     return vars;
 }
 
+// ── Repeatable field groups ───────────────────────────────────
+
+/** `const { fields, append } = useFieldArray({ name: 'items' })` → fields ↦ { name: 'items', append } */
+function findFieldArrays(fn: FunctionLike): Map<string, { name: string; append: string }> {
+    const found = new Map<string, { name: string; append: string }>();
+    for (const call of fn.getDescendantsOfKind(SyntaxKind.CallExpression)) {
+        if (call.getExpression().getText().split('.').pop() !== 'useFieldArray') continue;
+        const options = call.getArguments()[0]?.asKind(SyntaxKind.ObjectLiteralExpression);
+        const nameProp = options?.getProperty('name')?.asKind(SyntaxKind.PropertyAssignment);
+        const name = evaluateLiteral(nameProp?.getInitializer());
+        const binding = call.getParent()?.asKind(SyntaxKind.VariableDeclaration)?.getNameNode()
+            .asKind(SyntaxKind.ObjectBindingPattern);
+        if (typeof name !== 'string' || !binding) continue;
+
+        // Destructured names may be renamed: { fields: items, append: addItem }
+        const local = (key: string) => binding.getElements()
+            .find(el => (el.getPropertyNameNode()?.getText() ?? el.getName()) === key)?.getName();
+        const fields = local('fields');
+        if (fields) found.set(fields, { name, append: local('append') ?? 'append' });
+    }
+    return found;
+}
+
+/**
+ * Tag an element rendered inside `.map()` over a row collection: its group,
+ * its key within the row, and per-row `id` / `name` patterns (`*` = index).
+ * Constant lists are option enumerations, and radios inside them options.
+ */
+function markRow(opening: JsxOpeningElement | JsxSelfClosingElement, el: UIElement, rowCollections: Set<string>): void {
+    if (el.inputType === 'radio' || el.tag === 'form') return;
+    const mapCall = findEnclosingMapCall(opening);
+    const collection = mapCall?.getExpression().asKind(SyntaxKind.PropertyAccessExpression)?.getExpression().getText();
+    if (!mapCall || !collection || !rowCollections.has(collection)) return;
+
+    el.fieldGroup = collection;
+    if (el.tag === 'button') return;
+
+    const pattern = (name: string) => templatePattern(getAttributeExpression(opening, name))
+        ?? opening.getAttribute(name)?.asKind(SyntaxKind.JsxAttribute)?.getInitializer()?.asKind(SyntaxKind.StringLiteral)?.getLiteralValue();
+    el.id = pattern('id');
+    if (hasAttribute(opening, 'name')) el.name = pattern('name');
+    for (const attr of ['data-testid', 'placeholder', 'aria-label']) {
+        if (!hasAttribute(opening, attr)) continue;
+        const value = pattern(attr);
+        if (value) el.attributes[attr] = value;
+        else delete el.attributes[attr];
+    }
+
+    // value={item.price} on the row parameter names the field most reliably
+    const callback = mapCall.getArguments()[0];
+    const param = (callback?.asKind(SyntaxKind.ArrowFunction) ?? callback?.asKind(SyntaxKind.FunctionExpression))
+        ?.getParameters()[0]?.getNameNode();
+    const value = getAttributeExpression(opening, 'value') ?? getAttributeExpression(opening, 'checked');
+    const access = value?.asKind(SyntaxKind.PropertyAccessExpression);
+    const lastSegment = (text?: string) => text?.split(/[.*\-_[\]]+/).filter(Boolean).pop();
+
+    if (access && param?.isKind(SyntaxKind.Identifier) && access.getExpression().getText() === param.getText()) {
+        el.rowField = access.getName();
+    } else if (value?.isKind(SyntaxKind.Identifier) && param?.isKind(SyntaxKind.ObjectBindingPattern)) {
+        el.rowField = value.getText();
+    } else {
+        el.rowField = lastSegment(el.name) ?? lastSegment(el.id) ?? el.label;
+    }
+}
+
+/**
+ * Group row elements by collection, name each group (useFieldArray's
+ * `name`, else the state array) and find its "Add" button. Also finds
+ * tag-input style groups: one field plus a button that appends its value.
+ */
+function detectFieldGroups(
+    elements: UIElement[],
+    stateVars: StateVariable[],
+    fieldArrays: Map<string, { name: string; append: string }>,
+    handlers: EventHandler[],
+): FieldGroup[] {
+    const groups: FieldGroup[] = [];
+    const codeOf = (btn: UIElement) => {
+        const ref = btn.attributes['onClick'] ?? '';
+        return `${ref} ${handlers.find(h => h.name === ref)?.body ?? ''}`;
+    };
+    const appendsTo = (code: string, collection: string) => {
+        const fieldArray = fieldArrays.get(collection);
+        if (fieldArray) return code.includes(`${fieldArray.append}(`);
+        const setter = stateVars.find(v => v.name === collection)?.setter;
+        return !!setter && code.includes(`${setter}(`) && (code.includes('...') || code.includes('.concat('));
+    };
+    const outsideRows = elements.filter(el => el.tag === 'button' && !el.fieldGroup);
+
+    for (const collection of new Set(elements.map(el => el.fieldGroup).filter((c): c is string => !!c))) {
+        const members = elements.filter(el => el.fieldGroup === collection);
+        // Buttons alone (row actions over a list) don't make a field group
+        if (!members.some(el => el.rowField)) {
+            for (const el of members) delete el.fieldGroup;
+            continue;
+        }
+
+        const name = fieldArrays.get(collection)?.name ?? collection;
+        for (const el of members) {
+            el.fieldGroup = name;
+            // "Remove" is part of editing the rows, not a tool of its own
+            delete el.rowAction;
+        }
+        const addButton = outsideRows.find(btn => appendsTo(codeOf(btn), collection));
+        groups.push({ name, collection, addButton });
+    }
+
+    // Tag inputs: setTags([...tags, draft]) where `draft` is bound to a field
+    for (const state of stateVars.filter(v => v.kind === 'useState' && v.type === 'array')) {
+        if (groups.some(g => g.collection === state.name)) continue;
+        for (const btn of outsideRows) {
+            const code = codeOf(btn);
+            if (!appendsTo(code, state.name)) continue;
+            const entryElement = elements.find(el => el.stateBinding && !el.fieldGroup
+                && new RegExp(`\\b${el.stateBinding.variable}\\b`).test(code));
+            if (entryElement) {
+                groups.push({ name: state.name, collection: state.name, addButton: btn, entryElement });
+                break;
+            }
+        }
+    }
+
+    return groups;
+}
+
+// ── Row actions ───────────────────────────────────────────────
+
+/**
+ * Tag a button rendered once per `.map()` item with where its rows render:
+ * the row element the callback returns, the element wrapping the rows, and
+ * the item field used as the React key. Per-row attributes become patterns.
+ */
+function markRowAction(opening: JsxOpeningElement | JsxSelfClosingElement, el: UIElement): void {
+    const mapCall = findEnclosingMapCall(opening);
+    const callback = mapCall?.getArguments()[0];
+    const fn = callback?.asKind(SyntaxKind.ArrowFunction) ?? callback?.asKind(SyntaxKind.FunctionExpression);
+    const collection = mapCall?.getExpression().asKind(SyntaxKind.PropertyAccessExpression)?.getExpression().getText();
+    if (!mapCall || !fn || !collection) return;
+
+    const rowNode = fn.getFirstDescendant(n => n.isKind(SyntaxKind.JsxElement) || n.isKind(SyntaxKind.JsxSelfClosingElement));
+    const row = rowNode?.asKind(SyntaxKind.JsxElement)?.getOpeningElement() ?? rowNode?.asKind(SyntaxKind.JsxSelfClosingElement);
+    if (!row) return;
+
+    const action: RowAction = { collection };
+    const rowTag = getTagName(row);
+    if (/^[a-z]/.test(rowTag)) action.rowTag = rowTag;
+    action.rowId = templatePattern(getAttributeExpression(row, 'id'));
+    action.rowTestId = templatePattern(getAttributeExpression(row, 'data-testid'));
+
+    const key = getAttributeExpression(row, 'key')?.asKind(SyntaxKind.PropertyAccessExpression);
+    const param = fn.getParameters()[0]?.getNameNode();
+    if (key && param?.isKind(SyntaxKind.Identifier) && key.getExpression().getText() === param.getText()) {
+        action.keyField = key.getName();
+    }
+
+    // {users.map(...)} directly inside <tbody> / <ul>
+    const container = mapCall.getFirstAncestorByKind(SyntaxKind.JsxElement)?.getOpeningElement();
+    if (container && /^[a-z]/.test(getTagName(container))) action.containerTag = getTagName(container);
+    for (let node: Node | undefined = container?.getParent(); node; node = node.getParent()) {
+        const id = node.asKind(SyntaxKind.JsxElement)?.getOpeningElement().getAttribute('id')
+            ?.asKind(SyntaxKind.JsxAttribute)?.getInitializer()?.asKind(SyntaxKind.StringLiteral)?.getLiteralValue();
+        if (id) {
+            action.containerId = id;
+            break;
+        }
+    }
+    el.rowAction = action;
+
+    // aria-label={`Manage user ${user.name}`} → "Manage user *", labelled "Manage user"
+    for (const attr of ['id', 'data-testid', 'aria-label']) {
+        if (!hasAttribute(opening, attr)) continue;
+        const value = templatePattern(getAttributeExpression(opening, attr))
+            ?? opening.getAttribute(attr)?.asKind(SyntaxKind.JsxAttribute)?.getInitializer()?.asKind(SyntaxKind.StringLiteral)?.getLiteralValue();
+        if (value) el.attributes[attr] = value;
+        else delete el.attributes[attr];
+    }
+    el.id = el.attributes['id'];
+    // A per-row aria-label names the row too; the button text names the action
+    const ariaLabel = el.attributes['aria-label'];
+    const body = opening.getParent()?.asKind(SyntaxKind.JsxElement);
+    const text = body && getJsxText(body);
+    el.label = (ariaLabel?.includes('*') ? text : ariaLabel)
+        || ariaLabel?.replace(/\*/g, ' ').replace(/\s+/g, ' ').trim()
+        || text
+        || undefined;
+}
+
+// ── Wizard steps ──────────────────────────────────────────────
+
+const STEP_NAME = /step|page|stage/i;
+
+/**
+ * A state variable the JSX renders different sections for:
+ * `{step === 1 && <Shipping />}`, `step === 'review' ? … : …` or
+ * `if (step === 2) return …`. Two or more distinct values make a wizard;
+ * numeric steps are ordered by value, named ones by first appearance.
+ */
+function detectWizard(fn: FunctionLike, stateVars: StateVariable[]): WizardInfo | undefined {
+    const candidates = stateVars.filter(v => v.kind === 'useState' && v.setter);
+    const values = new Map<string, string[]>();
+
+    fn.forEachDescendant((node) => {
+        const compared = renderCondition(node);
+        if (!compared || !candidates.some(v => v.name === compared.variable)) return;
+        const seen = values.get(compared.variable) ?? [];
+        if (!seen.includes(compared.value)) seen.push(compared.value);
+        values.set(compared.variable, seen);
+    });
+
+    // Prefer `step` / `currentPage` / `stage` when several variables qualify
+    const [variable, steps] = [...values.entries()]
+        .filter(([, found]) => found.length >= 2)
+        .sort(([a], [b]) => Number(STEP_NAME.test(b)) - Number(STEP_NAME.test(a)))[0] ?? [];
+    if (!variable || !steps) return undefined;
+
+    const numeric = steps.every(v => /^-?\d+(?:\.\d+)?$/.test(v));
+    return {
+        stateVariable: variable,
+        setter: candidates.find(v => v.name === variable)?.setter,
+        steps: numeric ? [...steps].sort((a, b) => Number(a) - Number(b)) : steps,
+    };
+}
+
+/** `state === literal` guarding a piece of rendered JSX, if `node` is such a guard */
+function renderCondition(node: Node): { variable: string; value: string } | undefined {
+    const binary = node.asKind(SyntaxKind.BinaryExpression);
+    if (binary?.getOperatorToken().getKind() === SyntaxKind.AmpersandAmpersandToken && containsJsx(binary.getRight())) {
+        return comparedState(binary.getLeft());
+    }
+    const conditional = node.asKind(SyntaxKind.ConditionalExpression);
+    if (conditional && containsJsx(conditional.getWhenTrue())) {
+        return comparedState(conditional.getCondition());
+    }
+    const ifStatement = node.asKind(SyntaxKind.IfStatement);
+    if (ifStatement && containsJsx(ifStatement.getThenStatement())) {
+        return comparedState(ifStatement.getExpression());
+    }
+    return undefined;
+}
+
+/** The wizard step `node` renders in: the value of the nearest enclosing `variable === value` guard */
+function stepOf(node: Node, variable: string): string | undefined {
+    let child: Node = node;
+    for (let parent = node.getParent(); parent; child = parent, parent = parent.getParent()) {
+        let condition: Node | undefined;
+        const binary = parent.asKind(SyntaxKind.BinaryExpression);
+        if (binary?.getOperatorToken().getKind() === SyntaxKind.AmpersandAmpersandToken && binary.getRight() === child) {
+            condition = binary.getLeft();
+        } else if (parent.asKind(SyntaxKind.ConditionalExpression)?.getWhenTrue() === child) {
+            condition = parent.asKindOrThrow(SyntaxKind.ConditionalExpression).getCondition();
+        } else if (parent.asKind(SyntaxKind.IfStatement)?.getThenStatement() === child) {
+            condition = parent.asKindOrThrow(SyntaxKind.IfStatement).getExpression();
+        }
+
+        const compared = condition && comparedState(condition);
+        if (compared?.variable === variable) return compared.value;
+    }
+    return undefined;
+}
+
+function comparedState(expr: Node): { variable: string; value: string } | undefined {
+    const unwrapped = expr.isKind(SyntaxKind.ParenthesizedExpression) ? expr.getExpression() : expr;
+    const binary = unwrapped.asKind(SyntaxKind.BinaryExpression);
+    if (!binary) return undefined;
+
+    const op = binary.getOperatorToken().getKind();
+    if (op === SyntaxKind.AmpersandAmpersandToken) {
+        return comparedState(binary.getLeft()) ?? comparedState(binary.getRight());
+    }
+    if (op !== SyntaxKind.EqualsEqualsEqualsToken && op !== SyntaxKind.EqualsEqualsToken) return undefined;
+
+    for (const [side, other] of [[binary.getLeft(), binary.getRight()], [binary.getRight(), binary.getLeft()]]) {
+        if (!side!.isKind(SyntaxKind.Identifier)) continue;
+        const literal = other!.asKind(SyntaxKind.NumericLiteral) ?? other!.asKind(SyntaxKind.StringLiteral)
+            ?? other!.asKind(SyntaxKind.NoSubstitutionTemplateLiteral);
+        if (literal) return { variable: side!.getText(), value: String(literal.getLiteralValue()) };
+    }
+    return undefined;
+}
+
+function containsJsx(node: Node): boolean {
+    const isJsx = (n: Node) => n.isKind(SyntaxKind.JsxElement) || n.isKind(SyntaxKind.JsxSelfClosingElement)
+        || n.isKind(SyntaxKind.JsxFragment);
+    return isJsx(node) || node.getFirstDescendant(isJsx) !== undefined;
+}
+
 function inferStateType(initialValue?: string): string {
     if (!initialValue) return 'string';
     if (initialValue === 'true' || initialValue === 'false') return 'boolean';
@@ -337,7 +1038,12 @@ function inferStateType(initialValue?: string): string {
 
 // ── Event handler extraction ──────────────────────────────────
 
-function extractEventHandlers(fn: FunctionLike): EventHandler[] {
+/**
+ * `callbacks` maps local names of callback props (`onDelete`, or
+ * `props.onDelete`) to the prop they come from, so buttons that forward
+ * to a prop are attributed to it.
+ */
+function extractEventHandlers(fn: FunctionLike, callbacks: Map<string, string> = new Map()): EventHandler[] {
     const handlers: EventHandler[] = [];
     const seen = new Set<string>();
 
@@ -366,11 +1072,12 @@ function extractEventHandlers(fn: FunctionLike): EventHandler[] {
         let handlerName: string;
         let handlerBody: string | undefined;
         let isAsync = false;
+        let forwardedProp = callbacks.get(handlerRef);
 
-        if (isIdentifier) {
-            handlerName = handlerRef;
+        if (isIdentifier || (forwardedProp && expr.isKind(SyntaxKind.PropertyAccessExpression))) {
+            handlerName = forwardedProp ?? handlerRef;
             // Look up the actual function body
-            const resolved = resolveHandlerBody(fn, handlerName);
+            const resolved = forwardedProp ? null : resolveHandlerBody(fn, handlerName);
             handlerBody = resolved?.body;
             isAsync = resolved?.isAsync ?? false;
         } else if (isInlineArrow) {
@@ -379,14 +1086,26 @@ function extractEventHandlers(fn: FunctionLike): EventHandler[] {
             handlerBody = body.getText();
             // Skip trivial setters (single call like setEmail(e.target.value))
             if (isTrivialSetter(handlerBody)) return;
-            handlerName = `inline_${name}_handler`;
+            // `() => onDelete(item.id)` forwards to the callback prop
+            const called = handlerBody.match(/^[\s{(]*(?:await\s+)?([\w$.]+)\s*(?:\?\.)?\([^)]*\)[\s;})]*$/)?.[1];
+            forwardedProp = called ? callbacks.get(called) : undefined;
+            handlerName = forwardedProp ?? `inline_${name}_handler`;
             isAsync = arrow.isAsync();
+            // `() => removeUser(user.id)` (typical in rows) runs the local function
+            const local = called && !forwardedProp ? resolveHandlerBody(fn, called) : null;
+            if (local) {
+                handlerName = called!;
+                handlerBody = local.body;
+                isAsync = local.isAsync;
+            }
         } else {
             return;
         }
 
-        if (seen.has(handlerName)) return;
-        seen.add(handlerName);
+        // Distinct inline arrows share a name, so tell them apart by body
+        const key = handlerName.startsWith('inline_') ? `${handlerName}:${handlerBody}` : handlerName;
+        if (seen.has(key)) return;
+        seen.add(key);
 
         const parentJsx = getParentJSXElement(node);
         const parentTag = parentJsx ? getTagName(parentJsx) : undefined;
@@ -402,12 +1121,122 @@ function extractEventHandlers(fn: FunctionLike): EventHandler[] {
             body: handlerBody,
             isAsync,
             apiCalls: apiCalls.length > 0 ? apiCalls : undefined,
+            forwardedProp,
         });
     });
 
     return handlers;
 }
 
+// ── Callback props ────────────────────────────────────────────
+
+/** Local names of the component's callback props → prop name */
+function callbackProps(fn: FunctionLike, props: PropDefinition[]): Map<string, string> {
+    const callbacks = new Map<string, string>();
+    const isCallback = (prop: string) => props.find(p => p.name === prop)?.callback ?? /^on[A-Z]/.test(prop);
+    const nameNode = fn.getParameters()[0]?.getNameNode();
+
+    if (nameNode?.isKind(SyntaxKind.ObjectBindingPattern)) {
+        for (const binding of nameNode.getElements()) {
+            const prop = binding.getPropertyNameNode()?.getText() ?? binding.getName();
+            if (isCallback(prop)) callbacks.set(binding.getName(), prop);
+        }
+    } else if (nameNode?.isKind(SyntaxKind.Identifier)) {
+        for (const prop of props.filter(p => p.callback)) callbacks.set(`${nameNode.getText()}.${prop.name}`, prop.name);
+    }
+    return callbacks;
+}
+
+/**
+ * Give forwarded handlers the body of what the parent passes at the call
+ * site (`<ItemRow onDelete={handleDelete} />` in the same file), so risk
+ * classification sees the real API calls. A child rendered from several
+ * places gets every call site's body and API calls.
+ */
+function resolveForwardedHandlers(components: Map<FunctionLike, ComponentInfo>): void {
+    for (const [childFn, child] of components) {
+        const forwarded = child.eventHandlers.filter(h => h.forwardedProp);
+        if (forwarded.length === 0) continue;
+        const sites = new Map<EventHandler, { callSite: string; body: string; isAsync: boolean }[]>();
+
+        for (const [parentFn, parent] of components) {
+            if (parentFn === childFn) continue;
+            const usages = [
+                ...parentFn.getDescendantsOfKind(SyntaxKind.JsxOpeningElement),
+                ...parentFn.getDescendantsOfKind(SyntaxKind.JsxSelfClosingElement),
+            ].filter(el => getTagName(el) === child.name);
+
+            for (const usage of usages) {
+                for (const handler of forwarded) {
+                    const passed = getAttributeExpression(usage, handler.forwardedProp!);
+                    const resolved = passed ? resolvePassedHandler(parentFn, passed) : undefined;
+                    if (!resolved) continue;
+
+                    const found = sites.get(handler) ?? [];
+                    const callSite = `${parent.name}.${resolved.name}`;
+                    if (!found.some(site => site.callSite === callSite && site.body === resolved.body)) {
+                        found.push({ callSite, body: resolved.body, isAsync: resolved.isAsync });
+                    }
+                    sites.set(handler, found);
+                }
+            }
+        }
+
+        for (const [handler, found] of sites) {
+            const apiCalls = found
+                .flatMap(site => extractAPICalls(site.body))
+                .filter((call, i, all) => all.findIndex(c => c.method === call.method && c.url === call.url) === i);
+            handler.body = found.map(site => site.body).join('\n');
+            handler.isAsync = found.some(site => site.isAsync);
+            handler.apiCalls = apiCalls.length > 0 ? apiCalls : undefined;
+            handler.callSite = [...new Set(found.map(site => site.callSite))].join(', ');
+        }
+    }
+}
+
+/** `handleDelete`, `() => removeItem(id)` or `async (id) => { ... }` passed as a prop */
+function resolvePassedHandler(fn: FunctionLike, expr: Expression): { name: string; body: string; isAsync: boolean } | undefined {
+    if (expr.isKind(SyntaxKind.Identifier)) {
+        const resolved = resolveHandlerBody(fn, expr.getText());
+        return resolved ? { name: expr.getText(), ...resolved } : undefined;
+    }
+    const arrow = expr.asKind(SyntaxKind.ArrowFunction) ?? expr.asKind(SyntaxKind.FunctionExpression);
+    if (!arrow) return undefined;
+
+    const body = arrow.getBody().getText();
+    // `(id) => removeItem(id)` — use removeItem's body when it's declared here
+    const called = body.match(/^[\s{(]*(?:await\s+)?([\w$]+)\s*\([^)]*\)[\s;})]*$/)?.[1];
+    const target = called ? resolveHandlerBody(fn, called) : null;
+    if (target) return { name: called!, ...target };
+    return { name: 'inline', body, isAsync: arrow.isAsync() };
+}
+
+/**
+ * In project-aware mode an inlined child's `onClick={onDelete}` reads as the
+ * parent's `handleDelete` after prop substitution; add those handlers.
+ */
+function addInlinedHandlers(fn: FunctionLike, elements: UIElement[], handlers: EventHandler[]): void {
+    for (const el of elements) {
+        for (const event of ['onClick', 'onSubmit']) {
+            const ref = el.attributes[event];
+            if (!ref || !/^[\w$]+$/.test(ref) || handlers.some(h => h.name === ref)) continue;
+            const resolved = resolveHandlerBody(fn, ref);
+            if (!resolved) continue;
+
+            const apiCalls = extractAPICalls(resolved.body);
+            handlers.push({
+                name: ref,
+                event,
+                elementTag: el.tag,
+                elementId: el.id,
+                body: resolved.body,
+                isAsync: resolved.isAsync,
+                apiCalls: apiCalls.length > 0 ? apiCalls : undefined,
+            });
+        }
+    }
+}
+
 function isTrivialSetter(body: string): boolean {
     // e.g. "setEmail(e.target.value)" or "{ setName(e.target.value) }"
     return /^[\s{(]*set[A-Z]\w+\(/.test(body.trim());
@@ -455,25 +1284,6 @@ function getParentJSXElement(node: Node): JsxOpeningElement | JsxSelfClosingElem
     return null;
 }
 
-type APICall = { method: string; url: string };
-
-function extractAPICalls(body: string): APICall[] {
-    const calls: APICall[] = [];
-    // Match fetch('/api/...', { method: 'POST' })
-    const fetchRe = /fetch\(\s*['"`]([^'"`]+)['"`]\s*(?:,\s*\{[^}]*method\s*:\s*['"`](\w+)['"`])?/g;
-    let m: RegExpExecArray | null;
-    while ((m = fetchRe.exec(body)) !== null) {
-        calls.push({ url: m[1]!, method: (m[2] ?? 'GET').toUpperCase() });
-    }
-    // Match axios.post/delete/put/patch
-    const axiosRe = /axios\.(post|put|patch|delete|get)\(\s*['"`]([^'"`]+)['"`]/g;
-    while ((m = axiosRe.exec(body)) !== null) {
-        calls.push({ url: m[2]!, method: m[1]!.toUpperCase() });
-    }
-    return calls;
-}
-
-
 // ── Binding ───────────────────────────────────────────────────
 
 function bindStateToElements(stateVars: StateVariable[], elements: UIElement[]): void {
@@ -501,6 +1311,17 @@ function bindStateToElements(stateVars: StateVariable[], elements: UIElement[]):
     }
 }
 
+/** Attach Zod / Yup field rules to the inputs with the same field name */
+function bindSchemaRulesToElements(fieldRules: Map<string, string[]>, elements: UIElement[]): void {
+    if (fieldRules.size === 0) return;
+    for (const el of elements) {
+        const field = [el.name, el.id, el.stateBinding?.accessPath?.split('.').pop(), el.stateBinding?.variable]
+            .find(f => f && fieldRules.has(f));
+        // The schema is what actually validates the submit, so its rules win
+        if (field) el.validation = mergeRules(fieldRules.get(field), el.validation);
+    }
+}
+
 function bindHandlersToElements(handlers: EventHandler[], elements: UIElement[]): void {
     for (const handler of handlers) {
         // Match by elementTag + elementId already captured during extraction
@@ -538,18 +1359,57 @@ function extractProps(fn: FunctionLike): PropDefinition[] {
     if (params.length === 0) return props;
 
     const firstParam = params[0];
-    const typeNode = firstParam.getTypeNode();
-    if (!typeNode) return props;
+    const members = propMembers(firstParam.getTypeNode());
 
     // Walk object type literal: { name: string; required?: boolean }
-    typeNode.forEachDescendant((node) => {
-        if (node.isKind(SyntaxKind.PropertySignature)) {
-            const name = node.getNameNode().getText();
-            const optional = node.hasQuestionToken();
-            const type = node.getTypeNode()?.getText() ?? 'unknown';
-            props.push({ name, type, required: !optional });
+    for (const member of members) {
+        const name = member.getName();
+        const optional = member.hasQuestionToken();
+        const typeNode = member.getTypeNode();
+        const type = typeNode?.getText() ?? 'unknown';
+        props.push({
+            name,
+            type,
+            required: !optional,
+            callback: typeNode ? isFunctionType(typeNode) : /^on[A-Z]/.test(name),
+        });
+    }
+
+    // Untyped destructuring: ({ item, onDelete }) => ...
+    const nameNode = firstParam.getNameNode();
+    if (members.length === 0 && nameNode.isKind(SyntaxKind.ObjectBindingPattern)) {
+        for (const binding of nameNode.getElements()) {
+            const name = binding.getPropertyNameNode()?.getText() ?? binding.getName();
+            props.push({
+                name,
+                required: !binding.getInitializer(),
+                defaultValue: binding.getInitializer()?.getText(),
+                callback: /^on[A-Z]/.test(name),
+            });
         }
-    });
+    }
 
     return props;
 }
+
+/** Members of an inline props type, or of an interface / type alias declared in the file */
+function propMembers(typeNode: Node | undefined): PropertySignature[] {
+    const literal = typeNode?.asKind(SyntaxKind.TypeLiteral);
+    if (literal) return literal.getProperties();
+
+    const reference = typeNode?.asKind(SyntaxKind.TypeReference);
+    if (!reference) return [];
+    const name = reference.getTypeName().getText();
+    const file = reference.getSourceFile();
+    const iface = file.getInterface(name);
+    if (iface) return iface.getProperties();
+    return propMembers(file.getTypeAlias(name)?.getTypeNode());
+}
+
+function isFunctionType(typeNode: Node): boolean {
+    if (typeNode.isKind(SyntaxKind.FunctionType)) return true;
+    if (typeNode.isKind(SyntaxKind.ParenthesizedType)) return isFunctionType(typeNode.getTypeNode());
+    if (typeNode.isKind(SyntaxKind.UnionType)) return typeNode.getTypeNodes().some(isFunctionType);
+    // MouseEventHandler, () => void aliases, Function
+    return /(?:Handler|Callback|^Function)$/.test(typeNode.getText());
+}
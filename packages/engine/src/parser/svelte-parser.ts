@@ -0,0 +1,569 @@
+import { basename, extname } from 'node:path';
+import { SyntaxKind, type SourceFile } from 'ts-morph';
+import type {
+    ComponentAnalysis,
+    ComponentInfo,
+    ComponentType,
+    UIElement,
+    EventHandler,
+    StateVariable,
+    DisplayRegion,
+} from '../types.js';
+import {
+    evaluateForItem,
+    findConstLiteral,
+    parseLiteralExpression,
+    parseSnippet,
+    toOptionValue,
+    type LiteralValue,
+} from './literal-values.js';
+import { rulesFromAttributes } from './validation-rules.js';
+import { extractAPICalls } from './api-calls.js';
+
+const INTERACTIVE_TAGS = new Set(['input', 'button', 'select', 'textarea']);
+const HEADING_TAGS = new Set(['h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+const VOID_TAGS = new Set(['input', 'br', 'hr', 'img', 'meta', 'link', 'area', 'base', 'col', 'embed', 'source', 'track', 'wbr']);
+
+// ── Public entry point ────────────────────────────────────────
+
+/**
+ * Parse a Svelte single-file component. Handles Svelte 4 directives
+ * (`bind:value`, `on:submit|preventDefault`) and Svelte 5 event
+ * attributes (`onsubmit`, `onclick`) and `$state()` runes.
+ */
+export function parseSvelteFile(source: string, fileName: string): ComponentAnalysis {
+    const componentName = basename(fileName, extname(fileName));
+
+    const scriptContent = [...source.matchAll(/<script\b[^>]*>([\s\S]*?)<\/script>/g)]
+        .map(m => m[1]!)
+        .join('\n');
+    const markup = source
+        .replace(/<script\b[^>]*>[\s\S]*?<\/script>/g, '')
+        .replace(/<style\b[^>]*>[\s\S]*?<\/style>/g, '');
+
+    const script = parseSnippet(scriptContent);
+    const functions = collectFunctions(script);
+    const stateVariables = collectState(script);
+
+    const { elements, eventHandlers, displayRegions } = walkMarkup(markup, script, functions);
+
+    const component: ComponentInfo = {
+        name: componentName,
+        type: classifyType(elements, eventHandlers),
+        elements,
+        eventHandlers,
+        stateVariables,
+        props: [],
+        displayRegions: displayRegions.length > 0 ? displayRegions : undefined,
+    };
+
+    return {
+        fileName,
+        framework: 'svelte',
+        components: elements.length > 0 || displayRegions.length > 0 ? [component] : [],
+    };
+}
+
+// ── <script> analysis ─────────────────────────────────────────
+
+interface ScriptFunction {
+    body: string;
+    isAsync: boolean;
+}
+
+/** Top-level `function f() {}` and `const f = () => {}` declarations */
+function collectFunctions(script: SourceFile): Map<string, ScriptFunction> {
+    const functions = new Map<string, ScriptFunction>();
+
+    for (const fn of script.getFunctions()) {
+        const name = fn.getName();
+        if (name) functions.set(name, { body: fn.getBodyText() ?? '', isAsync: fn.isAsync() });
+    }
+
+    for (const decl of script.getVariableDeclarations()) {
+        const init = decl.getInitializer();
+        const fn = init?.asKind(SyntaxKind.ArrowFunction) ?? init?.asKind(SyntaxKind.FunctionExpression);
+        if (fn) functions.set(decl.getName(), { body: fn.getBody().getText(), isAsync: fn.isAsync() });
+    }
+
+    return functions;
+}
+
+/** `let name = ''` (Svelte 4 reactivity) and `let name = $state('')` (Svelte 5) */
+function collectState(script: SourceFile): StateVariable[] {
+    const state: StateVariable[] = [];
+
+    for (const decl of script.getVariableDeclarations()) {
+        const list = decl.getVariableStatement()?.getDeclarationList();
+        const init = decl.getInitializer();
+        const rune = init?.asKind(SyntaxKind.CallExpression);
+        const isRune = rune?.getExpression().getText() === '$state';
+        if (!isRune && list?.getDeclarationKind() !== 'let') continue;
+        if (init?.isKind(SyntaxKind.ArrowFunction) || init?.isKind(SyntaxKind.FunctionExpression)) continue;
+
+        const initialValue = isRune ? rune!.getArguments()[0]?.getText() : init?.getText();
+        state.push({
+            name: decl.getName(),
+            initialValue,
+            type: inferStateType(initialValue),
+            kind: 'other',
+        });
+    }
+
+    return state;
+}
+
+function inferStateType(initialValue?: string): string {
+    if (!initialValue) return 'unknown';
+    if (initialValue === 'true' || initialValue === 'false') return 'boolean';
+    if (/^['"`]/.test(initialValue)) return 'string';
+    if (/^-?\d/.test(initialValue)) return 'number';
+    if (initialValue.startsWith('{')) return 'object';
+    if (initialValue.startsWith('[')) return 'array';
+    return 'unknown';
+}
+
+// ── Markup walker ─────────────────────────────────────────────
+
+interface Frame {
+    tag: string;
+    text: string;
+    attrs: Record<string, string>;
+    element?: UIElement;
+    /** Inputs wrapped by this <label> */
+    controls?: UIElement[];
+    region?: DisplayRegion;
+    option?: { value?: AttributeValue; each?: EachBlock };
+}
+
+/** An attribute value; `expression` marks `{...}` values (stored without braces) */
+interface AttributeValue {
+    value: string;
+    expression: boolean;
+}
+
+interface EachBlock {
+    source: string;
+    binding: string;
+}
+
+interface WalkResult {
+    elements: UIElement[];
+    eventHandlers: EventHandler[];
+    displayRegions: DisplayRegion[];
+}
+
+function walkMarkup(markup: string, script: SourceFile, functions: Map<string, ScriptFunction>): WalkResult {
+    const elements: UIElement[] = [];
+    const eventHandlers: EventHandler[] = [];
+    const displayRegions: DisplayRegion[] = [];
+    const stack: Frame[] = [];
+    const eachBlocks: EachBlock[] = [];
+    const labelsFor = new Map<string, string>();
+    let currentFormId: string | undefined;
+    let lastHeading: string | undefined;
+
+    const inside = (tag: string) => stack.some(f => f.tag === tag);
+    const innermost = (tag: string) => [...stack].reverse().find(f => f.tag === tag);
+
+    const open = (tag: string, attrs: Record<string, string>, expressions: Set<string>, selfClosing: boolean) => {
+        const frame: Frame = { tag, text: '', attrs };
+        const valueOf = (name: string): AttributeValue | undefined =>
+            attrs[name] === undefined ? undefined : { value: attrs[name]!, expression: expressions.has(name) };
+        // Dynamic ids / names can't be turned into selectors
+        const staticAttr = (name: string) => (expressions.has(name) ? undefined : attrs[name]);
+
+        if (tag === 'form') {
+            currentFormId = staticAttr('id');
+            elements.push({ tag: 'form', id: staticAttr('id'), name: staticAttr('name'), attributes: attrs });
+        }
+
+        if (tag === 'table' || ((tag === 'ul' || tag === 'ol') && !inside('nav'))) {
+            frame.region = {
+                kind: tag === 'table' ? 'table' : 'list',
+                tag,
+                id: staticAttr('id'),
+                label: staticAttr('aria-label') ?? (tag === 'table' ? lastHeading : undefined),
+                columns: tag === 'table' ? [] : undefined,
+                attributes: attrs,
+            };
+        }
+
+        if (tag === 'option') {
+            frame.option = { value: valueOf('value'), each: eachBlocks[eachBlocks.length - 1] };
+        }
+
+        if (INTERACTIVE_TAGS.has(tag)) {
+            const el: UIElement = {
+                tag,
+                id: staticAttr('id'),
+                name: staticAttr('name'),
+                inputType: staticAttr('type'),
+                label: staticAttr('placeholder') ?? staticAttr('aria-label'),
+                attributes: attrs,
+                parentFormId: inside('form') ? currentFormId : undefined,
+            };
+
+            const binding = bindingOf(attrs);
+            if (binding) el.stateBinding = binding;
+
+            if (tag === 'input' && attrs['type'] === 'radio') {
+                const values = resolveValues(valueOf('value'), eachBlocks, script);
+                if (values.length > 0) el.options = values;
+            }
+
+            const validation = rulesFromAttributes(attrs);
+            if (validation.length) el.validation = validation;
+
+            if (attrs['aria-label'] || attrs['aria-describedby'] || attrs['role']) {
+                el.accessibilityHints = {
+                    ariaLabel: attrs['aria-label'],
+                    ariaDescribedBy: attrs['aria-describedby'],
+                    role: attrs['role'],
+                };
+            }
+
+            frame.element = el;
+            const label = innermost('label');
+            if (label && tag !== 'button') (label.controls ??= []).push(el);
+            elements.push(el);
+        }
+
+        for (const [event, expr] of eventAttributes(attrs, expressions)) {
+            const handler = resolveHandler(event, expr, functions);
+            if (!handler || eventHandlers.some(h => h.name === handler.name)) continue;
+            handler.elementTag = tag;
+            handler.elementId = staticAttr('id');
+            eventHandlers.push(handler);
+        }
+
+        if (selfClosing || VOID_TAGS.has(tag)) {
+            close(frame);
+        } else {
+            stack.push(frame);
+        }
+    };
+
+    const close = (frame: Frame) => {
+        const text = frame.text.replace(/\s+/g, ' ').trim();
+
+        // Buttons are named by their text; inputs by a wrapping <label>
+        if (frame.tag === 'button' && frame.element && !frame.element.label) frame.element.label = text || undefined;
+        for (const control of frame.controls ?? []) control.label ??= text || undefined;
+        if (HEADING_TAGS.has(frame.tag)) lastHeading = text || lastHeading;
+        if (frame.tag === 'label' && frame.attrs['for'] && text) labelsFor.set(frame.attrs['for'], text);
+        if (frame.tag === 'th') innermost('table')?.region?.columns?.push(text);
+        if (frame.tag === 'caption') {
+            const table = innermost('table')?.region;
+            if (table && !table.attributes['aria-label'] && text) table.label = text;
+        }
+        if (frame.tag === 'form') currentFormId = undefined;
+
+        if (frame.option) {
+            const select = innermost('select')?.element;
+            if (select && frame.attrs['disabled'] === undefined) {
+                const values = optionValues(frame.option.value, text, frame.option.each, script);
+                if (values.length > 0) select.options = [...new Set([...(select.options ?? []), ...values])];
+            }
+        }
+
+        const region = frame.region;
+        if (region) {
+            if (region.columns?.length === 0) region.columns = undefined;
+            // Unlabelled static lists are usually content, not data
+            if (region.kind === 'table' || region.dataSource || region.id || region.label) {
+                displayRegions.push(region);
+            }
+        }
+    };
+
+    tokenize(markup, {
+        open,
+        close(tag) {
+            const index = stack.map(f => f.tag).lastIndexOf(tag);
+            if (index === -1) return;
+            // Pop unclosed children too (e.g. a <p> left open)
+            for (const frame of stack.splice(index).reverse()) close(frame);
+        },
+        text(text) {
+            for (const frame of stack) frame.text += text;
+        },
+        block(content) {
+            const each = content.match(/^#each\s+([\s\S]+?)\s+as\s+([\s\S]+?)\s*(?:,\s*\w+\s*)?(?:\([^)]*\))?$/);
+            if (each) {
+                const block = { source: each[1]!.trim(), binding: each[2]!.trim() };
+                eachBlocks.push(block);
+                const region = [...stack].reverse().find(f => f.region)?.region;
+                if (region && !region.dataSource) region.dataSource = block.source.match(/^[\w.$]+/)?.[0];
+            } else if (content.startsWith('/each')) {
+                eachBlocks.pop();
+            }
+        },
+    });
+
+    // Anything left open at EOF still counts
+    for (const frame of stack.splice(0).reverse()) close(frame);
+
+    // <label for="email">Email</label> … <input id="email">
+    for (const el of elements) {
+        if (!el.label && el.id) el.label = labelsFor.get(el.id);
+    }
+
+    return { elements, eventHandlers, displayRegions };
+}
+
+/** `bind:value={email}`, `bind:checked`, `bind:group={plan}`, or `bind:value={form.email}` */
+function bindingOf(attrs: Record<string, string>): UIElement['stateBinding'] | undefined {
+    for (const directive of ['bind:value', 'bind:checked', 'bind:group']) {
+        if (!(directive in attrs)) continue;
+        // Shorthand `bind:value` binds a variable named `value`
+        const target = attrs[directive] || directive.slice('bind:'.length);
+        const path = target.split('.');
+        return path.length > 1
+            ? { variable: path[path.length - 1]!, accessPath: target }
+            : { variable: target };
+    }
+    return undefined;
+}
+
+/** Submit / click listeners as [event, expression]: `on:submit|preventDefault` or `onsubmit` */
+function eventAttributes(attrs: Record<string, string>, expressions: Set<string>): [string, string][] {
+    const events: [string, string][] = [];
+    for (const [name, value] of Object.entries(attrs)) {
+        const m = name.match(/^on:?(submit|click)(?:\|[\w|]+)?$/i);
+        if (m && value && expressions.has(name)) {
+            events.push([m[1]!.toLowerCase() === 'submit' ? 'onSubmit' : 'onClick', value]);
+        }
+    }
+    return events;
+}
+
+function resolveHandler(event: string, expr: string, functions: Map<string, ScriptFunction>): EventHandler | undefined {
+    const trimmed = expr.trim();
+    let name: string;
+    let body: string | undefined;
+    let isAsync = false;
+
+    if (/^[\w$]+$/.test(trimmed)) {
+        name = trimmed;
+        body = functions.get(name)?.body;
+        isAsync = functions.get(name)?.isAsync ?? false;
+    } else {
+        const arrow = trimmed.match(/^(async\s+)?(?:\([^)]*\)|[\w$]+)\s*=>\s*([\s\S]+)$/);
+        if (!arrow) return undefined;
+        body = arrow[2]!.replace(/^\{([\s\S]*)\}$/, '$1').trim();
+        // `() => remove(item.id)` is really the named function
+        const call = body.match(/^(?:await\s+)?([\w$]+)\s*\([^)]*\);?$/);
+        if (call && functions.has(call[1]!)) {
+            name = call[1]!;
+            body = functions.get(name)!.body;
+            isAsync = functions.get(name)!.isAsync;
+        } else {
+            // Skip trivial assignments like () => (open = !open)
+            if (/^\(?\s*[\w$.]+\s*=[^=>]/.test(body)) return undefined;
+            name = `inline_${event}_handler`;
+            isAsync = !!arrow[1];
+        }
+    }
+
+    const apiCalls = body ? extractAPICalls(body) : [];
+    return {
+        name,
+        event,
+        body,
+        isAsync,
+        apiCalls: apiCalls.length > 0 ? apiCalls : undefined,
+    };
+}
+
+// ── Option enumeration ────────────────────────────────────────
+
+function optionValues(value: AttributeValue | undefined, text: string, each: EachBlock | undefined, script: SourceFile): string[] {
+    if (value !== undefined) return resolveValues(value, each ? [each] : [], script);
+    // No value attribute — the text is the value, unless it's an expression
+    if (!each) return text && !/[{}]/.test(text) ? [text] : [];
+    return [];
+}
+
+/**
+ * Static value(s) of an attribute. Expression values are evaluated, once
+ * per item when inside an `{#each}` over a literal or constant array.
+ */
+function resolveValues(attr: AttributeValue | undefined, eachBlocks: EachBlock[], script: SourceFile): string[] {
+    if (attr === undefined) return [];
+    if (!attr.expression) return attr.value ? [attr.value] : [];
+    const expr = attr.value;
+
+    const each = eachBlocks[eachBlocks.length - 1];
+    if (!each) {
+        const value = toOptionValue(parseLiteralExpression(expr));
+        return value ? [value] : [];
+    }
+
+    const items: LiteralValue | undefined = /^[\w$]+$/.test(each.source)
+        ? findConstLiteral(script, each.source)
+        : parseLiteralExpression(each.source);
+    if (!Array.isArray(items)) return [];
+
+    const fn = parseSnippet(`const __fn = (${each.binding}) => (${expr});`)
+        .getVariableDeclaration('__fn')?.getInitializer()?.asKind(SyntaxKind.ArrowFunction);
+    const body = fn?.getBody();
+    if (!fn || !body) return [];
+    const valueExpr = body.asKind(SyntaxKind.ParenthesizedExpression)?.getExpression() ?? body;
+
+    return items
+        .map(item => toOptionValue(evaluateForItem(valueExpr, fn.getParameters()[0], item)))
+        .filter((v): v is string => !!v);
+}
+
+// ── Tokenizer ─────────────────────────────────────────────────
+
+interface TokenHandlers {
+    open(tag: string, attrs: Record<string, string>, expressions: Set<string>, selfClosing: boolean): void;
+    close(tag: string): void;
+    text(text: string): void;
+    /** `{#each ...}`, `{/each}`, `{#if ...}` — content without the braces */
+    block(content: string): void;
+}
+
+/**
+ * Minimal Svelte markup tokenizer. Unlike an HTML parser it treats
+ * `{...}` as opaque (so `onclick={() => a > b}` doesn't end the tag).
+ * Expression attribute values are reported without their braces, with
+ * their names in `expressions`.
+ */
+function tokenize(markup: string, on: TokenHandlers): void {
+    let i = 0;
+    while (i < markup.length) {
+        if (markup.startsWith('<!--', i)) {
+            const end = markup.indexOf('-->', i);
+            i = end === -1 ? markup.length : end + 3;
+        } else if (markup[i] === '<' && markup[i + 1] === '/') {
+            const end = markup.indexOf('>', i);
+            on.close(markup.slice(i + 2, end === -1 ? undefined : end).trim().toLowerCase());
+            i = end === -1 ? markup.length : end + 1;
+        } else if (markup[i] === '<' && /[a-zA-Z]/.test(markup[i + 1] ?? '')) {
+            i = readTag(markup, i + 1, on);
+        } else if (markup[i] === '{') {
+            const end = findClosingBrace(markup, i);
+            const content = markup.slice(i + 1, end).trim();
+            if (/^[#/:@]/.test(content)) on.block(content);
+            i = end + 1;
+        } else {
+            let end = i + 1;
+            while (end < markup.length && markup[end] !== '<' && markup[end] !== '{') end++;
+            on.text(markup.slice(i, end));
+            i = end;
+        }
+    }
+}
+
+function readTag(markup: string, start: number, on: TokenHandlers): number {
+    let i = start;
+    while (i < markup.length && /[\w:.-]/.test(markup[i]!)) i++;
+    const rawTag = markup.slice(start, i);
+    // Components (<Button>) keep their case; HTML tags are case-insensitive
+    const tag = /^[A-Z]/.test(rawTag) ? rawTag : rawTag.toLowerCase();
+    const attrs: Record<string, string> = {};
+    const expressions = new Set<string>();
+
+    while (i < markup.length) {
+        while (/\s/.test(markup[i] ?? '')) i++;
+        if (markup.startsWith('/>', i)) {
+            on.open(tag, attrs, expressions, true);
+            return i + 2;
+        }
+        if (markup[i] === '>') {
+            on.open(tag, attrs, expressions, false);
+            return i + 1;
+        }
+        if (markup[i] === '{') {
+            // {...spread} or {shorthand}
+            const end = findClosingBrace(markup, i);
+            const content = markup.slice(i + 1, end).trim();
+            if (/^[\w$]+$/.test(content)) {
+                attrs[content] = content;
+                expressions.add(content);
+            }
+            i = end + 1;
+            continue;
+        }
+
+        const nameStart = i;
+        while (i < markup.length && !/[\s=>]/.test(markup[i]!) && !markup.startsWith('/>', i)) i++;
+        const name = markup.slice(nameStart, i);
+        if (!name) {
+            i++;
+            continue;
+        }
+
+        if (markup[i] !== '=') {
+            attrs[name] = '';
+            continue;
+        }
+        i++;
+
+        const quote = markup[i];
+        if (quote === '"' || quote === "'") {
+            let end = i + 1;
+            while (end < markup.length && markup[end] !== quote) {
+                end = markup[end] === '{' ? findClosingBrace(markup, end) + 1 : end + 1;
+            }
+            const value = markup.slice(i + 1, end);
+            // "{expr}" in quotes is still a single expression
+            const single = value.match(/^\{([\s\S]*)\}$/);
+            if (single && findClosingBrace(value, 0) === value.length - 1) {
+                attrs[name] = single[1]!.trim();
+                expressions.add(name);
+            } else {
+                attrs[name] = value;
+            }
+            i = end + 1;
+        } else if (quote === '{') {
+            const end = findClosingBrace(markup, i);
+            attrs[name] = markup.slice(i + 1, end).trim();
+            expressions.add(name);
+            i = end + 1;
+        } else {
+            const valueStart = i;
+            while (i < markup.length && !/[\s>]/.test(markup[i]!)) i++;
+            attrs[name] = markup.slice(valueStart, i);
+        }
+    }
+
+    on.open(tag, attrs, expressions, false);
+    return i;
+}
+
+/** Index of the `}` matching the `{` at `start`, skipping string literals */
+function findClosingBrace(text: string, start: number): number {
+    let depth = 0;
+    for (let i = start; i < text.length; i++) {
+        const ch = text[i];
+        if (ch === '"' || ch === "'" || ch === '`') {
+            const end = text.indexOf(ch, i + 1);
+            if (end === -1) return text.length - 1;
+            i = end;
+        } else if (ch === '{') {
+            depth++;
+        } else if (ch === '}') {
+            depth--;
+            if (depth === 0) return i;
+        }
+    }
+    return text.length - 1;
+}
+
+// ── Classification ────────────────────────────────────────────
+
+function classifyType(elements: UIElement[], handlers: EventHandler[]): ComponentType {
+    const hasForms = elements.some(el => el.tag === 'form');
+    const hasInputs = elements.some(el => ['input', 'textarea', 'select'].includes(el.tag));
+    const hasButtons = elements.some(el => el.tag === 'button');
+    const hasSubmit = handlers.some(h => h.event === 'onSubmit');
+
+    if ((hasForms || hasSubmit) && hasInputs) return 'form';
+    if (hasButtons && !hasInputs) return 'action';
+    if (hasInputs || hasButtons) return 'mixed';
+    return 'display';
+}
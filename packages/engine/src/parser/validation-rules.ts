@@ -0,0 +1,239 @@
+import { SyntaxKind, type Node, type ObjectLiteralExpression, type SourceFile } from 'ts-morph';
+import { evaluateLiteral, templatePattern } from './literal-values.js';
+
+// ────────────────────────────────────────────────────────────
+// Validation rules — normalised into UIElement.validation entries
+// ('required', 'minLength:3', 'pattern:^\d+$', 'format:email', ...)
+// from native attributes, react-hook-form register() options and
+// Zod / Yup object schemas.
+// ────────────────────────────────────────────────────────────
+
+/** Constraint attributes, keyed by rule name; HTML spells them in lower case */
+const ATTRIBUTE_RULES: Record<string, string> = {
+    minLength: 'minLength',
+    minlength: 'minLength',
+    maxLength: 'maxLength',
+    maxlength: 'maxLength',
+    min: 'min',
+    max: 'max',
+    step: 'step',
+};
+
+/** Rules from native constraint attributes (`required`, `minlength`, `pattern`, ...) */
+export function rulesFromAttributes(attrs: Record<string, string>): string[] {
+    const rules: string[] = [];
+    if (attrs['required'] !== undefined && attrs['required'] !== 'false') rules.push('required');
+
+    for (const [attr, rule] of Object.entries(ATTRIBUTE_RULES)) {
+        const value = attrs[attr] ?? attrs[`:${attr}`];
+        if (value !== undefined && isNumeric(value)) rules.push(`${rule}:${Number(value)}`);
+    }
+
+    // HTML patterns must match the whole value; JSON Schema patterns are unanchored
+    const pattern = attrs['pattern'];
+    if (pattern) rules.push(`pattern:^(?:${pattern})$`);
+
+    return rules;
+}
+
+/** Combine rule lists; the first source to set a rule wins */
+export function mergeRules(...sources: (string[] | undefined)[]): string[] | undefined {
+    const merged: string[] = [];
+    const seen = new Set<string>();
+    for (const rules of sources) {
+        for (const rule of rules ?? []) {
+            const key = ruleName(rule);
+            if (seen.has(key)) continue;
+            seen.add(key);
+            merged.push(rule);
+        }
+    }
+    return merged.length > 0 ? merged : undefined;
+}
+
+export function ruleName(rule: string): string {
+    const i = rule.indexOf(':');
+    return i === -1 ? rule : rule.slice(0, i);
+}
+
+// ── react-hook-form ───────────────────────────────────────────
+
+/**
+ * `{...register('email', { required: true, minLength: 3 })}` on a JSX element.
+ * Returns the registered field name and its rules.
+ */
+export function rulesFromRegisterCall(spreadExpr: Node): { name: string; rules: string[] } | undefined {
+    const call = spreadExpr.asKind(SyntaxKind.CallExpression);
+    if (!call || call.getExpression().getText().split('.').pop() !== 'register') return undefined;
+
+    const [nameArg, optionsArg] = call.getArguments();
+    // Field-array rows register `items.${index}.name` → "items.*.name"
+    const name = templatePattern(nameArg);
+    if (name === undefined) return undefined;
+
+    const rules: string[] = [];
+    const options = optionsArg?.asKind(SyntaxKind.ObjectLiteralExpression);
+    for (const prop of options?.getProperties() ?? []) {
+        if (!prop.isKind(SyntaxKind.PropertyAssignment)) continue;
+        const key = prop.getName();
+        // Each rule is either the bare value or { value, message }
+        let valueNode: Node | undefined = prop.getInitializer();
+        const wrapped = valueNode?.asKind(SyntaxKind.ObjectLiteralExpression)?.getProperty('value');
+        if (wrapped?.isKind(SyntaxKind.PropertyAssignment)) valueNode = wrapped.getInitializer();
+        if (!valueNode) continue;
+
+        if (key === 'required') {
+            const value = evaluateLiteral(valueNode);
+            if (value === true || (typeof value === 'string' && value !== '')) rules.push('required');
+        } else if (key === 'pattern') {
+            const pattern = regexSource(valueNode);
+            if (pattern) rules.push(`pattern:${pattern}`);
+        } else if (key === 'valueAsNumber' && evaluateLiteral(valueNode) === true) {
+            rules.push('type:number');
+        } else if (ATTRIBUTE_RULES[key]) {
+            const value = evaluateLiteral(valueNode);
+            if (typeof value === 'number') rules.push(`${ATTRIBUTE_RULES[key]}:${value}`);
+        }
+    }
+
+    return { name, rules };
+}
+
+// ── Zod / Yup schemas ─────────────────────────────────────────
+
+/**
+ * Field rules from `z.object({...})` / `yup.object({...})` schemas declared
+ * in the file and referenced by `scope` (the component). Keyed by field name.
+ */
+export function rulesFromSchemas(file: SourceFile, scope: Node): Map<string, string[]> {
+    const fields = new Map<string, string[]>();
+    const scopeText = scope.getText();
+
+    for (const decl of file.getDescendantsOfKind(SyntaxKind.VariableDeclaration)) {
+        const shape = findObjectShape(decl.getInitializer());
+        if (!shape) continue;
+        const referenced = decl.getAncestors().includes(scope) ||
+            new RegExp(`\\b${decl.getName()}\\b`).test(scopeText);
+        if (!referenced) continue;
+
+        for (const prop of shape.getProperties()) {
+            if (!prop.isKind(SyntaxKind.PropertyAssignment)) continue;
+            const initializer = prop.getInitializer();
+            if (!initializer) continue;
+            const rules = rulesFromValidatorChain(initializer);
+            const name = prop.getName().replace(/^['"]|['"]$/g, '');
+            fields.set(name, mergeRules(fields.get(name), rules) ?? []);
+        }
+    }
+
+    return fields;
+}
+
+/** The `{...}` passed to `object(...)` / `.shape(...)` somewhere in a schema chain */
+function findObjectShape(node: Node | undefined): ObjectLiteralExpression | undefined {
+    let current = node;
+    while (current?.isKind(SyntaxKind.CallExpression)) {
+        const callee = current.getExpression();
+        const name = callee.isKind(SyntaxKind.PropertyAccessExpression) ? callee.getName() : callee.getText();
+        const arg = current.getArguments()[0]?.asKind(SyntaxKind.ObjectLiteralExpression);
+        if ((name === 'object' || name === 'shape') && arg) return arg;
+        current = callee.isKind(SyntaxKind.PropertyAccessExpression) ? callee.getExpression() : undefined;
+    }
+    return undefined;
+}
+
+/** Walk `z.string().min(3).email()` / `z.coerce.number()` / `yup.number().required().max(9)` */
+function rulesFromValidatorChain(node: Node): string[] {
+    const calls: { name: string; args: Node[] }[] = [];
+    let current: Node | undefined = node;
+    let root = '';
+
+    while (current?.isKind(SyntaxKind.CallExpression)) {
+        const callee: Node = current.getExpression();
+        if (callee.isKind(SyntaxKind.PropertyAccessExpression)) {
+            calls.unshift({ name: callee.getName(), args: current.getArguments() });
+            current = callee.getExpression();
+        } else {
+            calls.unshift({ name: callee.getText(), args: current.getArguments() });
+            current = undefined;
+        }
+    }
+    if (current) root = current.getText();
+
+    // Zod fields are required unless marked optional; Yup fields only when .required()
+    const isZod = root === 'z' || root === 'z.coerce';
+    const base = calls[0]?.name ?? '';
+    const isNumber = base === 'number';
+    const rules: string[] = [];
+    let optional = false;
+
+    for (const { name, args } of calls) {
+        const arg = evaluateLiteral(args[0]);
+        switch (name) {
+            case 'optional':
+            case 'nullish':
+            case 'notRequired':
+                optional = true;
+                break;
+            case 'required':
+            case 'nonempty':
+                rules.push('required');
+                if (name === 'nonempty') rules.push('minLength:1');
+                break;
+            case 'min':
+            case 'gte':
+                if (typeof arg === 'number') rules.push(isNumber ? `min:${arg}` : `minLength:${arg}`);
+                break;
+            case 'max':
+            case 'lte':
+                if (typeof arg === 'number') rules.push(isNumber ? `max:${arg}` : `maxLength:${arg}`);
+                break;
+            case 'length':
+                if (typeof arg === 'number') rules.push(`minLength:${arg}`, `maxLength:${arg}`);
+                break;
+            case 'int':
+            case 'integer':
+                rules.push('type:integer');
+                break;
+            case 'multipleOf':
+            case 'step':
+                if (typeof arg === 'number') rules.push(`step:${arg}`);
+                break;
+            case 'regex':
+            case 'matches': {
+                const pattern = args[0] ? regexSource(args[0]) : undefined;
+                if (pattern) rules.push(`pattern:${pattern}`);
+                break;
+            }
+            case 'email':
+                rules.push('format:email');
+                break;
+            case 'url':
+                rules.push('format:uri');
+                break;
+            case 'uuid':
+                rules.push('format:uuid');
+                break;
+        }
+    }
+
+    if (isZod && !optional) rules.unshift('required');
+    if (isNumber && !rules.includes('type:integer')) rules.push('type:number');
+    return mergeRules(rules) ?? [];
+}
+
+/** Source of a regex literal; flags other than g/u can't be expressed in JSON Schema */
+function regexSource(node: Node): string | undefined {
+    if (node.isKind(SyntaxKind.RegularExpressionLiteral)) {
+        const text = node.getText();
+        const slash = text.lastIndexOf('/');
+        if (/[imsy]/.test(text.slice(slash + 1))) return undefined;
+        return text.slice(1, slash);
+    }
+    const value = evaluateLiteral(node);
+    return typeof value === 'string' && value ? value : undefined;
+}
+
+function isNumeric(value: string): boolean {
+    return value.trim() !== '' && Number.isFinite(Number(value));
+}
@@ -1,176 +1,483 @@
-import { parse, compileTemplate, SFCTemplateBlock } from '@vue/compiler-sfc';
+import { parse, type SFCDescriptor, type SFCTemplateBlock } from '@vue/compiler-sfc';
 import { basename, extname } from 'node:path';
+import { SyntaxKind, type Node, type ObjectLiteralExpression, type SourceFile } from 'ts-morph';
 import type {
     ComponentAnalysis,
     ComponentInfo,
+    ComponentType,
     UIElement,
     EventHandler,
-    StateVariable
+    StateVariable,
+    DisplayRegion
 } from '../types.js';
+import {
+    evaluateForItem,
+    evaluateLiteral,
+    parseLiteralExpression,
+    parseSnippet,
+    toOptionValue,
+    type LiteralValue,
+} from './literal-values.js';
+import { rulesFromAttributes } from './validation-rules.js';
+import { extractAPICalls, type APICall } from './api-calls.js';
+
+// Template AST node shapes, as exposed by @vue/compiler-sfc
+type VueNode = NonNullable<SFCTemplateBlock['ast']>['children'][number];
+type VueElement = Extract<VueNode, { tag: string }>;
+type VueProp = VueElement['props'][number];
+type VueDirective = Extract<VueProp, { exp?: unknown }>;
+
+// NodeTypes values from @vue/compiler-core (a const enum, so not importable)
+const NODE_TEXT = 2;
+const NODE_INTERPOLATION = 5;
+
+const INTERACTIVE_TAGS = new Set(['input', 'button', 'select', 'textarea']);
+const HEADING_TAGS = new Set(['h1', 'h2', 'h3', 'h4', 'h5', 'h6']);
+const V_FOR_RE = /^\s*\(?\s*([\s\S]+?)\s*(?:,\s*\w+\s*)*\)?\s+(?:in|of)\s+([\s\S]+)$/;
 
 // ── Public entry point ────────────────────────────────────────
 
+/**
+ * Parse a Vue single-file component. The template is walked from the
+ * compiler's AST; `<script setup>` and Options API `<script>` blocks are
+ * parsed with ts-morph for state, handlers and their API calls.
+ */
 export function parseVueFile(source: string, fileName: string): ComponentAnalysis {
     const componentName = basename(fileName, extname(fileName));
-    const { descriptor } = parse(source);
+    const { descriptor } = parse(source, { filename: fileName });
+
+    const script = analyzeScript(descriptor);
+    const { elements, eventHandlers, displayRegions } = descriptor.template?.ast
+        ? walkTemplate(descriptor.template.ast.children, script)
+        : { elements: [], eventHandlers: [], displayRegions: [] };
+
+    const component: ComponentInfo = {
+        name: componentName,
+        type: classifyType(elements, eventHandlers),
+        elements,
+        eventHandlers,
+        stateVariables: script.state,
+        props: [],
+        displayRegions: displayRegions.length > 0 ? displayRegions : undefined
+    };
+
+    return {
+        fileName,
+        framework: 'vue',
+        components: elements.length > 0 || displayRegions.length > 0 ? [component] : []
+    };
+}
 
+// ── <script> analysis ─────────────────────────────────────────
+
+interface ScriptFunction {
+    body: string;
+    isAsync: boolean;
+}
+
+interface ScriptInfo {
+    functions: Map<string, ScriptFunction>;
+    state: StateVariable[];
+    /** Static values templates can iterate over: consts, ref([...]) and data() */
+    literals: Map<string, LiteralValue>;
+}
+
+function analyzeScript(descriptor: SFCDescriptor): ScriptInfo {
+    const info: ScriptInfo = { functions: new Map(), state: [], literals: new Map() };
+
+    // A plain <script> can sit next to <script setup>; both share the module scope
+    for (const block of [descriptor.script, descriptor.scriptSetup]) {
+        if (!block) continue;
+        const file = parseSnippet(block.content);
+        collectSetupBindings(file, info);
+        const options = findComponentOptions(file);
+        if (options) collectOptionsApi(options, info);
+    }
+
+    return info;
+}
+
+/** Top-level functions, `ref()` / `reactive()` state and constant literals */
+function collectSetupBindings(file: SourceFile, info: ScriptInfo): void {
+    for (const fn of file.getFunctions()) {
+        const name = fn.getName();
+        if (name) info.functions.set(name, { body: fn.getBodyText() ?? '', isAsync: fn.isAsync() });
+    }
+
+    for (const decl of file.getVariableDeclarations()) {
+        const name = decl.getName();
+        const init = decl.getInitializer();
+        const fn = init?.asKind(SyntaxKind.ArrowFunction) ?? init?.asKind(SyntaxKind.FunctionExpression);
+        if (fn) {
+            info.functions.set(name, { body: fn.getBody().getText(), isAsync: fn.isAsync() });
+            continue;
+        }
+
+        const call = init?.asKind(SyntaxKind.CallExpression);
+        const callee = call?.getExpression().getText();
+        if (call && (callee === 'ref' || callee === 'reactive')) {
+            const arg = call.getArguments()[0];
+            info.state.push({ name, initialValue: arg?.getText(), type: callee, kind: 'other' });
+            const value = evaluateLiteral(arg);
+            if (value !== undefined) info.literals.set(name, value);
+            continue;
+        }
+
+        const value = evaluateLiteral(init);
+        if (value !== undefined) info.literals.set(name, value);
+    }
+}
+
+/** The object passed to `export default {...}` or `export default defineComponent({...})` */
+function findComponentOptions(file: SourceFile): ObjectLiteralExpression | undefined {
+    let expr: Node | undefined = file.getExportAssignment(e => !e.isExportEquals())?.getExpression();
+    const call = expr?.asKind(SyntaxKind.CallExpression);
+    if (call) expr = call.getArguments()[0];
+    return expr?.asKind(SyntaxKind.ObjectLiteralExpression);
+}
+
+/** Options API: `methods: {...}` and the object returned from `data()` */
+function collectOptionsApi(options: ObjectLiteralExpression, info: ScriptInfo): void {
+    const methods = options.getProperty('methods')?.asKind(SyntaxKind.PropertyAssignment)
+        ?.getInitializer()?.asKind(SyntaxKind.ObjectLiteralExpression);
+    for (const member of methods?.getProperties() ?? []) {
+        if (member.isKind(SyntaxKind.MethodDeclaration)) {
+            info.functions.set(member.getName(), { body: member.getBodyText() ?? '', isAsync: member.isAsync() });
+        } else if (member.isKind(SyntaxKind.PropertyAssignment)) {
+            const init = member.getInitializer();
+            const fn = init?.asKind(SyntaxKind.ArrowFunction) ?? init?.asKind(SyntaxKind.FunctionExpression);
+            if (fn) info.functions.set(member.getName(), { body: fn.getBody().getText(), isAsync: fn.isAsync() });
+        }
+    }
+
+    const data = options.getProperty('data');
+    const body = data?.asKind(SyntaxKind.MethodDeclaration)
+        ?? data?.asKind(SyntaxKind.PropertyAssignment)?.getInitializer()?.asKind(SyntaxKind.FunctionExpression)
+        ?? data?.asKind(SyntaxKind.PropertyAssignment)?.getInitializer()?.asKind(SyntaxKind.ArrowFunction);
+    const returned = body?.getDescendantsOfKind(SyntaxKind.ReturnStatement)[0]?.getExpression()
+        ?? body?.asKind(SyntaxKind.ArrowFunction)?.getBody();
+    const shape = (returned?.asKind(SyntaxKind.ParenthesizedExpression)?.getExpression() ?? returned)
+        ?.asKind(SyntaxKind.ObjectLiteralExpression);
+
+    for (const prop of shape?.getProperties() ?? []) {
+        if (!prop.isKind(SyntaxKind.PropertyAssignment)) continue;
+        const init = prop.getInitializer();
+        info.state.push({ name: prop.getName(), initialValue: init?.getText(), kind: 'other' });
+        const value = evaluateLiteral(init);
+        if (value !== undefined) info.literals.set(prop.getName(), value);
+    }
+}
+
+/** API calls in a function, including those made by the sibling functions / `this.method()`s it calls */
+function apiCallsOf(name: string, functions: Map<string, ScriptFunction>, seen = new Set<string>()): APICall[] {
+    const fn = functions.get(name);
+    if (!fn || seen.has(name)) return [];
+    seen.add(name);
+    const calls = extractAPICalls(fn.body);
+    for (const m of fn.body.matchAll(/(?:^|[^\w$.]|this\.)([\w$]+)\s*\(/g)) {
+        if (functions.has(m[1]!)) calls.push(...apiCallsOf(m[1]!, functions, seen));
+    }
+    return calls;
+}
+
+// ── Template walker ───────────────────────────────────────────
+
+interface Loop {
+    binding: string;
+    source: string;
+}
+
+interface WalkContext {
+    formId?: string;
+    inForm: boolean;
+    loops: Loop[];
+    /** Controls wrapped by the enclosing <label> */
+    labelControls?: UIElement[];
+    region?: DisplayRegion;
+    select?: UIElement;
+}
+
+interface WalkResult {
+    elements: UIElement[];
+    eventHandlers: EventHandler[];
+    displayRegions: DisplayRegion[];
+}
+
+function walkTemplate(nodes: VueNode[], script: ScriptInfo): WalkResult {
     const elements: UIElement[] = [];
     const eventHandlers: EventHandler[] = [];
-    const stateVariables: StateVariable[] = [];
-
-    // 1. Parse Script to find state and handlers
-    if (descriptor.scriptSetup) {
-        const scriptContent = descriptor.scriptSetup.content;
-        // Basic extraction of ref() and reactive()
-        const refRegex = /const\s+([a-zA-Z0-9_]+)\s*=\s*(ref|reactive)\(/g;
-        let match;
-        while ((match = refRegex.exec(scriptContent)) !== null) {
-            stateVariables.push({
-                name: match[1],
-                kind: 'other',
-                type: match[2] // 'ref' or 'reactive'
-            });
+    const displayRegions: DisplayRegion[] = [];
+    const labelsFor = new Map<string, string>();
+    let lastHeading: string | undefined;
+
+    const visit = (node: VueNode, ctx: WalkContext): void => {
+        if (!isElement(node)) return;
+        const tag = node.tag.toLowerCase();
+        const attrs = attributesOf(node);
+        const text = textOf(node);
+        const inner: WalkContext = { ...ctx };
+
+        const loop = directive(node, 'for')?.exp?.loc.source.match(V_FOR_RE);
+        if (loop) {
+            inner.loops = [...ctx.loops, { binding: loop[1]!.trim(), source: loop[2]!.trim() }];
+            if (ctx.region && !ctx.region.dataSource) ctx.region.dataSource = loop[2]!.trim().match(/^[\w$.]+/)?.[0];
         }
 
-        // Basic extraction of functions
-        const fnRegex = /(?:const|function)\s+([a-zA-Z0-9_]+)\s*=?\s*(?:async\s*)?(?:\([^)]*\)\s*=>|\()/g;
-        while ((match = fnRegex.exec(scriptContent)) !== null) {
-            const fnName = match[1];
-            if (fnName !== 'ref' && fnName !== 'reactive') {
-                eventHandlers.push({
-                    name: fnName,
-                    event: 'unknown',
-                    isAsync: scriptContent.includes(`async function ${fnName}`) || scriptContent.includes(`async () =>`) // heuristic
-                });
-            }
+        if (HEADING_TAGS.has(tag)) lastHeading = text || lastHeading;
+        if (tag === 'label') {
+            if (attrs['for'] && text) labelsFor.set(attrs['for'], text);
+            inner.labelControls = [];
         }
-    }
+        if (tag === 'th' && ctx.region?.columns) ctx.region.columns.push(text);
+        if (tag === 'caption' && ctx.region && !ctx.region.attributes['aria-label'] && text) ctx.region.label = text;
 
-    // 2. Parse Template to find elements
-    if (descriptor.template) {
-        const compiled = compileTemplate({
-            source: descriptor.template.content,
-            filename: fileName,
-            id: 'mock-id'
-        });
-
-        // Fall back to a regex-based extraction of the template if AST isn't fully exposed in a simple way
-        // In a real implementation we would walk the Vue AST compiler.ast, but for now we'll do a basic
-        // regex extraction similar to the HTML walker for simplicity, focusing on standard interactive elements.
-        const templateContent = descriptor.template.content;
-
-        // We'll extract v-model bindings and basic standard elements
-        const tagRegex = /<([a-zA-Z0-9_-]+)([^>]*)>/g;
-        let tagMatch;
-
-        let currentFormId: string | undefined = undefined;
-        let formDepth = 0;
-
-        while ((tagMatch = tagRegex.exec(templateContent)) !== null) {
-            const tag = tagMatch[1].toLowerCase();
-            const attrsStr = tagMatch[2];
-
-            const attrs: Record<string, string> = {};
-            const attrRegex = /([a-zA-Z0-9_:-@]+)(?:=(?:"([^"]*)"|'([^']*)'|([^>\s]+)))?/g;
-            let attrMatch;
-            while ((attrMatch = attrRegex.exec(attrsStr)) !== null) {
-                const name = attrMatch[1];
-                const val = attrMatch[2] || attrMatch[3] || attrMatch[4] || '';
-                attrs[name] = val;
-            }
+        if (tag === 'form') {
+            inner.formId = attrs['id'];
+            inner.inForm = true;
+            elements.push({ tag: 'form', id: attrs['id'], name: attrs['name'], attributes: attrs });
+        }
 
-            if (tag === 'form') {
-                formDepth++;
-                currentFormId = attrs['id'];
-                elements.push({
-                    tag: 'form',
-                    id: attrs['id'],
-                    name: attrs['name'],
-                    attributes: attrs
-                });
-
-                // Extract submit handler
-                const submitAttr = Object.keys(attrs).find(k => k.startsWith('@submit') || k.startsWith('v-on:submit'));
-                if (submitAttr) {
-                    const handlerName = attrs[submitAttr];
-                    const existing = eventHandlers.find(h => h.name === handlerName);
-                    if (existing) {
-                        existing.event = 'onSubmit';
-                        existing.elementTag = 'form';
-                    } else {
-                        eventHandlers.push({
-                            name: handlerName,
-                            event: 'onSubmit',
-                            elementTag: 'form',
-                            isAsync: false
-                        });
-                    }
-                }
+        let region: DisplayRegion | undefined;
+        if (tag === 'table' || ((tag === 'ul' || tag === 'ol') && !ctx.region)) {
+            region = {
+                kind: tag === 'table' ? 'table' : 'list',
+                tag,
+                id: attrs['id'],
+                label: attrs['aria-label'] ?? (tag === 'table' ? lastHeading : undefined),
+                columns: tag === 'table' ? [] : undefined,
+                attributes: attrs
+            };
+            if (loop) region.dataSource = loop[2]!.trim().match(/^[\w$.]+/)?.[0];
+            inner.region = region;
+        }
+
+        if (tag === 'option' && ctx.select && attrs['disabled'] === undefined) {
+            const values = optionValues(node, attrs, text, inner.loops, script);
+            if (values.length > 0) ctx.select.options = [...new Set([...(ctx.select.options ?? []), ...values])];
+        }
+
+        if (INTERACTIVE_TAGS.has(tag)) {
+            const el: UIElement = {
+                tag,
+                id: attrs['id'],
+                name: attrs['name'],
+                inputType: attrs['type'],
+                attributes: attrs,
+                parentFormId: ctx.inForm ? ctx.formId : undefined
+            };
+
+            const model = directive(node, 'model');
+            const target = model?.exp?.loc.source.trim();
+            if (target) {
+                const path = target.split('.');
+                el.stateBinding = path.length > 1
+                    ? { variable: path[path.length - 1]!, accessPath: target }
+                    : { variable: target };
             }
 
-            if (['input', 'textarea', 'select', 'button'].includes(tag)) {
-                const el: UIElement = {
-                    tag,
-                    id: attrs['id'],
-                    name: attrs['name'],
-                    inputType: attrs['type'],
-                    label: attrs['placeholder'] ?? attrs['aria-label'] ?? attrs['label'],
-                    attributes: attrs,
-                    parentFormId: formDepth > 0 ? currentFormId : undefined
+            const validation = rulesFromAttributes(attrs);
+            // v-model.number casts the value before it reaches state
+            if (model?.modifiers.some(m => m.content === 'number')) validation.push('type:number');
+            if (validation.length) el.validation = validation;
+
+            if (attrs['aria-label'] || attrs['aria-describedby'] || attrs['role']) {
+                el.accessibilityHints = {
+                    ariaLabel: attrs['aria-label'],
+                    ariaDescribedBy: attrs['aria-describedby'],
+                    role: attrs['role'],
                 };
+            }
+
+            if (tag === 'button') {
+                el.label = attrs['aria-label'] ?? (text || undefined);
+            } else {
+                ctx.labelControls?.push(el);
+            }
 
-                // Accessibility
-                if (attrs['aria-label'] || attrs['aria-describedby'] || attrs['role']) {
-                    el.accessibilityHints = {
-                        ariaLabel: attrs['aria-label'],
-                        ariaDescribedBy: attrs['aria-describedby'],
-                        role: attrs['role'],
-                    };
-                }
-
-                // v-model binding
-                const vModel = attrs['v-model'];
-                if (vModel) {
-                    el.stateBinding = {
-                        variable: vModel
-                    };
-                }
-
-                // click binding
-                const clickAttr = Object.keys(attrs).find(k => k.startsWith('@click') || k.startsWith('v-on:click'));
-                if (clickAttr) {
-                    const handlerName = attrs[clickAttr];
-                    const existing = eventHandlers.find(h => h.name === handlerName);
-                    if (existing) {
-                        existing.event = 'onClick';
-                        existing.elementTag = tag;
-                    } else {
-                        eventHandlers.push({
-                            name: handlerName,
-                            event: 'onClick',
-                            elementTag: tag,
-                            isAsync: false
-                        });
-                    }
-                }
-
-                elements.push(el);
+            if (attrs['type'] === 'radio') {
+                const values = attrs['value'] !== undefined
+                    ? [attrs['value']]
+                    : attrs[':value'] !== undefined ? evaluateInLoop(attrs[':value'], inner.loops, script) : [];
+                if (values.length > 0) el.options = values;
             }
+
+            if (tag === 'select') inner.select = el;
+            elements.push(el);
+        }
+
+        for (const listener of node.props.filter(isDirective)) {
+            if (listener.name !== 'on' || !listener.exp) continue;
+            const event = listener.arg?.loc.source;
+            if (event !== 'submit' && event !== 'click') continue;
+
+            const handler = resolveHandler(event === 'submit' ? 'onSubmit' : 'onClick', listener.exp.loc.source, script.functions);
+            if (!handler || eventHandlers.some(h => h.name === handler.name)) continue;
+            handler.elementTag = tag;
+            handler.elementId = attrs['id'];
+            eventHandlers.push(handler);
+        }
+
+        for (const child of node.children) visit(child, inner);
+
+        // A wrapping <label> names the controls inside it
+        for (const control of inner.labelControls ?? []) {
+            if (tag === 'label') control.label ??= text || undefined;
         }
+
+        if (region) {
+            if (region.columns?.length === 0) region.columns = undefined;
+            // Unlabelled static lists are usually menus or content, not data
+            if (region.kind === 'table' || region.dataSource || region.id || region.label) displayRegions.push(region);
+        }
+    };
+
+    for (const node of nodes) visit(node, { inForm: false, loops: [] });
+
+    for (const el of elements) {
+        if (!el.label && el.id) el.label = labelsFor.get(el.id);
+        el.label ??= el.attributes['placeholder'] ?? el.attributes['aria-label'] ?? el.attributes['label'];
     }
 
-    const component: ComponentInfo = {
-        name: componentName,
-        type: elements.some(e => ['input'].includes(e.tag)) ? 'form' : 'display',
-        elements,
-        eventHandlers,
-        stateVariables,
-        props: []
+    return { elements, eventHandlers, displayRegions };
+}
+
+function isElement(node: VueNode): node is VueElement {
+    return 'tag' in node;
+}
+
+function isDirective(prop: VueProp): prop is VueDirective {
+    return 'exp' in prop;
+}
+
+function directive(node: VueElement, name: string): VueDirective | undefined {
+    return node.props.filter(isDirective).find(p => p.name === name);
+}
+
+/**
+ * Static attributes by name; bound ones as `:name` holding the expression,
+ * and other directives under their raw name (`@submit.prevent`, `v-model`).
+ */
+function attributesOf(node: VueElement): Record<string, string> {
+    const attrs: Record<string, string> = {};
+    for (const prop of node.props) {
+        if (!isDirective(prop)) {
+            attrs[prop.name] = prop.value?.content ?? '';
+        } else if (prop.name === 'bind' && prop.arg) {
+            attrs[`:${prop.arg.loc.source}`] = prop.exp?.loc.source ?? '';
+        } else {
+            attrs[prop.rawName ?? `v-${prop.name}`] = prop.exp?.loc.source ?? '';
+        }
+    }
+    return attrs;
+}
+
+/** Visible static text of an element; `{{ }}` interpolations are skipped */
+function textOf(node: VueNode): string {
+    const parts: string[] = [];
+    const collect = (n: VueNode) => {
+        if (isElement(n)) n.children.forEach(collect);
+        else if (nodeType(n) === NODE_TEXT) parts.push(n.loc.source);
     };
+    if (isElement(node)) node.children.forEach(collect);
+    return parts.join(' ').replace(/\s+/g, ' ').trim();
+}
 
+function nodeType(node: VueNode): number {
+    return node.type as number;
+}
+
+// ── Event handlers ────────────────────────────────────────────
+
+/**
+ * `save`, `save()`, `remove(item.id)` and `() => save()` resolve to the
+ * script function; other inline statements become `inline_<event>_handler`.
+ */
+function resolveHandler(event: string, expr: string, functions: Map<string, ScriptFunction>): EventHandler | undefined {
+    const trimmed = expr.trim();
+    const arrow = trimmed.match(/^(async\s+)?(?:\([^)]*\)|[\w$]+)\s*=>\s*([\s\S]+)$/);
+    const statement = (arrow ? arrow[2]! : trimmed).replace(/^\{([\s\S]*)\}$/, '$1').trim();
+    const called = statement.match(/^(?:await\s+)?([\w$]+)(?:\s*\([^)]*\))?;?$/)?.[1];
+
+    if (called && functions.has(called)) {
+        const fn = functions.get(called)!;
+        const apiCalls = apiCallsOf(called, functions);
+        return {
+            name: called,
+            event,
+            body: fn.body,
+            isAsync: fn.isAsync,
+            apiCalls: apiCalls.length > 0 ? apiCalls : undefined
+        };
+    }
+
+    // Skip trivial assignments like `open = !open` or `count++`
+    if (/^\(?\s*[\w$.]+\s*(?:=[^=>]|\+\+|--)/.test(statement)) return undefined;
+
+    const apiCalls = extractAPICalls(statement);
     return {
-        fileName,
-        framework: 'vue',
-        components: elements.length > 0 ? [component] : []
+        name: `inline_${event}_handler`,
+        event,
+        body: statement,
+        isAsync: !!arrow?.[1],
+        apiCalls: apiCalls.length > 0 ? apiCalls : undefined
     };
 }
+
+// ── Option enumeration ────────────────────────────────────────
+
+/**
+ * Values of one `<option>`: its `value`, a bound `:value` or the
+ * interpolated text, once per item when inside a `v-for` over a
+ * literal array or a static script value.
+ */
+function optionValues(
+    node: VueElement,
+    attrs: Record<string, string>,
+    text: string,
+    loops: Loop[],
+    script: ScriptInfo,
+): string[] {
+    if (attrs['value'] !== undefined) return attrs['value'] ? [attrs['value']] : [];
+    if (attrs[':value'] !== undefined) return evaluateInLoop(attrs[':value'], loops, script);
+
+    const interpolation = node.children.find(c => nodeType(c) === NODE_INTERPOLATION);
+    const interpolated = interpolation?.loc.source.replace(/^\{\{([\s\S]*)\}\}$/, '$1');
+    if (interpolated) return evaluateInLoop(interpolated, loops, script);
+    return text ? [text] : [];
+}
+
+function evaluateInLoop(expr: string, loops: Loop[], script: ScriptInfo): string[] {
+    const loop = loops[loops.length - 1];
+    if (!loop) {
+        const value = toOptionValue(parseLiteralExpression(expr));
+        return value ? [value] : [];
+    }
+
+    const items = /^[\w$]+$/.test(loop.source) ? script.literals.get(loop.source) : parseLiteralExpression(loop.source);
+    if (!Array.isArray(items)) return [];
+
+    // Reuse the TS evaluator by treating the v-for as `(binding) => expr`
+    const fn = parseSnippet(`const __fn = (${loop.binding}) => (${expr});`)
+        .getVariableDeclaration('__fn')?.getInitializer()?.asKind(SyntaxKind.ArrowFunction);
+    const body = fn?.getBody();
+    if (!fn || !body) return [];
+    const valueExpr = body.asKind(SyntaxKind.ParenthesizedExpression)?.getExpression() ?? body;
+
+    return items
+        .map(item => toOptionValue(evaluateForItem(valueExpr, fn.getParameters()[0], item)))
+        .filter((v): v is string => !!v);
+}
+
+// ── Classification ────────────────────────────────────────────
+
+function classifyType(elements: UIElement[], handlers: EventHandler[]): ComponentType {
+    const hasForms = elements.some(el => el.tag === 'form');
+    const hasInputs = elements.some(el => ['input', 'textarea', 'select'].includes(el.tag));
+    const hasButtons = elements.some(el => el.tag === 'button');
+    const hasSubmit = handlers.some(h => h.event === 'onSubmit');
+
+    if ((hasForms || hasSubmit) && hasInputs) return 'form';
+    if (hasButtons && !hasInputs) return 'action';
+    if (hasInputs || hasButtons) return 'mixed';
+    return 'display';
+}
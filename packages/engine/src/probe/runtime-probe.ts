@@ -10,25 +10,11 @@ export interface ProbeOptions {
 
 export async function runProbe(url: string, options: ProbeOptions = {}): Promise<ProbeResult> {
     const headless = options.headless ?? true;
-    const timeout = options.timeoutMs ?? 10000;
 
     let browser: Browser | null = null;
     try {
         browser = await chromium.launch({ headless });
-        const context = await browser.newContext();
-        const page = await context.newPage();
-
-        // 1. Navigate to target URL
-        await page.goto(url, { waitUntil: 'load', timeout });
-
-        // Wait a brief moment for dynamic frameworks (React/Vue) to render
-        await page.waitForTimeout(500); // basic stabilization
-
-        // 2. Run optional structural harness (e.g., clicking a 'Next' button or opening a Modal)
-        if (options.setupScript) {
-            await page.evaluate(options.setupScript);
-            await page.waitForTimeout(500); // wait for state to settle
-        }
+        const page = await loadPage(browser, url, options);
 
         // 3. Extract Ground Truth accessibility tree
         const elements = await page.evaluate(extractDOMState);
@@ -45,9 +31,35 @@ export async function runProbe(url: string, options: ProbeOptions = {}): Promise
     }
 }
 
+/**
+ * Open `url` in a fresh browser context, let the framework render and run
+ * the optional setup script. Shared by the probe and `runVerify`.
+ */
+export async function loadPage(browser: Browser, url: string, options: ProbeOptions = {}): Promise<Page> {
+    const timeout = options.timeoutMs ?? 10000;
+    const context = await browser.newContext();
+    const page = await context.newPage();
+
+    // 1. Navigate to target URL
+    await page.goto(url, { waitUntil: 'load', timeout });
+
+    // Wait a brief moment for dynamic frameworks (React/Vue) to render
+    await page.waitForTimeout(500); // basic stabilization
+
+    // 2. Run optional structural harness (e.g., clicking a 'Next' button or opening a Modal)
+    if (options.setupScript) {
+        await page.evaluate(options.setupScript);
+        await page.waitForTimeout(500); // wait for state to settle
+    }
+
+    return page;
+}
+
 /**
  * Executes entirely inside the Browser context.
- * Extract forms, inputs, buttons, and accessibility metadata.
+ * Extract forms, inputs, buttons, and accessibility metadata — from the
+ * document, open shadow roots and same-origin iframes, recording the
+ * hosts on the way as each element's `path`.
  */
 function extractDOMState(): ProbeElement[] {
     const results: ProbeElement[] = [];
@@ -63,16 +75,34 @@ function extractDOMState(): ProbeElement[] {
         return tag;
     }
 
-    // Focus on interactive elements
-    const candidates = document.querySelectorAll('input, button, select, textarea, form, [role="button"], [role="textbox"], [role="checkbox"]');
+    function visit(root: Document | ShadowRoot, path: string[]): void {
+        // Focus on interactive elements
+        const candidates = root.querySelectorAll('input, button, select, textarea, form, [role="button"], [role="textbox"], [role="checkbox"]');
+        candidates.forEach(el => extract(el, root, path));
+
+        // Descend into open shadow roots and same-origin iframes
+        root.querySelectorAll('*').forEach((host) => {
+            let inner: Document | ShadowRoot | null = host.shadowRoot;
+            if (!inner && host.tagName === 'IFRAME') {
+                try {
+                    inner = (host as HTMLIFrameElement).contentDocument;
+                } catch {
+                    inner = null; // cross-origin
+                }
+            }
+            if (inner) visit(inner, [...path, generateStructuralSelector(host as HTMLElement)]);
+        });
+    }
 
-    candidates.forEach((el) => {
-        if (!(el instanceof HTMLElement)) return;
+    function extract(el: Element, root: Document | ShadowRoot, path: string[]): void {
+        // Elements inside an iframe are instances of the iframe's own HTMLElement
+        const view = el.ownerDocument.defaultView;
+        if (!view || !(el instanceof view.HTMLElement)) return;
 
         const tag = el.tagName.toLowerCase();
 
         // Skip hidden elements
-        const style = window.getComputedStyle(el);
+        const style = view.getComputedStyle(el);
         if (style.display === 'none' || style.visibility === 'hidden' || style.opacity === '0') return;
 
         const rect = el.getBoundingClientRect();
@@ -92,7 +122,7 @@ function extractDOMState(): ProbeElement[] {
             accessibleName = el.getAttribute('aria-label')!;
         } else if (el.hasAttribute('aria-labelledby')) {
             const refId = el.getAttribute('aria-labelledby')!;
-            const refEl = document.getElementById(refId);
+            const refEl = root.getElementById(refId);
             if (refEl) accessibleName = refEl.innerText || refEl.textContent || '';
         } else if (tag === 'button' || el.getAttribute('role') === 'button') {
             accessibleName = el.innerText || el.textContent || '';
@@ -101,7 +131,7 @@ function extractDOMState(): ProbeElement[] {
         } else {
             // Find associated <label>
             if (el.id) {
-                const labelEl = document.querySelector(`label[for="${el.id}"]`);
+                const labelEl = root.querySelector(`label[for="${el.id}"]`);
                 if (labelEl) accessibleName = (labelEl as HTMLElement).innerText || labelEl.textContent || '';
             }
             // If no explicit label, try wrapping label: <label>Text <input/></label>
@@ -139,6 +169,7 @@ function extractDOMState(): ProbeElement[] {
             accessibleName,
             role: role || tag,
             selector: generateStructuralSelector(el),
+            path: path.length > 0 ? path : undefined,
             bounds: {
                 x: rect.x,
                 y: rect.y,
@@ -148,7 +179,8 @@ function extractDOMState(): ProbeElement[] {
             attributes,
             isInteractive: tag !== 'form'
         });
-    });
+    }
 
+    visit(document, []);
     return results;
 }
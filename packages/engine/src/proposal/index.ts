@@ -6,14 +6,21 @@ import type {
     EventHandler,
     ToolProposal,
     ToolInputSchema,
+    ToolOutputSchema,
     ToolInputProperty,
+    DisplayRegion,
+    WebMCPConfig,
+    WizardStepMapping,
+    FieldGroup,
+    RowAction,
 } from '../types.js';
 import { classifyRisk } from '../classifier/risk-classifier.js';
+import { isToolIncluded } from '../classifier/risk-policy.js';
 
 // ── Tool candidate (internal grouping before final proposal) ──
 
 interface ToolCandidate {
-    type: 'form' | 'action';
+    type: 'form' | 'action' | 'query';
     componentName: string;
     /** The button/form that triggers the action */
     triggerElement?: UIElement;
@@ -21,6 +28,16 @@ interface ToolCandidate {
     inputElements: UIElement[];
     /** The handler function */
     handler?: EventHandler;
+    /** Query: the table / list to read */
+    displayRegion?: DisplayRegion;
+    /** Query: form fields whose current values are read */
+    readElements?: UIElement[];
+    /** Query over a form's values: the form's id, or its submit label */
+    formKey?: string;
+    /** Wizard: each step's fields and "Next" button */
+    steps?: WizardStepMapping[];
+    /** Repeatable rows (line items, attendees, tags) among the inputs */
+    fieldGroups?: FieldGroup[];
 }
 
 // ── Public API ────────────────────────────────────────────────
@@ -28,23 +45,35 @@ interface ToolCandidate {
 /**
  * Given a full ComponentAnalysis, produce ToolProposal[] ready for user review.
  * Each proposal has a name, description, risk level, and JSON schema.
+ *
+ * The config's `classification` section is enforced here: custom rules,
+ * include/exclude lists, and `destructive: 'exclude'`.
  */
-export function buildProposals(analysis: ComponentAnalysis): ToolProposal[] {
+export function buildProposals(analysis: ComponentAnalysis, config?: WebMCPConfig): ToolProposal[] {
     const proposals: ToolProposal[] = [];
     let index = 1;
 
     for (const component of analysis.components) {
         const candidates = groupIntoToolCandidates(component);
+        const names = generateToolNames(candidates);
 
-        for (const candidate of candidates) {
-            const { risk, reason } = classifyRisk(candidate.triggerElement, candidate.handler);
+        for (const [i, candidate] of candidates.entries()) {
+            const name = names[i]!;
+            if (!isToolIncluded(config, name, candidate.componentName)) continue;
+
+            const { risk, reason, rule, confidence } = classifyRisk(candidate.triggerElement, candidate.handler, config, {
+                toolName: name,
+                componentName: candidate.componentName,
+                kind: candidate.type,
+            });
 
             // Excluded tools are omitted from the proposal list entirely
             if (risk === 'excluded') continue;
+            if (risk === 'destructive' && config?.classification?.destructive === 'exclude') continue;
 
-            const name = generateToolName(candidate);
             const description = generateDescription(candidate);
             const inputSchema = buildSchema(candidate);
+            const outputSchema = candidate.type === 'query' ? buildOutputSchema(candidate) : undefined;
             const id = generateToolId(candidate);
 
             const { isStable, unstableReason } = assessStability(candidate);
@@ -56,15 +85,23 @@ export function buildProposals(analysis: ComponentAnalysis): ToolProposal[] {
                 description,
                 risk,
                 riskReason: reason,
+                riskRule: rule,
+                riskConfidence: confidence,
+                kind: candidate.type,
                 isStable,
                 unstableReason,
                 selected: risk !== 'destructive' && isStable !== false,  // require stability to pre-check
                 inputSchema,
+                outputSchema,
                 sourceMapping: {
                     componentName: candidate.componentName,
                     triggerElement: candidate.triggerElement,
                     inputElements: candidate.inputElements,
                     handler: candidate.handler,
+                    displayRegion: candidate.displayRegion,
+                    readElements: candidate.readElements,
+                    steps: candidate.steps,
+                    fieldGroups: candidate.fieldGroups,
                 },
             });
         }
@@ -82,8 +119,12 @@ function groupIntoToolCandidates(component: ComponentInfo): ToolCandidate[] {
     // ── Group 1: Form-based tools ─────────────────────────────
     // Path A: React — driven by onSubmit event handlers
     const submitHandlers = component.eventHandlers.filter(h => h.event === 'onSubmit');
+    // A multi-step wizard is one tool, not one per step's submit
+    const wizard = component.wizard && buildWizardCandidate(component, usedButtons);
 
-    if (submitHandlers.length > 0) {
+    if (wizard) {
+        candidates.push(wizard);
+    } else if (submitHandlers.length > 0) {
         for (const handler of submitHandlers) {
             const inputs = component.elements.filter(el =>
                 ['input', 'textarea', 'select'].includes(el.tag) &&
@@ -167,6 +208,19 @@ function groupIntoToolCandidates(component: ComponentInfo): ToolCandidate[] {
         }
     }
 
+    // Repeated field rows belong to the form that holds them; their "Add"
+    // and per-row buttons (Remove) are part of filling it in
+    for (const group of component.fieldGroups ?? []) {
+        const form = candidates.find(c => c.type === 'form' &&
+            c.inputElements.some(el => el.fieldGroup === group.name || el === group.entryElement));
+        if (!form) continue;
+        (form.fieldGroups ??= []).push(group);
+        if (group.addButton) usedButtons.add(group.addButton);
+        for (const el of component.elements) {
+            if (el.tag === 'button' && el.fieldGroup === group.name) usedButtons.add(el);
+        }
+    }
+
     // ── Group 2: Standalone buttons (not used above) ──────────
     const standaloneButtons = component.elements.filter(el =>
         el.tag === 'button' &&
@@ -187,28 +241,194 @@ function groupIntoToolCandidates(component: ComponentInfo): ToolCandidate[] {
         });
     }
 
+    // ── Group 3: Read-only queries over rendered data ─────────
+    for (const region of component.displayRegions ?? []) {
+        candidates.push({
+            type: 'query',
+            componentName: component.name,
+            inputElements: [],
+            displayRegion: region,
+        });
+    }
+
+    // Forms that show existing data (settings, profiles) can be read back
+    for (const form of candidates.filter(c => c.type === 'form')) {
+        if (!form.inputElements.some(el => isPrefilled(el, component))) continue;
+        candidates.push({
+            type: 'query',
+            componentName: component.name,
+            inputElements: [],
+            readElements: form.inputElements,
+            formKey: form.inputElements.find(el => el.parentFormId)?.parentFormId ?? form.triggerElement?.label,
+        });
+    }
+
     return candidates;
 }
 
+// ── Wizards ───────────────────────────────────────────────────
+
+const BACK_LABEL = /\b(?:back|prev|previous)\b/i;
+const NEXT_LABEL = /^(?:next|continue)\b/i;
+
+/**
+ * One composite form tool for a multi-step wizard: every step's fields,
+ * the button that advances each step, and the final submit. Step
+ * navigation buttons (Next / Back) are consumed so they don't become
+ * standalone action tools.
+ */
+function buildWizardCandidate(component: ComponentInfo, usedButtons: Set<UIElement>): ToolCandidate | undefined {
+    const { steps: values, setter } = component.wizard!;
+    const isInput = (el: UIElement) =>
+        ['input', 'textarea', 'select'].includes(el.tag) && !isPasswordOnly(el) && el.inputType !== 'file';
+    const isSubmit = (el: UIElement) =>
+        el.tag === 'button' && (el.inputType === 'submit' || el.attributes['type'] === 'submit');
+    const callsSetter = (code: string | undefined) => !!setter && !!code && code.includes(`${setter}(`);
+    const navigates = (btn: UIElement) =>
+        callsSetter(btn.attributes['onClick']) || callsSetter(findHandlerForButton(btn, component.eventHandlers)?.body);
+    const formHandler = (value: string) => {
+        const form = component.elements.find(el => el.tag === 'form' && el.step === value);
+        return component.eventHandlers.find(h => h.event === 'onSubmit' && h.name === form?.attributes['onSubmit']);
+    };
+
+    const steps: WizardStepMapping[] = values.map((value, i) => {
+        const last = i === values.length - 1;
+        // Fields outside every step render from the start
+        const inputElements = component.elements.filter(el =>
+            isInput(el) && (el.step === value || (i === 0 && el.step === undefined)));
+        const buttons = component.elements.filter(el => el.tag === 'button' && el.step === value);
+
+        for (const btn of buttons) {
+            if (BACK_LABEL.test(btn.label ?? '') || navigates(btn)) usedButtons.add(btn);
+        }
+        if (last) return { value, inputElements };
+
+        const forward = buttons.filter(btn => !BACK_LABEL.test(btn.label ?? ''));
+        const nextElement = forward.find(btn => NEXT_LABEL.test(btn.label ?? '') || navigates(btn))
+            // A step with its own <form> advances from its onSubmit
+            ?? (callsSetter(formHandler(value)?.body) ? forward.find(isSubmit) : undefined);
+        if (nextElement) usedButtons.add(nextElement);
+        return { value, inputElements, nextElement };
+    });
+
+    const lastValue = values[values.length - 1]!;
+    const lastButtons = component.elements.filter(el => el.tag === 'button' && el.step === lastValue);
+    const triggerElement = lastButtons.find(isSubmit)
+        ?? lastButtons.find(btn => !BACK_LABEL.test(btn.label ?? '') && !navigates(btn))
+        ?? component.elements.find(el => isSubmit(el) && el.step === undefined);
+    if (triggerElement) usedButtons.add(triggerElement);
+
+    const inputElements = steps.flatMap(step => step.inputElements);
+    if (!triggerElement && inputElements.length === 0) return undefined;
+
+    const submitHandlers = component.eventHandlers.filter(h => h.event === 'onSubmit');
+    const handler = formHandler(lastValue)
+        ?? submitHandlers.find(h => !callsSetter(h.body))
+        ?? submitHandlers[0]
+        ?? (triggerElement ? findHandlerForButton(triggerElement, component.eventHandlers) : undefined);
+
+    return {
+        type: 'form',
+        componentName: component.name,
+        triggerElement,
+        inputElements,
+        handler,
+        steps,
+    };
+}
+
+const EMPTY_INITIAL_VALUE = /^(?:(['"`])\1|null|undefined|)$/;
+
+/**
+ * A text-like field that renders with a value already in it — a literal
+ * default, or a state binding initialised to something non-empty.
+ */
+function isPrefilled(el: UIElement, component: ComponentInfo): boolean {
+    if (el.tag === 'select' || ['checkbox', 'radio', 'hidden'].includes(el.inputType ?? '')) return false;
+    // Row values come from the array being mapped, not a single field's state
+    if (el.fieldGroup) return false;
+    if (el.attributes['defaultValue'] !== undefined) return true;
+
+    if (!el.stateBinding) {
+        return el.tag === 'input' && !!el.attributes['value'];
+    }
+
+    const binding = el.stateBinding;
+    const state = binding.accessPath
+        ? component.stateVariables.find(v => v.setter !== undefined && v.setter === binding.setter)
+        : component.stateVariables.find(v => v.name === binding.variable);
+    const initial = state?.initialValue?.trim() ?? '';
+
+    if (binding.accessPath && initial.startsWith('{')) {
+        const field = initial.match(new RegExp(`\\b${binding.variable}\\s*:\\s*([^,}]+)`));
+        return !!field && !EMPTY_INITIAL_VALUE.test(field[1]!.trim());
+    }
+    return !EMPTY_INITIAL_VALUE.test(initial);
+}
+
 function isPasswordOnly(el: UIElement): boolean {
     return el.inputType === 'password';
 }
 
 function findHandlerForButton(btn: UIElement, handlers: EventHandler[]): EventHandler | undefined {
+    const clicks = handlers.filter(h => h.event === 'onClick');
     // Match by elementId if we have it
     if (btn.id) {
-        const byId = handlers.find(h => h.elementId === btn.id && h.event === 'onClick');
+        const byId = clicks.find(h => h.elementId === btn.id);
         if (byId) return byId;
     }
+
+    // React buttons carry their own onClick expression: match what it references
+    const ref = btn.attributes['onClick']?.trim();
+    if (ref) {
+        const called = ref.match(/^(?:async\s*)?(?:\([^)]*\)|[\w$]+)\s*=>\s*[{(\s]*(?:await\s+)?([\w$.]+)\s*(?:\?\.)?\(/)?.[1];
+        return clicks.find(h => h.name === ref || h.forwardedProp === ref.split('.').pop())
+            ?? clicks.find(h => called && (h.name === called || h.forwardedProp === called.split('.').pop()))
+            ?? clicks.find(h => h.body !== undefined && ref.endsWith(h.body));
+    }
+
+    // A row's button never borrows a handler from outside the row
+    if (btn.rowAction) return undefined;
+
     // Match by elementTag
-    return handlers.find(h => h.event === 'onClick' && h.elementTag === 'button');
+    return clicks.find(h => h.elementTag === 'button');
 }
 
 // ── Name + Description generation ────────────────────────────
 
+/**
+ * Names for one component's candidates. A pre-filled form or a region with
+ * no label, id or data source is named after the component alone, so a
+ * second one would repeat the name: each such query gets its form key, or,
+ * failing a distinct one, its position among the queries sharing the name.
+ */
+function generateToolNames(candidates: ToolCandidate[]): string[] {
+    const names = candidates.map(generateToolName);
+    const queries = new Map<string, ToolCandidate[]>();
+    candidates.forEach((candidate, i) => {
+        if (candidate.type === 'query') queries.set(names[i]!, [...(queries.get(names[i]!) ?? []), candidate]);
+    });
+
+    return names.map((name, i) => {
+        const candidate = candidates[i]!;
+        const shared = queries.get(name);
+        if (candidate.type !== 'query' || !shared || shared.length < 2) return name;
+        const keyed = candidate.formKey !== undefined && shared.filter(c => c.formKey === candidate.formKey).length === 1;
+        const key = toSnakeCase(keyed ? candidate.formKey! : String(shared.indexOf(candidate) + 1));
+        return candidate.displayRegion ? `${name}_${key}` : name.replace(/_values$/, `_${key}_values`);
+    });
+}
+
 function generateToolName(candidate: ToolCandidate): string {
     const componentSlug = toSnakeCase(candidate.componentName);
 
+    if (candidate.type === 'query') {
+        const region = candidate.displayRegion;
+        if (!region) return `get_${componentSlug}_values`;
+        const subject = region.label ?? region.id ?? region.dataSource ?? `${componentSlug}_${region.kind}`;
+        return `list_${toSnakeCase(subject)}`;
+    }
+
     if (candidate.type === 'form') {
         // Use submit button label or handler name
         const label = candidate.triggerElement?.label ?? candidate.handler?.name;
@@ -225,14 +445,39 @@ function generateToolName(candidate: ToolCandidate): string {
 }
 
 function generateDescription(candidate: ToolCandidate): string {
+    if (candidate.type === 'query') {
+        const region = candidate.displayRegion;
+        if (!region) {
+            const fields = (candidate.readElements ?? [])
+                .map(el => el.label ?? el.name ?? el.id)
+                .filter(Boolean)
+                .slice(0, 3)
+                .join(', ');
+            return `Read the current values of the ${candidate.componentName} form${fields ? `: ${fields}` : ''}`;
+        }
+        const subject = region.label ?? region.dataSource ?? candidate.componentName;
+        if (region.kind === 'table') {
+            const cols = region.columns?.length ? ` (columns: ${region.columns.join(', ')})` : '';
+            return `Read the rows of the ${subject} table${cols}`;
+        }
+        return `Read the items of the ${subject} list`;
+    }
+
     if (candidate.type === 'form') {
         const btnLabel = candidate.triggerElement?.label;
-        const fields = candidate.inputElements
-            .map(el => el.label ?? el.name ?? el.id ?? el.tag)
+        // A repeated group is listed once, by its name
+        const fields = [...new Set(candidate.inputElements.map(el => {
+            const group = candidate.fieldGroups?.find(g => g.name === el.fieldGroup || g.entryElement === el);
+            return group ? getFieldGroupKey(group).replace(/_/g, ' ') : el.label ?? el.name ?? el.id ?? el.tag;
+        }))]
             .filter(Boolean)
             .slice(0, 3)
             .join(', ');
 
+        if (candidate.steps) {
+            const flow = `the ${candidate.steps.length}-step ${candidate.componentName} wizard`;
+            return `${btnLabel ? `${btnLabel} through` : 'Complete'} ${flow}${fields ? ` with: ${fields}` : ''}`;
+        }
         if (btnLabel && fields) return `${btnLabel} the form with: ${fields}`;
         if (btnLabel) return `${btnLabel} the ${candidate.componentName} form`;
         return `Fill and submit the ${candidate.componentName} form`;
@@ -240,6 +485,8 @@ function generateDescription(candidate: ToolCandidate): string {
 
     // Standalone action
     const label = candidate.triggerElement?.label;
+    const rowAction = candidate.triggerElement?.rowAction;
+    if (label && rowAction) return `Trigger: ${label} on one row of ${rowAction.collection}`;
     if (label) return `Trigger: ${label}`;
     return `Perform action in ${candidate.componentName}`;
 }
@@ -250,26 +497,170 @@ function buildSchema(candidate: ToolCandidate): ToolInputSchema {
     const properties: Record<string, ToolInputProperty> = {};
     const required: string[] = [];
 
+    // A button repeated per row acts on the row the agent names
+    const rowAction = candidate.type === 'action' ? candidate.triggerElement?.rowAction : undefined;
+    if (rowAction) {
+        properties['row'] = { type: 'string', description: describeRowParam(rowAction) };
+        required.push('row');
+    }
+
     for (const el of candidate.inputElements) {
-        const fieldName = el.name ?? el.id ?? el.stateBinding?.variable ?? el.label;
-        if (!fieldName) continue;
+        const group = candidate.fieldGroups?.find(g => g.name === el.fieldGroup || g.entryElement === el);
+        if (group) {
+            const key = getFieldGroupKey(group);
+            properties[key] ??= buildArrayProperty(group, candidate.inputElements);
+            continue;
+        }
+        addProperty(properties, required, el);
+    }
 
-        const safeKey = toSnakeCase(fieldName);
-        const type = mapInputTypeToJSONType(el.inputType ?? 'text');
-        const description = el.label ?? el.accessibilityHints?.ariaLabel ?? `${el.inputType ?? el.tag} field`;
+    return { type: 'object', properties, required };
+}
 
-        const prop: ToolInputProperty = { type, description };
+/**
+ * What a query tool's handler returns as `data`: the `__mcpReadTable` /
+ * `__mcpReadList` result, or one nullable value per form field.
+ */
+function buildOutputSchema(candidate: ToolCandidate): ToolOutputSchema {
+    const region = candidate.displayRegion;
+    if (region?.kind === 'table') {
+        return {
+            type: 'object',
+            properties: {
+                columns: { type: 'array', items: { type: 'string' } },
+                rows: { type: 'array', description: 'One object per row keyed by column, or the cell texts when there is no header' },
+                count: { type: 'integer' },
+            },
+            required: ['columns', 'rows', 'count'],
+        };
+    }
+    if (region) {
+        return {
+            type: 'object',
+            properties: {
+                items: { type: 'array', items: { type: 'string' } },
+                count: { type: 'integer' },
+            },
+            required: ['items', 'count'],
+        };
+    }
 
-        // Enum options from <select> (would need to walk option children — simplified for now)
-        if (el.tag === 'select') {
-            prop.description = `${description} (select field)`;
+    const properties: Record<string, Record<string, unknown>> = {};
+    for (const el of candidate.readElements ?? []) {
+        const key = getFieldKey(el);
+        if (!key || properties[key]) continue;
+        properties[key] = {
+            type: [mapInputTypeToJSONType(el.inputType ?? 'text'), 'null'],
+            description: el.label ?? el.accessibilityHints?.ariaLabel ?? `${el.inputType ?? el.tag} field`,
+        };
+    }
+    return { type: 'object', properties, required: Object.keys(properties) };
+}
+
+function addProperty(properties: Record<string, ToolInputProperty>, required: string[], el: UIElement): void {
+    const safeKey = getFieldKey(el);
+    if (!safeKey) return;
+
+    // Radio buttons sharing a name are one property whose enum is every value
+    const existing = properties[safeKey];
+    if (el.inputType === 'radio' && existing?.enum) {
+        for (const value of el.options ?? []) {
+            if (!existing.enum.includes(value)) existing.enum.push(value);
         }
+        if (el.validation?.includes('required') && !required.includes(safeKey)) required.push(safeKey);
+        return;
+    }
+
+    const type = mapInputTypeToJSONType(el.inputType ?? 'text');
+    const description = el.inputType === 'radio'
+        ? `One of the ${el.name ?? safeKey} options`
+        : el.label ?? el.accessibilityHints?.ariaLabel ?? `${el.inputType ?? el.tag} field`;
 
-        properties[safeKey] = prop;
-        if (el.validation?.includes('required')) required.push(safeKey);
+    const prop: ToolInputProperty = { type, description };
+
+    if (el.options && el.options.length > 0) {
+        prop.enum = [...el.options];
+    } else if (el.tag === 'select') {
+        // Options are rendered dynamically — nothing to enumerate statically
+        prop.description = `${description} (select field)`;
     }
 
-    return { type: 'object', properties, required };
+    applyConstraints(prop, el);
+
+    properties[safeKey] = prop;
+    if (el.validation?.includes('required')) required.push(safeKey);
+}
+
+function describeRowParam(action: RowAction): string {
+    const by = action.keyField ? `its ${action.keyField}, ` : '';
+    return `Which ${action.collection} row to act on: ${by}its 1-based position, or text shown in it`;
+}
+
+/**
+ * A repeated field group as an array: one object per row keyed by the
+ * row's fields, or plain values for a tag-style entry field.
+ */
+function buildArrayProperty(group: FieldGroup, inputs: UIElement[]): ToolInputProperty {
+    const subject = getFieldGroupKey(group).replace(/_/g, ' ');
+
+    if (group.entryElement) {
+        const items: Record<string, ToolInputProperty> = {};
+        addProperty(items, [], { ...group.entryElement, name: 'value', id: undefined });
+        return { type: 'array', description: `List of ${subject}`, items: items['value'] };
+    }
+
+    const properties: Record<string, ToolInputProperty> = {};
+    const required: string[] = [];
+    for (const el of inputs.filter(el => el.fieldGroup === group.name)) {
+        addProperty(properties, required, el);
+    }
+    return {
+        type: 'array',
+        description: `List of ${subject}, one object per row`,
+        items: { type: 'object', description: `One row of ${subject}`, properties, required },
+    };
+}
+
+const INPUT_TYPE_FORMATS: Record<string, string> = {
+    email: 'email',
+    url: 'uri',
+    date: 'date',
+};
+
+/** Map `validation` entries and the input type onto JSON Schema keywords */
+function applyConstraints(prop: ToolInputProperty, el: UIElement): void {
+    const rules = new Map<string, string>();
+    for (const rule of el.validation ?? []) {
+        const i = rule.indexOf(':');
+        if (i !== -1) rules.set(rule.slice(0, i), rule.slice(i + 1));
+    }
+    const num = (key: string) => {
+        const value = Number(rules.get(key));
+        return rules.has(key) && Number.isFinite(value) ? value : undefined;
+    };
+
+    const type = rules.get('type');
+    if ((type === 'number' || type === 'integer') && !prop.enum) prop.type = type;
+
+    if (prop.type === 'string') {
+        prop.minLength = num('minLength');
+        prop.maxLength = num('maxLength');
+        if (rules.has('pattern')) prop.pattern = rules.get('pattern');
+        prop.format = rules.get('format') ?? INPUT_TYPE_FORMATS[el.inputType ?? ''];
+    } else if (prop.type === 'number' || prop.type === 'integer') {
+        prop.minimum = num('min');
+        prop.maximum = num('max');
+        const step = num('step');
+        // HTML steps count from `min`, so they only translate when min is on the grid
+        if (step && step > 0 && (prop.minimum === undefined || Number.isInteger(prop.minimum / step))) {
+            if (step === 1 && prop.type === 'number') prop.type = 'integer';
+            else prop.multipleOf = step;
+        }
+    }
+
+    for (const key of Object.keys(prop) as (keyof ToolInputProperty)[]) {
+        if (prop[key] === undefined) delete prop[key];
+    }
 }
 
 function mapInputTypeToJSONType(inputType: string): string {
@@ -298,7 +689,15 @@ function assessStability(candidate: ToolCandidate): { isStable: boolean; unstabl
     const threshold = 0.6;
 
     // Check all parsed inputs for stability
-    for (const el of candidate.inputElements) {
+    for (const el of [...candidate.inputElements, ...(candidate.readElements ?? [])]) {
+        // Row fields are located by their per-row id / name pattern, not a probed selector
+        if (el.rowField) {
+            if (el.id || el.name || el.attributes['data-testid']) continue;
+            return {
+                isStable: false,
+                unstableReason: `Row field '${el.rowField}' has no id, name or data-testid pattern to locate it per row`,
+            };
+        }
         if (!el.selectorFallback || el.selectorFallback.length === 0) {
             return {
                 isStable: false,
@@ -315,9 +714,15 @@ function assessStability(candidate: ToolCandidate): { isStable: boolean; unstabl
         }
     }
 
-    // Check trigger element (if present) for stability
-    if (candidate.triggerElement) {
-        const trg = candidate.triggerElement;
+    // Check trigger element (if present) and wizard "Next" buttons for stability
+    const triggers = [candidate.triggerElement, ...(candidate.steps ?? []).map(step => step.nextElement)];
+    for (const trg of triggers) {
+        if (!trg) continue;
+        // Row actions are found inside the matching row at runtime, by selector or label
+        if (trg.rowAction) {
+            if (trg.label || trg.id || trg.attributes['data-testid']) continue;
+            return { isStable: false, unstableReason: `Row action has no label, id or data-testid to find it in a row` };
+        }
         if (!trg.selectorFallback || trg.selectorFallback.length === 0) {
             return {
                 isStable: false,
@@ -338,6 +743,20 @@ function assessStability(candidate: ToolCandidate): { isStable: boolean; unstabl
 
 // ── Utilities ─────────────────────────────────────────────────
 
+/**
+ * The schema property key for an input element. Shared with the handler
+ * generator so `params.<key>` always matches the emitted schema.
+ */
+export function getFieldKey(el: UIElement): string | undefined {
+    const fieldName = el.rowField ?? el.name ?? el.id ?? el.stateBinding?.variable ?? el.label;
+    return fieldName ? toSnakeCase(fieldName) : undefined;
+}
+
+/** The schema property key for a repeated field group's array */
+export function getFieldGroupKey(group: FieldGroup): string {
+    return toSnakeCase(group.name);
+}
+
 function toSnakeCase(str: string): string {
     return str
         .replace(/([A-Z])/g, '_$1')
@@ -364,10 +783,23 @@ function generateToolId(candidate: ToolCandidate): string {
         parts.push(candidate.triggerElement.tag);
         parts.push(candidate.triggerElement.label ?? '');
         parts.push(candidate.triggerElement.attributes['name'] ?? '');
+        // Row actions: the list they repeat over
+        if (candidate.triggerElement.rowAction) parts.push(candidate.triggerElement.rowAction.collection);
+    }
+
+    // Wizard step semantics
+    if (candidate.steps) parts.push(candidate.steps.map(step => step.value).join('>'));
+
+    // Query target semantics
+    if (candidate.displayRegion) {
+        const region = candidate.displayRegion;
+        parts.push(region.kind, region.id ?? '', region.label ?? '', region.dataSource ?? '');
+        // Unlabelled regions are told apart by what they show
+        if (!region.id && !region.label && !region.dataSource) parts.push(...(region.columns ?? []));
     }
 
     // Input field semantics
-    for (const el of candidate.inputElements) {
+    for (const el of [...candidate.inputElements, ...(candidate.readElements ?? [])]) {
         // Field identifier
         parts.push(el.name ?? el.id ?? el.stateBinding?.variable ?? '');
         // Field accessibility label
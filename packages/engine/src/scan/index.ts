@@ -0,0 +1 @@
+export * from './project-scan.js';
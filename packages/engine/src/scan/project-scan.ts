@@ -0,0 +1,171 @@
+import { Worker } from 'node:worker_threads';
+import { readFileSync, existsSync } from 'node:fs';
+import { resolve, relative, sep } from 'node:path';
+import { fileURLToPath } from 'node:url';
+import { availableParallelism } from 'node:os';
+import fg from 'fast-glob';
+import { parseFile } from '../parser/index.js';
+import { buildProposals } from '../proposal/index.js';
+import { applyToolManifest } from '../manifest/tool-manifest.js';
+import type {
+    ParseOptions,
+    ScannedFile,
+    ScanManifest,
+    ScanResult,
+    ToolCollision,
+    ToolManifest,
+    ToolProposal,
+    ToolRisk,
+    WebMCPConfig,
+} from '../types.js';
+
+// ────────────────────────────────────────────────────────────
+// Project scan — every component matched by the include globs,
+// parsed across worker threads, with tool names checked for
+// collisions between files.
+// ────────────────────────────────────────────────────────────
+
+/** The component files the Vite plugin instruments when given no `include` */
+export const DEFAULT_SCAN_INCLUDE = [
+    'src/**/*.tsx',
+    'src/**/*.jsx',
+    'src/**/*.vue',
+    'src/**/*.svelte',
+    'src/**/*.component.ts',
+];
+
+export const DEFAULT_SCAN_EXCLUDE = ['**/node_modules/**', '**/*.d.ts', '**/*.{test,spec,stories}.*'];
+
+export interface ScanOptions {
+    /** Globs relative to `cwd`. Default: DEFAULT_SCAN_INCLUDE */
+    include?: string[];
+    /** Default: DEFAULT_SCAN_EXCLUDE */
+    exclude?: string[];
+    /** Default: process.cwd() */
+    cwd?: string;
+    /** Parser options and classification rules, as in `.webmcprc.json` */
+    config?: WebMCPConfig;
+    /** Reviews to apply, so renamed tools are checked for collisions under their new names */
+    manifest?: ToolManifest;
+    /** Worker threads to parse with; 1 parses in this thread. Default: one per spare core */
+    concurrency?: number;
+}
+
+/** Data each worker needs besides the file itself */
+export interface ScanWorkerData {
+    root: string;
+    config?: WebMCPConfig;
+    manifest?: ToolManifest;
+}
+
+const WORKER_PATH = fileURLToPath(new URL('./scan-worker.js', import.meta.url));
+
+/** The files a scan would parse, relative to `cwd` and sorted */
+export async function findScanFiles(options: Pick<ScanOptions, 'include' | 'exclude' | 'cwd'> = {}): Promise<string[]> {
+    const files = await fg(options.include ?? DEFAULT_SCAN_INCLUDE, {
+        cwd: options.cwd ?? process.cwd(),
+        ignore: options.exclude ?? DEFAULT_SCAN_EXCLUDE,
+        onlyFiles: true,
+    });
+    return files.sort();
+}
+
+/** Parse every matched file and build its proposals */
+export async function scanProject(options: ScanOptions = {}): Promise<ScanResult> {
+    const root = resolve(options.cwd ?? process.cwd());
+    const files = await findScanFiles({ ...options, cwd: root });
+    const data: ScanWorkerData = { root, config: options.config, manifest: options.manifest };
+
+    const concurrency = Math.min(options.concurrency ?? Math.max(1, availableParallelism() - 1), files.length);
+    // Running from source (e.g. under vitest) there is no compiled worker to start
+    const scanned = concurrency > 1 && existsSync(WORKER_PATH)
+        ? await scanInWorkers(files, data, concurrency)
+        : files.map(file => scanFile(file, data));
+
+    return { root, files: scanned, collisions: findToolCollisions(scanned) };
+}
+
+/** Parse one file relative to `data.root`. Never throws; failures are recorded on the result */
+export function scanFile(file: string, data: ScanWorkerData): ScannedFile {
+    const path = resolve(data.root, file);
+    const name = relative(data.root, path).split(sep).join('/');
+    try {
+        const parser: ParseOptions = data.config?.parser ?? {};
+        const analysis = parseFile(readFileSync(path, 'utf-8'), path, parser);
+        const proposals = buildProposals(analysis, data.config);
+        return {
+            file: name,
+            framework: analysis.framework,
+            proposals: data.manifest ? applyToolManifest(proposals, data.manifest) : proposals,
+        };
+    } catch (err) {
+        return { file: name, proposals: [], error: (err as Error).message };
+    }
+}
+
+/** Hand files to a fixed pool of workers, one at a time each, keeping results in file order */
+async function scanInWorkers(files: string[], data: ScanWorkerData, concurrency: number): Promise<ScannedFile[]> {
+    const results: ScannedFile[] = new Array(files.length);
+    let next = 0;
+
+    const workers = Array.from({ length: concurrency }, () => new Worker(WORKER_PATH, { workerData: data }));
+    try {
+        await Promise.all(workers.map(worker => new Promise<void>((resolveWorker, reject) => {
+            worker.once('error', reject);
+            const feed = () => {
+                if (next >= files.length) return resolveWorker();
+                const index = next++;
+                worker.once('message', (result: ScannedFile) => {
+                    results[index] = result;
+                    feed();
+                });
+                worker.postMessage(files[index]);
+            };
+            feed();
+        })));
+    } finally {
+        await Promise.all(workers.map(worker => worker.terminate()));
+    }
+    return results;
+}
+
+/**
+ * Names registered by more than one tool. The runtime keeps only the last
+ * registration, so all but one of them would silently disappear.
+ * Excluded and rejected tools are never registered and don't count.
+ */
+export function findToolCollisions(files: ScannedFile[]): ToolCollision[] {
+    const byName = new Map<string, ToolCollision['tools']>();
+    for (const scanned of files) {
+        for (const proposal of scanned.proposals) {
+            if (proposal.risk === 'excluded' || proposal.review === 'rejected') continue;
+            const tools = byName.get(proposal.name) ?? [];
+            tools.push({ file: scanned.file, component: proposal.sourceMapping.componentName, id: proposal.id });
+            byName.set(proposal.name, tools);
+        }
+    }
+    return Array.from(byName, ([name, tools]) => ({ name, tools })).filter(c => c.tools.length > 1);
+}
+
+/** How many proposals fall in each risk level */
+export function countRisks(proposals: ToolProposal[]): Record<ToolRisk, number> {
+    const counts: Record<ToolRisk, number> = { safe: 0, caution: 0, destructive: 0, excluded: 0 };
+    for (const proposal of proposals) counts[proposal.risk]++;
+    return counts;
+}
+
+/** Describe the selected tools of a scan, e.g. for review in a pull request */
+export function buildScanManifest(selected: { file: string; proposal: ToolProposal }[]): ScanManifest {
+    return {
+        tools: selected.map(({ file, proposal }) => ({
+            id: proposal.id,
+            name: proposal.name,
+            description: proposal.description,
+            file,
+            component: proposal.sourceMapping.componentName,
+            kind: proposal.kind,
+            risk: proposal.risk,
+            inputSchema: proposal.inputSchema,
+        })),
+    };
+}
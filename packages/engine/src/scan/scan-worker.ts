@@ -0,0 +1,8 @@
+import { parentPort, workerData } from 'node:worker_threads';
+import { scanFile, type ScanWorkerData } from './project-scan.js';
+
+// Started by scanProject(): receives one relative path at a time and
+// answers with its ScannedFile.
+parentPort?.on('message', (file: string) => {
+    parentPort!.postMessage(scanFile(file, workerData as ScanWorkerData));
+});
@@ -31,7 +31,9 @@ export interface UIElement {
     setter?: string;               // e.g. "setEmail"
     accessPath?: string;           // e.g. "form.email" for object state
   };
-  validation?: string[];           // ['required', 'minLength:3', 'pattern:...']
+  validation?: string[];           // ['required', 'minLength:3', 'pattern:...', 'format:email', 'type:integer']
+  /** Allowed values: a select's <option>s, or a radio button's value */
+  options?: string[];
   accessibilityHints?: {
     ariaLabel?: string;
     ariaDescribedBy?: string;
@@ -39,10 +41,37 @@ export interface UIElement {
   };
   /** Parent form element tag/id, if nested inside a <form> */
   parentFormId?: string;
+  /** Wizard step this element renders in: the step state's value, e.g. "2" or "shipping" */
+  step?: string;
+  /**
+   * Repeated row this element belongs to: the FieldGroup name. In rows,
+   * `*` in `id` / `name` stands for the row index (`items.*.price`).
+   */
+  fieldGroup?: string;
+  /** Key of this field within a row object, e.g. "price" */
+  rowField?: string;
+  /** Button rendered once per item of a `.map()`: the tool picks the row by a parameter */
+  rowAction?: RowAction;
   /** Synthesized runtime selector strategies (populated during Phase 3 matching) */
   selectorFallback?: SelectorStrategy[];
 }
 
+// ── Display Regions ────────────────────────────────────────
+
+/** A rendered data view (table / list) an agent may want to read */
+export interface DisplayRegion {
+  kind: 'table' | 'list';
+  tag: string;                     // 'table' | 'ul' | 'ol'
+  id?: string;
+  /** Resolved from aria-label, <caption>, or the nearest preceding heading */
+  label?: string;
+  /** Table header texts, in column order */
+  columns?: string[];
+  /** Collection the rows are rendered from, e.g. "users" in users.map(...) */
+  dataSource?: string;
+  attributes: Record<string, string>;
+}
+
 // ── Event Handlers ─────────────────────────────────────────
 
 export interface EventHandler {
@@ -58,6 +87,10 @@ export interface EventHandler {
     method: string;                // 'POST' | 'DELETE' | ...
     url: string;                   // '/api/contact'
   }[];
+  /** Callback prop the element forwards to: onClick={onDelete} */
+  forwardedProp?: string;
+  /** Where a forwarded handler was resolved: "OrdersPage.handleDelete" */
+  callSite?: string;
 }
 
 // ── State Variables ────────────────────────────────────────
@@ -78,6 +111,8 @@ export interface PropDefinition {
   type?: string;
   required: boolean;
   defaultValue?: string;
+  /** Function-typed prop (onDelete, onSave) a parent supplies */
+  callback?: boolean;
 }
 
 // ── Component Model ────────────────────────────────────────
@@ -91,11 +126,54 @@ export interface ComponentInfo {
   eventHandlers: EventHandler[];
   stateVariables: StateVariable[];
   props: PropDefinition[];
+  /** Tables and lists rendered by this component (read-only query targets) */
+  displayRegions?: DisplayRegion[];
   /** If this component uses a form library, which one */
   formLibrary?: 'react-hook-form' | 'formik' | 'none';
+  /** Multi-step wizard: steps rendered conditionally on a state variable */
+  wizard?: WizardInfo;
+  /** Repeatable field groups: line items, attendees, tags */
+  fieldGroups?: FieldGroup[];
 }
 
-export type FrameworkType = 'react' | 'html' | 'vue';
+/** Where the rows of a row action render, so the handler can find the right one */
+export interface RowAction {
+  /** Collection the rows render from, e.g. "users" in users.map(...) */
+  collection: string;
+  /** HTML tag each row renders as ("tr", "li"); unset when a component renders the row */
+  rowTag?: string;
+  /** Per-row `id` / `data-testid` of the row element (`*` = the varying part) */
+  rowId?: string;
+  rowTestId?: string;
+  /** Element that directly wraps the rows ("tbody", "ul") */
+  containerTag?: string;
+  /** Nearest static `id` on or above the container */
+  containerId?: string;
+  /** Item field the row's React key comes from: "id" in key={user.id} */
+  keyField?: string;
+}
+
+/** A list the user grows row by row, filled as a JSON Schema array */
+export interface FieldGroup {
+  /** Schema key: the useFieldArray `name`, or the state array's name */
+  name: string;
+  /** Collection the rows render from: `fields` for useFieldArray, else the state array */
+  collection: string;
+  /** Appends a row (tag inputs: appends the entry field's value) */
+  addButton?: UIElement;
+  /** Tag-input style: the one field whose value `addButton` appends; items are strings */
+  entryElement?: UIElement;
+}
+
+export interface WizardInfo {
+  /** State variable the steps are rendered on, e.g. "step" */
+  stateVariable: string;
+  setter?: string;
+  /** Step values in order: ["1", "2", "3"] or ["shipping", "payment", "review"] */
+  steps: string[];
+}
+
+export type FrameworkType = 'react' | 'html' | 'vue' | 'svelte' | 'angular';
 
 export interface ComponentAnalysis {
   fileName: string;
@@ -109,6 +187,11 @@ export interface SelectorStrategy {
   strategy: 'testid' | 'mcp' | 'label' | 'role' | 'css';
   value: string;
   score: number;
+  /**
+   * Shadow hosts and same-origin iframes to enter before `value` applies,
+   * outermost first — e.g. ["payment-widget", "iframe#card"]
+   */
+  path?: string[];
 }
 
 // ── Runtime Probe Models ─────────────────────────────────────
@@ -124,6 +207,8 @@ export interface ProbeElement {
   role: string;
   /** Unique structural path/selector (e.g. xpath or unique CSS) */
   selector: string;
+  /** Set when the element sits inside open shadow roots or iframes: their hosts, outermost first */
+  path?: string[];
   /** Boundary geometry for proximity matching */
   bounds?: { x: number; y: number; width: number; height: number };
   attributes: Record<string, string>;
@@ -136,6 +221,74 @@ export interface ProbeResult {
   timestamp: number;
 }
 
+// ── Verification ───────────────────────────────────────────
+
+/** A selector array a tool looked up while it ran */
+export interface SelectorLookup {
+  selectors: string[];
+  /** Matched at least once during the run */
+  resolved: boolean;
+}
+
+export interface ToolVerification {
+  tool: string;
+  /** The generated file that registers the tool */
+  file: string;
+  status: 'passed' | 'failed' | 'skipped';
+  /** Handler message, or why the tool failed / was skipped */
+  message?: string;
+  params?: Record<string, unknown>;
+  selectors: SelectorLookup[];
+  durationMs: number;
+}
+
+export interface VerifyReport {
+  url: string;
+  timestamp: number;
+  results: ToolVerification[];
+  passed: number;
+  failed: number;
+  skipped: number;
+}
+
+// ── Project Scan ───────────────────────────────────────────
+
+export interface ScannedFile {
+  /** Relative to the scan root, `/`-separated */
+  file: string;
+  framework?: FrameworkType;
+  proposals: ToolProposal[];
+  /** Why the file could not be parsed; it then has no proposals */
+  error?: string;
+}
+
+/** Tools in different places that would register under the same name */
+export interface ToolCollision {
+  name: string;
+  tools: { file: string; component: string; id: string }[];
+}
+
+export interface ScanResult {
+  /** Absolute directory the globs were matched from */
+  root: string;
+  files: ScannedFile[];
+  collisions: ToolCollision[];
+}
+
+/** The tools a scan selected, written by `webmcp scan --output <file>.json` */
+export interface ScanManifest {
+  tools: {
+    id: string;
+    name: string;
+    description: string;
+    file: string;
+    component: string;
+    kind?: ToolProposal['kind'];
+    risk: ToolRisk;
+    inputSchema: ToolInputSchema;
+  }[];
+}
+
 // ── Tool Proposal ──────────────────────────────────────────
 
 /** A proposed tool ready for user review */
@@ -146,21 +299,46 @@ export interface ToolProposal {
   description: string;             // "Fill and submit the contact form"
   risk: ToolRisk;
   riskReason?: string;             // "Handler calls DELETE /api/account"
+  /** Which rule decided the risk: "customRules[0]", "http-method:DELETE", "default" */
+  riskRule?: string;
+  /** 0–1 strength of the evidence behind `risk` */
+  riskConfidence?: number;
+  /** What the tool does: fill + submit, click, or read page state */
+  kind?: 'form' | 'action' | 'query';
   isStable?: boolean;              // Result of Confidence Threshold Policy score check
   unstableReason?: string;         // E.g., "Max selector score < 0.6"
   /** Pre-selected for generation? safe=true, caution=true, destructive=false */
   selected: boolean;
+  /** Set once a tool manifest is applied: the reviewer's decision, or 'unreviewed' for new tools */
+  review?: ToolReviewStatus | 'unreviewed';
   /** The input schema the agent will call this tool with */
   inputSchema: ToolInputSchema;
+  /** Query tools: the shape of the data they return */
+  outputSchema?: ToolOutputSchema;
   /** Which component / elements this tool maps to */
   sourceMapping: {
     componentName: string;
     triggerElement?: UIElement;
     inputElements: UIElement[];
     handler?: EventHandler;
+    /** Query tools: the table / list to scrape */
+    displayRegion?: DisplayRegion;
+    /** Query tools: form fields whose current values are returned */
+    readElements?: UIElement[];
+    /** Wizard tools: fields and the "Next" button of each step, in order */
+    steps?: WizardStepMapping[];
+    /** Repeatable groups whose rows the tool fills from array params */
+    fieldGroups?: FieldGroup[];
   };
 }
 
+export interface WizardStepMapping {
+  value: string;
+  inputElements: UIElement[];
+  /** Advances to the following step; absent on the last step (the trigger submits) */
+  nextElement?: UIElement;
+}
+
 export interface ToolInputSchema {
   type: 'object';
   properties: Record<string, ToolInputProperty>;
@@ -172,6 +350,48 @@ export interface ToolInputProperty {
   description: string;
   enum?: string[];                 // For selects / radio groups
   default?: unknown;
+  /** Constraints carried over from attributes, register() options or Zod / Yup */
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  multipleOf?: number;
+  pattern?: string;
+  format?: string;                 // "email" | "uri" | "date" | ...
+  /** Arrays: the schema of each item */
+  items?: ToolInputProperty;
+  /** Objects (array items of field groups): one property per row field */
+  properties?: Record<string, ToolInputProperty>;
+  required?: string[];
+}
+
+/** JSON Schema of a tool's `structuredContent` result */
+export interface ToolOutputSchema {
+  type: 'object';
+  properties: Record<string, Record<string, unknown>>;
+  required: string[];
+}
+
+/** MCP tool annotations — hints for the agent, derived from the tool's risk */
+export interface ToolAnnotations {
+  readOnlyHint: boolean;
+  destructiveHint: boolean;
+  idempotentHint: boolean;
+}
+
+// ── Parser Options ─────────────────────────────────────────
+
+export interface ParseOptions {
+  /**
+   * Project-aware mode (React): load the tsconfig, follow imports and
+   * inline the interactive elements of child components into the parent.
+   */
+  project?: {
+    /** tsconfig.json to load; looked up from the file's directory when omitted */
+    tsConfigFilePath?: string;
+    /** How many levels of child components to inline (default 3) */
+    maxDepth?: number;
+  };
 }
 
 // ── Pipeline I/O ───────────────────────────────────────────
@@ -179,13 +399,22 @@ export interface ToolInputProperty {
 export interface PipelineInput {
   sourceCode: string;
   fileName: string;
-  fileType: 'tsx' | 'jsx' | 'html' | 'vue';
+  fileType: 'tsx' | 'jsx' | 'html' | 'vue' | 'svelte' | 'ts';
   userInstructions?: string;
   config?: WebMCPConfig;
 }
 
 export type OutputFormat = 'iife' | 'esm';
 
+/**
+ * Shape of the emitted tools:
+ * - `'0.1'` — `{ id, name, description, risk, inputSchema, handler }`, handlers return `{ success, message, data }`
+ * - `'2025-06-18'` — MCP tool shape plus `id`, with `annotations` and `outputSchema`, handlers return content blocks
+ */
+export type WebMCPSpecVersion = '0.1' | '2025-06-18';
+
+export const LATEST_SPEC_VERSION: WebMCPSpecVersion = '2025-06-18';
+
 export interface PipelineOutput {
   proposals: ToolProposal[];
   selectedTools?: ToolProposal[];
@@ -223,7 +452,9 @@ export interface WebMCPConfig {
     exclude?: string[];
     destructive?: 'exclude' | 'include-with-warning';
     navigation?: 'exclude' | 'include';
-    customRules?: { match: string; risk: ToolRisk }[];
+    customRules?: RiskRule[];
+    /** Let the LLM backend review (and only ever raise) rule-based risks. Default: true */
+    llm?: boolean;
   };
   output?: {
     format?: 'iife' | 'esm' | 'auto';
@@ -235,11 +466,54 @@ export interface WebMCPConfig {
     model?: string;
     temperature?: number;
   };
-  specVersion?: string;
+  parser?: ParseOptions;
+  /** Tool shape to emit. Default: the latest MCP spec */
+  specVersion?: WebMCPSpecVersion;
+}
+
+// ── Tool Manifest ──────────────────────────────────────────
+
+export type ToolReviewStatus = 'selected' | 'rejected';
+
+/** A reviewer's decision on one proposal, in `webmcp.tools.json` */
+export interface ToolManifestEntry {
+  status: ToolReviewStatus;
+  /** The proposed name and where it came from — for reading the file, not overrides */
+  proposedName?: string;
+  component?: string;
+  file?: string;
+  /** Overrides applied to the proposal */
+  name?: string;
+  description?: string;
+  risk?: ToolRisk;
+}
+
+export interface ToolManifest {
+  version: 1;
+  /** Keyed by ToolProposal.id, which survives refactors that keep the tool's intent */
+  tools: Record<string, ToolManifestEntry>;
 }
 
 // ── Tool Risk Classification ───────────────────────────────
 
+/**
+ * A user-defined risk rule. Patterns are globs (`delete_*`, `/api/admin/**`)
+ * or regexes written as `/pattern/flags`; every field that is set must match.
+ */
+export interface RiskRule {
+  /** Any of: tool name, component, handler name, trigger label/name/id */
+  match?: string;
+  tool?: string;
+  component?: string;
+  handler?: string;
+  /** Any API URL the handler calls */
+  url?: string;
+  /** Any HTTP method the handler uses */
+  method?: string;
+  risk: ToolRisk;
+  reason?: string;
+}
+
 export const DESTRUCTIVE_KEYWORDS = [
   'delete', 'remove', 'destroy', 'drop', 'purge', 'erase',
   'revoke', 'terminate', 'cancel', 'unsubscribe', 'deactivate',
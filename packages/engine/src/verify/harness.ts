@@ -0,0 +1,226 @@
+import { chromium, type Browser, type Page } from 'playwright';
+import { existsSync, readFileSync } from 'node:fs';
+import { basename, join } from 'node:path';
+import { loadPage, type ProbeOptions } from '../probe/runtime-probe.js';
+import { sampleParams } from './sample-params.js';
+import type { SelectorLookup, ToolVerification, VerifyReport } from '../types.js';
+
+// ────────────────────────────────────────────────────────────
+// Verification harness — loads the dev URL headlessly, injects
+// the runtime and a generated .mcp.js, then calls each tool with
+// sample params and records which selectors resolved.
+// ────────────────────────────────────────────────────────────
+
+export interface VerifyOptions extends ProbeOptions {
+    /**
+     * Directory of webmcp-instrument-runtime's built `index.js`. Injected
+     * when the page does not load the runtime itself.
+     */
+    runtimeDir?: string;
+    /** Also run destructive tools, approving their confirmation. Default false */
+    includeDestructive?: boolean;
+    /** Per-tool limit, including the handler's own waits. Default 15s */
+    toolTimeoutMs?: number;
+}
+
+export interface VerifyFile {
+    path: string;
+    code: string;
+}
+
+/** What the harness reads from the page: the runtime, and the recorder it installs */
+declare global {
+    interface Window {
+        mcp?: {
+            invokeTool(name: string, params: Record<string, unknown>): Promise<{ success: boolean; message?: string }>;
+            getTools(): {
+                name: string;
+                inputSchema: { properties: Record<string, Record<string, unknown>> };
+                risk?: string;
+                annotations?: { destructiveHint?: boolean };
+            }[];
+        };
+        __mcpVerifyLookups?: () => SelectorLookup[];
+    }
+}
+
+/** Served to the page so the runtime's relative ESM imports resolve */
+const RUNTIME_ROUTE = '/__webmcp_verify__/runtime/';
+
+/**
+ * Call every tool registered by `files` against the app at `url`.
+ * Each tool gets a fresh page, so one tool's submit cannot break the next.
+ */
+export async function runVerify(url: string, files: VerifyFile[], options: VerifyOptions = {}): Promise<VerifyReport> {
+    const results: ToolVerification[] = [];
+
+    let browser: Browser | null = null;
+    try {
+        browser = await chromium.launch({ headless: options.headless ?? true });
+        for (const file of files) {
+            for (const tool of listGeneratedTools(file.code)) {
+                results.push(await verifyTool(browser, url, file, tool, options));
+            }
+        }
+    } finally {
+        if (browser) {
+            await browser.close();
+        }
+    }
+
+    return {
+        url,
+        timestamp: Date.now(),
+        results,
+        passed: results.filter(r => r.status === 'passed').length,
+        failed: results.filter(r => r.status === 'failed').length,
+        skipped: results.filter(r => r.status === 'skipped').length,
+    };
+}
+
+/** Names of the tools a generated file registers, in order */
+export function listGeneratedTools(code: string): string[] {
+    const names: string[] = [];
+    for (const match of code.matchAll(/^const tool_\d+ = \{\n(?:\s+id: .*\n)?\s+name: ("(?:[^"\\]|\\.)*"),$/gm)) {
+        names.push(JSON.parse(match[1]!) as string);
+    }
+    return names;
+}
+
+async function verifyTool(
+    browser: Browser,
+    url: string,
+    file: VerifyFile,
+    tool: string,
+    options: VerifyOptions,
+): Promise<ToolVerification> {
+    const startedAt = Date.now();
+    const result = (fields: Omit<ToolVerification, 'tool' | 'file' | 'durationMs'>): ToolVerification => ({
+        tool,
+        file: file.path,
+        ...fields,
+        durationMs: Date.now() - startedAt,
+    });
+
+    let page: Page | undefined;
+    try {
+        page = await loadPage(browser, url, options);
+        await injectRuntime(page, options.runtimeDir);
+        await page.addScriptTag({ content: file.code });
+
+        const meta = await page.evaluate(describeTool, tool);
+        if (!meta) {
+            return result({ status: 'failed', message: 'Tool did not register', selectors: [] });
+        }
+        if (meta.destructive && !options.includeDestructive) {
+            return result({ status: 'skipped', message: 'Destructive — pass --include-destructive to run it', selectors: [] });
+        }
+
+        await page.evaluate(INSTALL_RECORDER);
+        const params = sampleParams(meta.inputSchema);
+        const outcome = await invokeWithTimeout(page, tool, params, options);
+        const selectors = await page.evaluate(() => window.__mcpVerifyLookups!());
+
+        const unresolved = selectors.filter(s => !s.resolved);
+        if (!outcome.success) {
+            return result({ status: 'failed', message: outcome.message ?? 'Handler reported failure', params, selectors });
+        }
+        if (unresolved.length > 0) {
+            const list = unresolved.map(s => s.selectors.join(' | ')).join('; ');
+            return result({ status: 'failed', message: `Selectors did not resolve: ${list}`, params, selectors });
+        }
+        return result({ status: 'passed', message: outcome.message, params, selectors });
+    } catch (err) {
+        return result({ status: 'failed', message: (err as Error).message, selectors: [] });
+    } finally {
+        await page?.context().close();
+    }
+}
+
+/**
+ * Load the runtime build from `runtimeDir` into a page that doesn't have one,
+ * serving its modules from a route on the page's own origin.
+ */
+export async function injectRuntime(page: Page, runtimeDir: string | undefined): Promise<void> {
+    const loaded = await page.evaluate(() => typeof window.mcp?.invokeTool === 'function');
+    if (loaded) return;
+    if (!runtimeDir) {
+        throw new Error('The page does not load webmcp-instrument-runtime and no runtime build was found to inject');
+    }
+
+    await page.route(`**${RUNTIME_ROUTE}**`, (route) => {
+        // The build is flat: index.js and the modules it imports
+        const file = join(runtimeDir, basename(new URL(route.request().url()).pathname));
+        return existsSync(file)
+            ? route.fulfill({ contentType: 'text/javascript', body: readFileSync(file, 'utf-8') })
+            : route.fulfill({ status: 404 });
+    });
+    const origin = new URL(page.url()).origin;
+    await page.addScriptTag({ url: `${origin}${RUNTIME_ROUTE}index.js`, type: 'module' });
+    await page.waitForFunction(() => typeof window.mcp?.invokeTool === 'function');
+}
+
+/** Runs in the page: the tool's schema and whether it needs confirmation */
+function describeTool(name: string) {
+    const tool = window.mcp!.getTools().find(t => t.name === name);
+    if (!tool) return null;
+    return {
+        inputSchema: tool.inputSchema,
+        destructive: tool.risk === 'destructive' || tool.annotations?.destructiveHint === true,
+    };
+}
+
+/**
+ * Runs in the page: records every selector array the helpers look up and
+ * whether it ever matched. The lifecycle observer is stopped so other
+ * tools' anchor checks don't end up in this tool's lookups.
+ */
+const INSTALL_RECORDER = `(() => {
+    if (typeof __mcpObserver !== 'undefined' && __mcpObserver) __mcpObserver.disconnect();
+    const lookups = new Map();
+    window.__mcpVerifyLookups = () => Array.from(lookups, ([key, resolved]) => ({ selectors: JSON.parse(key), resolved }));
+    const wrap = (name, found) => {
+        const original = window[name];
+        if (typeof original !== 'function') return;
+        window[name] = (selectors, ...rest) => {
+            const value = original(selectors, ...rest);
+            if (Array.isArray(selectors) && selectors.length > 0) {
+                const key = JSON.stringify(selectors);
+                lookups.set(key, lookups.get(key) === true || found(value));
+            }
+            return value;
+        };
+    };
+    wrap('__mcpQuery', el => el !== null);
+    wrap('__mcpQueryAll', els => els.length > 0);
+})()`;
+
+async function invokeWithTimeout(
+    page: Page,
+    tool: string,
+    params: Record<string, unknown>,
+    options: VerifyOptions,
+): Promise<{ success: boolean; message?: string }> {
+    const timeoutMs = options.toolTimeoutMs ?? 15000;
+    const call = page.evaluate(
+        ({ name, args }) => window.mcp!.invokeTool(name, args),
+        { name: tool, args: params },
+    );
+
+    // The runtime asks before destructive tools run; approve when they were opted in
+    if (options.includeDestructive) {
+        page.locator('[data-mcp-confirm] button', { hasText: 'Allow' })
+            .click({ timeout: timeoutMs })
+            .catch(() => { /* not destructive, or already answered */ });
+    }
+
+    let timer: ReturnType<typeof setTimeout> | undefined;
+    const timeout = new Promise<never>((_, reject) => {
+        timer = setTimeout(() => reject(new Error(`Timed out after ${timeoutMs}ms`)), timeoutMs);
+    });
+    try {
+        return await Promise.race([call, timeout]);
+    } finally {
+        clearTimeout(timer);
+    }
+}
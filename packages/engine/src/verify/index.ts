@@ -0,0 +1,3 @@
+export * from './harness.js';
+export * from './sample-params.js';
+export * from './report.js';
@@ -0,0 +1,60 @@
+import type { SelectorLookup, VerifyReport } from '../types.js';
+
+// ────────────────────────────────────────────────────────────
+// Verify reports — JUnit XML for CI test tabs, JSON for tooling.
+// ────────────────────────────────────────────────────────────
+
+export function formatJSONReport(report: VerifyReport): string {
+    return JSON.stringify(report, null, 2);
+}
+
+/** One <testsuite> per generated file, one <testcase> per tool */
+export function formatJUnitReport(report: VerifyReport): string {
+    const files = [...new Set(report.results.map(r => r.file))];
+    const seconds = (ms: number) => (ms / 1000).toFixed(3);
+
+    const suites = files.map((file) => {
+        const results = report.results.filter(r => r.file === file);
+        const cases = results.map((r) => {
+            const open = `    <testcase classname="${escapeXml(file)}" name="${escapeXml(r.tool)}" time="${seconds(r.durationMs)}"`;
+            if (r.status === 'passed') return `${open} />`;
+            const body = r.status === 'skipped'
+                ? `      <skipped message="${escapeXml(r.message ?? '')}" />`
+                : `      <failure message="${escapeXml(r.message ?? 'failed')}">${escapeXml(describeFailure(r.params, r.selectors))}</failure>`;
+            return `${open}>\n${body}\n    </testcase>`;
+        });
+        const count = (status: string) => results.filter(r => r.status === status).length;
+        const time = seconds(results.reduce((sum, r) => sum + r.durationMs, 0));
+        return [
+            `  <testsuite name="${escapeXml(file)}" tests="${results.length}" failures="${count('failed')}" skipped="${count('skipped')}" time="${time}">`,
+            ...cases,
+            '  </testsuite>',
+        ].join('\n');
+    });
+
+    const total = report.results.length;
+    return [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        `<testsuites name="webmcp verify" tests="${total}" failures="${report.failed}" skipped="${report.skipped}">`,
+        ...suites,
+        '</testsuites>',
+        '',
+    ].join('\n');
+}
+
+function describeFailure(params: Record<string, unknown> | undefined, selectors: SelectorLookup[]): string {
+    const lines = [`params: ${JSON.stringify(params ?? {})}`];
+    for (const lookup of selectors) {
+        lines.push(`${lookup.resolved ? 'resolved  ' : 'unresolved'} ${lookup.selectors.join(' | ')}`);
+    }
+    return lines.join('\n');
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
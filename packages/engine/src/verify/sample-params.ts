@@ -0,0 +1,112 @@
+// ────────────────────────────────────────────────────────────
+// Sample params — plausible arguments for a tool, synthesized
+// from its inputSchema so `webmcp verify` can call it.
+// ────────────────────────────────────────────────────────────
+
+/** The JSON Schema keywords the generator emits (see ToolInputProperty) */
+interface SchemaLike {
+    type?: string | string[];
+    enum?: unknown[];
+    default?: unknown;
+    description?: string;
+    format?: string;
+    pattern?: string;
+    minLength?: number;
+    maxLength?: number;
+    minimum?: number;
+    maximum?: number;
+    multipleOf?: number;
+    items?: SchemaLike;
+    properties?: Record<string, SchemaLike>;
+    required?: string[];
+}
+
+const FORMAT_SAMPLES: Record<string, string> = {
+    email: 'agent@example.com',
+    uri: 'https://example.com',
+    url: 'https://example.com',
+    date: '2024-01-15',
+    'date-time': '2024-01-15T10:00:00Z',
+    time: '10:00',
+    uuid: '123e4567-e89b-12d3-a456-426614174000',
+};
+
+/** Tried in order when a string has a `pattern` */
+const PATTERN_CANDIDATES = ['agent', 'Agent1', 'abc123', '12345', 'ABC', 'a', '1', 'AB-12'];
+
+/**
+ * One value per property — required and optional alike, so every field
+ * the handler fills gets exercised. Values satisfy enums, formats and
+ * numeric / length constraints; the runtime validates them like an agent's.
+ */
+export function sampleParams(schema: { properties?: Record<string, SchemaLike> }): Record<string, unknown> {
+    const params: Record<string, unknown> = {};
+    for (const [key, prop] of Object.entries(schema.properties ?? {})) {
+        params[key] = sampleValue(key, prop);
+    }
+    return params;
+}
+
+function sampleValue(key: string, prop: SchemaLike): unknown {
+    if (prop.default !== undefined) return prop.default;
+    if (prop.enum && prop.enum.length > 0) return prop.enum[0];
+
+    const type = Array.isArray(prop.type) ? prop.type.find(t => t !== 'null') : prop.type;
+    switch (type) {
+        case 'boolean':
+            return true;
+        case 'number':
+        case 'integer':
+            return sampleNumber(prop, type === 'integer');
+        case 'array':
+            return prop.items ? [sampleValue(key, prop.items)] : [];
+        case 'object':
+            return sampleParams(prop);
+        default:
+            return sampleString(key, prop);
+    }
+}
+
+function sampleNumber(prop: SchemaLike, integer: boolean): number {
+    const step = prop.multipleOf ?? (integer ? 1 : undefined);
+    let value = prop.minimum ?? (prop.maximum !== undefined ? Math.min(1, prop.maximum) : 1);
+    if (step) value = Math.ceil(value / step) * step;
+    return integer ? Math.round(value) : value;
+}
+
+function sampleString(key: string, prop: SchemaLike): string {
+    // Row-action tools pick a row by its 1-based position
+    if (key === 'row' && prop.description?.includes('1-based position')) return '1';
+
+    const candidates = [
+        ...(prop.format && FORMAT_SAMPLES[prop.format] ? [FORMAT_SAMPLES[prop.format]!] : []),
+        ...(prop.pattern ? PATTERN_CANDIDATES : []),
+        `sample ${key.replace(/_/g, ' ')}`,
+    ];
+    const pattern = prop.pattern ? safeRegExp(prop.pattern) : undefined;
+
+    for (const candidate of candidates) {
+        const value = fitLength(candidate, prop);
+        if (!pattern || pattern.test(value)) return value;
+    }
+    return fitLength(candidates[0]!, prop);
+}
+
+function fitLength(value: string, prop: SchemaLike): string {
+    let fitted = value;
+    if (prop.minLength !== undefined && fitted.length < prop.minLength) {
+        fitted = fitted.padEnd(prop.minLength, fitted.slice(-1) || 'x');
+    }
+    if (prop.maxLength !== undefined && fitted.length > prop.maxLength) {
+        fitted = fitted.slice(0, prop.maxLength);
+    }
+    return fitted;
+}
+
+function safeRegExp(pattern: string): RegExp | undefined {
+    try {
+        return new RegExp(pattern);
+    } catch {
+        return undefined;
+    }
+}
@@ -0,0 +1,104 @@
+import { describe, it, expect } from 'vitest';
+import { parseFile } from '../src/parser/index.js';
+import { buildProposals } from '../src/proposal/index.js';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+
+const fixturesDir = resolve(__dirname, '../../../tests/fixtures/angular');
+
+function parseFixture(name: string) {
+    const path = resolve(fixturesDir, name);
+    return parseFile(readFileSync(path, 'utf-8'), path);
+}
+
+// ── checkout.component.ts (templateUrl + reactive forms) ──────
+
+describe('Angular parser — checkout.component.ts', () => {
+    const analysis = parseFixture('checkout.component.ts');
+    const component = analysis.components[0]!;
+    const byId = (id: string) => component.elements.find(el => el.id === id);
+
+    it('detects framework as angular and reads the external template', () => {
+        expect(analysis.framework).toBe('angular');
+        expect(component.name).toBe('CheckoutComponent');
+        expect(component.type).toBe('form');
+    });
+
+    it('binds formControlName controls, including Material ones', () => {
+        const bound = component.elements
+            .filter(el => el.stateBinding)
+            .map(el => [el.id, el.tag, el.stateBinding!.variable]);
+        expect(bound).toEqual([
+            ['email', 'input', 'email'],
+            ['quantity', 'input', 'quantity'],
+            ['country', 'select', 'country'],
+            ['gift-wrap', 'input', 'giftWrap'],
+        ]);
+    });
+
+    it('labels controls from <mat-label>, for= and content', () => {
+        expect(byId('email')?.label).toBe('Email address');
+        expect(byId('quantity')?.label).toBe('Quantity');
+        expect(byId('country')?.label).toBe('Country');
+        expect(byId('gift-wrap')?.label).toBe('Gift wrap');
+    });
+
+    it('maps Validators to rules and expands *ngFor options', () => {
+        expect(byId('email')?.validation).toEqual(['required', 'format:email']);
+        expect(byId('quantity')?.validation).toEqual(['required', 'min:1', 'max:10']);
+        expect(byId('country')?.options).toEqual(['DE', 'FR', 'US']);
+    });
+
+    it('resolves (ngSubmit)/(click) to methods with their HttpClient calls', () => {
+        const submit = component.eventHandlers.find(h => h.event === 'onSubmit');
+        expect(submit?.name).toBe('placeOrder');
+        expect(submit?.isAsync).toBe(true);
+        // Followed through this.submitOrder()
+        expect(submit?.apiCalls).toEqual([{ url: '/api/orders', method: 'POST' }]);
+
+        const click = component.eventHandlers.find(h => h.event === 'onClick');
+        expect(click?.name).toBe('cancelOrder');
+        expect(click?.apiCalls).toEqual([{ url: '/api/orders/current', method: 'DELETE' }]);
+    });
+
+    it('proposes a form tool and a destructive cancel action', () => {
+        const proposals = buildProposals(analysis);
+        const form = proposals.find(p => p.kind === 'form');
+        expect(form?.inputSchema.properties['country']?.enum).toEqual(['DE', 'FR', 'US']);
+        expect(form?.inputSchema.required).toEqual(['email', 'quantity', 'country']);
+        expect(proposals.find(p => p.name === 'cancel_order')?.risk).toBe('destructive');
+    });
+
+    it('throws when the templateUrl does not exist', () => {
+        const source = `@Component({ templateUrl: './missing.html' }) export class MissingComponent {}`;
+        expect(() => parseFile(source, resolve(fixturesDir, 'missing.component.ts')))
+            .toThrow(/File not found/);
+    });
+});
+
+// ── newsletter.component.ts (inline template + ngModel) ───────
+
+describe('Angular parser — newsletter.component.ts', () => {
+    const analysis = parseFixture('newsletter.component.ts');
+    const component = analysis.components[0]!;
+
+    it('binds [(ngModel)] with its access path', () => {
+        const name = component.elements.find(el => el.name === 'name');
+        expect(name?.stateBinding).toEqual({ variable: 'name', accessPath: 'model.name' });
+        expect(name?.label).toBe('Name');
+        expect(name?.validation).toEqual(['required', 'minLength:2']);
+    });
+
+    it('expands @for options from a class property', () => {
+        expect(component.elements.find(el => el.name === 'frequency')?.options)
+            .toEqual(['daily', 'weekly', 'monthly']);
+    });
+
+    it('finds HttpClient calls through an inject() field', () => {
+        expect(component.eventHandlers[0]?.apiCalls).toEqual([{ url: '/api/newsletter', method: 'POST' }]);
+    });
+
+    it('ignores .ts files without a @Component decorator', () => {
+        expect(() => parseFile('export const x = 1;', 'util.ts')).toThrow(/Unsupported file type/);
+    });
+});
@@ -1,6 +1,7 @@
-import { describe, it, expect } from 'vitest';
-import { generateMCPCodeSync } from '../src/generator/code-generator.js';
+import { describe, it, expect, vi } from 'vitest';
+import { generateMCPCodeSync, toolAnnotations } from '../src/generator/code-generator.js';
 import { FRAMEWORK_HELPERS } from '../src/generator/framework-helpers.js';
+import { buildTemplateHandler } from '../src/generator/handler-generator.js';
 import { parseFile } from '../src/parser/index.js';
 import { buildProposals } from '../src/proposal/index.js';
 import { readFileSync } from 'node:fs';
@@ -66,6 +67,57 @@ describe('generateMCPCodeSync', () => {
         expect(count).toBe(2);
     });
 
+    it('carries the classified risk into each 0.1 tool registration', () => {
+        const { analysis, proposals } = loadProposals('SettingsPage.tsx');
+        const code = generateMCPCodeSync(proposals, { format: 'iife', framework: analysis.framework, specVersion: '0.1' });
+        expect(code).toContain('risk: "destructive"');
+        expect(code).toContain('risk: "caution"');
+    });
+
+    it('ties each registration to its trigger element staying in the DOM', () => {
+        const { analysis, proposals } = loadProposals('ContactForm.tsx');
+        const code = generateMCPCodeSync(proposals, { format: 'iife', framework: analysis.framework });
+        expect(code).toContain('function __mcpTrackLifecycle');
+        expect(code).toMatch(/__mcpTrackLifecycle\(tool_0, \[.+\], registration_0\);/);
+    });
+
+    it('waits for the API call the handler makes before reporting a result', () => {
+        const { analysis, proposals } = loadProposals('SettingsPage.tsx');
+        const save = proposals.find(p => p.name.includes('save'))!;
+        const code = generateMCPCodeSync([save], { format: 'iife', framework: analysis.framework });
+        expect(code).toContain('__mcpWatchOutcome({ requests: [{"method":"PUT","url":"/api/profile"}], timeoutMs: 10000 })');
+        expect(code).toContain('return { success: result.success, message: result.message, data: result };');
+    });
+
+    it('scrapes the rendered table for read-only query tools', () => {
+        const { analysis, proposals } = loadProposals('OrdersPage.tsx');
+        const orders = proposals.find(p => p.name === 'list_recent_orders')!;
+        const code = generateMCPCodeSync([orders], { format: 'iife', framework: analysis.framework });
+        expect(code).toContain('const data = __mcpReadTable(["#orders-table","table"]);');
+        expect(code).not.toContain('__mcpClick([');
+        expect(() => new Function(code)).not.toThrow();
+    });
+
+    it('reads pre-filled form values keyed like the form tool schema', () => {
+        const { analysis, proposals } = loadProposals('OrdersPage.tsx');
+        const values = proposals.find(p => p.name === 'get_orders_page_values')!;
+        const code = generateMCPCodeSync([values], { format: 'iife', framework: analysis.framework });
+        expect(code).toContain('__mcpReadValues({ "billing_email": ["#billing-email","input[type=\\"email\\"]"] })');
+    });
+
+    it('sets a radio group once, by name and value', () => {
+        const { analysis, proposals } = loadProposals('ShippingForm.tsx');
+        const code = generateMCPCodeSync(proposals, { format: 'iife', framework: analysis.framework });
+        expect(code.match(/__mcpSetRadio\("speed", params\.speed\)/g)).toHaveLength(1);
+        expect(code).toContain('__mcpSetRadio("gift", params.gift)');
+    });
+
+    it('emits syntactically valid JavaScript', () => {
+        const { analysis, proposals } = loadProposals('SettingsPage.tsx');
+        const code = generateMCPCodeSync(proposals, { format: 'iife', framework: analysis.framework });
+        expect(() => new Function(code)).not.toThrow();
+    });
+
     it('matches snapshot for complete generated code (ContactForm)', () => {
         const { analysis, proposals } = loadProposals('ContactForm.tsx');
         const code = generateMCPCodeSync(proposals, { format: 'iife', framework: analysis.framework });
@@ -80,3 +132,313 @@ describe('generateMCPCodeSync', () => {
         expect(code).toContain('Auto-generated by WebMCP Auto-Instrumentor');
     });
 });
+
+// ── MCP tool shape ────────────────────────────────────────────
+
+describe('MCP tool shape', () => {
+    it('derives annotations from the classified risk', () => {
+        const { analysis, proposals } = loadProposals('SettingsPage.tsx');
+        const code = generateMCPCodeSync(proposals, { format: 'iife', framework: analysis.framework });
+        expect(code).toContain('annotations: {"readOnlyHint":false,"destructiveHint":true,"idempotentHint":false}');
+        expect(code).toContain('annotations: {"readOnlyHint":false,"destructiveHint":false,"idempotentHint":false}');
+        // risk still tells caution and safe actions apart
+        expect(code).toContain('risk: "destructive"');
+        expect(code).toContain('risk: "caution"');
+        expect(() => new Function(code)).not.toThrow();
+    });
+
+    it('marks only query tools read-only, not safe actions', () => {
+        const { proposals } = loadProposals('ContactForm.tsx');
+        const action = { ...proposals[0]!, kind: 'action' as const, risk: 'safe' as const };
+        expect(toolAnnotations(action)).toEqual({ readOnlyHint: false, destructiveHint: false, idempotentHint: false });
+        expect(toolAnnotations({ ...action, kind: 'query' })).toEqual({ readOnlyHint: true, destructiveHint: false, idempotentHint: true });
+    });
+
+    it('declares what query tools return as outputSchema', () => {
+        const { analysis, proposals } = loadProposals('OrdersPage.tsx');
+        const orders = proposals.find(p => p.name === 'list_recent_orders')!;
+        const values = proposals.find(p => p.name === 'get_orders_page_values')!;
+        expect(orders.outputSchema?.required).toEqual(['columns', 'rows', 'count']);
+        expect(values.outputSchema?.properties.billing_email).toMatchObject({ type: ['string', 'null'] });
+
+        const code = generateMCPCodeSync([orders], { format: 'iife', framework: analysis.framework });
+        expect(code).toContain('outputSchema: {');
+        expect(code).toContain('annotations: {"readOnlyHint":true,"destructiveHint":false,"idempotentHint":true}');
+    });
+
+    it('wraps handler results into content blocks', async () => {
+        const toContent = new Function(`${FRAMEWORK_HELPERS}\nreturn __mcpToContent;`)();
+        expect(toContent({ success: true, message: 'Read orders', data: { count: 2 } })).toEqual({
+            content: [{ type: 'text', text: 'Read orders' }, { type: 'text', text: '{"count":2}' }],
+            structuredContent: { count: 2 },
+            isError: false,
+        });
+        expect(toContent({ success: false, message: 'boom' })).toEqual({
+            content: [{ type: 'text', text: 'boom' }],
+            isError: true,
+        });
+
+        const { analysis, proposals } = loadProposals('ContactForm.tsx');
+        const code = generateMCPCodeSync(proposals, { format: 'iife', framework: analysis.framework });
+        expect(code).toContain('handler: __mcpAsContent(async (params) => {');
+    });
+
+    it('reports failure when an expected request never fires', async () => {
+        const watchOutcome = new Function(`${FRAMEWORK_HELPERS}\nreturn __mcpWatchOutcome;`)();
+        const missed = await watchOutcome({ requests: [{ method: 'POST', url: '/api/contact' }], timeoutMs: 10 });
+        expect(missed).toMatchObject({ outcome: 'timeout', success: false });
+        expect(missed.message).toContain('POST /api/contact');
+        expect(await watchOutcome({ requests: [], timeoutMs: 10 })).toMatchObject({ outcome: 'timeout', success: true });
+    });
+
+    it('keeps the id and registers natively through execute', () => {
+        const { analysis, proposals } = loadProposals('ContactForm.tsx');
+        const code = generateMCPCodeSync(proposals, { format: 'iife', framework: analysis.framework });
+        expect(code).toContain(`id: ${JSON.stringify(proposals[0].id)}`);
+        expect(code).toContain('navigator.modelContext.registerTool(__mcpNativeTool(tool_0));');
+        expect(code).toContain('window.mcp.registerTool(tool_0);');
+    });
+
+    it('asks before a destructive tool runs natively', async () => {
+        const { analysis, proposals } = loadProposals('UserTable.tsx');
+        const remove = proposals.find(p => p.name === 'remove')!;
+        expect(remove.risk).toBe('destructive');
+        const code = generateMCPCodeSync([remove], { format: 'iife', framework: analysis.framework });
+
+        const registered: { execute: (params: object) => Promise<{ isError: boolean; content: { text: string }[] }> }[] = [];
+        const navigator = { modelContext: { registerTool: (tool: (typeof registered)[0]) => registered.push(tool) } };
+        const asked: string[] = [];
+        const window = { confirm: (message: string) => (asked.push(message), false) };
+        new Function('navigator', 'window', code)(navigator, window);
+
+        expect(registered).toHaveLength(1);
+        const result = await registered[0]!.execute({ row: 'Ada' });
+        expect(asked[0]).toContain('"remove"');
+        expect(result.isError).toBe(true);
+        expect(result.content[0]!.text).toBe('User denied destructive tool "remove"');
+    });
+
+    it('keeps the 0.1 shape when asked for it', () => {
+        const { analysis, proposals } = loadProposals('ContactForm.tsx');
+        const code = generateMCPCodeSync(proposals, { format: 'iife', framework: analysis.framework, specVersion: '0.1' });
+        expect(code).toContain('handler: async (params) => {');
+        expect(code).toContain(`id: ${JSON.stringify(proposals[0].id)}`);
+        expect(code).not.toContain('annotations:');
+    });
+});
+
+// ── Wizard handlers ───────────────────────────────────────────
+
+describe('wizard tool handlers', () => {
+    const { analysis, proposals } = loadProposals('CheckoutWizard.tsx');
+    const wizard = proposals[0]!;
+
+    it('fills each step, clicks Next and waits for the next step before submitting', () => {
+        const handler = buildTemplateHandler(wizard);
+        // The first __mcpClick is step 1's "Next" button
+        const order = ['params.email', '__mcpClick(', '__mcpWaitFor(["#address"]', 'params.city', '#to-payment',
+            '__mcpWaitFor(["#card"]', 'params.terms', '__mcpWatchOutcome', '#place-order'];
+        const positions = order.map(marker => handler.indexOf(marker));
+        expect(positions.every(p => p !== -1)).toBe(true);
+        expect(positions).toEqual([...positions].sort((a, b) => a - b));
+    });
+
+    it('anchors the tool lifecycle on the first step', () => {
+        const code = generateMCPCodeSync(proposals, { format: 'iife', framework: analysis.framework });
+        expect(code).toContain('__mcpTrackLifecycle(tool_0, ["#email","input[type=\\"email\\"]"], registration_0);');
+    });
+});
+
+describe('field group handlers', () => {
+    it('clicks "Add" until each row exists and fills the row by index', () => {
+        const { proposals } = loadProposals('InvoiceForm.tsx');
+        const handler = buildTemplateHandler(proposals[0]!);
+        expect(handler).toContain('for (const [i, row] of (params.items ?? []).entries()) {');
+        expect(handler).toContain('await __mcpEnsureRow(["input[name^=\\"items.\\"][name$=\\".description\\"]"');
+        expect(handler).toContain('["#add-item"');
+        expect(handler).toContain('__mcpSetValue(__mcpRowField(["input[name^=\\"items.\\"][name$=\\".quantity\\"]"');
+        expect(handler).toContain(', i), row.quantity);');
+    });
+
+    it('skips a row field with nothing to select it by, with a warning', () => {
+        const { proposals } = loadProposals('InvoiceForm.tsx');
+        const invoice = proposals[0]!;
+        const inputElements = invoice.sourceMapping.inputElements.map(el =>
+            el.name?.endsWith('.quantity') ? { ...el, name: undefined, id: undefined, attributes: {} } : el);
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+        const handler = buildTemplateHandler({ ...invoice, sourceMapping: { ...invoice.sourceMapping, inputElements } });
+        expect(handler).not.toContain('TODO');
+        expect(handler).not.toContain('row.quantity');
+        expect(handler).toContain('row.description');
+        expect(warn).toHaveBeenCalledWith(expect.stringContaining('field of items has no id, name or label'));
+        warn.mockRestore();
+    });
+
+    it('types each tag into the entry field and clicks its Add button', () => {
+        const { proposals } = loadProposals('EventRegistration.tsx');
+        const handler = buildTemplateHandler(proposals.find(p => p.kind === 'form')!);
+        expect(handler).toContain('for (const value of params.tags ?? []) {');
+        expect(handler).toContain('await __mcpAddEntry(["#tag-input"], ["#add-tag"');
+        expect(handler).toContain('__mcpRowField(["input[id^=\\"attendee-\\"][id$=\\"-email\\"]"');
+    });
+});
+
+describe('row action handlers', () => {
+    const { analysis, proposals } = loadProposals('UserTable.tsx');
+    const remove = proposals.find(p => p.name === 'remove')!;
+
+    it('finds the named row, then clicks its copy of the action', () => {
+        const handler = buildTemplateHandler(remove);
+        expect(handler).toContain(
+            'const row = __mcpFindRow(["tr[data-testid^=\\"user-row-\\"]","#users-table tbody > tr","tbody > tr"], params.row);',
+        );
+        expect(handler).toContain('__mcpClick(__mcpWithin(row, [], "Remove"));');
+        expect(handler.indexOf('__mcpFindRow')).toBeLessThan(handler.indexOf('__mcpWatchOutcome'));
+    });
+
+    it('does not anchor the lifecycle on a button that exists once per row', () => {
+        const code = generateMCPCodeSync([remove], { format: 'iife', framework: analysis.framework });
+        expect(code).not.toContain('__mcpTrackLifecycle(tool_0');
+    });
+});
+
+// ── Shadow roots and frames ───────────────────────────────────
+
+/** Just enough DOM for the selector helpers: `*`, tag, #id and [attr="value"] selectors */
+class FakeNode {
+    nodeType = 1;
+    isConnected = true;
+    shadowRoot: FakeNode | null = null;
+    contentDocument: FakeNode | null = null;
+    children: FakeNode[] = [];
+    walks = 0;
+
+    tagName: string;
+
+    constructor(tag: string, public attrs: Record<string, string> = {}) {
+        this.tagName = tag.toUpperCase();
+    }
+
+    append(...children: FakeNode[]): this {
+        this.children.push(...children);
+        return this;
+    }
+
+    querySelectorAll(selector: string): FakeNode[] {
+        if (selector === '*') this.walks++;
+        const [, tag, id, attr, value] = /^(\*|[a-z-]*)(?:#([\w-]+))?(?:\[([\w-]+)="([^"]*)"\])?$/.exec(selector)!;
+        const all = this.children.flatMap(function walk(el): FakeNode[] {
+            return [el, ...el.children.flatMap(walk)];
+        });
+        return all.filter(el => (!tag || tag === '*' || el.tagName === tag.toUpperCase())
+            && (!id || el.attrs.id === id)
+            && (!attr || el.attrs[attr] === value));
+    }
+}
+
+class FakeMutationObserver {
+    static instances: FakeMutationObserver[] = [];
+    pending: { addedNodes: FakeNode[] }[] = [];
+    constructor(public callback: (records: { addedNodes: FakeNode[] }[]) => void) {
+        FakeMutationObserver.instances.push(this);
+    }
+    observe() {}
+    disconnect() {}
+    takeRecords() {
+        return this.pending.splice(0);
+    }
+}
+
+function loadSelectorHelpers(document: FakeNode) {
+    FakeMutationObserver.instances = [];
+    return new Function('document', 'MutationObserver', `${FRAMEWORK_HELPERS}\nreturn __mcpSelectAll;`)(
+        document, FakeMutationObserver,
+    ) as (selector: string) => FakeNode[];
+}
+
+describe('selector helpers', () => {
+    function buildPage() {
+        const cardInput = new FakeNode('input', { name: 'cc' });
+        const iframe = new FakeNode('iframe', { id: 'card' });
+        iframe.contentDocument = new FakeNode('#document').append(new FakeNode('form').append(cardInput));
+
+        const emailInput = new FakeNode('input', { name: 'email' });
+        const widget = new FakeNode('payment-widget');
+        widget.shadowRoot = new FakeNode('#shadow-root').append(emailInput, iframe);
+
+        const document = new FakeNode('#document').append(new FakeNode('main').append(widget));
+        return { document, widget, iframe, emailInput, cardInput };
+    }
+
+    it('follows >>> paths into shadow roots and iframes', () => {
+        const { document, cardInput, emailInput } = buildPage();
+        const selectAll = loadSelectorHelpers(document);
+        expect(selectAll('payment-widget >>> input[name="email"]')).toEqual([emailInput]);
+        expect(selectAll('payment-widget >>> iframe#card >>> input[name="cc"]')).toEqual([cardInput]);
+        expect(selectAll('payment-widget >>> input[name="cc"]')).toEqual([]);
+    });
+
+    it('finds plain selectors inside shadow roots and iframes without walking the DOM on every miss', () => {
+        const { document, widget, cardInput, emailInput } = buildPage();
+        const selectAll = loadSelectorHelpers(document);
+        expect(selectAll('input[name="email"]')).toEqual([emailInput]);
+        expect(selectAll('input[name="cc"]')).toEqual([cardInput]);
+
+        for (let i = 0; i < 5; i++) expect(selectAll('input[name="missing"]')).toEqual([]);
+        expect(document.walks).toBe(1);
+
+        // A frame added later is found once its mutation is seen
+        const lateInput = new FakeNode('input', { name: 'late' });
+        const lateFrame = new FakeNode('iframe');
+        lateFrame.contentDocument = new FakeNode('#document').append(lateInput);
+        document.children[0]!.append(lateFrame);
+        FakeMutationObserver.instances[0]!.pending.push({ addedNodes: [lateFrame] });
+        expect(selectAll('input[name="late"]')).toEqual([lateInput]);
+
+        // Elements of a removed shadow host are no longer found
+        widget.isConnected = false;
+        document.children[0]!.children.splice(0, 1);
+        expect(selectAll('input[name="email"]')).toEqual([]);
+    });
+});
+
+describe('tool lifecycle', () => {
+    type Tool = { name: string; handler: () => void };
+
+    it('removes only its own registration when its anchor leaves the DOM', () => {
+        const tools = new Map<string, Tool>();
+        const window = {
+            mcp: {
+                registerTool(tool: Tool) {
+                    tools.set(tool.name, tool);
+                    return () => { if (tools.get(tool.name) === tool) tools.delete(tool.name); };
+                },
+                unregisterTool: (name: string) => tools.delete(name),
+                getTools: () => [...tools.values()],
+            },
+        };
+        const formA = new FakeNode('form', { id: 'a' });
+        const document = new FakeNode('#document').append(formA, new FakeNode('form', { id: 'b' }));
+        FakeMutationObserver.instances = [];
+        const track = new Function('document', 'MutationObserver', 'window', 'navigator',
+            `${FRAMEWORK_HELPERS}\nreturn __mcpTrackLifecycle;`,
+        )(document, FakeMutationObserver, window, undefined);
+
+        // Two files register a tool under the same name; the second overwrites the first
+        const first = { name: 'save', handler: () => {} };
+        const second = { name: 'save', handler: () => {} };
+        track(first, ['#a'], window.mcp.registerTool(first));
+        track(second, ['#b'], window.mcp.registerTool(second));
+        const lifecycle = FakeMutationObserver.instances.at(-1)!;
+
+        formA.isConnected = false;
+        document.children.splice(0, 1);
+        lifecycle.callback([]);
+        expect(tools.get('save')).toBe(second);
+
+        document.children.splice(0, 1);
+        lifecycle.callback([]);
+        expect(tools.has('save')).toBe(false);
+    });
+});
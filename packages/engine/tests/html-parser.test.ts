@@ -60,6 +60,56 @@ describe('HTML parser — dashboard.html', () => {
     });
 });
 
+// ── orders.html (read-only data) ─────────────────────────────
+
+describe('HTML parser — orders.html', () => {
+    const source = readFileSync(resolve(fixturesDir, 'orders.html'), 'utf-8');
+    const analysis = parseHTMLFile(source, 'orders.html');
+    const regions = analysis.components[0]?.displayRegions ?? [];
+
+    it('extracts the table with caption and header columns', () => {
+        const table = regions.find(r => r.kind === 'table');
+        expect(table?.label).toBe('Open orders');
+        expect(table?.columns).toEqual(['Order', 'Customer', 'Total']);
+    });
+
+    it('keeps the labelled list and skips the nav list', () => {
+        const lists = regions.filter(r => r.kind === 'list');
+        expect(lists).toHaveLength(1);
+        expect(lists[0]?.label).toBe('Shipping alerts');
+    });
+
+    it('proposes only safe query tools', () => {
+        const proposals = buildProposals(analysis);
+        expect(proposals.map(p => p.name)).toEqual(['list_open_orders', 'list_shipping_alerts']);
+        expect(proposals.every(p => p.kind === 'query' && p.risk === 'safe')).toBe(true);
+    });
+});
+
+// ── Repeated query names ──────────────────────────────────────
+
+describe('HTML parser — repeated query names', () => {
+    const source = `
+        <table><thead><tr><th>Plan</th><th>Price</th></tr></thead></table>
+        <table><thead><tr><th>Date</th><th>Amount</th></tr></thead></table>
+        <form id="profile"><input name="name" value="Ada"><button type="submit">Save profile</button></form>
+        <form id="address"><input name="street" value="12 St James Square"><button type="submit">Save address</button></form>
+    `;
+    const proposals = buildProposals(parseHTMLFile(source, 'account.html'));
+    const queries = proposals.filter(p => p.kind === 'query');
+
+    it('suffixes values queries with their form id', () => {
+        expect(queries.filter(p => p.sourceMapping.readElements).map(p => p.name))
+            .toEqual(['get_account_profile_values', 'get_account_address_values']);
+    });
+
+    it('numbers unlabelled regions and keeps their ids apart', () => {
+        expect(queries.filter(p => p.sourceMapping.displayRegion).map(p => p.name))
+            .toEqual(['list_account_table_1', 'list_account_table_2']);
+        expect(new Set(proposals.map(p => p.id)).size).toBe(proposals.length);
+    });
+});
+
 // ── HTML proposals ────────────────────────────────────────────
 
 describe('buildProposals — contact.html', () => {
@@ -75,6 +125,15 @@ describe('buildProposals — contact.html', () => {
         expect(Object.keys(proposals[0]!.inputSchema.properties).length).toBeGreaterThan(0);
     });
 
+    it('enumerates the subject <select> options', () => {
+        expect(proposals[0]!.inputSchema.properties['subject']?.enum).toEqual(['general', 'support', 'sales']);
+    });
+
+    it('marks required fields and maps type="email" to a format', () => {
+        expect(proposals[0]!.inputSchema.required).toEqual(['name', 'email']);
+        expect(proposals[0]!.inputSchema.properties['email']?.format).toBe('email');
+    });
+
     it('contact form risk is caution or safe', () => {
         expect(['safe', 'caution']).toContain(proposals[0]!.risk);
     });
@@ -2,6 +2,8 @@ import { describe, it, expect } from 'vitest';
 import { NoneAdapter } from '../src/llm/none-adapter.js';
 import { buildTemplateHandler } from '../src/generator/handler-generator.js';
 import { buildSelectorArray, buildSetCall, buildSubmitCall } from '../src/generator/framework-helpers.js';
+import { matchElementsToProbe } from '../src/classifier/matcher.js';
+import type { UIElement } from '../src/types.js';
 import { parseFile } from '../src/parser/index.js';
 import { buildProposals } from '../src/proposal/index.js';
 import { readFileSync } from 'node:fs';
@@ -73,6 +75,27 @@ describe('buildSelectorArray priority', () => {
         const el = { tag: 'input', inputType: 'search', attributes: {} };
         expect(buildSelectorArray(el as any)).toBe('["input[type=\\"search\\"]"]');
     });
+
+    it('prefixes probed strategies with their shadow-root / iframe path', () => {
+        const el: UIElement = { tag: 'input', name: 'cc', attributes: {} };
+        matchElementsToProbe([el], [{
+            tag: 'input',
+            nameAttribute: 'cc',
+            accessibleName: 'Card number',
+            role: 'textbox',
+            selector: 'input[name="cc"]',
+            path: ['payment-widget', 'iframe#card'],
+            attributes: { name: 'cc', 'data-testid': 'card-number' },
+            isInteractive: true,
+        }]);
+
+        expect(JSON.parse(buildSelectorArray(el))).toEqual([
+            'payment-widget >>> iframe#card >>> [data-testid="card-number"]',
+            'Card number',
+            'textbox:Card number',
+            'payment-widget >>> iframe#card >>> input[name="cc"]',
+        ]);
+    });
 });
 
 // ── buildSetCall ──────────────────────────────────────────────
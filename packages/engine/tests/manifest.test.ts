@@ -0,0 +1,155 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import { mkdtempSync, mkdirSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import {
+    TOOL_MANIFEST_FILE,
+    applyToolManifest,
+    emptyToolManifest,
+    findToolManifest,
+    loadToolManifest,
+    recordToolReviews,
+    saveToolManifest,
+} from '../src/manifest/tool-manifest.js';
+import { scanProject } from '../src/scan/project-scan.js';
+import { parseFile } from '../src/parser/index.js';
+import { buildProposals } from '../src/proposal/index.js';
+import { WebMCPError } from '../src/errors.js';
+import type { ToolManifest } from '../src/types.js';
+
+const fixturesDir = resolve(__dirname, '../../../tests/fixtures');
+
+function settingsProposals() {
+    const file = resolve(fixturesDir, 'react/SettingsPage.tsx');
+    return buildProposals(parseFile(readFileSync(file, 'utf-8'), file));
+}
+
+let tempDir: string | undefined;
+afterEach(() => {
+    if (tempDir) rmSync(tempDir, { recursive: true, force: true });
+    tempDir = undefined;
+});
+
+function makeTempDir(): string {
+    tempDir = mkdtempSync(join(tmpdir(), 'webmcp-manifest-'));
+    return tempDir;
+}
+
+describe('applyToolManifest', () => {
+    it('applies decisions and overrides, and flags tools the manifest does not know', () => {
+        const [first, second, third] = settingsProposals();
+        const manifest: ToolManifest = {
+            version: 1,
+            tools: {
+                [first!.id]: { status: 'selected', name: 'update_profile', description: 'Save the profile', risk: 'caution' },
+                [second!.id]: { status: 'rejected' },
+            },
+        };
+
+        const [a, b, c] = applyToolManifest([first!, second!, third!], manifest);
+        expect(a).toMatchObject({ name: 'update_profile', description: 'Save the profile', risk: 'caution', review: 'selected', selected: true });
+        expect(a!.riskRule).toBe('manifest');
+        expect(b).toMatchObject({ name: second!.name, review: 'rejected', selected: false });
+        expect(c).toMatchObject({ name: third!.name, review: 'unreviewed', selected: third!.selected });
+    });
+
+    it('never selects a tool whose risk was overridden to excluded', () => {
+        const [first] = settingsProposals();
+        const [applied] = applyToolManifest([first!], {
+            version: 1,
+            tools: { [first!.id]: { status: 'selected', risk: 'excluded' } },
+        });
+        expect(applied!.selected).toBe(false);
+    });
+});
+
+describe('recordToolReviews', () => {
+    it('records the selection and keeps overrides and other files\' tools', () => {
+        const proposals = settingsProposals();
+        const [first, second] = proposals;
+        const before: ToolManifest = {
+            version: 1,
+            tools: {
+                other: { status: 'selected', proposedName: 'submit_contact', file: 'src/Contact.tsx' },
+                [first!.id]: { status: 'rejected', proposedName: first!.name, name: 'update_profile' },
+            },
+        };
+
+        const reviewed = applyToolManifest(proposals, before);
+        const after = recordToolReviews(before, reviewed, [first!.id], 'src/SettingsPage.tsx');
+
+        expect(after.tools.other).toEqual(before.tools.other);
+        expect(after.tools[first!.id]).toMatchObject({
+            status: 'selected',
+            proposedName: first!.name,
+            name: 'update_profile',
+            component: 'SettingsPage',
+            file: 'src/SettingsPage.tsx',
+        });
+        expect(after.tools[second!.id]).toMatchObject({ status: 'rejected', proposedName: second!.name });
+        // The input manifest is left alone
+        expect(before.tools[first!.id]!.status).toBe('rejected');
+    });
+});
+
+describe('manifest files', () => {
+    it('round-trips with ids sorted and unset overrides left out', () => {
+        const dir = makeTempDir();
+        const path = join(dir, TOOL_MANIFEST_FILE);
+        const manifest = recordToolReviews(emptyToolManifest(), settingsProposals(), []);
+        saveToolManifest(path, manifest);
+
+        const text = readFileSync(path, 'utf-8');
+        const ids = Object.keys(JSON.parse(text).tools);
+        expect(ids).toEqual([...ids].sort());
+        expect(text).not.toContain('"description"');
+        expect(loadToolManifest(path)).toEqual(JSON.parse(text));
+    });
+
+    it('finds the nearest manifest above a directory', () => {
+        const dir = makeTempDir();
+        mkdirSync(join(dir, 'src/components'), { recursive: true });
+        expect(findToolManifest(join(dir, 'src/components'))).toBeUndefined();
+
+        writeFileSync(join(dir, TOOL_MANIFEST_FILE), JSON.stringify(emptyToolManifest()));
+        expect(findToolManifest(join(dir, 'src/components'))).toBe(join(dir, TOOL_MANIFEST_FILE));
+    });
+
+    it('treats a missing file as empty and rejects malformed ones', () => {
+        const dir = makeTempDir();
+        const path = join(dir, TOOL_MANIFEST_FILE);
+        expect(loadToolManifest(path)).toEqual(emptyToolManifest());
+
+        writeFileSync(path, JSON.stringify({ version: 1, tools: { abc: { status: 'maybe' } } }));
+        expect(() => loadToolManifest(path)).toThrow(WebMCPError);
+        expect(() => loadToolManifest(path)).toThrow(/"status" must be "selected" or "rejected"/);
+
+        writeFileSync(path, '{ "version": 1,');
+        expect(() => loadToolManifest(path)).toThrow(/Invalid tool manifest/);
+    });
+});
+
+describe('scanProject with a manifest', () => {
+    it('checks renamed tools for collisions and ignores rejected ones', async () => {
+        const include = ['react/SettingsPage.tsx', 'svelte/ProfileForm.svelte'];
+        const plain = await scanProject({ cwd: fixturesDir, include, concurrency: 1 });
+        const collision = plain.collisions.find(c => c.name === 'delete_account')!;
+        const [react, svelte] = collision.tools;
+
+        const renamed = await scanProject({
+            cwd: fixturesDir,
+            include,
+            concurrency: 1,
+            manifest: { version: 1, tools: { [svelte!.id]: { status: 'selected', name: 'delete_profile' } } },
+        });
+        expect(renamed.collisions.find(c => c.name === 'delete_account')).toBeUndefined();
+
+        const rejected = await scanProject({
+            cwd: fixturesDir,
+            include,
+            concurrency: 1,
+            manifest: { version: 1, tools: { [react!.id]: { status: 'rejected' } } },
+        });
+        expect(rejected.collisions.find(c => c.name === 'delete_account')).toBeUndefined();
+    });
+});
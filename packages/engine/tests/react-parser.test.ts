@@ -1,8 +1,9 @@
 import { describe, it, expect } from 'vitest';
 import { parseFile } from '../src/parser/index.js';
 import { buildProposals } from '../src/proposal/index.js';
-import { readFileSync } from 'node:fs';
-import { resolve } from 'node:path';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
 
 const fixturesDir = resolve(__dirname, '../../../tests/fixtures/react');
 
@@ -112,3 +113,377 @@ describe('SearchPage.tsx', () => {
         }
     });
 });
+
+// ── Select / radio enumeration ───────────────────────────────
+
+describe('option enumeration', () => {
+    it('turns static <option> values into a select enum', () => {
+        const analysis = parseFile(loadFixture('SearchPage.tsx'), 'SearchPage.tsx');
+        const search = buildProposals(analysis).find(p => p.name.includes('search'))!;
+        expect(search.inputSchema.properties['category']?.enum).toEqual(['all', 'electronics', 'clothing']);
+    });
+
+    const analysis = parseFile(loadFixture('ShippingForm.tsx'), 'ShippingForm.tsx');
+    const schema = buildProposals(analysis)[0]!.inputSchema;
+
+    it('expands .map() over a constant array, skipping the disabled placeholder', () => {
+        expect(schema.properties['country']?.enum).toEqual(['us', 'ca', 'mx']);
+        expect(schema.required).toContain('country');
+    });
+
+    it('merges radio buttons sharing a name into one enum property', () => {
+        expect(schema.properties['speed']?.enum).toEqual(['standard', 'express', 'overnight']);
+        expect(schema.properties['gift']?.enum).toEqual(['yes', 'no']);
+        expect(Object.keys(schema.properties)).toEqual(['country', 'speed', 'gift']);
+    });
+});
+
+// ── Validation constraints ───────────────────────────────────
+
+describe('validation constraints', () => {
+    const analysis = parseFile(loadFixture('SignupForm.tsx'), 'SignupForm.tsx');
+    const schema = buildProposals(analysis)[0]!.inputSchema;
+
+    it('names react-hook-form fields after their register() call', () => {
+        expect(Object.keys(schema.properties)).toEqual(['email', 'website', 'age', 'username', 'seats']);
+    });
+
+    it('maps register() options onto string keywords', () => {
+        expect(schema.properties['username']).toMatchObject({
+            type: 'string',
+            minLength: 3,
+            maxLength: 20,
+            pattern: '^[a-z0-9_]+$',
+        });
+    });
+
+    it('reads Zod schemas passed to the resolver', () => {
+        expect(schema.properties['email']?.format).toBe('email');
+        expect(schema.properties['website']?.format).toBe('uri');
+        expect(schema.properties['age']).toMatchObject({ type: 'integer', minimum: 13, maximum: 120 });
+        expect(schema.required).toEqual(['email', 'age', 'username']);
+    });
+
+    it('maps native min/max/step attributes', () => {
+        expect(schema.properties['seats']).toMatchObject({ type: 'integer', minimum: 1, maximum: 50 });
+    });
+});
+
+// ── OrdersPage.tsx (read-only queries) ───────────────────────
+
+describe('OrdersPage.tsx', () => {
+    const source = loadFixture('OrdersPage.tsx');
+    const analysis = parseFile(source, 'OrdersPage.tsx');
+    const proposals = buildProposals(analysis);
+
+    it('extracts the orders table with its columns and data source', () => {
+        const regions = analysis.components[0]?.displayRegions ?? [];
+        const table = regions.find(r => r.kind === 'table');
+        expect(table?.id).toBe('orders-table');
+        expect(table?.label).toBe('Recent Orders');
+        expect(table?.columns).toEqual(['Order', 'Customer', 'Total', 'Status']);
+        expect(table?.dataSource).toBe('orders');
+    });
+
+    it('keeps mapped lists but skips navigation lists', () => {
+        const lists = (analysis.components[0]?.displayRegions ?? []).filter(r => r.kind === 'list');
+        expect(lists).toHaveLength(1);
+        expect(lists[0]?.dataSource).toBe('notifications');
+    });
+
+    it('proposes safe query tools for the table and list', () => {
+        const queries = proposals.filter(p => p.kind === 'query');
+        expect(queries.map(p => p.name)).toEqual(
+            expect.arrayContaining(['list_recent_orders', 'list_notifications']),
+        );
+        for (const q of queries) {
+            expect(q.risk).toBe('safe');
+            expect(Object.keys(q.inputSchema.properties)).toHaveLength(0);
+        }
+    });
+
+    it('proposes a values query for the pre-filled billing form', () => {
+        const values = proposals.find(p => p.name === 'get_orders_page_values');
+        expect(values?.kind).toBe('query');
+        expect(values?.sourceMapping.readElements?.[0]?.id).toBe('billing-email');
+    });
+
+    it('does not propose a values query for empty forms', () => {
+        const settings = parseFile(loadFixture('SettingsPage.tsx'), 'SettingsPage.tsx');
+        expect(buildProposals(settings).some(p => p.kind === 'query')).toBe(false);
+    });
+});
+
+// ── Project-aware mode (cross-file components) ───────────────
+
+describe('project-aware mode', () => {
+    const path = resolve(fixturesDir, 'project/AccountForm.tsx');
+    const source = readFileSync(path, 'utf-8');
+    // Loading the type checker is slow, so the cases share one project-aware parse
+    const analysis = parseFile(source, path, { project: {} });
+
+    it('only sees top-level elements by default', () => {
+        const component = parseFile(source, path).components[0]!;
+        expect(component.elements.map(el => el.tag)).toEqual(['form', 'button']);
+    });
+
+    it('inlines imported child components, including tsconfig paths and memo()', () => {
+        const component = analysis.components[0]!;
+        expect(component.elements.map(el => el.tag)).toEqual(['form', 'input', 'select', 'button']);
+
+        const email = component.elements.find(el => el.id === 'email');
+        expect(email?.parentFormId).toBe('account-form');
+        expect(email?.validation).toEqual(['required']);
+
+        const plan = component.elements.find(el => el.tag === 'select');
+        expect(plan?.name).toBe('plan');
+        expect(plan?.label).toBe('Plan');
+        expect(plan?.options).toEqual(['free', 'pro', 'enterprise']);
+    });
+
+    it("binds forwarded value props to the parent's state", () => {
+        const component = analysis.components[0]!;
+        const bindings = component.elements.filter(el => el.stateBinding).map(el => el.stateBinding!.variable);
+        expect(bindings).toEqual(['email', 'plan']);
+    });
+
+    it('covers the whole form in the proposed tool', () => {
+        const proposals = buildProposals(analysis);
+        const form = proposals.find(p => p.kind === 'form');
+        expect(Object.keys(form!.inputSchema.properties)).toEqual(['email', 'plan']);
+    });
+
+    it('respects maxDepth', () => {
+        const component = parseFile(source, path, { project: { maxDepth: 0 } }).components[0]!;
+        expect(component.elements.map(el => el.tag)).toEqual(['form', 'button']);
+    });
+
+    it('sees edits to imported components between parses', () => {
+        const dir = mkdtempSync(join(tmpdir(), 'webmcp-project-'));
+        try {
+            writeFileSync(join(dir, 'tsconfig.json'), '{ "compilerOptions": { "jsx": "react-jsx" } }');
+            const child = (field: string) =>
+                `export function Fields() { return <input id="${field}" name="${field}" />; }\n`;
+            const parent = `import { Fields } from './Fields';
+export function Signup() {
+    return <form id="signup" onSubmit={() => {}}><Fields /><button type="submit">Go</button></form>;
+}
+`;
+            const parentPath = join(dir, 'Signup.tsx');
+            writeFileSync(join(dir, 'Fields.tsx'), child('email'));
+            const first = parseFile(parent, parentPath, { project: {} }).components[0]!;
+            expect(first.elements.find(el => el.tag === 'input')?.id).toBe('email');
+
+            writeFileSync(join(dir, 'Fields.tsx'), child('phone'));
+            const second = parseFile(parent, parentPath, { project: {} }).components[0]!;
+            expect(second.elements.find(el => el.tag === 'input')?.id).toBe('phone');
+        } finally {
+            rmSync(dir, { recursive: true, force: true });
+        }
+    });
+});
+
+// ── TodoBoard.tsx (callback props) ───────────────────────────
+
+describe('TodoBoard.tsx (callback props)', () => {
+    const analysis = parseFile(loadFixture('TodoBoard.tsx'), 'TodoBoard.tsx');
+    const item = analysis.components.find(c => c.name === 'TodoItem')!;
+
+    it('marks function-typed props from the props interface as callbacks', () => {
+        expect(item.props.filter(p => p.callback).map(p => p.name)).toEqual(['onToggle', 'onArchive']);
+        expect(item.props.find(p => p.name === 'onArchive')?.required).toBe(false);
+    });
+
+    it('attributes buttons that forward to a callback prop to that prop', () => {
+        expect(item.eventHandlers.map(h => [h.name, h.forwardedProp])).toEqual([
+            ['onToggle', 'onToggle'],
+            ['onArchive', 'onArchive'],
+        ]);
+    });
+
+    it("uses the parent's call site for the handler body and API calls", () => {
+        const toggle = item.eventHandlers.find(h => h.name === 'onToggle');
+        expect(toggle?.callSite).toBe('TodoBoard.markDone');
+        expect(toggle?.apiCalls).toEqual([{ url: '/api/todos/done', method: 'PATCH' }]);
+
+        // onArchive={(id) => archiveTodo(id)} resolves through the arrow
+        const archive = item.eventHandlers.find(h => h.name === 'onArchive');
+        expect(archive?.callSite).toBe('TodoBoard.archiveTodo');
+        expect(archive?.apiCalls).toEqual([{ url: '/api/todos/archive', method: 'DELETE' }]);
+    });
+
+    it('matches each button to its own handler and classifies it from the real body', () => {
+        const proposals = buildProposals(analysis);
+        const done = proposals.find(p => p.name === 'done');
+        const archive = proposals.find(p => p.name === 'archive');
+        expect(done?.sourceMapping.handler?.name).toBe('onToggle');
+        expect(done?.risk).toBe('caution');
+        expect(archive?.sourceMapping.handler?.name).toBe('onArchive');
+        expect(archive?.risk).toBe('destructive');
+    });
+
+    it('merges every call site of a child rendered from several parents', () => {
+        const source = `
+            function Row({ onRemove }: { onRemove: (id: string) => void }) {
+                return <button onClick={() => onRemove('1')}>Remove</button>;
+            }
+            export function Hidden() {
+                const hide = async (id: string) => { await fetch('/api/rows/hide', { method: 'PATCH' }); };
+                return <Row onRemove={hide} />;
+            }
+            export function Trash() {
+                const purge = async (id: string) => { await fetch('/api/rows', { method: 'DELETE' }); };
+                return <Row onRemove={purge} />;
+            }
+        `;
+        const rows = parseFile(source, 'Rows.tsx');
+        const remove = rows.components.find(c => c.name === 'Row')!.eventHandlers[0]!;
+        expect(remove.callSite).toBe('Hidden.hide, Trash.purge');
+        expect(remove.apiCalls).toEqual([
+            { url: '/api/rows/hide', method: 'PATCH' },
+            { url: '/api/rows', method: 'DELETE' },
+        ]);
+        expect(buildProposals(rows).find(p => p.sourceMapping.handler === remove)?.risk).toBe('destructive');
+    });
+});
+
+describe('multi-step wizards', () => {
+    const checkout = parseFile(loadFixture('CheckoutWizard.tsx'), 'CheckoutWizard.tsx');
+    const onboarding = parseFile(loadFixture('OnboardingWizard.tsx'), 'OnboardingWizard.tsx');
+
+    it('detects the step state and the step each element renders in', () => {
+        const component = checkout.components[0]!;
+        expect(component.wizard).toEqual({ stateVariable: 'step', setter: 'setStep', steps: ['1', '2', '3'] });
+        expect(component.elements.filter(el => el.tag === 'input').map(el => [el.id, el.step])).toEqual([
+            ['email', '1'],
+            ['address', '2'],
+            ['city', '2'],
+            ['card', '3'],
+            ['terms', '3'],
+        ]);
+    });
+
+    it('reads named steps from early returns', () => {
+        expect(onboarding.components[0]?.wizard?.steps).toEqual(['account', 'profile']);
+    });
+
+    it('proposes one composite tool covering every step', () => {
+        const proposals = buildProposals(checkout);
+        expect(proposals).toHaveLength(1);
+
+        const wizard = proposals[0]!;
+        expect(wizard.name).toBe('place_order_checkout_wizard');
+        expect(Object.keys(wizard.inputSchema.properties)).toEqual(['email', 'address', 'city', 'card', 'terms']);
+        expect(wizard.sourceMapping.handler?.name).toBe('handleSubmit');
+        expect(wizard.sourceMapping.triggerElement?.id).toBe('place-order');
+        expect(wizard.sourceMapping.steps?.map(s => [s.value, s.nextElement?.label])).toEqual([
+            ['1', 'Next'],
+            ['2', 'Continue to payment'],
+            ['3', undefined],
+        ]);
+    });
+
+    it('advances steps that have their own form through its submit button', () => {
+        const proposals = buildProposals(onboarding);
+        expect(proposals.map(p => p.name)).toEqual(['finish_setup_onboarding_wizard']);
+        expect(proposals[0]?.sourceMapping.steps?.[0]?.nextElement?.id).toBe('account-next');
+        expect(proposals[0]?.sourceMapping.handler?.name).toBe('finish');
+    });
+});
+
+describe('repeated field groups', () => {
+    const invoice = parseFile(loadFixture('InvoiceForm.tsx'), 'InvoiceForm.tsx');
+    const registration = parseFile(loadFixture('EventRegistration.tsx'), 'EventRegistration.tsx');
+
+    it('marks useFieldArray rows with their group, row field and per-row name pattern', () => {
+        const component = invoice.components[0]!;
+        const rows = component.elements.filter(el => el.fieldGroup === 'items' && el.tag === 'input');
+        expect(rows.map(el => [el.rowField, el.name])).toEqual([
+            ['description', 'items.*.description'],
+            ['quantity', 'items.*.quantity'],
+            ['price', 'items.*.price'],
+        ]);
+        expect(component.fieldGroups?.map(g => [g.name, g.collection, g.addButton?.id])).toEqual([
+            ['items', 'fields', 'add-item'],
+        ]);
+    });
+
+    it('emits an array of objects and consumes the Add and Remove buttons', () => {
+        const proposals = buildProposals(invoice);
+        expect(proposals.map(p => p.name)).toEqual(['create_invoice_invoice_form']);
+
+        const { properties, required } = proposals[0]!.inputSchema;
+        expect(Object.keys(properties)).toEqual(['customer', 'items']);
+        expect(required).toEqual(['customer']);
+        expect(properties['items']).toMatchObject({
+            type: 'array',
+            items: {
+                type: 'object',
+                properties: {
+                    description: { type: 'string' },
+                    quantity: { type: 'number', minimum: 1 },
+                    price: { type: 'number' },
+                },
+                required: ['description'],
+            },
+        });
+    });
+
+    it('reads rows over state arrays and tag inputs that append an entry field', () => {
+        const component = registration.components[0]!;
+        expect(component.fieldGroups?.map(g => [g.name, g.addButton?.id, g.entryElement?.id])).toEqual([
+            ['attendees', 'add-attendee', undefined],
+            ['tags', 'add-tag', 'tag-input'],
+        ]);
+        expect(component.elements.filter(el => el.rowField).map(el => el.id)).toEqual(['attendee-*-name', 'attendee-*-email']);
+
+        const form = buildProposals(registration).find(p => p.kind === 'form')!;
+        expect(form.inputSchema.properties['tags']).toMatchObject({ type: 'array', items: { type: 'string' } });
+        expect(form.inputSchema.properties['attendees']?.items?.required).toEqual(['name']);
+    });
+
+    it('leaves lists of row actions alone', () => {
+        const todos = parseFile(loadFixture('TodoBoard.tsx'), 'TodoBoard.tsx');
+        expect(todos.components.find(c => c.name === 'TodoBoard')?.fieldGroups).toBeUndefined();
+    });
+});
+
+describe('row actions', () => {
+    const analysis = parseFile(loadFixture('UserTable.tsx'), 'UserTable.tsx');
+
+    it('records where the rows of a mapped button render', () => {
+        const remove = analysis.components[0]?.elements.find(el => el.label === 'Remove');
+        expect(remove?.rowAction).toEqual({
+            collection: 'users',
+            rowTag: 'tr',
+            rowId: undefined,
+            rowTestId: 'user-row-*',
+            containerTag: 'tbody',
+            containerId: 'users-table',
+            keyField: 'id',
+        });
+    });
+
+    it('labels a button by its text when its aria-label varies per row', () => {
+        const resend = analysis.components[0]?.elements.find(el => el.rowAction && el.label === 'Resend');
+        expect(resend?.attributes['aria-label']).toBe('Resend invite to *');
+    });
+
+    it('proposes one tool per action that takes the row as a parameter', () => {
+        const actions = buildProposals(analysis).filter(p => p.kind === 'action');
+        expect(actions.map(p => [p.name, p.risk])).toEqual([
+            ['resend', 'caution'],
+            ['remove', 'destructive'],
+        ]);
+        expect(actions[0]?.inputSchema).toEqual({
+            type: 'object',
+            properties: {
+                row: { type: 'string', description: 'Which users row to act on: its id, its 1-based position, or text shown in it' },
+            },
+            required: ['row'],
+        });
+        // () => removeUser(user.id) resolves to the local function
+        expect(actions[1]?.sourceMapping.handler?.name).toBe('removeUser');
+        expect(actions[1]?.sourceMapping.handler?.apiCalls?.[0]?.method).toBe('DELETE');
+    });
+});
@@ -1,6 +1,22 @@
-import { describe, it, expect } from 'vitest';
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { mkdtempSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
 import { classifyRisk } from '../src/classifier/risk-classifier.js';
-import type { UIElement, EventHandler } from '../src/types.js';
+import { compilePattern, findPatternErrors } from '../src/classifier/risk-policy.js';
+import { tokenize, bodyActionTokens } from '../src/classifier/tokenizer.js';
+import { reviewRiskWithLLM } from '../src/classifier/llm-classifier.js';
+import { buildProposals } from '../src/proposal/index.js';
+import { NoneAdapter } from '../src/llm/none-adapter.js';
+import { loadConfig } from '../src/config/loader.js';
+import type { UIElement, EventHandler, ComponentAnalysis, WebMCPConfig, LLMAdapter } from '../src/types.js';
+
+// Keep LLM risk reviews in memory instead of .webmcp/cache.json
+const riskCache = vi.hoisted(() => new Map<string, unknown>());
+vi.mock('../src/cache/file-cache.js', () => ({
+  getCachedRisk: (tool: { id: string }) => riskCache.get(tool.id) ?? null,
+  setCachedRisk: (tool: { id: string }, risk: unknown) => riskCache.set(tool.id, risk),
+}));
 
 function makeElement(overrides: Partial<UIElement> = {}): UIElement {
   return {
@@ -86,3 +102,281 @@ describe('classifyRisk', () => {
     expect(result.risk).toBe('destructive');
   });
 });
+
+describe('classifyRisk — tokenization and evidence', () => {
+  it('splits camelCase, snake_case, kebab-case and acronyms', () => {
+    expect(tokenize('handleDeleteURLItem')).toEqual(['handle', 'delete', 'url', 'item']);
+    expect(tokenize('clear_all-items Now')).toEqual(['clear', 'all', 'items', 'now']);
+  });
+
+  it('matches whole words only', () => {
+    expect(classifyRisk(makeElement({ label: 'Apply preset' })).risk).toBe('safe');
+    expect(classifyRisk(makeElement({ label: 'Open settings' })).risk).toBe('safe');
+    expect(classifyRisk(makeElement({ id: 'postcode-lookup' })).risk).toBe('safe');
+    expect(classifyRisk(makeElement({ label: 'Reset filters' })).risk).toBe('destructive');
+  });
+
+  it('matches inflections and multi-word keywords', () => {
+    expect(classifyRisk(makeElement({ label: 'Removing items' })).rule).toBe('destructive-keyword:remove');
+    expect(classifyRisk(undefined, makeHandler({ name: 'onClearAll' })).rule).toBe('destructive-keyword:clear-all');
+    expect(classifyRisk(undefined, makeHandler({ name: 'goToPage' })).risk).toBe('excluded');
+  });
+
+  it('reads only calls and property writes from the handler body', () => {
+    expect(bodyActionTokens('router.push(`/post/${id}`); setOpen(false); <Link to="/x" />'))
+      .toEqual(['router', 'push', 'set', 'open']);
+    expect(bodyActionTokens("window.location.href = '/home'")).toEqual(['window', 'location', 'href']);
+
+    const linkInJsx = classifyRisk(
+      makeElement({ label: 'Show details' }),
+      makeHandler({ name: 'handleShow', body: '() => setView(<Link to="/details">Details</Link>)' }),
+    );
+    expect(linkInJsx.risk).not.toBe('excluded');
+  });
+
+  it('does not exclude a mutation that navigates afterwards', () => {
+    const result = classifyRisk(
+      makeElement({ label: 'Delete project' }),
+      makeHandler({ name: 'handleDelete', body: 'await api.remove(id); navigate("/projects")' }),
+    );
+    expect(result.risk).toBe('destructive');
+    expect(result.evidence.some(e => e.category === 'excluded' && e.signal === 'body')).toBe(true);
+  });
+
+  it('weights signals into a confidence score and reports every hit', () => {
+    const weak = classifyRisk(undefined, makeHandler({ name: 'onClick', body: 'purgeCache()' }));
+    const strong = classifyRisk(
+      makeElement({ label: 'Delete account' }),
+      makeHandler({ name: 'handleDelete', apiCalls: [{ method: 'DELETE', url: '/api/account' }] }),
+    );
+    expect(weak).toMatchObject({ risk: 'destructive', confidence: 0.6 });
+    expect(strong.confidence).toBe(1);
+    expect(strong.evidence.map(e => [e.signal, e.keyword])).toEqual([
+      ['label', 'delete'],
+      ['handler', 'delete'],
+      ['method', 'DELETE'],
+    ]);
+    expect(strong.reason).toBe('Contains destructive keyword: "delete" in label (also DELETE, handler)');
+  });
+});
+
+describe('classifyRisk — config policy', () => {
+  it('records which built-in rule decided', () => {
+    expect(classifyRisk(makeElement({ label: 'Delete' })).rule).toBe('destructive-keyword:delete');
+    expect(classifyRisk(makeElement(), makeHandler({ apiCalls: [{ method: 'PUT', url: '/api/x' }] })).rule)
+      .toBe('http-method:PUT');
+    expect(classifyRisk(makeElement({ label: 'Show' })).rule).toBe('default');
+  });
+
+  it('applies custom rules before the keyword heuristics', () => {
+    const config: WebMCPConfig = {
+      classification: {
+        customRules: [
+          { url: '/api/admin/**', risk: 'destructive', reason: 'Admin endpoint' },
+          { handler: '/^handle(Archive|Restore)$/', risk: 'safe' },
+        ],
+      },
+    };
+
+    const admin = classifyRisk(
+      makeElement({ label: 'Save' }),
+      makeHandler({ name: 'handleSave', apiCalls: [{ method: 'POST', url: '/api/admin/users/1' }] }),
+      config,
+    );
+    expect(admin).toMatchObject({ risk: 'destructive', reason: 'Admin endpoint', rule: 'customRules[0]', confidence: 1 });
+
+    const archive = classifyRisk(makeElement({ label: 'Remove' }), makeHandler({ name: 'handleArchive' }), config);
+    expect(archive.risk).toBe('safe');
+    expect(archive.rule).toBe('customRules[1]');
+  });
+
+  it('requires every field of a rule to match', () => {
+    const config: WebMCPConfig = {
+      classification: { customRules: [{ component: 'Billing*', method: 'POST', risk: 'destructive' }] },
+    };
+    const handler = makeHandler({ apiCalls: [{ method: 'POST', url: '/api/pay' }] });
+
+    expect(classifyRisk(makeElement(), handler, config, { componentName: 'BillingForm' }).risk).toBe('destructive');
+    expect(classifyRisk(makeElement(), handler, config, { componentName: 'ContactForm' }).risk).toBe('caution');
+  });
+
+  it('keeps navigation handlers when navigation is included', () => {
+    const config: WebMCPConfig = { classification: { navigation: 'include' } };
+    const element = makeElement({ label: 'Navigate to Home' });
+    expect(classifyRisk(element, undefined, config).risk).toBe('safe');
+    expect(classifyRisk(makeElement({ id: 'file-upload' }), undefined, config).risk).toBe('excluded');
+  });
+
+  it('compiles globs against whole values and /regex/flags as-is', () => {
+    expect(compilePattern('delete_*').test('delete_user')).toBe(true);
+    expect(compilePattern('delete_*').test('undelete_user')).toBe(false);
+    expect(compilePattern('/api/*').test('/api/users/1')).toBe(false);
+    expect(compilePattern('/api/**').test('/api/users/1')).toBe(true);
+    expect(compilePattern('/user/i').test('UpdateUserForm')).toBe(true);
+  });
+
+  it('reads patterns with an unescaped / inside as path globs', () => {
+    expect(compilePattern('/api/admin/').test('/api/admin/')).toBe(true);
+    expect(compilePattern('/api/admin/').test('/v2/api/admin/users')).toBe(false);
+    expect(compilePattern('/\\/api\\//').test('/v2/api/users')).toBe(true);
+  });
+
+  it('reports patterns that do not compile', () => {
+    expect(findPatternErrors({
+      classification: {
+        exclude: ['debug_*', '/(/'],
+        customRules: [{ handler: '/[/', risk: 'safe' }, { url: '/api/**', risk: 'destructive' }],
+      },
+    })).toEqual([
+      expect.stringMatching(/^classification\.exclude\[1\]: Invalid regular expression/),
+      expect.stringMatching(/^classification\.customRules\[0\]\.handler: Invalid regular expression/),
+    ]);
+  });
+
+  it('rejects a config file with a bad pattern when it is loaded', async () => {
+    const dir = mkdtempSync(join(tmpdir(), 'webmcp-config-'));
+    try {
+      writeFileSync(join(dir, '.webmcprc.json'), JSON.stringify({
+        classification: { customRules: [{ handler: '/handle(Archive/', risk: 'safe' }] },
+      }));
+      await expect(loadConfig(dir)).rejects.toThrow(/Invalid config .*customRules\[0\]\.handler/);
+    } finally {
+      rmSync(dir, { recursive: true, force: true });
+    }
+  });
+});
+
+describe('buildProposals — config policy', () => {
+  const analysis: ComponentAnalysis = {
+    fileName: 'Account.tsx',
+    framework: 'react',
+    components: [{
+      name: 'AccountSettings',
+      type: 'action',
+      stateVariables: [],
+      props: [],
+      elements: [
+        { tag: 'button', id: 'export', label: 'Export data', attributes: { onClick: 'handleExport' } },
+        { tag: 'button', id: 'close', label: 'Delete account', attributes: { onClick: 'handleDelete' } },
+      ],
+      eventHandlers: [
+        { name: 'handleExport', event: 'onClick', isAsync: false, elementId: 'export' },
+        { name: 'handleDelete', event: 'onClick', isAsync: true, elementId: 'close',
+          apiCalls: [{ method: 'DELETE', url: '/api/account' }] },
+      ],
+    }],
+  };
+
+  it('records the deciding rule on each proposal', () => {
+    const proposals = buildProposals(analysis);
+    expect(proposals.map(p => [p.name, p.risk, p.riskRule])).toEqual([
+      ['export_data', 'safe', 'default'],
+      ['delete_account', 'destructive', 'destructive-keyword:delete'],
+    ]);
+  });
+
+  it('drops destructive tools when configured to exclude them', () => {
+    const proposals = buildProposals(analysis, { classification: { destructive: 'exclude' } });
+    expect(proposals.map(p => p.name)).toEqual(['export_data']);
+  });
+
+  it('applies include and exclude lists to tool names', () => {
+    expect(buildProposals(analysis, { classification: { include: ['export_*'] } }).map(p => p.name))
+      .toEqual(['export_data']);
+    expect(buildProposals(analysis, { classification: { exclude: ['/^delete_/'] } }).map(p => p.name))
+      .toEqual(['export_data']);
+    expect(buildProposals(analysis, { classification: { exclude: ['AccountSettings'] } })).toEqual([]);
+  });
+
+  it('matches custom rules on the generated tool name', () => {
+    const proposals = buildProposals(analysis, {
+      classification: { customRules: [{ tool: 'export_*', risk: 'caution', reason: 'Exports PII' }] },
+    });
+    expect(proposals[0]).toMatchObject({ risk: 'caution', riskReason: 'Exports PII', riskRule: 'customRules[0]' });
+  });
+});
+
+describe('reviewRiskWithLLM', () => {
+  const analysis: ComponentAnalysis = {
+    fileName: 'DeleteModal.tsx',
+    framework: 'react',
+    components: [{
+      name: 'DeleteModal',
+      type: 'action',
+      stateVariables: [],
+      props: [{ name: 'onConfirm', type: '() => void', callback: true }],
+      elements: [
+        { tag: 'button', id: 'confirm', label: 'Confirm', attributes: { onClick: 'handleConfirm' } },
+        { tag: 'button', id: 'export', label: 'Export', attributes: { onClick: 'handleExport' } },
+      ],
+      eventHandlers: [
+        { name: 'handleConfirm', event: 'onClick', isAsync: false, elementId: 'confirm', body: '() => onConfirm()' },
+        { name: 'handleExport', event: 'onClick', isAsync: false, elementId: 'export',
+          apiCalls: [{ method: 'POST', url: '/api/export' }] },
+      ],
+    }],
+  };
+
+  function fakeLLM(answer: (prompt: string) => unknown): LLMAdapter & { prompts: string[] } {
+    const prompts: string[] = [];
+    return {
+      name: 'fake',
+      prompts,
+      generate: async () => '',
+      generateJSON: async <T>(messages: { content: string }[]) => {
+        prompts.push(messages[messages.length - 1]!.content);
+        return answer(prompts[prompts.length - 1]!) as T;
+      },
+      isAvailable: async () => true,
+    };
+  }
+
+  beforeEach(() => riskCache.clear());
+
+  it('raises a risk the keyword rules missed, with the justification', async () => {
+    const llm = fakeLLM(prompt => prompt.includes('Tool name: confirm')
+      ? { risk: 'destructive', justification: 'Confirms the delete dialog.', confidence: 0.9 }
+      : { risk: 'caution', justification: 'Starts an export.' });
+
+    const [confirm, exported] = await reviewRiskWithLLM(buildProposals(analysis), analysis, llm);
+    expect(confirm).toMatchObject({
+      risk: 'destructive',
+      riskRule: 'llm',
+      riskConfidence: 0.9,
+      selected: false,
+      riskReason: 'Confirms the delete dialog. (LLM review; rules said safe)',
+    });
+    expect(exported).toMatchObject({ risk: 'caution', riskRule: 'http-method:POST' });
+    expect(llm.prompts[0]).toContain('Surrounding component: DeleteModal');
+    expect(llm.prompts[0]).toContain('Props: onConfirm');
+  });
+
+  it('never lowers a rule-based risk', async () => {
+    const llm = fakeLLM(() => ({ risk: 'safe', justification: 'Looks harmless.' }));
+    const proposals = buildProposals(analysis);
+    const reviewed = await reviewRiskWithLLM(proposals, analysis, llm);
+    expect(reviewed.map(p => p.risk)).toEqual(proposals.map(p => p.risk));
+  });
+
+  it('caches reviews and skips custom-rule decisions', async () => {
+    const llm = fakeLLM(() => ({ risk: 'destructive', justification: 'x' }));
+    const config: WebMCPConfig = { classification: { customRules: [{ tool: 'export*', risk: 'caution' }] } };
+    const proposals = buildProposals(analysis, config);
+
+    await reviewRiskWithLLM(proposals, analysis, llm);
+    const again = await reviewRiskWithLLM(proposals, analysis, llm);
+    expect(llm.prompts).toHaveLength(1);
+    expect(again.map(p => p.risk)).toEqual(['destructive', 'caution']);
+  });
+
+  it('keeps the rule-based result on invalid answers, errors and the template adapter', async () => {
+    const proposals = buildProposals(analysis);
+    const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+
+    expect(await reviewRiskWithLLM(proposals, analysis, fakeLLM(() => ({ risk: 'nuclear' })))).toEqual(proposals);
+    expect(await reviewRiskWithLLM(proposals, analysis, fakeLLM(() => { throw new Error('down'); }))).toEqual(proposals);
+    expect(await reviewRiskWithLLM(proposals, analysis, new NoneAdapter())).toBe(proposals);
+    expect(warn).toHaveBeenCalled();
+    warn.mockRestore();
+  });
+});
@@ -0,0 +1,84 @@
+import { describe, it, expect } from 'vitest';
+import { resolve } from 'node:path';
+import {
+    findScanFiles,
+    scanProject,
+    countRisks,
+    buildScanManifest,
+} from '../src/scan/project-scan.js';
+
+const fixturesDir = resolve(__dirname, '../../../tests/fixtures');
+
+describe('findScanFiles', () => {
+    it('matches include globs minus exclude globs, sorted', async () => {
+        const files = await findScanFiles({
+            cwd: fixturesDir,
+            include: ['react/**/*.tsx', 'vue/*.vue'],
+            exclude: ['**/project/**'],
+        });
+        expect(files).toContain('react/ContactForm.tsx');
+        expect(files).toContain('vue/BookingForm.vue');
+        expect(files.some(f => f.includes('project/'))).toBe(false);
+        expect(files).toEqual([...files].sort());
+    });
+});
+
+describe('scanProject', () => {
+    it('parses every file and reports names registered from several files', async () => {
+        const result = await scanProject({
+            cwd: fixturesDir,
+            include: ['react/SettingsPage.tsx', 'svelte/*.svelte', 'html/*.html'],
+            concurrency: 1,
+        });
+
+        expect(result.root).toBe(fixturesDir);
+        expect(result.files.map(f => f.file)).toEqual([
+            'html/contact.html',
+            'html/dashboard.html',
+            'html/orders.html',
+            'react/SettingsPage.tsx',
+            'svelte/ProfileForm.svelte',
+        ]);
+        expect(result.files.find(f => f.file === 'react/SettingsPage.tsx')?.framework).toBe('react');
+
+        const collision = result.collisions.find(c => c.name === 'delete_account');
+        expect(collision?.tools.map(t => t.file)).toEqual(['react/SettingsPage.tsx', 'svelte/ProfileForm.svelte']);
+        expect(result.collisions.every(c => c.tools.length > 1)).toBe(true);
+    });
+
+    it('records files it cannot parse instead of failing the scan', async () => {
+        const result = await scanProject({ cwd: fixturesDir, include: ['react/*.mcp.js', 'react/ContactForm.tsx'], concurrency: 1 });
+        const generated = result.files.find(f => f.file.endsWith('.mcp.js'));
+        expect(generated?.error).toMatch(/Unsupported file type/);
+        expect(generated?.proposals).toEqual([]);
+        expect(result.files.find(f => f.file === 'react/ContactForm.tsx')?.proposals.length).toBeGreaterThan(0);
+    });
+
+    it('applies classification rules from the config', async () => {
+        const result = await scanProject({
+            cwd: fixturesDir,
+            include: ['react/ContactForm.tsx'],
+            concurrency: 1,
+            config: { classification: { customRules: [{ component: 'ContactForm', risk: 'destructive', reason: 'Sends email' }] } },
+        });
+        expect(countRisks(result.files[0]!.proposals)).toEqual({ safe: 0, caution: 0, destructive: 1, excluded: 0 });
+    });
+});
+
+describe('buildScanManifest', () => {
+    it('lists each selected tool with the file and component it came from', async () => {
+        const result = await scanProject({ cwd: fixturesDir, include: ['react/ContactForm.tsx'], concurrency: 1 });
+        const [proposal] = result.files[0]!.proposals;
+        const manifest = buildScanManifest([{ file: 'react/ContactForm.tsx', proposal: proposal! }]);
+        expect(manifest.tools).toEqual([{
+            id: proposal!.id,
+            name: proposal!.name,
+            description: proposal!.description,
+            file: 'react/ContactForm.tsx',
+            component: 'ContactForm',
+            kind: proposal!.kind,
+            risk: proposal!.risk,
+            inputSchema: proposal!.inputSchema,
+        }]);
+    });
+});
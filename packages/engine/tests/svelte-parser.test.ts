@@ -0,0 +1,96 @@
+import { describe, it, expect } from 'vitest';
+import { parseFile } from '../src/parser/index.js';
+import { buildProposals } from '../src/proposal/index.js';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+
+const fixturesDir = resolve(__dirname, '../../../tests/fixtures/svelte');
+
+// ── ProfileForm.svelte ────────────────────────────────────────
+
+describe('Svelte parser — ProfileForm.svelte', () => {
+    const source = readFileSync(resolve(fixturesDir, 'ProfileForm.svelte'), 'utf-8');
+    const analysis = parseFile(source, 'ProfileForm.svelte');
+    const component = analysis.components[0]!;
+
+    it('detects framework as svelte', () => {
+        expect(analysis.framework).toBe('svelte');
+        expect(analysis.components).toHaveLength(1);
+        expect(component.type).toBe('form');
+    });
+
+    it('finds inputs with bind:value / bind:checked state bindings', () => {
+        const bound = component.elements
+            .filter(el => el.stateBinding)
+            .map(el => [el.id, el.stateBinding!.variable]);
+        expect(bound).toEqual([
+            ['display-name', 'displayName'],
+            ['email', 'email'],
+            ['timezone', 'timezone'],
+            ['notify', 'notify'],
+        ]);
+    });
+
+    it('resolves labels from for=, wrapping <label> and button text', () => {
+        const label = (id: string) => component.elements.find(el => el.id === id)?.label;
+        expect(label('display-name')).toBe('Display name');
+        expect(label('notify')).toBe('Email me updates');
+        expect(component.elements.find(el => el.inputType === 'submit' || el.attributes['type'] === 'submit')?.label)
+            .toBe('Save profile');
+    });
+
+    it('reads on:submit and on:click handlers with their fetch calls', () => {
+        const submit = component.eventHandlers.find(h => h.event === 'onSubmit');
+        expect(submit?.name).toBe('handleSave');
+        expect(submit?.apiCalls).toEqual([{ url: '/api/profile', method: 'PUT' }]);
+
+        const click = component.eventHandlers.find(h => h.event === 'onClick');
+        expect(click?.name).toBe('deleteAccount');
+        expect(click?.apiCalls).toEqual([{ url: '/api/account', method: 'DELETE' }]);
+    });
+
+    it('enumerates {#each} options and keeps attribute constraints', () => {
+        expect(component.elements.find(el => el.id === 'timezone')?.options)
+            .toEqual(['UTC', 'Europe/Berlin', 'America/New_York']);
+        expect(component.elements.find(el => el.id === 'display-name')?.validation)
+            .toEqual(['required', 'minLength:2']);
+    });
+
+    it('proposes a form tool and a destructive delete action', () => {
+        const proposals = buildProposals(analysis);
+        const save = proposals.find(p => p.name.includes('save'));
+        expect(Object.keys(save!.inputSchema.properties)).toEqual(['display_name', 'email', 'timezone', 'notify']);
+        expect(proposals.find(p => p.name.includes('delete'))?.risk).toBe('destructive');
+    });
+});
+
+describe('Svelte parser — Svelte 5 syntax', () => {
+    const source = `<script>
+  let query = $state('');
+  let items = $state([]);
+  async function search(event) {
+    event.preventDefault();
+    items = await fetch('/api/search?q=' + query).then(r => r.json());
+  }
+</script>
+<form onsubmit={search}>
+  <input type="search" name="q" bind:value={query} aria-label="Search" />
+  <button>Search</button>
+</form>
+<ul aria-label="Results">
+  {#each items as item (item.id)}<li>{item.name}</li>{/each}
+</ul>`;
+    const analysis = parseFile(source, 'Search.svelte');
+    const component = analysis.components[0]!;
+
+    it('reads $state runes and onsubmit attributes', () => {
+        expect(component.stateVariables.map(v => [v.name, v.initialValue])).toEqual([["query", "''"], ['items', '[]']]);
+        expect(component.eventHandlers[0]).toMatchObject({ name: 'search', event: 'onSubmit', isAsync: true });
+    });
+
+    it('finds the results list rendered by {#each}', () => {
+        expect(component.displayRegions).toEqual([
+            expect.objectContaining({ kind: 'list', label: 'Results', dataSource: 'items' }),
+        ]);
+    });
+});
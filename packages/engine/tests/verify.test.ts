@@ -0,0 +1,181 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { mkdtempSync, readFileSync, rmSync, writeFileSync } from 'node:fs';
+import { tmpdir } from 'node:os';
+import { join, resolve } from 'node:path';
+import type { Page } from 'playwright';
+import { sampleParams } from '../src/verify/sample-params.js';
+import { listGeneratedTools, injectRuntime } from '../src/verify/harness.js';
+import { formatJUnitReport } from '../src/verify/report.js';
+import { generateMCPCodeSync } from '../src/generator/code-generator.js';
+import { parseFile } from '../src/parser/index.js';
+import { buildProposals } from '../src/proposal/index.js';
+import Ajv from 'ajv';
+import type { VerifyReport } from '../src/types.js';
+
+const fixturesDir = resolve(__dirname, '../../../tests/fixtures/react');
+
+function loadProposals(fixture: string) {
+    const source = readFileSync(resolve(fixturesDir, fixture), 'utf-8');
+    const analysis = parseFile(source, fixture);
+    return { analysis, proposals: buildProposals(analysis) };
+}
+
+// ── Sample params ─────────────────────────────────────────────
+
+describe('sampleParams', () => {
+    it('satisfies formats, enums and numeric constraints', () => {
+        const params = sampleParams({
+            properties: {
+                email: { type: 'string', description: 'Email', format: 'email' },
+                plan: { type: 'string', description: 'Plan', enum: ['pro', 'free'] },
+                quantity: { type: 'number', description: 'Qty', minimum: 2, maximum: 10, multipleOf: 0.5 },
+                seats: { type: 'integer', description: 'Seats', maximum: 0 },
+                newsletter: { type: 'boolean', description: 'Newsletter' },
+            },
+        });
+        expect(params).toEqual({ email: 'agent@example.com', plan: 'pro', quantity: 2, seats: 0, newsletter: true });
+    });
+
+    it('finds a string that matches the pattern and length limits', () => {
+        const { username, zip } = sampleParams({
+            properties: {
+                username: { type: 'string', description: 'User', pattern: '^[a-z]+$', minLength: 6 },
+                zip: { type: 'string', description: 'Zip', pattern: '^\\d{5}$' },
+            },
+        });
+        expect(username).toBe('agentt');
+        expect(zip).toBe('12345');
+    });
+
+    it('fills array params with one row and picks the first row of row actions', () => {
+        const params = sampleParams({
+            properties: {
+                items: {
+                    type: 'array',
+                    description: 'Line items',
+                    items: { type: 'object', properties: { quantity: { type: 'number', minimum: 1 } } },
+                },
+                row: { type: 'string', description: 'Which users row to act on: its 1-based position, or text shown in it' },
+            },
+        });
+        expect(params).toEqual({ items: [{ quantity: 1 }], row: '1' });
+    });
+
+    it('produces params that satisfy every fixture tool\'s schema', () => {
+        // Formats are covered above; ajv-formats is not a dependency
+        const ajv = new Ajv({ allErrors: true, validateFormats: false });
+        for (const fixture of ['ContactForm.tsx', 'SettingsPage.tsx', 'InvoiceForm.tsx', 'ShippingForm.tsx']) {
+            for (const tool of loadProposals(fixture).proposals) {
+                const validate = ajv.compile(tool.inputSchema);
+                validate(sampleParams(tool.inputSchema));
+                expect(validate.errors ?? [], tool.name).toEqual([]);
+            }
+        }
+    });
+});
+
+// ── Harness helpers ───────────────────────────────────────────
+
+describe('listGeneratedTools', () => {
+    it('reads tool names from either spec shape', () => {
+        const { analysis, proposals } = loadProposals('SettingsPage.tsx');
+        const names = proposals.map(p => p.name);
+        for (const specVersion of ['0.1', '2025-06-18'] as const) {
+            const code = generateMCPCodeSync(proposals, { format: 'iife', framework: analysis.framework, specVersion });
+            expect(listGeneratedTools(code)).toEqual(names);
+        }
+    });
+});
+
+describe('injectRuntime', () => {
+    let runtimeDir: string | undefined;
+    afterEach(() => {
+        if (runtimeDir) rmSync(runtimeDir, { recursive: true, force: true });
+        runtimeDir = undefined;
+    });
+
+    /** Just the Page calls injectRuntime makes; `hasRuntime` is what the page reports */
+    function fakePage(hasRuntime: boolean) {
+        const page = {
+            scripts: [] as unknown[],
+            handler: undefined as ((route: unknown) => Promise<void>) | undefined,
+            evaluate: vi.fn(async () => hasRuntime),
+            url: () => 'http://localhost:3000/settings',
+            route: vi.fn(async (_pattern: string, handler: (route: unknown) => Promise<void>) => { page.handler = handler; }),
+            addScriptTag: vi.fn(async (tag: unknown) => { page.scripts.push(tag); }),
+            waitForFunction: vi.fn(async () => undefined),
+        };
+        return page;
+    }
+
+    function fakeRoute(url: string) {
+        return { request: () => ({ url: () => url }), fulfill: vi.fn(async () => undefined) };
+    }
+
+    it('serves the runtime build from the page origin and loads it as a module', async () => {
+        runtimeDir = mkdtempSync(join(tmpdir(), 'webmcp-runtime-'));
+        writeFileSync(join(runtimeDir, 'index.js'), "import './content.js';");
+        writeFileSync(join(runtimeDir, 'content.js'), 'export const blocks = [];');
+        const page = fakePage(false);
+
+        await injectRuntime(page as unknown as Page, runtimeDir);
+
+        expect(page.scripts).toEqual([{ url: 'http://localhost:3000/__webmcp_verify__/runtime/index.js', type: 'module' }]);
+        expect(page.waitForFunction).toHaveBeenCalled();
+
+        const module = fakeRoute('http://localhost:3000/__webmcp_verify__/runtime/content.js');
+        await page.handler!(module);
+        expect(module.fulfill).toHaveBeenCalledWith({ contentType: 'text/javascript', body: 'export const blocks = [];' });
+
+        const missing = fakeRoute('http://localhost:3000/__webmcp_verify__/runtime/missing.js');
+        await page.handler!(missing);
+        expect(missing.fulfill).toHaveBeenCalledWith({ status: 404 });
+    });
+
+    it('leaves pages that load the runtime themselves alone', async () => {
+        const page = fakePage(true);
+        await injectRuntime(page as unknown as Page, '/unused');
+        expect(page.route).not.toHaveBeenCalled();
+        expect(page.addScriptTag).not.toHaveBeenCalled();
+    });
+
+    it('fails clearly when there is no runtime to inject', async () => {
+        await expect(injectRuntime(fakePage(false) as unknown as Page, undefined)).rejects.toThrow(/no runtime build/);
+    });
+});
+
+// ── Reports ───────────────────────────────────────────────────
+
+describe('formatJUnitReport', () => {
+    const report: VerifyReport = {
+        url: 'http://localhost:3000',
+        timestamp: 0,
+        passed: 1,
+        failed: 1,
+        skipped: 1,
+        results: [
+            { tool: 'save_settings', file: 'src/Settings.mcp.js', status: 'passed', selectors: [], durationMs: 1200 },
+            {
+                tool: 'submit_contact',
+                file: 'src/Contact.mcp.js',
+                status: 'failed',
+                message: 'Selectors did not resolve: #email',
+                params: { email: 'agent@example.com' },
+                selectors: [{ selectors: ['#email'], resolved: false }, { selectors: ['button[type="submit"]'], resolved: true }],
+                durationMs: 500,
+            },
+            { tool: 'delete_account', file: 'src/Settings.mcp.js', status: 'skipped', message: 'Destructive', selectors: [], durationMs: 0 },
+        ],
+    };
+
+    it('groups tools into one suite per file with failures and skips', () => {
+        const xml = formatJUnitReport(report);
+        expect(xml).toContain('<testsuites name="webmcp verify" tests="3" failures="1" skipped="1">');
+        expect(xml).toContain('<testsuite name="src/Settings.mcp.js" tests="2" failures="0" skipped="1" time="1.200">');
+        expect(xml).toContain('<testcase classname="src/Settings.mcp.js" name="save_settings" time="1.200" />');
+        expect(xml).toContain('<failure message="Selectors did not resolve: #email">');
+        expect(xml).toContain('unresolved #email');
+        expect(xml).toContain('resolved   button[type=&quot;submit&quot;]');
+        expect(xml).toContain('<skipped message="Destructive" />');
+    });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import { parseFile } from '../src/parser/index.js';
+import { buildProposals } from '../src/proposal/index.js';
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+
+const fixturesDir = resolve(__dirname, '../../../tests/fixtures/vue');
+
+// ── BookingForm.vue (<script setup>) ──────────────────────────
+
+describe('Vue parser — BookingForm.vue', () => {
+    const source = readFileSync(resolve(fixturesDir, 'BookingForm.vue'), 'utf-8');
+    const analysis = parseFile(source, 'BookingForm.vue');
+    const component = analysis.components[0]!;
+    const byId = (id: string) => component.elements.find(el => el.id === id);
+
+    it('detects framework as vue', () => {
+        expect(analysis.framework).toBe('vue');
+        expect(component.type).toBe('form');
+    });
+
+    it('resolves v-model (with modifiers) to state bindings', () => {
+        const bound = component.elements
+            .filter(el => el.stateBinding)
+            .map(el => [el.id, el.stateBinding!.accessPath]);
+        expect(bound).toEqual([
+            ['guest-name', 'form.guestName'],
+            ['room-type', 'form.roomType'],
+            ['nights', 'form.nights'],
+            ['breakfast', 'form.breakfast'],
+        ]);
+        expect(byId('nights')?.validation).toEqual(['min:1', 'max:14', 'type:number']);
+    });
+
+    it('labels controls from for=, wrapping <label> and button text', () => {
+        expect(byId('guest-name')?.label).toBe('Guest name');
+        expect(byId('nights')?.label).toBe('Nights');
+        expect(byId('breakfast')?.label).toBe('Include breakfast');
+        expect(byId('cancel-booking')?.label).toBe('Cancel booking');
+    });
+
+    it('resolves @submit.prevent and @click to script functions', () => {
+        const submit = component.eventHandlers.find(h => h.event === 'onSubmit');
+        expect(submit).toMatchObject({ name: 'submitBooking', isAsync: true, elementId: 'booking-form' });
+        expect(submit?.apiCalls).toEqual([{ url: '/api/bookings', method: 'POST' }]);
+
+        const click = component.eventHandlers.find(h => h.event === 'onClick');
+        expect(click).toMatchObject({ name: 'cancelBooking', isAsync: true, elementId: 'cancel-booking' });
+        expect(click?.apiCalls).toEqual([{ url: '/api/bookings/current', method: 'DELETE' }]);
+    });
+
+    it('skips trivial inline assignments and never reports unknown events', () => {
+        expect(component.eventHandlers.map(h => h.name)).toEqual(['submitBooking', 'cancelBooking']);
+        expect(component.eventHandlers.every(h => h.event !== 'unknown')).toBe(true);
+    });
+
+    it('expands v-for options from script constants, skipping disabled ones', () => {
+        expect(byId('room-type')?.options).toEqual(['single', 'double', 'suite']);
+    });
+});
+
+// ── TodoList.vue (Options API) ────────────────────────────────
+
+describe('Vue parser — TodoList.vue', () => {
+    const source = readFileSync(resolve(fixturesDir, 'TodoList.vue'), 'utf-8');
+    const analysis = parseFile(source, 'TodoList.vue');
+    const component = analysis.components[0]!;
+
+    it('reads data() as state and methods as handlers', () => {
+        expect(component.stateVariables.map(s => s.name)).toEqual(['newTodo', 'priorities', 'priority', 'todos']);
+
+        const submit = component.eventHandlers.find(h => h.event === 'onSubmit');
+        expect(submit).toMatchObject({ name: 'addTodo', isAsync: true });
+        // addTodo() → this.save() → axios.post
+        expect(submit?.apiCalls).toEqual([{ url: '/api/todos', method: 'POST' }]);
+
+        const click = component.eventHandlers.find(h => h.event === 'onClick');
+        expect(click).toMatchObject({ name: 'clearCompleted', isAsync: true });
+    });
+
+    it('enumerates radio values from a v-for over data()', () => {
+        const radio = component.elements.find(el => el.inputType === 'radio');
+        expect(radio?.options).toEqual(['low', 'normal', 'high']);
+    });
+
+    it('proposes form, destructive action and list query tools', () => {
+        const proposals = buildProposals(analysis);
+        expect(proposals.find(p => p.kind === 'form')?.inputSchema.properties['priority']?.enum)
+            .toEqual(['low', 'normal', 'high']);
+        expect(proposals.find(p => p.name === 'clear_completed')?.risk).toBe('destructive');
+        expect(proposals.find(p => p.kind === 'query')?.name).toBe('list_todo_list');
+    });
+});
@@ -0,0 +1,120 @@
+// ────────────────────────────────────────────────────────────
+// Invocation audit log — bounded, in-memory, redacted
+// Answers "what did the agent do in this session?"
+// ────────────────────────────────────────────────────────────
+
+export interface MCPAuditEntry {
+  /** Monotonic per-runtime invocation id */
+  id: number;
+  tool: string;
+  /** Params as sent by the agent, with sensitive fields masked */
+  params: Record<string, unknown>;
+  startedAt: number;
+  durationMs: number;
+  success: boolean;
+  message?: string;
+}
+
+export interface MCPAuditOptions {
+  /** Entries kept in memory; the oldest are dropped first. Default 100. */
+  maxEntries?: number;
+  /**
+   * Param names to mask in the log and in mcp:* events, at any depth
+   * (row objects in arrays, nested objects, the completed event's result).
+   * Strings match case-insensitively; added to the built-in sensitive names.
+   */
+  redact?: (string | RegExp)[];
+  /** Set false to mask only the `redact` names. Default true. */
+  builtins?: boolean;
+}
+
+export const REDACTED = '[redacted]';
+
+/**
+ * Built-in sensitive names as word sequences. A key matches when its
+ * camelCase / snake_case words contain one in order — `cardNumber` and
+ * `api_key` do, `passenger`, `businessName` and `wildcard` do not.
+ */
+const SENSITIVE_WORDS: string[][] = [
+  ['password'], ['passwd'], ['passcode'], ['passphrase'], ['pwd'],
+  ['secret'], ['token'], ['api', 'key'], ['apikey'],
+  ['card', 'number'], ['card', 'num'], ['cardnumber'], ['cc', 'number'], ['cvv'], ['cvc'],
+  ['ssn'], ['social', 'security'],
+];
+
+function keyWords(key: string): string[] {
+  return key
+    .replace(/([a-z\d])([A-Z])/g, '$1 $2')
+    .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+    .toLowerCase()
+    .split(/[^a-z\d]+/)
+    .filter(Boolean);
+}
+
+function isSensitiveKey(key: string): boolean {
+  const words = keyWords(key);
+  return SENSITIVE_WORDS.some(seq =>
+    words.some((_, i) => seq.every((word, j) => words[i + j] === word)),
+  );
+}
+
+export interface AuditLog {
+  /** A copy with every sensitive key masked, however deeply nested */
+  redact<T>(value: T): T;
+  record(entry: MCPAuditEntry): void;
+  nextId(): number;
+  entries(): MCPAuditEntry[];
+}
+
+export function createAuditLog(options: MCPAuditOptions = {}): AuditLog {
+  const maxEntries = Math.max(1, options.maxEntries ?? 100);
+  const builtins = options.builtins ?? true;
+  const patterns = [
+    ...(options.redact ?? []).map(r =>
+      typeof r === 'string' ? new RegExp(`^${r.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')}$`, 'i') : r,
+    ),
+  ];
+  const log: MCPAuditEntry[] = [];
+  let counter = 0;
+
+  // Only arrays and plain objects are copied; `path` holds the ones being copied, to stop cycles
+  function redactValue(value: unknown, path: WeakSet<object>): unknown {
+    if (typeof value !== 'object' || value === null || path.has(value)) return value;
+    if (Array.isArray(value)) {
+      path.add(value);
+      const out = value.map(item => redactValue(item, path));
+      path.delete(value);
+      return out;
+    }
+    const proto = Object.getPrototypeOf(value);
+    if (proto !== Object.prototype && proto !== null) return value;
+
+    path.add(value);
+    const out: Record<string, unknown> = {};
+    for (const [key, inner] of Object.entries(value)) {
+      const sensitive = (builtins && isSensitiveKey(key)) || patterns.some(p => p.test(key));
+      out[key] = sensitive ? REDACTED : redactValue(inner, path);
+    }
+    path.delete(value);
+    return out;
+  }
+
+  return {
+    redact<T>(value: T): T {
+      return redactValue(value ?? {}, new WeakSet()) as T;
+    },
+
+    nextId() {
+      return ++counter;
+    },
+
+    record(entry) {
+      log.push(entry);
+      if (log.length > maxEntries) log.splice(0, log.length - maxEntries);
+    },
+
+    entries() {
+      return log.map(e => ({ ...e, params: { ...e.params } }));
+    },
+  };
+}
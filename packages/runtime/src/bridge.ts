@@ -0,0 +1,101 @@
+// ────────────────────────────────────────────────────────────
+// Bridge client — exposes this page's tools to a local
+// webmcp-bridge over WebSocket, so desktop MCP clients can
+// list and call them. Opt-in: nothing connects by default.
+// ────────────────────────────────────────────────────────────
+
+import type { MCPRuntime } from './index.js';
+
+export interface MCPBridgeOptions {
+  /** Default ws://127.0.0.1:7340 */
+  url?: string;
+  /** Delay before reconnecting when the bridge is not running or goes away; 0 disables. Default 2000 */
+  reconnectMs?: number;
+}
+
+type BridgeRequest =
+  | { type: 'list'; id: number }
+  | { type: 'call'; id: number; name: string; params: Record<string, unknown> };
+
+const DEFAULT_BRIDGE_URL = 'ws://127.0.0.1:7340';
+const TOOL_EVENTS = ['mcp:tool-registered', 'mcp:tool-unregistered'];
+
+/**
+ * Connect the runtime to a webmcp-bridge. The bridge's tools/list is
+ * answered from getTools(), tools/call from callTool() — so validation,
+ * confirmation and the audit log apply as for in-page agents.
+ * Returns a function that disconnects for good.
+ */
+export function connectBridge(runtime: MCPRuntime, options: MCPBridgeOptions = {}): () => void {
+  const url = options.url ?? DEFAULT_BRIDGE_URL;
+  const reconnectMs = options.reconnectMs ?? 2000;
+  let socket: WebSocket | undefined;
+  let retry: ReturnType<typeof setTimeout> | undefined;
+  let stopped = false;
+
+  const send = (message: unknown) => {
+    if (socket?.readyState === WebSocket.OPEN) socket.send(JSON.stringify(message));
+  };
+  const onToolsChanged = () => send({ type: 'tools-changed' });
+
+  async function answer(request: BridgeRequest): Promise<void> {
+    try {
+      const result = request.type === 'list'
+        ? listTools(runtime)
+        : await runtime.callTool(request.name, request.params ?? {});
+      send({ type: 'result', id: request.id, result });
+    } catch (err) {
+      send({ type: 'error', id: request.id, message: err instanceof Error ? err.message : String(err) });
+    }
+  }
+
+  function open(): void {
+    socket = new WebSocket(url);
+    socket.addEventListener('open', () => {
+      send({
+        type: 'hello',
+        url: typeof location !== 'undefined' ? location.href : undefined,
+        title: typeof document !== 'undefined' ? document.title : undefined,
+      });
+    });
+    socket.addEventListener('message', (event) => {
+      let request: BridgeRequest;
+      try {
+        request = JSON.parse(String(event.data));
+      } catch {
+        return;
+      }
+      if (request.type === 'list' || request.type === 'call') void answer(request);
+    });
+    socket.addEventListener('close', () => {
+      socket = undefined;
+      if (!stopped && reconnectMs > 0) retry = setTimeout(open, reconnectMs);
+    });
+  }
+
+  if (typeof window !== 'undefined') {
+    for (const type of TOOL_EVENTS) window.addEventListener(type, onToolsChanged);
+  }
+  open();
+
+  return () => {
+    stopped = true;
+    clearTimeout(retry);
+    socket?.close();
+    if (typeof window !== 'undefined') {
+      for (const type of TOOL_EVENTS) window.removeEventListener(type, onToolsChanged);
+    }
+  };
+}
+
+/** The serializable part of each tool; a bare `risk` becomes a destructive hint */
+function listTools(runtime: MCPRuntime) {
+  return runtime.getTools().map(tool => ({
+    name: tool.name,
+    description: tool.description,
+    inputSchema: tool.inputSchema,
+    outputSchema: tool.outputSchema,
+    risk: tool.risk,
+    annotations: tool.annotations ?? (tool.risk === 'destructive' ? { destructiveHint: true } : undefined),
+  }));
+}
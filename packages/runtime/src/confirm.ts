@@ -0,0 +1,66 @@
+// ────────────────────────────────────────────────────────────
+// Human-in-the-loop confirmation — default in-page modal
+// Shown before a destructive tool runs. Resolves true only
+// when the user explicitly clicks "Allow".
+// ────────────────────────────────────────────────────────────
+
+export interface MCPConfirmRequest {
+  name: string;
+  description: string;
+  risk: 'safe' | 'caution' | 'destructive';
+  params: Record<string, unknown>;
+}
+
+export type MCPConfirmHandler = (request: MCPConfirmRequest) => boolean | Promise<boolean>;
+
+/**
+ * Default confirmation UI. Renders a blocking overlay with Allow / Deny.
+ * Outside a browser there is nobody to ask, so the call is denied.
+ */
+export const confirmWithModal: MCPConfirmHandler = (request) => {
+  if (typeof document === 'undefined' || !document.body) return false;
+
+  return new Promise<boolean>((resolve) => {
+    const overlay = document.createElement('div');
+    overlay.setAttribute('data-mcp-confirm', request.name);
+    overlay.setAttribute('role', 'alertdialog');
+    overlay.setAttribute('aria-modal', 'true');
+    overlay.style.cssText =
+      'position:fixed;inset:0;z-index:2147483647;display:flex;align-items:center;' +
+      'justify-content:center;background:rgba(0,0,0,.5);font:14px system-ui,sans-serif';
+
+    const box = document.createElement('div');
+    box.style.cssText =
+      'background:#fff;color:#111;max-width:420px;padding:20px;border-radius:8px;' +
+      'box-shadow:0 10px 30px rgba(0,0,0,.3)';
+
+    const title = document.createElement('strong');
+    title.textContent = `An AI agent wants to run "${request.name}"`;
+
+    const desc = document.createElement('p');
+    desc.textContent = `${request.description} — this action is marked ${request.risk}.`;
+
+    const params = document.createElement('pre');
+    params.style.cssText = 'background:#f4f4f4;padding:8px;overflow:auto;max-height:160px';
+    params.textContent = JSON.stringify(request.params, null, 2);
+
+    const deny = document.createElement('button');
+    deny.textContent = 'Deny';
+    const allow = document.createElement('button');
+    allow.textContent = 'Allow';
+    allow.style.cssText = 'margin-left:8px;background:#c62828;color:#fff';
+
+    const finish = (allowed: boolean) => {
+      overlay.remove();
+      resolve(allowed);
+    };
+    deny.addEventListener('click', () => finish(false));
+    allow.addEventListener('click', () => finish(true));
+
+    box.append(title, desc, params, deny, allow);
+    overlay.appendChild(box);
+    document.body.appendChild(overlay);
+    // Focus the safe choice so a stray Enter never approves
+    deny.focus();
+  });
+};
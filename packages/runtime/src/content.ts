@@ -0,0 +1,73 @@
+// ────────────────────────────────────────────────────────────
+// MCP content blocks — conversion between the runtime's
+// { success, message, data } results and MCP CallToolResult.
+// ────────────────────────────────────────────────────────────
+
+import type { MCPToolResult } from './index.js';
+
+export type MCPContentBlock =
+  | { type: 'text'; text: string }
+  | { type: 'image'; data: string; mimeType: string };
+
+/** A tool result as MCP clients expect it */
+export interface MCPCallToolResult {
+  content: MCPContentBlock[];
+  /** Machine-readable result; matches the tool's outputSchema when it declares one */
+  structuredContent?: Record<string, unknown>;
+  isError?: boolean;
+}
+
+export function isCallToolResult(value: unknown): value is MCPCallToolResult {
+  return typeof value === 'object' && value !== null && Array.isArray((value as MCPCallToolResult).content);
+}
+
+/**
+ * `message` becomes the first text block; `data` is added as JSON text and,
+ * when it is an object, as `structuredContent`.
+ */
+export function toCallToolResult(result: MCPToolResult): MCPCallToolResult {
+  const content: MCPContentBlock[] = [
+    { type: 'text', text: result.message || (result.success ? 'Done' : 'Failed') },
+  ];
+  const converted: MCPCallToolResult = { content, isError: !result.success };
+
+  if (result.data !== undefined) {
+    content.push({ type: 'text', text: JSON.stringify(result.data) });
+    if (isPlainObject(result.data)) converted.structuredContent = result.data;
+  }
+  return converted;
+}
+
+/**
+ * `isError` decides `success`; the first text block is the message and
+ * `structuredContent` (or the remaining blocks) the data.
+ */
+export function fromCallToolResult(result: MCPCallToolResult): MCPToolResult {
+  const texts = result.content.filter((block): block is { type: 'text'; text: string } => block.type === 'text');
+  const [first, ...rest] = texts;
+
+  let data: unknown = result.structuredContent;
+  if (data === undefined && rest.length > 0) {
+    data = rest.length === 1 ? parseJSON(rest[0]!.text) : rest.map(block => parseJSON(block.text));
+  }
+  if (data === undefined && result.content.some(block => block.type !== 'text')) {
+    data = result.content;
+  }
+
+  const converted: MCPToolResult = { success: !result.isError };
+  if (first) converted.message = first.text;
+  if (data !== undefined) converted.data = data;
+  return converted;
+}
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function parseJSON(text: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch {
+    return text;
+  }
+}
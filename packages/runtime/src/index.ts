@@ -1,47 +1,187 @@
 // ────────────────────────────────────────────────────────────
 // webmcp-instrument-runtime — Browser-side WebMCP Runtime
 // ────────────────────────────────────────────────────────────
-// Provides window.mcp with registerTool(), getTools(), invokeTool()
-// Size target: <2KB minified+gzipped
+// Provides window.mcp with registerTool(), unregisterTool(), getTools(),
+// invokeTool(), callTool() and getAuditLog(); connectBridge() exposes
+// them to a local webmcp-bridge
+// ~4KB minified+gzipped, bridge client included
 // ────────────────────────────────────────────────────────────
 
+import { validateParams } from './validation.js';
+import { confirmWithModal, type MCPConfirmHandler } from './confirm.js';
+import { createAuditLog, type MCPAuditEntry, type MCPAuditOptions } from './audit.js';
+import { fromCallToolResult, isCallToolResult, toCallToolResult, type MCPCallToolResult } from './content.js';
+
+export { validateParams, type MCPValidationError } from './validation.js';
+export { confirmWithModal, type MCPConfirmHandler, type MCPConfirmRequest } from './confirm.js';
+export { REDACTED, type MCPAuditEntry, type MCPAuditOptions } from './audit.js';
+export { connectBridge, type MCPBridgeOptions } from './bridge.js';
+export {
+  toCallToolResult,
+  fromCallToolResult,
+  isCallToolResult,
+  type MCPCallToolResult,
+  type MCPContentBlock,
+} from './content.js';
+
 export interface MCPToolResult {
   success: boolean;
   message?: string;
   data?: unknown;
 }
 
+/** Risk level assigned by the engine's classifier */
+export type MCPToolRisk = 'safe' | 'caution' | 'destructive';
+
+/** MCP tool annotations — hints about what calling the tool does */
+export interface MCPToolAnnotations {
+  title?: string;
+  readOnlyHint?: boolean;
+  destructiveHint?: boolean;
+  idempotentHint?: boolean;
+  openWorldHint?: boolean;
+}
+
 export interface MCPTool {
+  /** Stable id of the engine's proposal; survives renames */
+  id?: string;
   name: string;
   description: string;
+  risk?: MCPToolRisk;
+  annotations?: MCPToolAnnotations;
   inputSchema: {
     type: 'object';
     properties: Record<string, unknown>;
     required?: string[];
   };
-  handler: (params: Record<string, unknown>) => Promise<MCPToolResult> | MCPToolResult;
+  /** Schema of `structuredContent` in the tool's results */
+  outputSchema?: {
+    type: 'object';
+    properties?: Record<string, unknown>;
+    required?: string[];
+  };
+  /** May return either result shape; invokeTool() and callTool() convert as needed */
+  handler: (params: Record<string, unknown>) =>
+    Promise<MCPToolResult | MCPCallToolResult> | MCPToolResult | MCPCallToolResult;
 }
 
+/** Returned by registerTool — removes that exact registration */
+export type MCPToolDisposer = () => void;
+
 export interface MCPRuntime {
-  registerTool(tool: MCPTool): void;
+  registerTool(tool: MCPTool): MCPToolDisposer;
+  unregisterTool(name: string): boolean;
   getTools(): MCPTool[];
   invokeTool(name: string, params: Record<string, unknown>): Promise<MCPToolResult>;
+  /** invokeTool() with the result as MCP content blocks */
+  callTool(name: string, params: Record<string, unknown>): Promise<MCPCallToolResult>;
+  /** Recent invocations, oldest first, with sensitive params redacted */
+  getAuditLog(): MCPAuditEntry[];
   readonly version: string;
 }
 
+export interface MCPRuntimeOptions {
+  /**
+   * Asked before any destructive tool runs. Return false to deny the call.
+   * Defaults to an in-page modal.
+   */
+  confirm?: MCPConfirmHandler;
+  /** Size and redaction settings for the invocation audit log */
+  audit?: MCPAuditOptions;
+}
+
 const VERSION = '0.1.0';
 
 /**
  * Create the MCP runtime instance.
  * Can be used standalone in tests or auto-attached to window.
  */
-export function createMCPRuntime(): MCPRuntime {
+export function createMCPRuntime(options: MCPRuntimeOptions = {}): MCPRuntime {
   const tools = new Map<string, MCPTool>();
+  const confirm = options.confirm ?? confirmWithModal;
+  const audit = createAuditLog(options.audit);
+
+  function emit(type: string, detail: Record<string, unknown>): void {
+    if (typeof window !== 'undefined') {
+      window.dispatchEvent(new CustomEvent(type, { detail }));
+    }
+  }
+
+  function removeTool(name: string): boolean {
+    if (!tools.delete(name)) return false;
+    emit('mcp:tool-unregistered', { name });
+    return true;
+  }
+
+  async function runTool(tool: MCPTool, params: Record<string, unknown>): Promise<MCPToolResult> {
+    const { name } = tool;
+
+    // Reject malformed params before the handler touches the DOM
+    const errors = validateParams(tool.inputSchema, params);
+    if (errors.length > 0) {
+      return {
+        success: false,
+        message: `Invalid parameters for "${name}": ${errors.map(e => `${e.field} ${e.message}`).join('; ')}`,
+        data: { errors },
+      };
+    }
+
+    // Human-in-the-loop gate: destructive tools never run unattended
+    if (tool.risk === 'destructive' || tool.annotations?.destructiveHint === true) {
+      let allowed = false;
+      try {
+        allowed = await confirm({ name, description: tool.description, risk: 'destructive', params });
+      } catch {
+        allowed = false;
+      }
+      if (!allowed) {
+        return { success: false, message: `User denied destructive tool "${name}"` };
+      }
+    }
+
+    try {
+      const result = await tool.handler(params);
+      return isCallToolResult(result) ? fromCallToolResult(result) : result;
+    } catch (err) {
+      return {
+        success: false,
+        message: err instanceof Error ? err.message : String(err),
+      };
+    }
+  }
+
+  async function invokeTool(name: string, params: Record<string, unknown>): Promise<MCPToolResult> {
+    const tool = tools.get(name);
+    if (!tool) {
+      throw new Error(`[WebMCP] Tool "${name}" not found. Available: ${Array.from(tools.keys()).join(', ')}`);
+    }
+
+    const id = audit.nextId();
+    const safeParams = audit.redact(params);
+    const startedAt = Date.now();
+    emit('mcp:tool-invoked', { id, name, params: safeParams, startedAt });
+
+    const result = await runTool(tool, params);
+
+    const durationMs = Date.now() - startedAt;
+    audit.record({
+      id,
+      tool: name,
+      params: safeParams,
+      startedAt,
+      durationMs,
+      success: result.success,
+      message: result.message,
+    });
+    emit('mcp:tool-completed', { id, name, params: safeParams, durationMs, success: result.success, result: audit.redact(result) });
+
+    return result;
+  }
 
   return {
     version: VERSION,
 
-    registerTool(tool: MCPTool): void {
+    registerTool(tool: MCPTool): MCPToolDisposer {
       if (!tool.name || typeof tool.name !== 'string') {
         throw new Error('[WebMCP] Tool must have a non-empty string "name"');
       }
@@ -54,35 +194,39 @@ export function createMCPRuntime(): MCPRuntime {
       tools.set(tool.name, tool);
 
       // Notify listeners
-      if (typeof window !== 'undefined') {
-        window.dispatchEvent(
-          new CustomEvent('mcp:tool-registered', { detail: { name: tool.name } }),
-        );
-      }
+      emit('mcp:tool-registered', { name: tool.name });
+
+      // Only remove this registration — a later overwrite under the same name survives
+      return () => {
+        if (tools.get(tool.name) === tool) removeTool(tool.name);
+      };
+    },
+
+    unregisterTool(name: string): boolean {
+      return removeTool(name);
     },
 
     getTools(): MCPTool[] {
       return Array.from(tools.values()).map(t => ({
+        id: t.id,
         name: t.name,
         description: t.description,
+        risk: t.risk,
+        annotations: t.annotations,
         inputSchema: t.inputSchema,
+        outputSchema: t.outputSchema,
         handler: t.handler,
       }));
     },
 
-    async invokeTool(name: string, params: Record<string, unknown>): Promise<MCPToolResult> {
-      const tool = tools.get(name);
-      if (!tool) {
-        throw new Error(`[WebMCP] Tool "${name}" not found. Available: ${Array.from(tools.keys()).join(', ')}`);
-      }
-      try {
-        return await tool.handler(params);
-      } catch (err) {
-        return {
-          success: false,
-          message: err instanceof Error ? err.message : String(err),
-        };
-      }
+    invokeTool,
+
+    async callTool(name: string, params: Record<string, unknown>): Promise<MCPCallToolResult> {
+      return toCallToolResult(await invokeTool(name, params));
+    },
+
+    getAuditLog(): MCPAuditEntry[] {
+      return audit.entries();
     },
   };
 }
@@ -0,0 +1,150 @@
+// ────────────────────────────────────────────────────────────
+// Input-schema validation — runs before a tool handler executes
+// Covers the subset of JSON Schema the engine emits:
+// required, type, enum, length / range bounds, multipleOf,
+// pattern, and array items / nested object properties.
+// `format` is advisory and not enforced.
+// ────────────────────────────────────────────────────────────
+
+export interface MCPValidationError {
+  field: string;
+  message: string;
+}
+
+interface PropertySchema {
+  type?: string;
+  enum?: unknown[];
+  minLength?: number;
+  maxLength?: number;
+  minimum?: number;
+  maximum?: number;
+  multipleOf?: number;
+  pattern?: string;
+  items?: PropertySchema;
+  properties?: Record<string, unknown>;
+  required?: string[];
+}
+
+/**
+ * Check params against a tool's inputSchema.
+ * Returns one entry per failing field; an empty array means valid.
+ */
+export function validateParams(
+  schema: { properties: Record<string, unknown>; required?: string[] },
+  params: Record<string, unknown>,
+): MCPValidationError[] {
+  const errors: MCPValidationError[] = [];
+  checkObject(schema, params ?? {}, '', errors);
+  return errors;
+}
+
+/** Nested fields are reported by path: `items[1].quantity` */
+function checkObject(
+  schema: { properties?: Record<string, unknown>; required?: string[] },
+  input: Record<string, unknown>,
+  path: string,
+  errors: MCPValidationError[],
+): void {
+  for (const field of schema.required ?? []) {
+    if (input[field] === undefined) {
+      errors.push({ field: path + field, message: 'is required' });
+    }
+  }
+
+  for (const [field, raw] of Object.entries(schema.properties ?? {})) {
+    const value = input[field];
+    if (value === undefined) continue;
+    checkValue(value, (raw ?? {}) as PropertySchema, path + field, errors);
+  }
+}
+
+function checkValue(value: unknown, prop: PropertySchema, field: string, errors: MCPValidationError[]): void {
+  if (prop.type && !matchesType(value, prop.type)) {
+    errors.push({ field, message: `expected ${prop.type}, got ${describeType(value)}` });
+    return;
+  }
+
+  if (Array.isArray(prop.enum) && !prop.enum.includes(value)) {
+    errors.push({
+      field,
+      message: `must be one of: ${prop.enum.map(v => JSON.stringify(v)).join(', ')}`,
+    });
+    return;
+  }
+
+  if (Array.isArray(value) && prop.items) {
+    value.forEach((item, i) => checkValue(item, prop.items!, `${field}[${i}]`, errors));
+    return;
+  }
+  if (prop.type === 'object' && prop.properties) {
+    checkObject(prop, value as Record<string, unknown>, `${field}.`, errors);
+    return;
+  }
+
+  const message = checkConstraints(value, prop);
+  if (message) errors.push({ field, message });
+}
+
+function checkConstraints(value: unknown, prop: PropertySchema): string | undefined {
+  if (typeof value === 'string') {
+    if (prop.minLength !== undefined && value.length < prop.minLength) {
+      return `must be at least ${prop.minLength} characters`;
+    }
+    if (prop.maxLength !== undefined && value.length > prop.maxLength) {
+      return `must be at most ${prop.maxLength} characters`;
+    }
+    if (prop.pattern !== undefined && !matchesPattern(value, prop.pattern)) {
+      return `must match pattern ${prop.pattern}`;
+    }
+  }
+
+  if (typeof value === 'number') {
+    if (prop.minimum !== undefined && value < prop.minimum) return `must be >= ${prop.minimum}`;
+    if (prop.maximum !== undefined && value > prop.maximum) return `must be <= ${prop.maximum}`;
+    if (prop.multipleOf !== undefined && prop.multipleOf > 0) {
+      // Tolerate float noise such as 0.3 / 0.1 = 2.9999999999999996
+      const ratio = value / prop.multipleOf;
+      if (Math.abs(ratio - Math.round(ratio)) > 1e-9) return `must be a multiple of ${prop.multipleOf}`;
+    }
+  }
+
+  return undefined;
+}
+
+function matchesPattern(value: string, pattern: string): boolean {
+  try {
+    return new RegExp(pattern, 'u').test(value);
+  } catch {
+    // A pattern this engine can't compile shouldn't block the call
+    return true;
+  }
+}
+
+function matchesType(value: unknown, type: string): boolean {
+  switch (type) {
+    case 'string':
+      return typeof value === 'string';
+    case 'number':
+      return typeof value === 'number' && Number.isFinite(value);
+    case 'integer':
+      return typeof value === 'number' && Number.isInteger(value);
+    case 'boolean':
+      return typeof value === 'boolean';
+    case 'array':
+      return Array.isArray(value);
+    case 'object':
+      return typeof value === 'object' && value !== null && !Array.isArray(value);
+    case 'null':
+      return value === null;
+    default:
+      // Unknown keyword — don't block the call on something we can't check
+      return true;
+  }
+}
+
+function describeType(value: unknown): string {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  if (typeof value === 'string') return `string ${JSON.stringify(value)}`;
+  return typeof value;
+}
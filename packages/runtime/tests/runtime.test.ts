@@ -1,5 +1,11 @@
-import { describe, it, expect, beforeEach } from 'vitest';
-import { createMCPRuntime, type MCPRuntime } from '../src/index.js';
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import {
+  createMCPRuntime,
+  connectBridge,
+  toCallToolResult,
+  fromCallToolResult,
+  type MCPRuntime,
+} from '../src/index.js';
 
 describe('MCPRuntime', () => {
   let runtime: MCPRuntime;
@@ -108,4 +114,494 @@ describe('MCPRuntime', () => {
       }),
     ).toThrow('handler');
   });
+
+  describe('input validation', () => {
+    let calls: number;
+
+    beforeEach(() => {
+      calls = 0;
+      runtime.registerTool({
+        name: 'settings',
+        description: 'Update settings',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            email: { type: 'string' },
+            newsletter: { type: 'boolean' },
+            age: { type: 'integer' },
+            plan: { type: 'string', enum: ['free', 'pro'] },
+            username: { type: 'string', minLength: 3, maxLength: 8, pattern: '^[a-z]+$' },
+            quantity: { type: 'number', minimum: 1, maximum: 10, multipleOf: 0.5 },
+          },
+          required: ['email'],
+        },
+        handler: async () => {
+          calls++;
+          return { success: true };
+        },
+      });
+    });
+
+    it('runs the handler when params match the schema', async () => {
+      const result = await runtime.invokeTool('settings', {
+        email: 'a@b.co',
+        newsletter: true,
+        age: 30,
+        plan: 'pro',
+      });
+      expect(result.success).toBe(true);
+      expect(calls).toBe(1);
+    });
+
+    it('reports missing required fields without running the handler', async () => {
+      const result = await runtime.invokeTool('settings', { newsletter: false });
+      expect(result.success).toBe(false);
+      expect(result.data).toEqual({ errors: [{ field: 'email', message: 'is required' }] });
+      expect(calls).toBe(0);
+    });
+
+    it('reports every field with a wrong JSON type', async () => {
+      const result = await runtime.invokeTool('settings', {
+        email: 'a@b.co',
+        newsletter: 'true',
+        age: 2.5,
+      });
+      expect(result.success).toBe(false);
+      const errors = (result.data as { errors: { field: string }[] }).errors;
+      expect(errors.map(e => e.field)).toEqual(['newsletter', 'age']);
+      expect(result.message).toContain('newsletter expected boolean, got string "true"');
+    });
+
+    it('enforces length, pattern and numeric bounds', async () => {
+      const result = await runtime.invokeTool('settings', {
+        email: 'a@b.co',
+        username: 'Ab',
+        quantity: 10.25,
+      });
+      expect(result.success).toBe(false);
+      expect((result.data as { errors: unknown[] }).errors).toEqual([
+        { field: 'username', message: 'must be at least 3 characters' },
+        { field: 'quantity', message: 'must be <= 10' },
+      ]);
+
+      const ok = await runtime.invokeTool('settings', { email: 'a@b.co', username: 'abc', quantity: 0.5 * 7 });
+      expect(ok.success).toBe(true);
+
+      const bad = await runtime.invokeTool('settings', { email: 'a@b.co', username: 'ABCD', quantity: 2.2 });
+      expect(bad.message).toContain('username must match pattern ^[a-z]+$');
+      expect(bad.message).toContain('quantity must be a multiple of 0.5');
+    });
+
+    it('rejects values outside an enum', async () => {
+      const result = await runtime.invokeTool('settings', { email: 'a@b.co', plan: 'enterprise' });
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('plan must be one of: "free", "pro"');
+      expect(calls).toBe(0);
+    });
+
+    it('checks each row of an array of objects by path', async () => {
+      runtime.registerTool({
+        name: 'invoice',
+        description: 'Create an invoice',
+        inputSchema: {
+          type: 'object',
+          properties: {
+            items: {
+              type: 'array',
+              items: {
+                type: 'object',
+                properties: { description: { type: 'string' }, quantity: { type: 'number', minimum: 1 } },
+                required: ['description'],
+              },
+            },
+          },
+        },
+        handler: async () => ({ success: true }),
+      });
+
+      const result = await runtime.invokeTool('invoice', {
+        items: [{ description: 'Widget', quantity: 2 }, { quantity: 0 }, 'Gadget'],
+      });
+      expect((result.data as { errors: unknown[] }).errors).toEqual([
+        { field: 'items[1].description', message: 'is required' },
+        { field: 'items[1].quantity', message: 'must be >= 1' },
+        { field: 'items[2]', message: 'expected object, got string "Gadget"' },
+      ]);
+    });
+  });
+
+  describe('destructive confirmation', () => {
+    const deleteTool = (onRun: () => void) => ({
+      name: 'delete_account',
+      description: 'Delete the account',
+      risk: 'destructive' as const,
+      inputSchema: { type: 'object' as const, properties: {}, required: [] as string[] },
+      handler: async () => {
+        onRun();
+        return { success: true };
+      },
+    });
+
+    it('asks before running a destructive tool and runs it when allowed', async () => {
+      const requests: unknown[] = [];
+      let ran = false;
+      const rt = createMCPRuntime({ confirm: (req) => { requests.push(req); return true; } });
+      rt.registerTool(deleteTool(() => { ran = true; }));
+
+      const result = await rt.invokeTool('delete_account', {});
+      expect(result.success).toBe(true);
+      expect(ran).toBe(true);
+      expect(requests).toEqual([
+        { name: 'delete_account', description: 'Delete the account', risk: 'destructive', params: {} },
+      ]);
+    });
+
+    it('asks before running a tool annotated as destructive', async () => {
+      let asked = false;
+      const rt = createMCPRuntime({ confirm: () => { asked = true; return false; } });
+      const { risk: _risk, ...tool } = deleteTool(() => {});
+      rt.registerTool({ ...tool, annotations: { destructiveHint: true } });
+
+      expect((await rt.invokeTool('delete_account', {})).success).toBe(false);
+      expect(asked).toBe(true);
+    });
+
+    it('does not run the handler when the user denies', async () => {
+      let ran = false;
+      const rt = createMCPRuntime({ confirm: async () => false });
+      rt.registerTool(deleteTool(() => { ran = true; }));
+
+      const result = await rt.invokeTool('delete_account', {});
+      expect(result.success).toBe(false);
+      expect(result.message).toContain('denied');
+      expect(ran).toBe(false);
+    });
+
+    it('denies when the confirm callback throws', async () => {
+      const rt = createMCPRuntime({ confirm: () => { throw new Error('no UI'); } });
+      rt.registerTool(deleteTool(() => {}));
+      expect((await rt.invokeTool('delete_account', {})).success).toBe(false);
+    });
+
+    it('denies by default when there is no document to show a modal in', async () => {
+      runtime.registerTool(deleteTool(() => {}));
+      expect((await runtime.invokeTool('delete_account', {})).success).toBe(false);
+    });
+
+    it('does not ask for non-destructive tools', async () => {
+      let asked = false;
+      const rt = createMCPRuntime({ confirm: () => { asked = true; return false; } });
+      rt.registerTool({ ...deleteTool(() => {}), name: 'save', risk: 'caution' });
+
+      expect((await rt.invokeTool('save', {})).success).toBe(true);
+      expect(asked).toBe(false);
+    });
+
+    it('exposes risk and id through getTools()', () => {
+      runtime.registerTool({ ...deleteTool(() => {}), id: 'a1b2c3' });
+      expect(runtime.getTools()[0]).toMatchObject({ id: 'a1b2c3', risk: 'destructive' });
+    });
+  });
+
+  describe('content blocks', () => {
+    const readTool = {
+      name: 'list_orders',
+      description: 'Read the orders table',
+      annotations: { readOnlyHint: true },
+      inputSchema: { type: 'object' as const, properties: {}, required: [] as string[] },
+      outputSchema: { type: 'object' as const, properties: { count: { type: 'integer' } } },
+      handler: async () => ({
+        content: [{ type: 'text' as const, text: 'Read 2 orders' }, { type: 'text' as const, text: '{"count":2}' }],
+        structuredContent: { count: 2 },
+        isError: false,
+      }),
+    };
+
+    it('converts a result into text blocks and structuredContent', () => {
+      expect(toCallToolResult({ success: true, message: 'Saved', data: { id: 7 } })).toEqual({
+        content: [{ type: 'text', text: 'Saved' }, { type: 'text', text: '{"id":7}' }],
+        structuredContent: { id: 7 },
+        isError: false,
+      });
+      expect(toCallToolResult({ success: false })).toEqual({
+        content: [{ type: 'text', text: 'Failed' }],
+        isError: true,
+      });
+    });
+
+    it('converts content blocks back into a result', () => {
+      expect(fromCallToolResult({ content: [{ type: 'text', text: 'Saved' }, { type: 'text', text: '[1,2]' }] }))
+        .toEqual({ success: true, message: 'Saved', data: [1, 2] });
+      expect(fromCallToolResult({ content: [{ type: 'text', text: 'boom' }], isError: true }))
+        .toEqual({ success: false, message: 'boom' });
+    });
+
+    it('invokeTool() returns a handler\'s content blocks as a result', async () => {
+      runtime.registerTool(readTool);
+      expect(await runtime.invokeTool('list_orders', {})).toEqual({
+        success: true,
+        message: 'Read 2 orders',
+        data: { count: 2 },
+      });
+      expect(runtime.getAuditLog()[0]).toMatchObject({ success: true, message: 'Read 2 orders' });
+    });
+
+    it('callTool() returns content blocks for either handler shape', async () => {
+      runtime.registerTool(readTool);
+      runtime.registerTool({
+        name: 'save',
+        description: 'Save',
+        inputSchema: { type: 'object', properties: {}, required: [] },
+        handler: async () => ({ success: true, message: 'Saved' }),
+      });
+
+      expect(await runtime.callTool('list_orders', {})).toMatchObject({ structuredContent: { count: 2 }, isError: false });
+      expect(await runtime.callTool('save', {})).toEqual({ content: [{ type: 'text', text: 'Saved' }], isError: false });
+    });
+
+    it('exposes annotations and outputSchema through getTools()', () => {
+      runtime.registerTool(readTool);
+      expect(runtime.getTools()[0]).toMatchObject({
+        annotations: { readOnlyHint: true },
+        outputSchema: { properties: { count: { type: 'integer' } } },
+      });
+    });
+  });
+
+  describe('lifecycle', () => {
+    const makeTool = (description: string) => ({
+      name: 'temp',
+      description,
+      inputSchema: { type: 'object' as const, properties: {}, required: [] as string[] },
+      handler: async () => ({ success: true }),
+    });
+
+    it('unregisters a tool by name', () => {
+      runtime.registerTool(makeTool('v1'));
+      expect(runtime.unregisterTool('temp')).toBe(true);
+      expect(runtime.getTools()).toEqual([]);
+    });
+
+    it('returns false when unregistering an unknown tool', () => {
+      expect(runtime.unregisterTool('missing')).toBe(false);
+    });
+
+    it('returns a disposer that removes the registration', async () => {
+      const dispose = runtime.registerTool(makeTool('v1'));
+      dispose();
+      expect(runtime.getTools()).toEqual([]);
+      await expect(runtime.invokeTool('temp', {})).rejects.toThrow('not found');
+    });
+
+    it('disposer leaves a newer registration under the same name alone', () => {
+      const disposeOld = runtime.registerTool(makeTool('v1'));
+      runtime.registerTool(makeTool('v2'));
+      disposeOld();
+      expect(runtime.getTools().map(t => t.description)).toEqual(['v2']);
+    });
+  });
+
+  describe('audit log', () => {
+    const echo = {
+      name: 'login',
+      description: 'Log in',
+      inputSchema: { type: 'object' as const, properties: {}, required: [] as string[] },
+      handler: async (params: Record<string, unknown>) => ({ success: params.ok !== false, message: 'done' }),
+    };
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('records each invocation with timing and outcome', async () => {
+      runtime.registerTool(echo);
+      await runtime.invokeTool('login', { user: 'ann' });
+      await runtime.invokeTool('login', { user: 'bob', ok: false });
+
+      const log = runtime.getAuditLog();
+      expect(log).toHaveLength(2);
+      expect(log[0]).toMatchObject({ id: 1, tool: 'login', params: { user: 'ann' }, success: true, message: 'done' });
+      expect(log[1]).toMatchObject({ id: 2, success: false });
+      expect(log[0].durationMs).toBeGreaterThanOrEqual(0);
+      expect(typeof log[0].startedAt).toBe('number');
+    });
+
+    it('keeps only the most recent entries', async () => {
+      const rt = createMCPRuntime({ audit: { maxEntries: 2 } });
+      rt.registerTool(echo);
+      for (const user of ['a', 'b', 'c']) await rt.invokeTool('login', { user });
+      expect(rt.getAuditLog().map(e => e.params.user)).toEqual(['b', 'c']);
+    });
+
+    it('redacts sensitive params by default and by configured name', async () => {
+      const rt = createMCPRuntime({ audit: { redact: ['pin'] } });
+      rt.registerTool(echo);
+      await rt.invokeTool('login', { user: 'ann', password: 'hunter2', pin: '1234', spin: 'x' });
+      expect(rt.getAuditLog()[0].params).toEqual({
+        user: 'ann',
+        password: '[redacted]',
+        pin: '[redacted]',
+        spin: 'x',
+      });
+    });
+
+    it('matches built-in names by whole word, and can drop them', async () => {
+      const rt = createMCPRuntime();
+      rt.registerTool(echo);
+      await rt.invokeTool('login', {
+        businessName: 'Acme', passenger: 'ann', wildcard: '*', compass: 'N', class_names: 'x',
+        cardNumber: '4242', accessToken: 'abc', API_KEY: 'k', SSN: '1', user_passcode: '0000',
+      });
+      expect(rt.getAuditLog()[0].params).toEqual({
+        businessName: 'Acme', passenger: 'ann', wildcard: '*', compass: 'N', class_names: 'x',
+        cardNumber: '[redacted]', accessToken: '[redacted]', API_KEY: '[redacted]', SSN: '[redacted]',
+        user_passcode: '[redacted]',
+      });
+
+      const onlyPin = createMCPRuntime({ audit: { builtins: false, redact: ['pin'] } });
+      onlyPin.registerTool(echo);
+      await onlyPin.invokeTool('login', { password: 'hunter2', pin: '1234' });
+      expect(onlyPin.getAuditLog()[0].params).toEqual({ password: 'hunter2', pin: '[redacted]' });
+    });
+
+    it('dispatches invoked and completed events with redacted params', async () => {
+      const target = new EventTarget();
+      vi.stubGlobal('window', target);
+      const events: { type: string; detail: any }[] = [];
+      for (const type of ['mcp:tool-invoked', 'mcp:tool-completed']) {
+        target.addEventListener(type, (e) => events.push({ type, detail: (e as CustomEvent).detail }));
+      }
+
+      const rt = createMCPRuntime();
+      rt.registerTool(echo);
+      await rt.invokeTool('login', { user: 'ann', token: 'abc' });
+
+      expect(events.map(e => e.type)).toEqual(['mcp:tool-invoked', 'mcp:tool-completed']);
+      expect(events[0].detail).toMatchObject({ id: 1, name: 'login', params: { user: 'ann', token: '[redacted]' } });
+      expect(events[1].detail).toMatchObject({ id: 1, success: true, result: { success: true, message: 'done' } });
+      expect(events[1].detail.durationMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it('redacts nested params and the completed result at any depth', async () => {
+      const target = new EventTarget();
+      vi.stubGlobal('window', target);
+      let completed: any;
+      target.addEventListener('mcp:tool-completed', (e) => { completed = (e as CustomEvent).detail; });
+
+      const rt = createMCPRuntime();
+      rt.registerTool({
+        ...echo,
+        name: 'read_accounts',
+        handler: async () => ({
+          success: true,
+          data: { rows: [{ user: 'ann', api_key: 'k1' }], owner: { name: 'bob', password: 'x' } },
+        }),
+      });
+      const params = { accounts: [{ user: 'ann', password: 'hunter2' }], billing: { zip: '02139', cvv: '123' } };
+      const result = await rt.invokeTool('read_accounts', params);
+
+      expect(rt.getAuditLog()[0].params).toEqual({
+        accounts: [{ user: 'ann', password: '[redacted]' }],
+        billing: { zip: '02139', cvv: '[redacted]' },
+      });
+      expect(completed.result.data).toEqual({
+        rows: [{ user: 'ann', api_key: '[redacted]' }],
+        owner: { name: 'bob', password: '[redacted]' },
+      });
+      // The caller still gets the real values
+      expect(result.data).toMatchObject({ rows: [{ api_key: 'k1' }] });
+      expect(params.accounts[0].password).toBe('hunter2');
+    });
+  });
+
+  describe('bridge client', () => {
+    class FakeSocket extends EventTarget {
+      static OPEN = 1;
+      static last: FakeSocket;
+      readyState = 0;
+      sent: any[] = [];
+      constructor(public url: string) {
+        super();
+        FakeSocket.last = this;
+      }
+      send(data: string) { this.sent.push(JSON.parse(data)); }
+      close() { this.readyState = 3; this.dispatchEvent(new Event('close')); }
+      open() { this.readyState = 1; this.dispatchEvent(new Event('open')); }
+      receive(message: unknown) {
+        this.dispatchEvent(Object.assign(new Event('message'), { data: JSON.stringify(message) }));
+      }
+    }
+
+    const flush = () => new Promise(resolve => setTimeout(resolve, 0));
+
+    beforeEach(() => {
+      vi.stubGlobal('WebSocket', FakeSocket);
+      vi.stubGlobal('window', new EventTarget());
+    });
+
+    afterEach(() => {
+      vi.unstubAllGlobals();
+    });
+
+    it('answers list and call requests from the bridge', async () => {
+      const rt = createMCPRuntime();
+      rt.registerTool({
+        name: 'delete_account',
+        description: 'Delete the account',
+        risk: 'destructive',
+        inputSchema: { type: 'object', properties: {}, required: [] },
+        handler: async () => ({ success: true, message: 'Deleted' }),
+      });
+      const disconnect = connectBridge(rt, { url: 'ws://127.0.0.1:9999', reconnectMs: 0 });
+      const socket = FakeSocket.last;
+      expect(socket.url).toBe('ws://127.0.0.1:9999');
+
+      socket.open();
+      expect(socket.sent[0]).toMatchObject({ type: 'hello' });
+
+      socket.receive({ type: 'list', id: 1 });
+      await flush();
+      expect(socket.sent[1]).toEqual({
+        type: 'result',
+        id: 1,
+        result: [{
+          name: 'delete_account',
+          description: 'Delete the account',
+          inputSchema: { type: 'object', properties: {}, required: [] },
+          risk: 'destructive',
+          annotations: { destructiveHint: true },
+        }],
+      });
+
+      // Destructive tools still ask in the page; outside a browser that means no
+      socket.receive({ type: 'call', id: 2, name: 'delete_account', params: {} });
+      await flush();
+      expect(socket.sent[2]).toMatchObject({ type: 'result', id: 2, result: { isError: true } });
+
+      socket.receive({ type: 'call', id: 3, name: 'missing', params: {} });
+      await flush();
+      expect(socket.sent[3]).toMatchObject({ type: 'error', id: 3 });
+
+      disconnect();
+    });
+
+    it('tells the bridge when tools change', () => {
+      const rt = createMCPRuntime();
+      const disconnect = connectBridge(rt, { reconnectMs: 0 });
+      const socket = FakeSocket.last;
+      socket.open();
+
+      rt.registerTool({
+        name: 'save',
+        description: 'Save',
+        inputSchema: { type: 'object', properties: {}, required: [] },
+        handler: async () => ({ success: true }),
+      });
+      expect(socket.sent.at(-1)).toEqual({ type: 'tools-changed' });
+
+      disconnect();
+      rt.unregisterTool('save');
+      expect(socket.sent.filter(m => m.type === 'tools-changed')).toHaveLength(1);
+    });
+  });
 });
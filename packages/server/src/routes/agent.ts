@@ -3,9 +3,12 @@ import { parseFile } from 'webmcp-instrument-engine/parser';
 import { buildProposals } from 'webmcp-instrument-engine/proposal';
 import { NoneAdapter } from 'webmcp-instrument-engine/llm';
 import { generateMCPCode } from 'webmcp-instrument-engine/generator';
+import { applyToolManifest } from 'webmcp-instrument-engine/manifest';
 import { createHash } from 'node:crypto';
 import { cacheProposal, getLatestProposal } from '../state/proposal-cache.js';
-import type { ToolProposal } from 'webmcp-instrument-engine';
+import { getToolManifest } from '../state/tool-manifest.js';
+import { getConfig } from '../state/config.js';
+import type { ToolManifest, ToolProposal, WebMCPConfig } from 'webmcp-instrument-engine';
 
 export const agentRouter = Router();
 
@@ -89,9 +92,10 @@ function formatProposals(proposals: ToolProposal[]): string {
 
   for (const p of proposals) {
     const emoji = RISK_EMOJI[p.risk] ?? '⚪';
-    const pre = p.selected ? '✅' : '⬜';
+    const pre = p.review === 'rejected' ? '⛔' : p.selected ? '✅' : '⬜';
+    const isNew = p.review === 'unreviewed' ? ' 🆕' : '';
     const fields = Object.keys(p.inputSchema.properties).join(', ') || 'none';
-    lines.push(`${pre} **[${p.index}] ${p.name}** ${emoji} \`${p.risk}\``);
+    lines.push(`${pre} **[${p.index}] ${p.name}** ${emoji} \`${p.risk}\`${isNew}`);
     lines.push(`   ${p.description}`);
     lines.push(`   Fields: \`${fields}\``);
     lines.push('');
@@ -100,6 +104,12 @@ function formatProposals(proposals: ToolProposal[]): string {
   lines.push('---');
   lines.push('Reply with the tool numbers to generate (e.g. `1,2`) or `all` to generate all safe tools.');
   lines.push('Destructive tools (🔴) are unchecked by default — include their number explicitly to generate them.');
+  if (proposals.some(p => p.review === 'rejected')) {
+    lines.push('Tools rejected in the project\'s `webmcp.tools.json` (⛔) are never generated.');
+  }
+  if (proposals.some(p => p.review === 'unreviewed')) {
+    lines.push('New tools (🆕) have not been reviewed yet — record a decision with `webmcp instrument`.');
+  }
 
   return lines.join('\n');
 }
@@ -127,11 +137,28 @@ agentRouter.post('/', async (req: Request, res: Response) => {
       return;
     }
 
+    let manifest: ToolManifest;
+    try {
+      manifest = getToolManifest();
+    } catch (err) {
+      streamSSE(res, `❌ **Invalid tool manifest**\n\n\`${(err as Error).message}\``);
+      return;
+    }
+
+    let config: WebMCPConfig;
+    try {
+      config = await getConfig();
+    } catch (err) {
+      streamSSE(res, `❌ **Invalid config**\n\n\`${(err as Error).message}\``);
+      return;
+    }
+
     try {
       // Detect file type (tsx by default)
       const fileName = 'component.tsx';
       const analysis = parseFile(sourceCode, fileName);
-      const proposals = buildProposals(analysis);
+      // Classification rules from the config, then reviewed decisions and overrides from webmcp.tools.json
+      const proposals = applyToolManifest(buildProposals(analysis, config), manifest);
 
       if (proposals.length === 0) {
         streamSSE(res, '⚠️ **No instrumentable elements found**\n\nThis component has no forms, buttons, or interactive elements that can be wrapped as MCP tools.\n\nTry pointing at a specific page or form component.');
@@ -159,11 +186,11 @@ agentRouter.post('/', async (req: Request, res: Response) => {
     }
 
     const selectionResult = parseSelection(userMessage, cached.proposals.length);
-    const selected = selectionResult === 'all'
+    const selected = (selectionResult === 'all'
       ? cached.proposals.filter(p => p.risk !== 'excluded')
       : cached.proposals.filter(p =>
         Array.isArray(selectionResult) && selectionResult.includes(p.index)
-      );
+      )).filter(p => p.review !== 'rejected');
 
     if (selected.length === 0) {
       streamSSE(res, '⚠️ **No valid tools selected.**\n\nPlease reply with tool numbers (e.g. `1,2`) or `all`.');
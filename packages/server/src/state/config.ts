@@ -0,0 +1,12 @@
+import { loadConfig } from 'webmcp-instrument-engine';
+import type { WebMCPConfig } from 'webmcp-instrument-engine';
+
+// ── Project config ──────────────────────────────────────────
+
+/**
+ * `.webmcprc.json` (or package.json#webmcp) nearest to `WEBMCP_CONFIG_DIR`,
+ * or to the working directory. Read on every request, like the manifest.
+ */
+export function getConfig(): Promise<WebMCPConfig> {
+    return loadConfig(process.env.WEBMCP_CONFIG_DIR ?? process.cwd());
+}
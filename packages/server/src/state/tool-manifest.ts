@@ -0,0 +1,13 @@
+import { resolve } from 'node:path';
+import { loadToolManifest, TOOL_MANIFEST_FILE } from 'webmcp-instrument-engine/manifest';
+import type { ToolManifest } from 'webmcp-instrument-engine';
+
+// ── Reviewed tool manifest ──────────────────────────────────
+
+/**
+ * `WEBMCP_TOOLS_MANIFEST`, or webmcp.tools.json in the working directory.
+ * Read on every request, so new reviews apply without a restart.
+ */
+export function getToolManifest(): ToolManifest {
+    return loadToolManifest(resolve(process.env.WEBMCP_TOOLS_MANIFEST ?? TOOL_MANIFEST_FILE));
+}
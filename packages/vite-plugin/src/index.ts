@@ -1,13 +1,19 @@
-import type { Plugin } from 'vite';
+import type { Plugin, ViteDevServer } from 'vite';
+import type { ParseOptions, ToolManifest, WebMCPConfig } from 'webmcp-instrument-engine/types';
 import { parseFile } from 'webmcp-instrument-engine/parser';
 import { buildProposals } from 'webmcp-instrument-engine/proposal';
+import { findPatternErrors } from 'webmcp-instrument-engine/classifier';
 import { generateMCPCodeSync } from 'webmcp-instrument-engine/generator';
+import { findScanFiles, DEFAULT_SCAN_INCLUDE, DEFAULT_SCAN_EXCLUDE } from 'webmcp-instrument-engine/scan';
+import { loadToolManifest, applyToolManifest, TOOL_MANIFEST_FILE } from 'webmcp-instrument-engine/manifest';
 import { readFileSync, existsSync } from 'fs';
-import fg from 'fast-glob';
-const { globSync } = fg;
+import { resolve, relative, sep } from 'path';
 
 export interface WebMCPPluginOptions {
+    /** Component globs, relative to the project root. Same defaults as `webmcp scan` */
     include?: string[];
+    /** Globs to skip. Default: node_modules, `.d.ts`, tests and stories */
+    exclude?: string[];
     llm?: string; // e.g. 'openai'
     /**
      * How to inject the virtual module into the app.
@@ -26,35 +32,113 @@ export interface WebMCPPluginOptions {
      * @default /\/src\/main\.(tsx?|jsx?)(\?.*)?$/
      */
     entry?: RegExp | string;
+    /**
+     * Parser options. Set `parser: { project: {} }` to follow imports and
+     * include the fields of child components in each form's tools.
+     */
+    parser?: ParseOptions;
+    /**
+     * Risk policy, same shape as `classification` in `.webmcprc.json`:
+     * custom rules, include/exclude lists and destructive handling.
+     */
+    classification?: WebMCPConfig['classification'];
+    /** Tool shape to emit, same as `specVersion` in `.webmcprc.json`. Default: the latest MCP spec */
+    specVersion?: WebMCPConfig['specVersion'];
+    /**
+     * Reviewed tool manifest, relative to the project root. When the file
+     * exists, rejected tools are not registered and overrides apply.
+     * `false` ignores it.
+     * @default 'webmcp.tools.json'
+     */
+    manifest?: string | false;
+    /**
+     * Tools the manifest has no decision for yet. `'register'` keeps them
+     * (with a warning), `'skip'` registers reviewed tools only.
+     * @default 'register'
+     */
+    unreviewed?: 'register' | 'skip';
 }
 
 const VIRTUAL_MODULE_ID = 'virtual:webmcp-tools';
 const RESOLVED_VIRTUAL_MODULE_ID = '\0' + VIRTUAL_MODULE_ID;
 
 export default function webmcpPlugin(options: WebMCPPluginOptions = {}): Plugin {
-    const includeGlobs = options.include || ['src/**/*.tsx', 'src/**/*.jsx', 'src/**/*.vue'];
+    const globs = {
+        include: options.include || DEFAULT_SCAN_INCLUDE,
+        exclude: options.exclude || DEFAULT_SCAN_EXCLUDE,
+    };
     const injectMode = options.inject ?? 'html';
+    const manifestPath = options.manifest === false
+        ? undefined
+        : resolve(process.cwd(), options.manifest ?? TOOL_MANIFEST_FILE);
+    let manifest: ToolManifest | undefined;
     let generatedCodes: Map<string, string> = new Map();
+    // Files the globs matched, relative to the root. Edits don't change it; adds and deletes re-glob
+    let scanFiles = new Set<string>();
+
+    function loadManifest() {
+        manifest = manifestPath && existsSync(manifestPath) ? loadToolManifest(manifestPath) : undefined;
+    }
 
-    function scanAndGenerateAll() {
+    async function scanAndGenerateAll() {
+        loadManifest();
         generatedCodes.clear();
         const cwd = process.cwd();
-        const files = includeGlobs.flatMap(g => globSync(g, { absolute: true, cwd }));
-        for (const file of files) {
-            if (existsSync(file)) {
-                generateForFile(file);
+        scanFiles = new Set(await findScanFiles({ ...globs, cwd }));
+        for (const file of scanFiles) {
+            const path = resolve(cwd, file);
+            if (existsSync(path)) {
+                generateForFile(path);
             }
         }
     }
 
+    function isScanFile(file: string) {
+        return scanFiles.has(relative(process.cwd(), file).split(sep).join('/'));
+    }
+
+    /** A review changes which tools every file registers */
+    async function reloadAll(server: ViteDevServer) {
+        try {
+            await scanAndGenerateAll();
+        } catch (err) {
+            console.warn(`[WebMCP] ${(err as Error).message}`);
+            return;
+        }
+        reloadTools(server);
+    }
+
+    function reloadTools(server: ViteDevServer) {
+        // Invalidate the virtual module so Vite re-loads it
+        const mod = server.moduleGraph.getModuleById(RESOLVED_VIRTUAL_MODULE_ID);
+        if (mod) {
+            server.moduleGraph.invalidateModule(mod);
+        }
+
+        server.ws.send({
+            type: 'full-reload',
+            path: '*'
+        });
+    }
+
     function generateForFile(file: string, context: 'scan' | 'hmr' = 'scan') {
         try {
             const source = readFileSync(file, 'utf-8');
-            const analysis = parseFile(source, file);
-            const proposals = buildProposals(analysis);
+            const analysis = parseFile(source, file, options.parser);
+            let proposals = buildProposals(analysis, { classification: options.classification });
+            if (manifest) proposals = applyToolManifest(proposals, manifest);
 
-            // Filter out excluded tools
-            const validProposals = proposals.filter(p => p.risk !== 'excluded');
+            // Filter out excluded tools, and those rejected (or not yet reviewed) in the manifest
+            const validProposals = proposals.filter(p =>
+                p.risk !== 'excluded'
+                && p.review !== 'rejected'
+                && !(p.review === 'unreviewed' && options.unreviewed === 'skip'));
+
+            const shortPath = file.replace(process.cwd().replace(/\\/g, '/'), '.').replace(/\\/g, '/');
+            const unreviewed = proposals.filter(p => p.review === 'unreviewed' && p.risk !== 'excluded').length;
+            if (unreviewed > 0) {
+                console.warn(`[WebMCP] ${shortPath}: ${unreviewed} tool${unreviewed !== 1 ? 's' : ''} not reviewed in ${TOOL_MANIFEST_FILE}${options.unreviewed === 'skip' ? ' (skipped)' : ''}`);
+            }
 
             if (validProposals.length === 0) {
                 generatedCodes.delete(file);
@@ -63,11 +147,11 @@ export default function webmcpPlugin(options: WebMCPPluginOptions = {}): Plugin
 
             const code = generateMCPCodeSync(validProposals, {
                 format: 'esm',
-                framework: analysis.framework
+                framework: analysis.framework,
+                specVersion: options.specVersion,
             });
             generatedCodes.set(file, code);
 
-            const shortPath = file.replace(process.cwd().replace(/\\/g, '/'), '.').replace(/\\/g, '/');
             if (context === 'scan') {
                 console.log(`[WebMCP] Scanned: ${shortPath} (${validProposals.length} tool${validProposals.length !== 1 ? 's' : ''} proposed)`);
             } else {
@@ -82,8 +166,13 @@ export default function webmcpPlugin(options: WebMCPPluginOptions = {}): Plugin
         name: 'vite-plugin-webmcp',
         enforce: 'pre',
 
-        buildStart() {
-            scanAndGenerateAll();
+        async buildStart() {
+            // A pattern that doesn't compile would otherwise drop every tool of the files it's checked against
+            const patternErrors = findPatternErrors({ classification: options.classification });
+            if (patternErrors.length > 0) {
+                this.error(`[WebMCP] Invalid classification option: ${patternErrors.join('; ')}`);
+            }
+            await scanAndGenerateAll();
         },
 
         resolveId(id) {
@@ -111,21 +200,29 @@ export default function webmcpPlugin(options: WebMCPPluginOptions = {}): Plugin
             }
         },
 
-        handleHotUpdate({ file, server }) {
-            if (includeGlobs.some(g => file.match(new RegExp(g.replace('**/*', '.*').replace('*', '.*'))))) {
-                generateForFile(file, 'hmr');
+        configureServer(server) {
+            // Only adding or deleting a file can change what the globs match
+            const refresh = async (file: string) => {
+                if (manifestPath && resolve(file) === manifestPath) return reloadAll(server);
 
-                // Invalidate the virtual module so Vite re-loads it
-                const mod = server.moduleGraph.getModuleById(RESOLVED_VIRTUAL_MODULE_ID);
-                if (mod) {
-                    server.moduleGraph.invalidateModule(mod);
-                }
+                const wasScanned = isScanFile(file);
+                scanFiles = new Set(await findScanFiles({ ...globs, cwd: process.cwd() }));
+                const scanned = isScanFile(file);
+                if (!wasScanned && !scanned) return;
 
-                server.ws.send({
-                    type: 'full-reload',
-                    path: '*'
-                });
-            }
+                if (scanned) generateForFile(file, 'hmr');
+                else generatedCodes.delete(file);
+                reloadTools(server);
+            };
+            server.watcher.on('add', refresh);
+            server.watcher.on('unlink', refresh);
+        },
+
+        async handleHotUpdate({ file, server }) {
+            if (manifestPath && resolve(file) === manifestPath) return reloadAll(server);
+            if (!isScanFile(file)) return;
+            generateForFile(file, 'hmr');
+            reloadTools(server);
         },
 
         // ── Primary injection: HTML <script src="/@id/..."> ──────────────
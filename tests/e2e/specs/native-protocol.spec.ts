@@ -70,7 +70,7 @@ test.describe('Native WebMCP Protocol (navigator.modelContext)', () => {
         expect(mcpExists).toBe(false);
     });
 
-    test('tool registered via native path has correct schema and handler', async ({ page }) => {
+    test('tool registered via native path has correct schema and execute', async ({ page }) => {
         // 1. Mock navigator.modelContext
         await page.addInitScript(() => {
             const registeredTools = new Map();
@@ -103,6 +103,7 @@ test.describe('Native WebMCP Protocol (navigator.modelContext)', () => {
                 hasId: typeof tool.id === 'string' && tool.id.length > 0,
                 hasDescription: typeof tool.description === 'string' && tool.description.length > 0,
                 hasHandler: typeof tool.handler === 'function',
+                hasExecute: typeof tool.execute === 'function',
                 hasInputSchema: !!tool.inputSchema,
                 schemaType: tool.inputSchema?.type,
                 hasProperties: !!tool.inputSchema?.properties,
@@ -115,6 +116,7 @@ test.describe('Native WebMCP Protocol (navigator.modelContext)', () => {
         expect(toolInfo!.hasId).toBe(true);
         expect(toolInfo!.hasDescription).toBe(true);
         expect(toolInfo!.hasHandler).toBe(true);
+        expect(toolInfo!.hasExecute).toBe(true);
         expect(toolInfo!.hasInputSchema).toBe(true);
         expect(toolInfo!.schemaType).toBe('object');
         expect(toolInfo!.hasProperties).toBe(true);
@@ -0,0 +1,39 @@
+import { Component } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { FormBuilder, Validators } from '@angular/forms';
+
+const COUNTRIES = [
+  { code: 'DE', name: 'Germany' },
+  { code: 'FR', name: 'France' },
+  { code: 'US', name: 'United States' },
+];
+
+@Component({
+  selector: 'app-checkout',
+  templateUrl: './checkout.component.html',
+})
+export class CheckoutComponent {
+  countries = COUNTRIES;
+
+  form = this.fb.group({
+    email: ['', [Validators.required, Validators.email]],
+    quantity: [1, [Validators.required, Validators.min(1), Validators.max(10)]],
+    country: ['DE', Validators.required],
+    giftWrap: [false],
+  });
+
+  constructor(private fb: FormBuilder, private api: HttpClient) {}
+
+  async placeOrder() {
+    if (this.form.invalid) return;
+    this.submitOrder(this.form.value);
+  }
+
+  cancelOrder() {
+    this.api.delete('/api/orders/current').subscribe();
+  }
+
+  private submitOrder(order: unknown) {
+    this.api.post<{ id: string }>('/api/orders', order).subscribe();
+  }
+}
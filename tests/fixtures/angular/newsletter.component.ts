@@ -0,0 +1,30 @@
+import { Component, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+
+@Component({
+  selector: 'app-newsletter',
+  template: `
+    <form (ngSubmit)="subscribe()">
+      <label>
+        Name
+        <input name="name" [(ngModel)]="model.name" required minlength="2" />
+      </label>
+      <select name="frequency" [(ngModel)]="model.frequency">
+        @for (f of frequencies; track f) {
+          <option [value]="f">{{ f }}</option>
+        }
+      </select>
+      <button type="submit">Subscribe</button>
+    </form>
+  `,
+})
+export class NewsletterComponent {
+  private http = inject(HttpClient);
+
+  frequencies = ['daily', 'weekly', 'monthly'];
+  model = { name: '', frequency: 'weekly' };
+
+  subscribe() {
+    this.http.post('/api/newsletter', this.model).subscribe();
+  }
+}
@@ -0,0 +1,48 @@
+import React, { useState } from 'react';
+
+export default function CheckoutWizard() {
+  const [step, setStep] = useState(1);
+  const [form, setForm] = useState({ email: '', address: '', city: '', card: '', terms: false });
+
+  const update = (field: string) => (e: React.ChangeEvent<HTMLInputElement>) =>
+    setForm({ ...form, [field]: e.target.type === 'checkbox' ? e.target.checked : e.target.value });
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await fetch('/api/orders', { method: 'POST', body: JSON.stringify(form) });
+  };
+
+  return (
+    <form id="checkout" onSubmit={handleSubmit}>
+      <h2>Checkout</h2>
+
+      {step === 1 && (
+        <section>
+          <input id="email" type="email" value={form.email} onChange={update('email')} placeholder="Email" required />
+          <button type="button" onClick={() => setStep(step + 1)}>Next</button>
+        </section>
+      )}
+
+      {step === 2 && (
+        <section>
+          <input id="address" value={form.address} onChange={update('address')} placeholder="Street address" required />
+          <input id="city" value={form.city} onChange={update('city')} placeholder="City" required />
+          <button type="button" onClick={() => setStep(step - 1)}>Back</button>
+          <button type="button" id="to-payment" onClick={() => setStep(3)}>Continue to payment</button>
+        </section>
+      )}
+
+      {step === 3 && (
+        <section>
+          <input id="card" value={form.card} onChange={update('card')} placeholder="Card number" required />
+          <label>
+            <input id="terms" type="checkbox" checked={form.terms} onChange={update('terms')} />
+            I accept the terms
+          </label>
+          <button type="button" onClick={() => setStep(2)}>Back</button>
+          <button type="submit" id="place-order">Place order</button>
+        </section>
+      )}
+    </form>
+  );
+}
@@ -0,0 +1,61 @@
+import { useState } from 'react';
+
+interface Attendee {
+  name: string;
+  email: string;
+}
+
+export default function EventRegistration() {
+  const [attendees, setAttendees] = useState<Attendee[]>([{ name: '', email: '' }]);
+  const [tags, setTags] = useState<string[]>([]);
+  const [tagDraft, setTagDraft] = useState('');
+
+  const updateAttendee = (index: number, field: keyof Attendee, value: string) => {
+    setAttendees(attendees.map((a, i) => (i === index ? { ...a, [field]: value } : a)));
+  };
+
+  const addTag = () => {
+    if (!tagDraft) return;
+    setTags([...tags, tagDraft]);
+    setTagDraft('');
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await fetch('/api/registrations', { method: 'POST', body: JSON.stringify({ attendees, tags }) });
+  };
+
+  return (
+    <form onSubmit={handleSubmit}>
+      {attendees.map((attendee, i) => (
+        <fieldset key={i}>
+          <input
+            id={`attendee-${i}-name`}
+            placeholder="Full name"
+            value={attendee.name}
+            onChange={e => updateAttendee(i, 'name', e.target.value)}
+            required
+          />
+          <input
+            id={`attendee-${i}-email`}
+            type="email"
+            placeholder="Email"
+            value={attendee.email}
+            onChange={e => updateAttendee(i, 'email', e.target.value)}
+          />
+        </fieldset>
+      ))}
+      <button id="add-attendee" type="button" onClick={() => setAttendees([...attendees, { name: '', email: '' }])}>
+        Add attendee
+      </button>
+
+      <input id="tag-input" placeholder="Add a tag" value={tagDraft} onChange={e => setTagDraft(e.target.value)} />
+      <button id="add-tag" type="button" onClick={addTag}>Add tag</button>
+      <ul>
+        {tags.map(tag => <li key={tag}>{tag}</li>)}
+      </ul>
+
+      <button type="submit">Register</button>
+    </form>
+  );
+}
@@ -0,0 +1,41 @@
+import { useForm, useFieldArray } from 'react-hook-form';
+
+interface LineItem {
+  description: string;
+  quantity: number;
+  price: number;
+}
+
+interface InvoiceValues {
+  customer: string;
+  items: LineItem[];
+}
+
+export default function InvoiceForm() {
+  const { register, control, handleSubmit } = useForm<InvoiceValues>({
+    defaultValues: { items: [{ description: '', quantity: 1, price: 0 }] },
+  });
+  const { fields, append, remove } = useFieldArray({ control, name: 'items' });
+
+  const onSubmit = async (values: InvoiceValues) => {
+    await fetch('/api/invoices', { method: 'POST', body: JSON.stringify(values) });
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)}>
+      <input id="customer" placeholder="Customer" {...register('customer', { required: true })} />
+      {fields.map((field, index) => (
+        <div key={field.id}>
+          <input placeholder="Description" {...register(`items.${index}.description`, { required: true })} />
+          <input type="number" placeholder="Quantity" {...register(`items.${index}.quantity`, { min: 1 })} />
+          <input type="number" placeholder="Price" {...register(`items.${index}.price`)} />
+          <button type="button" onClick={() => remove(index)}>Remove</button>
+        </div>
+      ))}
+      <button id="add-item" type="button" onClick={() => append({ description: '', quantity: 1, price: 0 })}>
+        Add item
+      </button>
+      <button type="submit">Create invoice</button>
+    </form>
+  );
+}
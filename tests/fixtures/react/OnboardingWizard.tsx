@@ -0,0 +1,39 @@
+import React, { useState } from 'react';
+
+type Stage = 'account' | 'profile';
+
+export function OnboardingWizard() {
+  const [stage, setStage] = useState<Stage>('account');
+  const [username, setUsername] = useState('');
+  const [bio, setBio] = useState('');
+
+  const handleAccount = (e: React.FormEvent) => {
+    e.preventDefault();
+    setStage('profile');
+  };
+
+  const finish = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await fetch('/api/onboarding', { method: 'POST', body: JSON.stringify({ username, bio }) });
+  };
+
+  if (stage === 'account') {
+    return (
+      <form id="account-step" onSubmit={handleAccount}>
+        <input name="username" value={username} onChange={e => setUsername(e.target.value)} placeholder="Username" />
+        <button type="submit" id="account-next">Create account</button>
+      </form>
+    );
+  }
+
+  if (stage === 'profile') {
+    return (
+      <form id="profile-step" onSubmit={finish}>
+        <textarea name="bio" value={bio} onChange={e => setBio(e.target.value)} placeholder="Short bio" />
+        <button type="submit" id="finish">Finish setup</button>
+      </form>
+    );
+  }
+
+  return null;
+}
@@ -0,0 +1,75 @@
+import React, { useState } from 'react';
+
+interface Order {
+  id: string;
+  customer: string;
+  total: number;
+  status: string;
+}
+
+interface OrdersPageProps {
+  orders: Order[];
+  notifications: string[];
+}
+
+export default function OrdersPage({ orders, notifications }: OrdersPageProps) {
+  const [email, setEmail] = useState('billing@example.com');
+
+  const handleSaveBilling = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await fetch('/api/billing', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ email }),
+    });
+  };
+
+  return (
+    <div>
+      <nav>
+        <ul>
+          <li><a href="/">Home</a></li>
+          <li><a href="/orders">Orders</a></li>
+        </ul>
+      </nav>
+
+      <h2>Recent Orders</h2>
+      <table id="orders-table">
+        <thead>
+          <tr>
+            <th>Order</th>
+            <th>Customer</th>
+            <th>Total</th>
+            <th>Status</th>
+          </tr>
+        </thead>
+        <tbody>
+          {orders.map(order => (
+            <tr key={order.id}>
+              <td>{order.id}</td>
+              <td>{order.customer}</td>
+              <td>{order.total}</td>
+              <td>{order.status}</td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <h2>Notifications</h2>
+      <ul>
+        {notifications.map(n => <li key={n}>{n}</li>)}
+      </ul>
+
+      <h2>Billing</h2>
+      <form onSubmit={handleSaveBilling}>
+        <input
+          id="billing-email"
+          type="email"
+          value={email}
+          onChange={(e) => setEmail(e.target.value)}
+        />
+        <button type="submit">Save Billing</button>
+      </form>
+    </div>
+  );
+}
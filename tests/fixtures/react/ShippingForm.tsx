@@ -0,0 +1,51 @@
+import React, { useState } from 'react';
+
+const COUNTRIES = [
+  { code: 'us', name: 'United States' },
+  { code: 'ca', name: 'Canada' },
+  { code: 'mx', name: 'Mexico' },
+] as const;
+
+const SPEEDS = ['standard', 'express', 'overnight'];
+
+export default function ShippingForm() {
+  const [country, setCountry] = useState('');
+  const [speed, setSpeed] = useState('standard');
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    await fetch('/api/shipping', {
+      method: 'POST',
+      body: JSON.stringify({ country, speed }),
+    });
+  };
+
+  return (
+    <form onSubmit={handleSubmit}>
+      <select name="country" value={country} onChange={(e) => setCountry(e.target.value)} required>
+        <option value="" disabled>Choose a country</option>
+        {COUNTRIES.map(({ code, name }) => (
+          <option key={code} value={code}>{name}</option>
+        ))}
+      </select>
+
+      {SPEEDS.map(s => (
+        <label key={s}>
+          <input
+            type="radio"
+            name="speed"
+            value={s}
+            checked={speed === s}
+            onChange={() => setSpeed(s)}
+          />
+          {s}
+        </label>
+      ))}
+
+      <input type="radio" name="gift" value="yes" /> Gift
+      <input type="radio" name="gift" value="no" /> Not a gift
+
+      <button type="submit">Continue</button>
+    </form>
+  );
+}
@@ -0,0 +1,40 @@
+import React from 'react';
+import { useForm } from 'react-hook-form';
+import { zodResolver } from '@hookform/resolvers/zod';
+import { z } from 'zod';
+
+const signupSchema = z.object({
+  email: z.string().email(),
+  website: z.string().url().optional(),
+  age: z.coerce.number().int().min(13).max(120),
+});
+
+type SignupValues = z.infer<typeof signupSchema>;
+
+export default function SignupForm() {
+  const { register, handleSubmit } = useForm<SignupValues>({
+    resolver: zodResolver(signupSchema),
+  });
+
+  const onSubmit = async (values: SignupValues) => {
+    await fetch('/api/signup', { method: 'POST', body: JSON.stringify(values) });
+  };
+
+  return (
+    <form onSubmit={handleSubmit(onSubmit)}>
+      <input type="email" {...register('email')} />
+      <input type="url" {...register('website')} />
+      <input type="number" {...register('age', { valueAsNumber: true })} />
+      <input
+        {...register('username', {
+          required: 'Pick a username',
+          minLength: { value: 3, message: 'Too short' },
+          maxLength: 20,
+          pattern: /^[a-z0-9_]+$/,
+        })}
+      />
+      <input type="number" name="seats" min="1" max="50" step="1" />
+      <button type="submit">Create account</button>
+    </form>
+  );
+}
@@ -0,0 +1,43 @@
+import { useState } from 'react';
+
+interface Todo {
+    id: string;
+    title: string;
+}
+
+interface TodoItemProps {
+    todo: Todo;
+    onToggle: (id: string) => void;
+    onArchive?: (id: string) => void;
+}
+
+function TodoItem({ todo, onToggle, onArchive }: TodoItemProps) {
+    return (
+        <li>
+            <span>{todo.title}</span>
+            <button onClick={() => onToggle(todo.id)}>Done</button>
+            <button onClick={() => onArchive?.(todo.id)}>Archive</button>
+        </li>
+    );
+}
+
+export default function TodoBoard() {
+    const [todos, setTodos] = useState<Todo[]>([]);
+
+    const markDone = async (id: string) => {
+        await fetch('/api/todos/done', { method: 'PATCH', body: JSON.stringify({ id }) });
+    };
+
+    async function archiveTodo(id: string) {
+        await fetch('/api/todos/archive', { method: 'DELETE', body: JSON.stringify({ id }) });
+        setTodos(todos.filter(t => t.id !== id));
+    }
+
+    return (
+        <ul id="todos">
+            {todos.map(t => (
+                <TodoItem key={t.id} todo={t} onToggle={markDone} onArchive={(id) => archiveTodo(id)} />
+            ))}
+        </ul>
+    );
+}
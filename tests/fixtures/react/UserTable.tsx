@@ -0,0 +1,46 @@
+import { useState } from 'react';
+
+interface User {
+  id: string;
+  name: string;
+  email: string;
+}
+
+export default function UserTable({ initialUsers }: { initialUsers: User[] }) {
+  const [users, setUsers] = useState<User[]>(initialUsers);
+
+  const resendInvite = async (user: User) => {
+    await fetch('/api/invites', { method: 'POST', body: JSON.stringify({ email: user.email }) });
+  };
+
+  const removeUser = async (id: string) => {
+    await fetch(`/api/users/${id}`, { method: 'DELETE' });
+    setUsers(users.filter(u => u.id !== id));
+  };
+
+  return (
+    <table id="users-table">
+      <thead>
+        <tr>
+          <th>Name</th>
+          <th>Email</th>
+          <th>Actions</th>
+        </tr>
+      </thead>
+      <tbody>
+        {users.map(user => (
+          <tr key={user.id} data-testid={`user-row-${user.id}`}>
+            <td>{user.name}</td>
+            <td>{user.email}</td>
+            <td>
+              <button aria-label={`Resend invite to ${user.name}`} onClick={() => resendInvite(user)}>
+                Resend
+              </button>
+              <button onClick={() => removeUser(user.id)}>Remove</button>
+            </td>
+          </tr>
+        ))}
+      </tbody>
+    </table>
+  );
+}
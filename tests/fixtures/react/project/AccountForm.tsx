@@ -0,0 +1,24 @@
+import { useState } from 'react';
+import { EmailField } from './fields/EmailField';
+import PlanSelect from '@/fields/PlanSelect';
+
+export default function AccountForm() {
+    const [email, setEmail] = useState('');
+    const [plan, setPlan] = useState('free');
+
+    const handleSubmit = async (e: React.FormEvent) => {
+        e.preventDefault();
+        await fetch('/api/accounts', {
+            method: 'POST',
+            body: JSON.stringify({ email, plan }),
+        });
+    };
+
+    return (
+        <form id="account-form" onSubmit={handleSubmit}>
+            <EmailField value={email} onChange={setEmail} />
+            <PlanSelect name="plan" label="Plan" value={plan} onChange={setPlan} />
+            <button type="submit">Create account</button>
+        </form>
+    );
+}
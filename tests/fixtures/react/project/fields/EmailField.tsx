@@ -0,0 +1,19 @@
+interface EmailFieldProps {
+    value: string;
+    onChange: (value: string) => void;
+}
+
+export function EmailField({ value, onChange }: EmailFieldProps) {
+    return (
+        <label>
+            Email address
+            <input
+                id="email"
+                type="email"
+                value={value}
+                onChange={(e) => onChange(e.target.value)}
+                required
+            />
+        </label>
+    );
+}
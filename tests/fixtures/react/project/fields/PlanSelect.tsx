@@ -0,0 +1,22 @@
+import { memo } from 'react';
+
+const PLANS = ['free', 'pro', 'enterprise'];
+
+interface PlanSelectProps {
+    name: string;
+    label: string;
+    value: string;
+    onChange: (value: string) => void;
+}
+
+function PlanSelect(props: PlanSelectProps) {
+    return (
+        <select name={props.name} value={props.value} onChange={(e) => props.onChange(e.target.value)}>
+            {PLANS.map((plan) => (
+                <option key={plan} value={plan}>{plan}</option>
+            ))}
+        </select>
+    );
+}
+
+export default memo(PlanSelect);